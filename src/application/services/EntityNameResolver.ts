@@ -0,0 +1,35 @@
+import { ITermRepository } from '../../domain/repositories/ITermRepository.js';
+import { RevisionEntityType } from '../../domain/types.js';
+import { Result } from '../../shared/types/functional.js';
+
+/**
+ * 項目名の解決サービス
+ * 変更履歴の参照・復元で指定された項目名を、履歴に記録されている正規の名前に解決する
+ */
+export class EntityNameResolver {
+  constructor(
+    private readonly termRepository: ITermRepository
+  ) {}
+
+  /**
+   * 指定された項目名を正規の名前に解決する
+   * 用語は別名でも指定でき、現存しない（削除済みの）用語は指定された名前のまま扱う
+   * @param entityType 項目の種類
+   * @param entityName 項目名（用語の場合は別名でも可）
+   * @returns 正規の項目名
+   */
+  async resolve(entityType: RevisionEntityType, entityName: string): Promise<Result<string, Error>> {
+    if (entityType === 'feature') {
+      return Result.success(entityName.trim());
+    }
+
+    const resolutionResult = await this.termRepository.findByNameOrAlias(entityName);
+    if (!resolutionResult.success) {
+      return Result.failure(resolutionResult.error);
+    }
+
+    return Result.success(
+      resolutionResult.value.isSome ? resolutionResult.value.value.term.name.value : entityName.trim()
+    );
+  }
+}
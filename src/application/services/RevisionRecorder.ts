@@ -0,0 +1,72 @@
+import { IRevisionRepository } from '../../domain/repositories/IRevisionRepository.js';
+import { FeatureData, TermData, RevisionData, RevisionEntityType, RevisionOperation } from '../../domain/types.js';
+import { Result, Option } from '../../shared/types/functional.js';
+import { CanonicalJson } from '../../shared/utils/canonicalJson.js';
+
+/**
+ * 変更履歴の記録サービス
+ * 保存・削除を行うユースケースから呼び出され、変更前後の値を履歴として残す
+ */
+export class RevisionRecorder {
+  constructor(
+    private readonly revisionRepository: IRevisionRepository
+  ) {}
+
+  /**
+   * 項目の変更を履歴に記録する
+   * 変更前後の内容が同一の場合（キーの順序のみが異なる場合を含む）は記録しない
+   * @param entityType 項目の種類
+   * @param entityName 項目名
+   * @param previousValue 変更前の値（新規作成時はnull）
+   * @param newValue 変更後の値（削除時はnull）
+   * @param actor 変更者
+   * @param restoredFrom 復元元のリビジョン番号（復元時のみ）
+   * @returns 記録した履歴（記録しなかった場合はNone）
+   */
+  async record(
+    entityType: RevisionEntityType,
+    entityName: string,
+    previousValue: FeatureData | TermData | null,
+    newValue: FeatureData | TermData | null,
+    actor: string,
+    restoredFrom?: number
+  ): Promise<Result<Option<RevisionData>, Error>> {
+    if (CanonicalJson.equals(previousValue, newValue)) {
+      return Result.success(Option.none());
+    }
+
+    const appendResult = await this.revisionRepository.append({
+      entityType,
+      entityName,
+      operation: this.determineOperation(previousValue, newValue, restoredFrom),
+      actor,
+      previousValue,
+      newValue,
+      ...(restoredFrom !== undefined && { restoredFrom }),
+    });
+    if (!appendResult.success) {
+      return Result.failure(appendResult.error);
+    }
+
+    return Result.success(Option.some(appendResult.value));
+  }
+
+  /**
+   * 変更前後の値から操作の種類を判定する
+   */
+  private determineOperation(
+    previousValue: FeatureData | TermData | null,
+    newValue: FeatureData | TermData | null,
+    restoredFrom?: number
+  ): RevisionOperation {
+    if (restoredFrom !== undefined) {
+      return 'restore';
+    }
+
+    if (previousValue === null) {
+      return 'create';
+    }
+
+    return newValue === null ? 'delete' : 'update';
+  }
+}
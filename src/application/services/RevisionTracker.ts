@@ -0,0 +1,99 @@
+import { IRevisionRepository } from '../../domain/repositories/IRevisionRepository.js';
+import { RevisionConflictError } from '../../domain/errors/RevisionConflictError.js';
+import { ExpectedRevision, FeatureData, TermData, RevisionData, RevisionEntityType } from '../../domain/types.js';
+import { Result, Option } from '../../shared/types/functional.js';
+
+/**
+ * リビジョン番号の管理サービス
+ * 項目の現在のリビジョンを変更履歴から求め、楽観的排他制御の照合を行う
+ * 変更履歴のない項目のリビジョンは0とする
+ */
+export class RevisionTracker {
+  constructor(
+    private readonly revisionRepository: IRevisionRepository
+  ) {}
+
+  /**
+   * 期待するリビジョンとして有効な値（0以上の整数または*）かを判定する
+   */
+  static isValidExpectedRevision(value: unknown): value is ExpectedRevision {
+    return value === '*' || (typeof value === 'number' && Number.isInteger(value) && value >= 0);
+  }
+
+  /**
+   * 項目の現在のリビジョン番号を取得する
+   * @param entityType 項目の種類
+   * @param entityName 項目名
+   * @returns 最新のリビジョン番号（変更履歴がない場合は0）
+   */
+  async currentRevision(entityType: RevisionEntityType, entityName: string): Promise<Result<number, Error>> {
+    const latestResult = await this.findLatest(entityType, entityName);
+    if (!latestResult.success) {
+      return Result.failure(latestResult.error);
+    }
+
+    return Result.success(latestResult.value.isSome ? latestResult.value.value.revisionNumber : 0);
+  }
+
+  /**
+   * 保存後のリビジョン番号を求める
+   * 変更がなく履歴を記録しなかった場合は現在のリビジョン番号を返す
+   * @param recorded 保存時に記録した変更履歴
+   */
+  async revisionAfter(
+    entityType: RevisionEntityType,
+    entityName: string,
+    recorded: Option<RevisionData>
+  ): Promise<Result<number, Error>> {
+    return recorded.isSome
+      ? Result.success(recorded.value.revisionNumber)
+      : this.currentRevision(entityType, entityName);
+  }
+
+  /**
+   * 期待するリビジョンと項目の現在のリビジョンを照合する
+   * 一致した場合は、保存直前の内容として期待する値（保存時の同時変更の検出に使用）を返す
+   * サーバー外での編集で変更履歴と保存先の内容が異なる場合もあるため、読み込んだ内容を期待する値とする
+   * @param expectedRevision 期待するリビジョン（省略時は照合しない）
+   * @param currentValue 読み込んだ項目の内容（存在しない場合はnull）
+   * @returns 期待する値（照合しなかった場合はundefined）
+   */
+  async verify<T extends FeatureData | TermData>(
+    entityType: RevisionEntityType,
+    entityName: string,
+    expectedRevision: ExpectedRevision | undefined,
+    currentValue: T | null
+  ): Promise<Result<T | null | undefined, Error>> {
+    if (expectedRevision === undefined) {
+      return Result.success(undefined);
+    }
+
+    const latestResult = await this.findLatest(entityType, entityName);
+    if (!latestResult.success) {
+      return Result.failure(latestResult.error);
+    }
+
+    const revision = latestResult.value.isSome ? latestResult.value.value.revisionNumber : 0;
+    const matches = expectedRevision === '*' ? currentValue !== null : expectedRevision === revision;
+    if (!matches) {
+      return Result.failure(new RevisionConflictError(entityType, entityName, expectedRevision, revision));
+    }
+
+    return Result.success(currentValue);
+  }
+
+  /**
+   * 項目の最新の変更履歴を取得する
+   */
+  private async findLatest(
+    entityType: RevisionEntityType,
+    entityName: string
+  ): Promise<Result<Option<RevisionData>, Error>> {
+    const revisionsResult = await this.revisionRepository.findByEntity(entityType, entityName);
+    if (!revisionsResult.success) {
+      return Result.failure(revisionsResult.error);
+    }
+
+    return Result.success(Option.fromNullable(revisionsResult.value[revisionsResult.value.length - 1]));
+  }
+}
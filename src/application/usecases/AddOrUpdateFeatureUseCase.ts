@@ -1,24 +1,65 @@
 import { Feature } from '../../domain/entities/Feature.js';
 import { FeatureName } from '../../domain/valueObjects/FeatureName.js';
 import { IFeatureRepository } from '../../domain/repositories/IFeatureRepository.js';
-import { FeatureData, OperationResultData } from '../../domain/types.js';
+import { SemanticValidationError } from '../../domain/errors/SemanticValidationError.js';
+import { FeatureSemanticValidator } from '../../domain/services/FeatureSemanticValidator.js';
+import {
+  ExpectedRevision,
+  FeatureData,
+  FeatureSaveResultData,
+  SemanticStrictness,
+} from '../../domain/types.js';
 import { Result } from '../../shared/types/functional.js';
+import { CONFIG } from '../../shared/constants/config.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+import { RevisionRecordingError } from '../../domain/errors/RevisionRecordingError.js';
+import { RevisionRecorder } from '../services/RevisionRecorder.js';
+import { RevisionTracker } from '../services/RevisionTracker.js';
+
+/**
+ * 機能定義追加・更新のオプション
+ */
+export interface AddOrUpdateFeatureOptions {
+  /** 機能定義内の参照の検証の厳格度（省略時は設定値） */
+  readonly strictness?: SemanticStrictness;
+  /** 変更履歴に記録する変更者 */
+  readonly actor?: string;
+  /** 更新対象に期待するリビジョン（省略時は照合しない） */
+  readonly expectedRevision?: ExpectedRevision;
+  /** 復元元のリビジョン番号（リビジョンの復元として履歴に記録する場合のみ） */
+  readonly restoredFrom?: number;
+  /**
+   * 変更内容の元にした読み込み時の内容（部分更新など、読み込んだ内容から変更内容を作る場合に指定）
+   * 指定した場合は、保存直前の内容がこれと異なれば同時変更として保存を拒否する
+   */
+  readonly expectedCurrent?: FeatureData;
+}
 
 /**
  * 機能定義追加・更新ユースケース
  * 機能定義の追加または更新に関するビジネスロジックを管理
  */
 export class AddOrUpdateFeatureUseCase {
+  private readonly semanticValidator = new FeatureSemanticValidator();
+
   constructor(
-    private readonly featureRepository: IFeatureRepository
+    private readonly featureRepository: IFeatureRepository,
+    private readonly revisionRecorder: RevisionRecorder,
+    private readonly revisionTracker: RevisionTracker
   ) {}
 
   /**
    * 機能定義を追加または更新する
    * @param featureData 機能定義データ
-   * @returns 操作結果
+   * @param options 意味検証の厳格度・変更者・期待するリビジョンなどのオプション
+   * @returns 操作結果と保存後のリビジョン（warnの場合は機能定義内の参照の問題を含む）
    */
-  async execute(featureData: FeatureData): Promise<Result<OperationResultData, Error>> {
+  async execute(
+    featureData: FeatureData,
+    options: AddOrUpdateFeatureOptions = {}
+  ): Promise<Result<FeatureSaveResultData, Error>> {
+    const strictness = options.strictness ?? CONFIG.VALIDATION.SEMANTIC_STRICTNESS;
+
     try {
       // 1. 機能定義エンティティの作成（バリデーション含む）
       const featureResult = Feature.create(featureData);
@@ -28,20 +69,57 @@ export class AddOrUpdateFeatureUseCase {
 
       const feature = featureResult.value;
 
-      // 2. 既存機能の存在確認
-      const existsResult = await this.featureRepository.exists(feature.name);
-      if (!existsResult.success) {
-        return Result.failure(existsResult.error);
+      // 2. 機能定義内の参照の検証
+      const semanticIssues = this.semanticValidator.validate(feature.data);
+      if (strictness === 'strict' && semanticIssues.length > 0) {
+        return Result.failure(new SemanticValidationError(semanticIssues));
+      }
+
+      // 3. 既存機能の取得（変更履歴の記録に使用）
+      const existingResult = await this.featureRepository.findByName(feature.name);
+      if (!existingResult.success) {
+        return Result.failure(existingResult.error);
+      }
+      const previousValue = existingResult.value.isSome ? existingResult.value.value.data : null;
+
+      // 4. 期待するリビジョンの照合
+      const verifyResult = await this.revisionTracker.verify(
+        'feature',
+        feature.name.value,
+        options.expectedRevision,
+        previousValue
+      );
+      if (!verifyResult.success) {
+        return Result.failure(verifyResult.error);
       }
 
-      // 3. 機能定義の保存
-      const saveResult = await this.featureRepository.save(feature);
+      // 5. 機能定義の保存
+      const expectedCurrent = options.expectedCurrent !== undefined ? options.expectedCurrent : verifyResult.value;
+      const saveResult = await this.featureRepository.save(feature, expectedCurrent);
       if (!saveResult.success) {
         return Result.failure(saveResult.error);
       }
 
-      // 4. 操作結果の返却
-      return Result.success(saveResult.value);
+      // 6. 変更履歴の記録
+      const recordResult = await this.revisionRecorder.record(
+        'feature',
+        feature.name.value,
+        previousValue,
+        feature.data,
+        options.actor ?? CONFIG.HISTORY.DEFAULT_ACTOR,
+        options.restoredFrom
+      );
+      if (!recordResult.success) {
+        return Result.failure(new RevisionRecordingError('feature', feature.name.value, recordResult.error));
+      }
+
+      // 7. 操作結果の返却
+      const revisionResult = await this.revisionTracker.revisionAfter('feature', feature.name.value, recordResult.value);
+      if (!revisionResult.success) {
+        return Result.failure(revisionResult.error);
+      }
+
+      return Result.success({ ...saveResult.value, semanticIssues, revision: revisionResult.value });
 
     } catch (error) {
       return Result.failure(
@@ -56,7 +134,15 @@ export class AddOrUpdateFeatureUseCase {
    * 機能定義データの事前検証
    * ユースケース実行前の軽量な検証
    */
-  validateInput(featureData: any): Result<void, Error> {
+  validateInput(featureData: any, strictness?: any, expectedRevision?: any): Result<void, Error> {
+    if (expectedRevision !== undefined && !RevisionTracker.isValidExpectedRevision(expectedRevision)) {
+      return Result.failure(new Error(MESSAGES.ERROR.INVALID_EXPECTED_REVISION()));
+    }
+
+    if (strictness !== undefined && !CONFIG.VALIDATION.SEMANTIC_STRICTNESS_VALUES.includes(strictness)) {
+      return Result.failure(new Error(MESSAGES.ERROR.INVALID_SEMANTIC_STRICTNESS()));
+    }
+
     if (!featureData || typeof featureData !== 'object') {
       return Result.failure(new Error('機能定義データが提供されていません'));
     }
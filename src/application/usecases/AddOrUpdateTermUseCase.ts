@@ -1,24 +1,70 @@
 import { Term } from '../../domain/entities/Term.js';
 import { TermName } from '../../domain/valueObjects/TermName.js';
+import { FeatureName } from '../../domain/valueObjects/FeatureName.js';
 import { ITermRepository } from '../../domain/repositories/ITermRepository.js';
-import { TermData, OperationResultData } from '../../domain/types.js';
+import { IFeatureRepository } from '../../domain/repositories/IFeatureRepository.js';
+import { ReferentialIntegrityError } from '../../domain/errors/ReferentialIntegrityError.js';
+import { AliasConflictError } from '../../domain/errors/AliasConflictError.js';
+import { TermResolver } from '../../domain/services/TermResolver.js';
+import {
+  TermData,
+  TermSaveResultData,
+  BrokenReferenceData,
+  ReferenceStrictness,
+  ExpectedRevision,
+} from '../../domain/types.js';
 import { Result } from '../../shared/types/functional.js';
+import { CONFIG } from '../../shared/constants/config.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+import { RevisionRecordingError } from '../../domain/errors/RevisionRecordingError.js';
+import { RevisionRecorder } from '../services/RevisionRecorder.js';
+import { RevisionTracker } from '../services/RevisionTracker.js';
+
+/**
+ * ユビキタス言語情報追加・更新のオプション
+ */
+export interface AddOrUpdateTermOptions {
+  /** 参照整合性チェックの厳格度（省略時は設定値） */
+  readonly strictness?: ReferenceStrictness;
+  /** 変更履歴に記録する変更者 */
+  readonly actor?: string;
+  /** 更新対象に期待するリビジョン（省略時は照合しない） */
+  readonly expectedRevision?: ExpectedRevision;
+  /** 復元元のリビジョン番号（リビジョンの復元として履歴に記録する場合のみ） */
+  readonly restoredFrom?: number;
+  /**
+   * 変更内容の元にした読み込み時の内容（部分更新など、読み込んだ内容から変更内容を作る場合に指定）
+   * 指定した場合は、保存直前の内容がこれと異なれば同時変更として保存を拒否する
+   */
+  readonly expectedCurrent?: TermData;
+}
 
 /**
  * ユビキタス言語情報追加・更新ユースケース
  * ユビキタス言語情報の追加または更新に関するビジネスロジックを管理
  */
 export class AddOrUpdateTermUseCase {
+  private readonly termResolver = new TermResolver();
+
   constructor(
-    private readonly termRepository: ITermRepository
+    private readonly termRepository: ITermRepository,
+    private readonly featureRepository: IFeatureRepository,
+    private readonly revisionRecorder: RevisionRecorder,
+    private readonly revisionTracker: RevisionTracker
   ) {}
 
   /**
    * ユビキタス言語情報を追加または更新する
    * @param termData ユビキタス言語情報データ
-   * @returns 操作結果
+   * @param options 参照整合性チェックの厳格度・変更者・期待するリビジョンなどのオプション
+   * @returns 操作結果と保存後のリビジョン（warnの場合は参照切れ一覧を含む）
    */
-  async execute(termData: TermData): Promise<Result<OperationResultData, Error>> {
+  async execute(
+    termData: TermData,
+    options: AddOrUpdateTermOptions = {}
+  ): Promise<Result<TermSaveResultData, Error>> {
+    const strictness = options.strictness ?? CONFIG.VALIDATION.REFERENCE_STRICTNESS;
+
     try {
       // 1. ユビキタス言語情報エンティティの作成（バリデーション含む）
       const termResult = Term.create(termData);
@@ -28,20 +74,68 @@ export class AddOrUpdateTermUseCase {
 
       const term = termResult.value;
 
-      // 2. 既存用語の存在確認
-      const existsResult = await this.termRepository.exists(term.name);
-      if (!existsResult.success) {
-        return Result.failure(existsResult.error);
+      // 2. 参照整合性の確認
+      const dependencyResult = await this.validateDependencies(term.data);
+      if (!dependencyResult.success) {
+        return Result.failure(dependencyResult.error);
+      }
+
+      const brokenReferences = dependencyResult.value;
+      if (strictness === 'strict' && brokenReferences.length > 0) {
+        return Result.failure(new ReferentialIntegrityError(brokenReferences));
+      }
+
+      // 3. 用語名・別名の重複の確認
+      const conflictResult = await this.validateAliasConflicts(term.data);
+      if (!conflictResult.success) {
+        return Result.failure(conflictResult.error);
+      }
+
+      // 4. 既存用語の取得（変更履歴の記録に使用）
+      const existingResult = await this.termRepository.findByName(term.name);
+      if (!existingResult.success) {
+        return Result.failure(existingResult.error);
+      }
+      const previousValue = existingResult.value.isSome ? existingResult.value.value.data : null;
+
+      // 5. 期待するリビジョンの照合
+      const verifyResult = await this.revisionTracker.verify(
+        'term',
+        term.name.value,
+        options.expectedRevision,
+        previousValue
+      );
+      if (!verifyResult.success) {
+        return Result.failure(verifyResult.error);
       }
 
-      // 3. ユビキタス言語情報の保存
-      const saveResult = await this.termRepository.save(term);
+      // 6. ユビキタス言語情報の保存
+      const expectedCurrent = options.expectedCurrent !== undefined ? options.expectedCurrent : verifyResult.value;
+      const saveResult = await this.termRepository.save(term, expectedCurrent);
       if (!saveResult.success) {
         return Result.failure(saveResult.error);
       }
 
-      // 4. 操作結果の返却
-      return Result.success(saveResult.value);
+      // 7. 変更履歴の記録
+      const recordResult = await this.revisionRecorder.record(
+        'term',
+        term.name.value,
+        previousValue,
+        term.data,
+        options.actor ?? CONFIG.HISTORY.DEFAULT_ACTOR,
+        options.restoredFrom
+      );
+      if (!recordResult.success) {
+        return Result.failure(new RevisionRecordingError('term', term.name.value, recordResult.error));
+      }
+
+      // 8. 操作結果の返却
+      const revisionResult = await this.revisionTracker.revisionAfter('term', term.name.value, recordResult.value);
+      if (!revisionResult.success) {
+        return Result.failure(revisionResult.error);
+      }
+
+      return Result.success({ ...saveResult.value, brokenReferences, revision: revisionResult.value });
 
     } catch (error) {
       return Result.failure(
@@ -52,11 +146,37 @@ export class AddOrUpdateTermUseCase {
     }
   }
 
+  /**
+   * 用語名・別名が他のユビキタス言語の用語名・別名と重複していないかを確認する
+   * 重複がある場合は別名で用語を一意に解決できなくなるため、厳格度の設定にかかわらず保存を拒否する
+   */
+  async validateAliasConflicts(termData: TermData): Promise<Result<void, Error>> {
+    const termsResult = await this.termRepository.findAll();
+    if (!termsResult.success) {
+      return Result.failure(termsResult.error);
+    }
+
+    const conflicts = this.termResolver.findConflicts(termData, termsResult.value);
+    if (conflicts.length > 0) {
+      return Result.failure(new AliasConflictError(conflicts));
+    }
+
+    return Result.success(undefined);
+  }
+
   /**
    * ユビキタス言語情報データの事前検証
    * ユースケース実行前の軽量な検証
    */
-  validateInput(termData: any): Result<void, Error> {
+  validateInput(termData: any, strictness?: any, expectedRevision?: any): Result<void, Error> {
+    if (expectedRevision !== undefined && !RevisionTracker.isValidExpectedRevision(expectedRevision)) {
+      return Result.failure(new Error(MESSAGES.ERROR.INVALID_EXPECTED_REVISION()));
+    }
+
+    if (strictness !== undefined && !CONFIG.VALIDATION.REFERENCE_STRICTNESS_VALUES.includes(strictness)) {
+      return Result.failure(new Error(MESSAGES.ERROR.INVALID_REFERENCE_STRICTNESS()));
+    }
+
     if (!termData || typeof termData !== 'object') {
       return Result.failure(new Error('ユビキタス言語情報データが提供されていません'));
     }
@@ -79,12 +199,95 @@ export class AddOrUpdateTermUseCase {
 
   /**
    * 依存関係の整合性チェック
-   * 関連する機能定義の存在確認など
+   * 関連機能・関連用語の参照先が存在するかを確認し、参照切れの一覧を返す
    */
-  async validateDependencies(termData: TermData): Promise<Result<void, Error>> {
-    // 将来的にFeatureRepositoryとの整合性チェックなどを実装
-    // 現在は成功を返す
-    return Result.success(undefined);
+  async validateDependencies(termData: TermData): Promise<Result<readonly BrokenReferenceData[], Error>> {
+    const functionResult = await this.findBrokenFunctionReferences(termData.relationships.associatedFunctions);
+    if (!functionResult.success) {
+      return Result.failure(functionResult.error);
+    }
+
+    const termResult = await this.findBrokenTermReferences(termData);
+    if (!termResult.success) {
+      return Result.failure(termResult.error);
+    }
+
+    return Result.success([...functionResult.value, ...termResult.value]);
+  }
+
+  /**
+   * 関連機能（associatedFunctions）の参照切れを検出する
+   */
+  private async findBrokenFunctionReferences(
+    functionNames: readonly string[]
+  ): Promise<Result<readonly BrokenReferenceData[], Error>> {
+    const validNames = functionNames
+      .map(name => FeatureName.create(name))
+      .flatMap(result => result.success ? [result.value] : []);
+
+    const findResult = await this.featureRepository.findByNames(validNames);
+    if (!findResult.success) {
+      return Result.failure(findResult.error);
+    }
+
+    const existingNames = new Set(findResult.value.found.map(feature => feature.name.value));
+    const broken: BrokenReferenceData[] = [];
+
+    for (const [index, functionName] of functionNames.entries()) {
+      if (!existingNames.has(functionName.trim())) {
+        broken.push({
+          kind: 'associatedFunction',
+          path: `relationships.associatedFunctions[${index}]`,
+          referencedName: functionName,
+        });
+      }
+    }
+
+    return Result.success(broken);
+  }
+
+  /**
+   * 関連用語（relatedTerms）の参照切れを検出する
+   * 自分自身への参照は保存対象そのものであるため参照切れとみなさない
+   * 別名での参照は削除時の被参照チェックや名前変更の追従から漏れるため、正規の用語名を添えて参照切れとする
+   */
+  private async findBrokenTermReferences(
+    termData: TermData
+  ): Promise<Result<readonly BrokenReferenceData[], Error>> {
+    const ownName = termData.term.name.trim();
+    const relatedTerms = termData.relationships.relatedTerms;
+    const validNames = relatedTerms
+      .map(related => TermName.create(related.termName))
+      .flatMap(result => result.success ? [result.value] : []);
+
+    const findResult = await this.termRepository.findByNames(validNames);
+    if (!findResult.success) {
+      return Result.failure(findResult.error);
+    }
+
+    const existingNames = new Set(findResult.value.found.map(term => term.name.value));
+    existingNames.add(ownName);
+    const broken: BrokenReferenceData[] = [];
+
+    for (const [index, related] of relatedTerms.entries()) {
+      if (existingNames.has(related.termName.trim())) {
+        continue;
+      }
+
+      const aliasResult = await this.termRepository.findByNameOrAlias(related.termName);
+      if (!aliasResult.success) {
+        return Result.failure(aliasResult.error);
+      }
+
+      broken.push({
+        kind: 'relatedTerm',
+        path: `relationships.relatedTerms[${index}].termName`,
+        referencedName: related.termName,
+        ...(aliasResult.value.isSome ? { canonicalName: aliasResult.value.value.term.name.value } : {}),
+      });
+    }
+
+    return Result.success(broken);
   }
 
   /**
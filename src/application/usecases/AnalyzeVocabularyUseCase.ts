@@ -0,0 +1,107 @@
+import { Feature } from '../../domain/entities/Feature.js';
+import { FeatureName } from '../../domain/valueObjects/FeatureName.js';
+import { IFeatureRepository } from '../../domain/repositories/IFeatureRepository.js';
+import { ITermRepository } from '../../domain/repositories/ITermRepository.js';
+import { EntityNotFoundError } from '../../domain/errors/EntityNotFoundError.js';
+import { VocabularyAnalyzer } from '../../domain/services/VocabularyAnalyzer.js';
+import { VocabularyAnalysisData } from '../../domain/types.js';
+import { Result } from '../../shared/types/functional.js';
+import { CONFIG } from '../../shared/constants/config.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+
+/**
+ * 語彙分析ユースケース
+ * 機能定義の本文で使われているが、ユビキタス言語に定義されていない語句を用語の候補として検出する
+ */
+export class AnalyzeVocabularyUseCase {
+  private readonly vocabularyAnalyzer = new VocabularyAnalyzer();
+
+  constructor(
+    private readonly featureRepository: IFeatureRepository,
+    private readonly termRepository: ITermRepository
+  ) {}
+
+  /**
+   * 機能定義の語彙を分析する
+   * @param featureNames 分析する機能名（省略時は全件）
+   * @param minOccurrences 用語の候補とする語句の最小出現回数
+   * @returns 使われている定義済みの用語と、未定義の用語の候補
+   */
+  async execute(
+    featureNames: readonly string[] = [],
+    minOccurrences: number = CONFIG.VOCABULARY.DEFAULT_MIN_OCCURRENCES
+  ): Promise<Result<VocabularyAnalysisData, Error>> {
+    try {
+      // 1. 分析対象の機能定義の取得
+      const featuresResult = await this.findTargets(featureNames);
+      if (!featuresResult.success) {
+        return Result.failure(featuresResult.error);
+      }
+
+      // 2. 照合するユビキタス言語情報の取得
+      const termsResult = await this.termRepository.findAll();
+      if (!termsResult.success) {
+        return Result.failure(termsResult.error);
+      }
+
+      // 3. 語彙の分析
+      return Result.success(this.vocabularyAnalyzer.analyze(
+        featuresResult.value.map(feature => feature.data),
+        termsResult.value.map(term => term.data),
+        minOccurrences
+      ));
+
+    } catch (error) {
+      return Result.failure(
+        error instanceof Error
+          ? error
+          : new Error(`語彙の分析中に予期しないエラーが発生しました: ${String(error)}`)
+      );
+    }
+  }
+
+  /**
+   * 分析対象の機能定義を取得する
+   * 指定した機能名が見つからない場合は失敗とする
+   */
+  private async findTargets(featureNames: readonly string[]): Promise<Result<readonly Feature[], Error>> {
+    if (featureNames.length === 0) {
+      return this.featureRepository.findAll();
+    }
+
+    const names: FeatureName[] = [];
+    for (const featureName of featureNames) {
+      const nameResult = FeatureName.create(featureName);
+      if (!nameResult.success) {
+        return Result.failure(nameResult.error);
+      }
+      names.push(nameResult.value);
+    }
+
+    const findResult = await this.featureRepository.findByNames(names);
+    if (!findResult.success) {
+      return Result.failure(findResult.error);
+    }
+    if (findResult.value.notFound.length > 0) {
+      return Result.failure(new EntityNotFoundError('feature', findResult.value.notFound[0].value));
+    }
+
+    return Result.success(findResult.value.found);
+  }
+
+  /**
+   * 入力パラメータの事前検証
+   */
+  validateInput(featureNames: any, minOccurrences?: any): Result<void, Error> {
+    if (featureNames !== undefined &&
+      (!Array.isArray(featureNames) || featureNames.some(name => typeof name !== 'string' || !name.trim()))) {
+      return Result.failure(new Error(MESSAGES.ERROR.INVALID_FEATURE_NAMES()));
+    }
+
+    if (minOccurrences !== undefined && (!Number.isInteger(minOccurrences) || minOccurrences < 1)) {
+      return Result.failure(new Error(MESSAGES.ERROR.INVALID_MIN_OCCURRENCES()));
+    }
+
+    return Result.success(undefined);
+  }
+}
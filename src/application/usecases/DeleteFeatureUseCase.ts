@@ -1,7 +1,45 @@
+import { Term } from '../../domain/entities/Term.js';
 import { FeatureName } from '../../domain/valueObjects/FeatureName.js';
 import { IFeatureRepository } from '../../domain/repositories/IFeatureRepository.js';
-import { DeletionResultData } from '../../domain/types.js';
+import { ITermRepository } from '../../domain/repositories/ITermRepository.js';
+import { IDesignChangeSetRepository } from '../../domain/repositories/IDesignChangeSetRepository.js';
+import { DependencyConflictError } from '../../domain/errors/DependencyConflictError.js';
+import {
+  DeletionResultData,
+  DependencyAwareDeletionResultData,
+  DeletionMode,
+  FeatureData,
+  ExpectedRevision,
+  InboundReferenceData,
+} from '../../domain/types.js';
 import { Result } from '../../shared/types/functional.js';
+import { CONFIG } from '../../shared/constants/config.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+import { RevisionRecordingError } from '../../domain/errors/RevisionRecordingError.js';
+import { RevisionRecorder } from '../services/RevisionRecorder.js';
+import { RevisionTracker } from '../services/RevisionTracker.js';
+
+/**
+ * 機能定義削除のオプション
+ */
+export interface DeleteFeatureOptions {
+  /** 被参照がある場合の削除モード（省略時は設定値） */
+  readonly mode?: DeletionMode;
+  /** 変更履歴に記録する変更者 */
+  readonly actor?: string;
+  /** 削除対象に期待するリビジョン（省略時は照合しない） */
+  readonly expectedRevision?: ExpectedRevision;
+  /** 復元元のリビジョン番号（リビジョンの復元として履歴に記録する場合のみ） */
+  readonly restoredFrom?: number;
+}
+
+/**
+ * 参照の除去によるユビキタス言語の更新前後の内容
+ */
+interface TermUpdate {
+  readonly previous: Term;
+  readonly updated: Term;
+}
 
 /**
  * 機能定義削除ユースケース
@@ -9,15 +47,26 @@ import { Result } from '../../shared/types/functional.js';
  */
 export class DeleteFeatureUseCase {
   constructor(
-    private readonly featureRepository: IFeatureRepository
+    private readonly featureRepository: IFeatureRepository,
+    private readonly termRepository: ITermRepository,
+    private readonly changeSetRepository: IDesignChangeSetRepository,
+    private readonly revisionRecorder: RevisionRecorder,
+    private readonly revisionTracker: RevisionTracker
   ) {}
 
   /**
    * 機能定義を削除する
    * @param featureName 削除する機能名
-   * @returns 削除結果
+   * @param options 削除モード・変更者・期待するリビジョンなどのオプション
+   * @returns 削除結果（被参照と更新したユビキタス言語を含む）
    */
-  async execute(featureName: string): Promise<Result<DeletionResultData, Error>> {
+  async execute(
+    featureName: string,
+    options: DeleteFeatureOptions = {}
+  ): Promise<Result<DependencyAwareDeletionResultData, Error>> {
+    const mode = options.mode ?? CONFIG.DELETION.DEFAULT_MODE;
+    const actor = options.actor ?? CONFIG.HISTORY.DEFAULT_ACTOR;
+
     try {
       // 1. 機能名の検証とValueObjectの作成
       const nameResult = FeatureName.create(featureName);
@@ -37,20 +86,88 @@ export class DeleteFeatureUseCase {
         return Result.failure(new Error('機能定義を削除する権限がありません'));
       }
 
-      // 3. 依存関係のチェック
+      // 3. 削除対象の取得（存在確認と変更履歴の記録に使用）
+      const existingResult = await this.featureRepository.findByName(name);
+      if (!existingResult.success) {
+        return Result.failure(existingResult.error);
+      }
+
+      // 期待するリビジョンの照合は、カスケードで参照元を更新する前に行う
+      const verifyResult = await this.revisionTracker.verify(
+        'feature',
+        name.value,
+        options.expectedRevision,
+        existingResult.value.isSome ? existingResult.value.value.data : null
+      );
+      if (!verifyResult.success) {
+        return Result.failure(verifyResult.error);
+      }
+
+      if (existingResult.value.isNone) {
+        return Result.success({ found: false, mode, inboundReferences: [], updatedTermNames: [] });
+      }
+
+      // 4. 依存関係のチェック
       const dependencyResult = await this.checkDependencies(name);
       if (!dependencyResult.success) {
         return Result.failure(dependencyResult.error);
       }
 
-      // 4. 機能定義の削除
-      const deleteResult = await this.featureRepository.delete(name);
+      const { referencingTerms, inboundReferences } = dependencyResult.value;
+      if (mode === 'block' && inboundReferences.length > 0) {
+        return Result.failure(new DependencyConflictError(name.value, inboundReferences));
+      }
+
+      // 5. カスケード指定時は参照元から参照を除去した内容を作成
+      const updatesResult = mode === 'cascade'
+        ? this.removeReferences(name, referencingTerms)
+        : Result.success<readonly TermUpdate[]>([]);
+      if (!updatesResult.success) {
+        return Result.failure(updatesResult.error);
+      }
+      const updates = updatesResult.value;
+
+      // 6. 機能定義の削除（参照元の更新がある場合は、途中で失敗しても参照が不整合にならないよう一括で反映）
+      const deleteResult = updates.length > 0
+        ? await this.deleteWithReferences(name, existingResult.value.value.data, updates)
+        : await this.featureRepository.delete(name, verifyResult.value);
       if (!deleteResult.success) {
         return Result.failure(deleteResult.error);
       }
 
-      // 5. 削除結果の返却
-      return Result.success(deleteResult.value);
+      // 7. 変更履歴の記録
+      for (const { previous, updated } of updates) {
+        const termRecordResult = await this.revisionRecorder.record(
+          'term',
+          previous.name.value,
+          previous.data,
+          updated.data,
+          actor
+        );
+        if (!termRecordResult.success) {
+          return Result.failure(new RevisionRecordingError('term', previous.name.value, termRecordResult.error));
+        }
+      }
+
+      const recordResult = await this.revisionRecorder.record(
+        'feature',
+        name.value,
+        existingResult.value.value.data,
+        null,
+        actor,
+        options.restoredFrom
+      );
+      if (!recordResult.success) {
+        return Result.failure(new RevisionRecordingError('feature', name.value, recordResult.error));
+      }
+
+      // 8. 削除結果の返却
+      return Result.success({
+        found: deleteResult.value.found,
+        mode,
+        inboundReferences,
+        updatedTermNames: updates.map(({ previous }) => previous.name.value),
+      });
 
     } catch (error) {
       return Result.failure(
@@ -65,7 +182,15 @@ export class DeleteFeatureUseCase {
    * 機能名の事前検証
    * ユースケース実行前の軽量な検証
    */
-  validateInput(featureName: any): Result<void, Error> {
+  validateInput(featureName: any, mode?: any, expectedRevision?: any): Result<void, Error> {
+    if (expectedRevision !== undefined && !RevisionTracker.isValidExpectedRevision(expectedRevision)) {
+      return Result.failure(new Error(MESSAGES.ERROR.INVALID_EXPECTED_REVISION()));
+    }
+
+    if (mode !== undefined && !CONFIG.DELETION.MODES.includes(mode)) {
+      return Result.failure(new Error(MESSAGES.ERROR.INVALID_DELETION_MODE()));
+    }
+
     if (!featureName || typeof featureName !== 'string') {
       return Result.failure(new Error('機能名が提供されていません'));
     }
@@ -97,16 +222,79 @@ export class DeleteFeatureUseCase {
 
   /**
    * 依存関係のチェック
-   * 削除対象の機能定義が他の機能や用語から参照されていないかを確認
+   * 削除対象の機能定義をassociatedFunctionsで参照しているユビキタス言語を洗い出す
    */
-  private async checkDependencies(featureName: FeatureName): Promise<Result<void, Error>> {
-    // 将来的に以下のような依存関係チェックを実装
-    // - 他の機能定義からの参照確認
-    // - ユビキタス言語情報からの参照確認
-    // - 実装されたコードからの参照確認
-    
-    // 現在は依存関係の問題なしとして処理
-    return Result.success(undefined);
+  private async checkDependencies(featureName: FeatureName): Promise<Result<{
+    readonly referencingTerms: readonly Term[];
+    readonly inboundReferences: readonly InboundReferenceData[];
+  }, Error>> {
+    const termsResult = await this.termRepository.findByAssociatedFunction(featureName.value);
+    if (!termsResult.success) {
+      return Result.failure(termsResult.error);
+    }
+
+    const inboundReferences: InboundReferenceData[] = [];
+    for (const term of termsResult.value) {
+      for (const [index, functionName] of term.associatedFunctions.entries()) {
+        if (functionName === featureName.value) {
+          inboundReferences.push({
+            kind: 'associatedFunction',
+            sourceTermName: term.name.value,
+            path: `relationships.associatedFunctions[${index}]`,
+          });
+        }
+      }
+    }
+
+    return Result.success({ referencingTerms: termsResult.value, inboundReferences });
+  }
+
+  /**
+   * 参照元のユビキタス言語から削除対象の機能定義への参照を除去した内容を作成する
+   * @returns 参照元ごとの更新前後のユビキタス言語
+   */
+  private removeReferences(
+    featureName: FeatureName,
+    referencingTerms: readonly Term[]
+  ): Result<readonly TermUpdate[], Error> {
+    const updates: TermUpdate[] = [];
+
+    for (const term of referencingTerms) {
+      const updateResult = term.update({
+        relationships: {
+          ...term.data.relationships,
+          associatedFunctions: term.associatedFunctions.filter(name => name !== featureName.value),
+        },
+      });
+      if (!updateResult.success) {
+        return Result.failure(updateResult.error);
+      }
+
+      updates.push({ previous: term, updated: updateResult.value });
+    }
+
+    return Result.success(updates);
+  }
+
+  /**
+   * 参照元の更新と削除を一括変更として1回で反映する
+   */
+  private async deleteWithReferences(
+    featureName: FeatureName,
+    previousValue: FeatureData,
+    updates: readonly TermUpdate[]
+  ): Promise<Result<DeletionResultData, Error>> {
+    const applyResult = await this.changeSetRepository.apply({
+      features: [],
+      terms: updates.map(({ previous, updated }) => ({
+        currentName: previous.name.value,
+        previousValue: previous.data,
+        value: updated.data,
+      })),
+      deletedFeatures: [{ currentName: featureName.value, previousValue }],
+    });
+
+    return applyResult.success ? Result.success({ found: true }) : Result.failure(applyResult.error);
   }
 
   /**
@@ -1,7 +1,44 @@
+import { Term } from '../../domain/entities/Term.js';
 import { TermName } from '../../domain/valueObjects/TermName.js';
 import { ITermRepository } from '../../domain/repositories/ITermRepository.js';
-import { DeletionResultData } from '../../domain/types.js';
+import { IDesignChangeSetRepository } from '../../domain/repositories/IDesignChangeSetRepository.js';
+import { DependencyConflictError } from '../../domain/errors/DependencyConflictError.js';
+import {
+  DeletionResultData,
+  TermDeletionResultData,
+  DeletionMode,
+  TermData,
+  ExpectedRevision,
+  InboundReferenceData,
+} from '../../domain/types.js';
 import { Result } from '../../shared/types/functional.js';
+import { CONFIG } from '../../shared/constants/config.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+import { RevisionRecordingError } from '../../domain/errors/RevisionRecordingError.js';
+import { RevisionRecorder } from '../services/RevisionRecorder.js';
+import { RevisionTracker } from '../services/RevisionTracker.js';
+
+/**
+ * ユビキタス言語情報削除のオプション
+ */
+export interface DeleteTermOptions {
+  /** 被参照がある場合の削除モード（省略時は設定値） */
+  readonly mode?: DeletionMode;
+  /** 変更履歴に記録する変更者 */
+  readonly actor?: string;
+  /** 削除対象に期待するリビジョン（省略時は照合しない） */
+  readonly expectedRevision?: ExpectedRevision;
+  /** 復元元のリビジョン番号（リビジョンの復元として履歴に記録する場合のみ） */
+  readonly restoredFrom?: number;
+}
+
+/**
+ * 参照の除去によるユビキタス言語の更新前後の内容
+ */
+interface TermUpdate {
+  readonly previous: Term;
+  readonly updated: Term;
+}
 
 /**
  * ユビキタス言語情報削除ユースケース
@@ -9,25 +46,53 @@ import { Result } from '../../shared/types/functional.js';
  */
 export class DeleteTermUseCase {
   constructor(
-    private readonly termRepository: ITermRepository
+    private readonly termRepository: ITermRepository,
+    private readonly changeSetRepository: IDesignChangeSetRepository,
+    private readonly revisionRecorder: RevisionRecorder,
+    private readonly revisionTracker: RevisionTracker
   ) {}
 
   /**
    * ユビキタス言語情報を削除する
-   * @param termName 削除する用語名
-   * @returns 削除結果
+   * @param termName 削除する用語名（別名でも指定可能）
+   * @param options 削除モード・変更者・期待するリビジョンなどのオプション
+   * @returns 削除結果（被参照と更新したユビキタス言語を含む）
    */
-  async execute(termName: string): Promise<Result<DeletionResultData, Error>> {
+  async execute(
+    termName: string,
+    options: DeleteTermOptions = {}
+  ): Promise<Result<TermDeletionResultData, Error>> {
+    const mode = options.mode ?? CONFIG.DELETION.DEFAULT_MODE;
+    const actor = options.actor ?? CONFIG.HISTORY.DEFAULT_ACTOR;
+
     try {
-      // 1. 用語名の検証とValueObjectの作成
-      const nameResult = TermName.create(termName);
-      if (!nameResult.success) {
-        return Result.failure(nameResult.error);
+      // 1. 用語名・別名による削除対象の解決（存在確認と変更履歴の記録に使用）
+      const existingResult = await this.termRepository.findByNameOrAlias(termName);
+      if (!existingResult.success) {
+        return Result.failure(existingResult.error);
       }
 
-      const name = nameResult.value;
+      const existing = existingResult.value.isSome ? existingResult.value.value.term : null;
+      const resolvedName = existing ? existing.name.value : termName.trim();
+
+      // 2. 期待するリビジョンの照合は、カスケードで参照元を更新する前に行う
+      const verifyResult = await this.revisionTracker.verify(
+        'term',
+        resolvedName,
+        options.expectedRevision,
+        existing ? existing.data : null
+      );
+      if (!verifyResult.success) {
+        return Result.failure(verifyResult.error);
+      }
 
-      // 2. 削除権限の確認
+      if (!existing) {
+        return Result.success({ termName: resolvedName, found: false, mode, inboundReferences: [], updatedTermNames: [] });
+      }
+
+      const name = existing.name;
+
+      // 3. 削除権限の確認
       const permissionResult = await this.checkDeletePermission(name);
       if (!permissionResult.success) {
         return Result.failure(permissionResult.error);
@@ -37,20 +102,68 @@ export class DeleteTermUseCase {
         return Result.failure(new Error('ユビキタス言語情報を削除する権限がありません'));
       }
 
-      // 3. 依存関係のチェック
+      // 4. 依存関係のチェック
       const dependencyResult = await this.checkDependencies(name);
       if (!dependencyResult.success) {
         return Result.failure(dependencyResult.error);
       }
 
-      // 4. ユビキタス言語情報の削除
-      const deleteResult = await this.termRepository.delete(name);
+      const { referencingTerms, inboundReferences } = dependencyResult.value;
+      if (mode === 'block' && inboundReferences.length > 0) {
+        return Result.failure(new DependencyConflictError(name.value, inboundReferences));
+      }
+
+      // 5. カスケード指定時は参照元から参照を除去した内容を作成
+      const updatesResult = mode === 'cascade'
+        ? this.removeReferences(name, referencingTerms)
+        : Result.success<readonly TermUpdate[]>([]);
+      if (!updatesResult.success) {
+        return Result.failure(updatesResult.error);
+      }
+      const updates = updatesResult.value;
+
+      // 6. ユビキタス言語情報の削除（参照元の更新がある場合は、途中で失敗しても参照が不整合にならないよう一括で反映）
+      const deleteResult = updates.length > 0
+        ? await this.deleteWithReferences(name, existing.data, updates)
+        : await this.termRepository.delete(name, verifyResult.value);
       if (!deleteResult.success) {
         return Result.failure(deleteResult.error);
       }
 
-      // 5. 削除結果の返却
-      return Result.success(deleteResult.value);
+      // 7. 変更履歴の記録
+      for (const { previous, updated } of updates) {
+        const termRecordResult = await this.revisionRecorder.record(
+          'term',
+          previous.name.value,
+          previous.data,
+          updated.data,
+          actor
+        );
+        if (!termRecordResult.success) {
+          return Result.failure(new RevisionRecordingError('term', previous.name.value, termRecordResult.error));
+        }
+      }
+
+      const recordResult = await this.revisionRecorder.record(
+        'term',
+        name.value,
+        existing.data,
+        null,
+        actor,
+        options.restoredFrom
+      );
+      if (!recordResult.success) {
+        return Result.failure(new RevisionRecordingError('term', name.value, recordResult.error));
+      }
+
+      // 8. 削除結果の返却
+      return Result.success({
+        termName: name.value,
+        found: deleteResult.value.found,
+        mode,
+        inboundReferences,
+        updatedTermNames: updates.map(({ previous }) => previous.name.value),
+      });
 
     } catch (error) {
       return Result.failure(
@@ -65,7 +178,15 @@ export class DeleteTermUseCase {
    * 用語名の事前検証
    * ユースケース実行前の軽量な検証
    */
-  validateInput(termName: any): Result<void, Error> {
+  validateInput(termName: any, mode?: any, expectedRevision?: any): Result<void, Error> {
+    if (expectedRevision !== undefined && !RevisionTracker.isValidExpectedRevision(expectedRevision)) {
+      return Result.failure(new Error(MESSAGES.ERROR.INVALID_EXPECTED_REVISION()));
+    }
+
+    if (mode !== undefined && !CONFIG.DELETION.MODES.includes(mode)) {
+      return Result.failure(new Error(MESSAGES.ERROR.INVALID_DELETION_MODE()));
+    }
+
     if (!termName || typeof termName !== 'string') {
       return Result.failure(new Error('用語名が提供されていません'));
     }
@@ -74,10 +195,7 @@ export class DeleteTermUseCase {
       return Result.failure(new Error('用語名は空文字列にできません'));
     }
 
-    // 用語名の形式チェック
-    if (!TermName.isValid(termName)) {
-      return Result.failure(new Error('用語名の形式が不正です'));
-    }
+    // 別名や全角文字での指定も受け付けるため、用語名の形式はチェックしない
 
     return Result.success(undefined);
   }
@@ -97,16 +215,94 @@ export class DeleteTermUseCase {
 
   /**
    * 依存関係のチェック
-   * 削除対象のユビキタス言語情報が他の機能や用語から参照されていないかを確認
+   * 削除対象の用語をrelatedTermsで参照している他のユビキタス言語を洗い出す
    */
-  private async checkDependencies(termName: TermName): Promise<Result<void, Error>> {
-    // 将来的に以下のような依存関係チェックを実装
-    // - 機能定義からの参照確認
-    // - 他のユビキタス言語情報からの参照確認
-    // - 実装されたコードからの参照確認
-    
-    // 現在は依存関係の問題なしとして処理
-    return Result.success(undefined);
+  private async checkDependencies(termName: TermName): Promise<Result<{
+    readonly referencingTerms: readonly Term[];
+    readonly inboundReferences: readonly InboundReferenceData[];
+  }, Error>> {
+    const allTermsResult = await this.termRepository.findAll();
+    if (!allTermsResult.success) {
+      return Result.failure(allTermsResult.error);
+    }
+
+    const referencingTerms: Term[] = [];
+    const inboundReferences: InboundReferenceData[] = [];
+
+    for (const term of allTermsResult.value) {
+      if (term.name.equals(termName)) {
+        continue;
+      }
+
+      const references = term.data.relationships.relatedTerms
+        .map((related, index) => ({ related, index }))
+        .filter(({ related }) => related.termName === termName.value);
+
+      if (references.length === 0) {
+        continue;
+      }
+
+      referencingTerms.push(term);
+      for (const { index } of references) {
+        inboundReferences.push({
+          kind: 'relatedTerm',
+          sourceTermName: term.name.value,
+          path: `relationships.relatedTerms[${index}].termName`,
+        });
+      }
+    }
+
+    return Result.success({ referencingTerms, inboundReferences });
+  }
+
+  /**
+   * 参照元のユビキタス言語から削除対象の用語への参照を除去した内容を作成する
+   * @returns 参照元ごとの更新前後のユビキタス言語
+   */
+  private removeReferences(
+    termName: TermName,
+    referencingTerms: readonly Term[]
+  ): Result<readonly TermUpdate[], Error> {
+    const updates: TermUpdate[] = [];
+
+    for (const term of referencingTerms) {
+      const updateResult = term.update({
+        relationships: {
+          ...term.data.relationships,
+          relatedTerms: term.data.relationships.relatedTerms.filter(
+            related => related.termName !== termName.value
+          ),
+        },
+      });
+      if (!updateResult.success) {
+        return Result.failure(updateResult.error);
+      }
+
+      updates.push({ previous: term, updated: updateResult.value });
+    }
+
+    return Result.success(updates);
+  }
+
+  /**
+   * 参照元の更新と削除を一括変更として1回で反映する
+   */
+  private async deleteWithReferences(
+    termName: TermName,
+    previousValue: TermData,
+    updates: readonly TermUpdate[]
+  ): Promise<Result<DeletionResultData, Error>> {
+    const applyResult = await this.changeSetRepository.apply({
+      features: [],
+      terms: updates.map(({ previous, updated }) => ({
+        currentName: previous.name.value,
+        previousValue: previous.data,
+        value: updated.data,
+      })),
+      deletedTerms: [{ currentName: termName.value, previousValue }],
+    });
+
+    return applyResult.success ? Result.success({ found: true }) : Result.failure(applyResult.error);
   }
 
   /**
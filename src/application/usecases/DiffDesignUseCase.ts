@@ -0,0 +1,183 @@
+import { FeatureName } from '../../domain/valueObjects/FeatureName.js';
+import { TermName } from '../../domain/valueObjects/TermName.js';
+import { IFeatureRepository } from '../../domain/repositories/IFeatureRepository.js';
+import { ITermRepository } from '../../domain/repositories/ITermRepository.js';
+import { DesignDiffer } from '../../domain/services/DesignDiffer.js';
+import {
+  DesignDiffData,
+  DesignDocumentData,
+  DiffRequestData,
+  EntityDiffData,
+  FeatureData,
+  TermData,
+} from '../../domain/types.js';
+import { Result } from '../../shared/types/functional.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+
+/**
+ * 設計差分ユースケース
+ * 保存済みの機能定義・ユビキタス言語情報と変更案、または2つの設計書の構造的な差分を計算する
+ */
+export class DiffDesignUseCase {
+  private readonly differ = new DesignDiffer();
+
+  constructor(
+    private readonly featureRepository: IFeatureRepository,
+    private readonly termRepository: ITermRepository
+  ) {}
+
+  /**
+   * 差分を計算する
+   * @param request 比較対象（変更案または2つの設計書）
+   * @returns 差分のある項目と件数の集計
+   */
+  async execute(request: DiffRequestData): Promise<Result<DesignDiffData, Error>> {
+    try {
+      let entitiesResult: Result<readonly EntityDiffData[], Error>;
+
+      if (request.feature) {
+        entitiesResult = await this.diffProposedFeature(request.feature);
+      } else if (request.term) {
+        entitiesResult = await this.diffProposedTerm(request.term);
+      } else {
+        entitiesResult = Result.success(this.differ.diffDocuments(
+          this.normalizeDocument(request.baseDocument),
+          this.normalizeDocument(request.targetDocument)
+        ));
+      }
+
+      if (!entitiesResult.success) {
+        return Result.failure(entitiesResult.error);
+      }
+
+      return Result.success(this.summarize(entitiesResult.value));
+
+    } catch (error) {
+      return Result.failure(
+        error instanceof Error
+          ? error
+          : new Error(`差分の計算中に予期しないエラーが発生しました: ${String(error)}`)
+      );
+    }
+  }
+
+  /**
+   * 保存済みの機能定義と変更案を比較する
+   */
+  private async diffProposedFeature(proposed: FeatureData): Promise<Result<readonly EntityDiffData[], Error>> {
+    const nameResult = FeatureName.create(proposed.feature.name);
+    if (!nameResult.success) {
+      return Result.failure(nameResult.error);
+    }
+
+    const storedResult = await this.featureRepository.findByName(nameResult.value);
+    if (!storedResult.success) {
+      return Result.failure(storedResult.error);
+    }
+
+    const stored = storedResult.value.isSome ? storedResult.value.value.data : null;
+    return Result.success([this.differ.diffFeatures(stored, proposed)]);
+  }
+
+  /**
+   * 保存済みのユビキタス言語情報と変更案を比較する
+   */
+  private async diffProposedTerm(proposed: TermData): Promise<Result<readonly EntityDiffData[], Error>> {
+    const nameResult = TermName.create(proposed.term.name);
+    if (!nameResult.success) {
+      return Result.failure(nameResult.error);
+    }
+
+    const storedResult = await this.termRepository.findByName(nameResult.value);
+    if (!storedResult.success) {
+      return Result.failure(storedResult.error);
+    }
+
+    const stored = storedResult.value.isSome ? storedResult.value.value.data : null;
+    return Result.success([this.differ.diffTerms(stored, proposed)]);
+  }
+
+  /**
+   * 差分のある項目を抽出し、状態ごとの件数を集計する
+   */
+  private summarize(entities: readonly EntityDiffData[]): DesignDiffData {
+    const countOf = (status: EntityDiffData['status']) => entities.filter(e => e.status === status).length;
+
+    return {
+      entities: entities.filter(e => e.status !== 'unchanged'),
+      summary: {
+        added: countOf('added'),
+        removed: countOf('removed'),
+        modified: countOf('modified'),
+        unchanged: countOf('unchanged'),
+      },
+    };
+  }
+
+  /**
+   * 設計書の欠けている配列を空配列で補う
+   */
+  private normalizeDocument(document?: Partial<DesignDocumentData>): DesignDocumentData {
+    return {
+      features: Array.isArray(document?.features) ? document.features : [],
+      terms: Array.isArray(document?.terms) ? document.terms : [],
+    };
+  }
+
+  /**
+   * 入力パラメータの事前検証
+   * feature、term、baseDocumentとtargetDocumentの組のいずれか1つを指定する
+   */
+  validateInput(request: any): Result<void, Error> {
+    if (!request || typeof request !== 'object') {
+      return Result.failure(new Error(MESSAGES.ERROR.DIFF_TARGET_REQUIRED()));
+    }
+
+    const hasDocuments = request.baseDocument !== undefined || request.targetDocument !== undefined;
+    const targetCount = [request.feature !== undefined, request.term !== undefined, hasDocuments]
+      .filter(Boolean).length;
+    if (targetCount !== 1) {
+      return Result.failure(new Error(MESSAGES.ERROR.DIFF_TARGET_REQUIRED()));
+    }
+
+    if (request.feature !== undefined) {
+      if (typeof request.feature?.feature?.name !== 'string' || !FeatureName.isValid(request.feature.feature.name)) {
+        return Result.failure(new Error('機能名が不正です'));
+      }
+      return Result.success(undefined);
+    }
+
+    if (request.term !== undefined) {
+      if (typeof request.term?.term?.name !== 'string' || !TermName.isValid(request.term.term.name)) {
+        return Result.failure(new Error('用語名が不正です'));
+      }
+      return Result.success(undefined);
+    }
+
+    for (const [label, document] of [['baseDocument', request.baseDocument], ['targetDocument', request.targetDocument]]) {
+      if (!this.isValidDocument(document)) {
+        return Result.failure(new Error(MESSAGES.ERROR.INVALID_DIFF_DOCUMENT(label)));
+      }
+    }
+
+    return Result.success(undefined);
+  }
+
+  /**
+   * 比較対象の設計書の形式を検証する
+   * 機能定義・ユビキタス言語情報は名前で対応付けるため、各要素に名前が必要
+   */
+  private isValidDocument(document: any): boolean {
+    if (!document || typeof document !== 'object' || Array.isArray(document)) {
+      return false;
+    }
+
+    const { features = [], terms = [] } = document;
+    if (!Array.isArray(features) || !Array.isArray(terms)) {
+      return false;
+    }
+
+    return features.every((f: any) => typeof f?.feature?.name === 'string')
+      && terms.every((t: any) => typeof t?.term?.name === 'string');
+  }
+}
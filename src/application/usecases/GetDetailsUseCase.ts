@@ -1,10 +1,11 @@
 import { FeatureName } from '../../domain/valueObjects/FeatureName.js';
-import { TermName } from '../../domain/valueObjects/TermName.js';
+import { Term } from '../../domain/entities/Term.js';
 import { IFeatureRepository } from '../../domain/repositories/IFeatureRepository.js';
 import { ITermRepository } from '../../domain/repositories/ITermRepository.js';
-import { DetailsResponseData } from '../../domain/types.js';
+import { DetailsResponseData, RevisionEntityType, TermAliasResolutionData } from '../../domain/types.js';
 import { Result } from '../../shared/types/functional.js';
 import { MESSAGES } from '../../shared/constants/messages.js';
+import { RevisionTracker } from '../services/RevisionTracker.js';
 
 /**
  * 詳細取得ユースケース
@@ -13,14 +14,15 @@ import { MESSAGES } from '../../shared/constants/messages.js';
 export class GetDetailsUseCase {
   constructor(
     private readonly featureRepository: IFeatureRepository,
-    private readonly termRepository: ITermRepository
+    private readonly termRepository: ITermRepository,
+    private readonly revisionTracker: RevisionTracker
   ) {}
 
   /**
    * 指定された機能定義とユビキタス言語情報の詳細を取得する
    * @param featureNames 機能名の配列（省略可能）
    * @param termNames 用語名の配列（省略可能）
-   * @returns 詳細情報
+   * @returns 詳細情報（取得した項目の現在のリビジョンを含む）
    */
   async execute(
     featureNames?: readonly string[], 
@@ -39,14 +41,25 @@ export class GetDetailsUseCase {
         return Result.failure(termsResult.error);
       }
 
-      // 3. 結果の組み立て
+      // 3. 取得した項目の現在のリビジョンの取得
+      const revisionsResult = await this.collectRevisions(
+        featuresResult.value.found.map(f => f.name.value),
+        termsResult.value.found.map(t => t.name.value)
+      );
+      if (!revisionsResult.success) {
+        return Result.failure(revisionsResult.error);
+      }
+
+      // 4. 結果の組み立て
       const response: DetailsResponseData = {
         features: featuresResult.value.found.map(f => f.data),
         terms: termsResult.value.found.map(t => t.data),
         notFound: {
           featureNames: featuresResult.value.notFound.map(name => name.value),
-          termNames: termsResult.value.notFound.map(name => name.value),
+          termNames: termsResult.value.notFound,
         },
+        resolvedAliases: termsResult.value.resolvedAliases,
+        revisions: revisionsResult.value,
       };
 
       return Result.success(response);
@@ -91,31 +104,72 @@ export class GetDetailsUseCase {
 
   /**
    * ユビキタス言語情報を取得する
+   * 用語名に加えて別名でも解決し、正規の用語名以外で解決したものを記録する
    */
-  private async getTerms(termNames?: readonly string[]) {
-    if (!termNames || termNames.length === 0) {
-      // 用語名が指定されていない場合は空の結果を返す
-      return Result.success({
-        found: [],
-        notFound: [],
-      });
+  private async getTerms(termNames?: readonly string[]): Promise<Result<{
+    readonly found: readonly Term[];
+    readonly notFound: readonly string[];
+    readonly resolvedAliases: readonly TermAliasResolutionData[];
+  }, Error>> {
+    const found: Term[] = [];
+    const notFound: string[] = [];
+    const resolvedAliases: TermAliasResolutionData[] = [];
+
+    for (const requestedName of termNames ?? []) {
+      const resolutionResult = await this.termRepository.findByNameOrAlias(requestedName);
+      if (!resolutionResult.success) {
+        return Result.failure(resolutionResult.error);
+      }
+
+      if (resolutionResult.value.isNone) {
+        notFound.push(requestedName);
+        continue;
+      }
+
+      const { term, matchedBy, matchedValue } = resolutionResult.value.value;
+      if (matchedBy !== 'name') {
+        resolvedAliases.push({ requestedName, termName: term.name.value, matchedBy, matchedValue });
+      }
+
+      // 別名と正規名の両方で指定された場合も1件として返す
+      if (!found.some(existing => existing.equals(term))) {
+        found.push(term);
+      }
     }
 
-    // 文字列から値オブジェクトに変換
-    const nameResults = termNames.map(name => TermName.create(name));
-    const invalidNames = nameResults
-      .filter(result => !result.success)
-      .map(result => result as any); // 型の問題を一時的に回避
+    return Result.success({ found, notFound, resolvedAliases });
+  }
 
-    if (invalidNames.length > 0) {
-      return Result.failure(new Error(`不正な用語名が含まれています: ${invalidNames.map(r => r.error.message).join(', ')}`));
+  /**
+   * 項目名ごとの現在のリビジョンを取得する
+   */
+  private async collectRevisions(
+    featureNames: readonly string[],
+    termNames: readonly string[]
+  ): Promise<Result<DetailsResponseData['revisions'], Error>> {
+    const collect = async (entityType: RevisionEntityType, names: readonly string[]) => {
+      const revisions: Record<string, number> = {};
+      for (const name of names) {
+        const revisionResult = await this.revisionTracker.currentRevision(entityType, name);
+        if (!revisionResult.success) {
+          return Result.failure(revisionResult.error);
+        }
+        revisions[name] = revisionResult.value;
+      }
+      return Result.success(revisions);
+    };
+
+    const featuresResult = await collect('feature', featureNames);
+    if (!featuresResult.success) {
+      return Result.failure(featuresResult.error);
     }
 
-    const validNames = nameResults
-      .filter(result => result.success)
-      .map(result => (result as any).value); // 型の問題を一時的に回避
+    const termsResult = await collect('term', termNames);
+    if (!termsResult.success) {
+      return Result.failure(termsResult.error);
+    }
 
-    return await this.termRepository.findByNames(validNames);
+    return Result.success({ features: featuresResult.value, terms: termsResult.value });
   }
 
   /**
@@ -158,7 +212,8 @@ export class GetDetailsUseCase {
           return Result.failure(new Error('用語名は文字列である必要があります'));
         }
 
-        if (!TermName.isValid(name)) {
+        // 別名や全角文字での指定も受け付けるため、用語名の形式はチェックしない
+        if (!name.trim()) {
           return Result.failure(new Error(`不正な用語名: ${name}`));
         }
       }
@@ -177,6 +232,11 @@ export class GetDetailsUseCase {
         return Result.failure(featuresResult.error);
       }
 
+      const revisionsResult = await this.collectRevisions(featuresResult.value.map(f => f.name.value), []);
+      if (!revisionsResult.success) {
+        return Result.failure(revisionsResult.error);
+      }
+
       const response: DetailsResponseData = {
         features: featuresResult.value.map(f => f.data),
         terms: [],
@@ -184,6 +244,8 @@ export class GetDetailsUseCase {
           featureNames: [],
           termNames: [],
         },
+        resolvedAliases: [],
+        revisions: revisionsResult.value,
       };
 
       return Result.success(response);
@@ -207,6 +269,11 @@ export class GetDetailsUseCase {
         return Result.failure(termsResult.error);
       }
 
+      const revisionsResult = await this.collectRevisions([], termsResult.value.map(t => t.name.value));
+      if (!revisionsResult.success) {
+        return Result.failure(revisionsResult.error);
+      }
+
       const response: DetailsResponseData = {
         features: [],
         terms: termsResult.value.map(t => t.data),
@@ -214,6 +281,8 @@ export class GetDetailsUseCase {
           featureNames: [],
           termNames: [],
         },
+        resolvedAliases: [],
+        revisions: revisionsResult.value,
       };
 
       return Result.success(response);
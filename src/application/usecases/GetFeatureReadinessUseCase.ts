@@ -0,0 +1,76 @@
+import { FeatureName } from '../../domain/valueObjects/FeatureName.js';
+import { IFeatureRepository } from '../../domain/repositories/IFeatureRepository.js';
+import { ITermRepository } from '../../domain/repositories/ITermRepository.js';
+import { EntityNotFoundError } from '../../domain/errors/EntityNotFoundError.js';
+import { FeatureReadinessScorer } from '../../domain/services/FeatureReadinessScorer.js';
+import { FeatureReadinessData } from '../../domain/types.js';
+import { Result } from '../../shared/types/functional.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+
+/**
+ * 機能定義実装準備度取得ユースケース
+ * 機能定義を実装に着手できる状態まで記述できているかを、点数と確認項目で評価する
+ */
+export class GetFeatureReadinessUseCase {
+  private readonly readinessScorer = new FeatureReadinessScorer();
+
+  constructor(
+    private readonly featureRepository: IFeatureRepository,
+    private readonly termRepository: ITermRepository
+  ) {}
+
+  /**
+   * 指定した機能定義の実装準備度を取得する
+   * @param featureName 機能名
+   * @returns 準備度の点数・実装に着手できるか・確認項目の結果
+   */
+  async execute(featureName: string): Promise<Result<FeatureReadinessData, Error>> {
+    try {
+      // 1. 機能定義の取得
+      const nameResult = FeatureName.create(featureName);
+      if (!nameResult.success) {
+        return Result.failure(nameResult.error);
+      }
+
+      const featureResult = await this.featureRepository.findByName(nameResult.value);
+      if (!featureResult.success) {
+        return Result.failure(featureResult.error);
+      }
+      if (featureResult.value.isNone) {
+        return Result.failure(new EntityNotFoundError('feature', featureName));
+      }
+
+      // 2. 参照するユビキタス言語の照合のための全件取得
+      const termsResult = await this.termRepository.findAll();
+      if (!termsResult.success) {
+        return Result.failure(termsResult.error);
+      }
+
+      // 3. 準備度の評価
+      return Result.success(this.readinessScorer.score(featureResult.value.value.data, termsResult.value));
+
+    } catch (error) {
+      return Result.failure(
+        error instanceof Error
+          ? error
+          : new Error(`実装準備度の評価中に予期しないエラーが発生しました: ${String(error)}`)
+      );
+    }
+  }
+
+  /**
+   * 入力パラメータの事前検証
+   */
+  validateInput(featureName: any): Result<void, Error> {
+    if (typeof featureName !== 'string' || !featureName.trim()) {
+      return Result.failure(new Error(MESSAGES.ERROR.FEATURE_NAME_REQUIRED()));
+    }
+
+    const nameResult = FeatureName.create(featureName);
+    if (!nameResult.success) {
+      return Result.failure(nameResult.error);
+    }
+
+    return Result.success(undefined);
+  }
+}
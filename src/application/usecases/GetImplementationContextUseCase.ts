@@ -0,0 +1,83 @@
+import { FeatureName } from '../../domain/valueObjects/FeatureName.js';
+import { IFeatureRepository } from '../../domain/repositories/IFeatureRepository.js';
+import { ITermRepository } from '../../domain/repositories/ITermRepository.js';
+import { ICodingRuleRepository } from '../../domain/repositories/ICodingRuleRepository.js';
+import { FeatureTermSelector } from '../../domain/services/FeatureTermSelector.js';
+import { ImplementationContextData } from '../../domain/types.js';
+import { Result } from '../../shared/types/functional.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+
+/**
+ * 実装コンテキスト取得ユースケース
+ * 機能定義と、その実装に必要なユビキタス言語情報・コーディング原則をまとめて取得する
+ */
+export class GetImplementationContextUseCase {
+  private readonly termSelector = new FeatureTermSelector();
+
+  constructor(
+    private readonly featureRepository: IFeatureRepository,
+    private readonly termRepository: ITermRepository,
+    private readonly codingRuleRepository: ICodingRuleRepository
+  ) {}
+
+  /**
+   * 指定した機能の実装コンテキストを取得する
+   * @param featureName 機能名
+   * @returns 機能定義・関連するユビキタス言語情報・コーディング原則
+   */
+  async execute(featureName: string): Promise<Result<ImplementationContextData, Error>> {
+    try {
+      // 1. 機能定義の取得
+      const nameResult = FeatureName.create(featureName);
+      if (!nameResult.success) {
+        return Result.failure(nameResult.error);
+      }
+
+      const featureResult = await this.featureRepository.findByName(nameResult.value);
+      if (!featureResult.success) {
+        return Result.failure(featureResult.error);
+      }
+      if (featureResult.value.isNone) {
+        return Result.failure(new Error(MESSAGES.ERROR.FEATURE_NOT_FOUND(featureName)));
+      }
+      const feature = featureResult.value.value.data;
+
+      // 2. 機能が参照するユビキタス言語情報の取得
+      const termsResult = await this.termRepository.findAll();
+      if (!termsResult.success) {
+        return Result.failure(termsResult.error);
+      }
+      const terms = this.termSelector.select(feature, termsResult.value);
+
+      // 3. コーディング原則の取得
+      const rulesResult = await this.codingRuleRepository.load();
+      if (!rulesResult.success) {
+        return Result.failure(rulesResult.error);
+      }
+
+      return Result.success({
+        feature,
+        terms: terms.map(term => term.data),
+        codingRules: rulesResult.value,
+      });
+
+    } catch (error) {
+      return Result.failure(
+        error instanceof Error
+          ? error
+          : new Error(`実装コンテキストの取得中に予期しないエラーが発生しました: ${String(error)}`)
+      );
+    }
+  }
+
+  /**
+   * 入力パラメータの事前検証
+   */
+  validateInput(featureName: any): Result<void, Error> {
+    if (typeof featureName !== 'string' || !featureName.trim()) {
+      return Result.failure(new Error(MESSAGES.ERROR.FEATURE_NAME_REQUIRED()));
+    }
+
+    return Result.success(undefined);
+  }
+}
@@ -0,0 +1,124 @@
+import { FeatureName } from '../../domain/valueObjects/FeatureName.js';
+import { IRevisionRepository } from '../../domain/repositories/IRevisionRepository.js';
+import { RevisionNotFoundError } from '../../domain/errors/RevisionNotFoundError.js';
+import { RevisionData, RevisionEntityType, RevisionSummaryData } from '../../domain/types.js';
+import { Result } from '../../shared/types/functional.js';
+import { CONFIG } from '../../shared/constants/config.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+import { EntityNameResolver } from '../services/EntityNameResolver.js';
+
+/**
+ * 変更履歴取得ユースケース
+ * 機能定義・ユビキタス言語情報のリビジョン一覧と特定リビジョンの取得を管理
+ */
+export class GetRevisionHistoryUseCase {
+  constructor(
+    private readonly revisionRepository: IRevisionRepository,
+    private readonly entityNameResolver: EntityNameResolver
+  ) {}
+
+  /**
+   * 指定した項目のリビジョン一覧を取得する
+   * @param entityType 項目の種類
+   * @param entityName 項目名（用語の場合は別名でも可）
+   * @returns リビジョンの概要一覧（古い順）
+   */
+  async execute(
+    entityType: RevisionEntityType,
+    entityName: string
+  ): Promise<Result<readonly RevisionSummaryData[], Error>> {
+    try {
+      const nameResult = await this.entityNameResolver.resolve(entityType, entityName);
+      if (!nameResult.success) {
+        return Result.failure(nameResult.error);
+      }
+
+      const revisionsResult = await this.revisionRepository.findByEntity(entityType, nameResult.value);
+      if (!revisionsResult.success) {
+        return Result.failure(revisionsResult.error);
+      }
+
+      const summaries: RevisionSummaryData[] = revisionsResult.value.map(revision => ({
+        revisionNumber: revision.revisionNumber,
+        operation: revision.operation,
+        timestamp: revision.timestamp,
+        actor: revision.actor,
+        ...(revision.restoredFrom !== undefined && { restoredFrom: revision.restoredFrom }),
+      }));
+
+      return Result.success(summaries);
+
+    } catch (error) {
+      return Result.failure(
+        error instanceof Error
+          ? error
+          : new Error(`変更履歴の取得中に予期しないエラーが発生しました: ${String(error)}`)
+      );
+    }
+  }
+
+  /**
+   * 指定した項目の特定のリビジョンを取得する
+   * @param entityType 項目の種類
+   * @param entityName 項目名（用語の場合は別名でも可）
+   * @param revisionNumber リビジョン番号
+   * @returns 変更前後の値を含むリビジョン
+   */
+  async getRevision(
+    entityType: RevisionEntityType,
+    entityName: string,
+    revisionNumber: number
+  ): Promise<Result<RevisionData, Error>> {
+    try {
+      const nameResult = await this.entityNameResolver.resolve(entityType, entityName);
+      if (!nameResult.success) {
+        return Result.failure(nameResult.error);
+      }
+
+      const revisionResult = await this.revisionRepository.findRevision(entityType, nameResult.value, revisionNumber);
+      if (!revisionResult.success) {
+        return Result.failure(revisionResult.error);
+      }
+
+      if (revisionResult.value.isNone) {
+        return Result.failure(new RevisionNotFoundError(entityType, nameResult.value, revisionNumber));
+      }
+
+      return Result.success(revisionResult.value.value);
+
+    } catch (error) {
+      return Result.failure(
+        error instanceof Error
+          ? error
+          : new Error(`リビジョンの取得中に予期しないエラーが発生しました: ${String(error)}`)
+      );
+    }
+  }
+
+  /**
+   * 入力パラメータの事前検証
+   * リビジョン番号は特定のリビジョンを取得する場合のみ指定する
+   */
+  validateInput(entityType: any, entityName: any, revisionNumber?: any): Result<void, Error> {
+    if (!CONFIG.HISTORY.ENTITY_TYPES.includes(entityType)) {
+      return Result.failure(new Error(MESSAGES.ERROR.INVALID_ENTITY_TYPE()));
+    }
+
+    if (typeof entityName !== 'string' || !entityName.trim()) {
+      return Result.failure(new Error(
+        entityType === 'feature' ? MESSAGES.ERROR.FEATURE_NAME_REQUIRED() : MESSAGES.ERROR.TERM_NAME_REQUIRED()
+      ));
+    }
+
+    // 用語は別名や全角文字での指定も受け付けるため、形式は機能名のみチェックする
+    if (entityType === 'feature' && !FeatureName.isValid(entityName)) {
+      return Result.failure(new Error('機能名の形式が不正です'));
+    }
+
+    if (revisionNumber !== undefined && (!Number.isInteger(revisionNumber) || revisionNumber < 1)) {
+      return Result.failure(new Error(MESSAGES.ERROR.INVALID_REVISION_NUMBER()));
+    }
+
+    return Result.success(undefined);
+  }
+}
@@ -0,0 +1,206 @@
+import { Feature } from '../../domain/entities/Feature.js';
+import { Term } from '../../domain/entities/Term.js';
+import { IFeatureRepository } from '../../domain/repositories/IFeatureRepository.js';
+import { ITermRepository } from '../../domain/repositories/ITermRepository.js';
+import { IRevisionRepository } from '../../domain/repositories/IRevisionRepository.js';
+import { FeatureReadinessScorer } from '../../domain/services/FeatureReadinessScorer.js';
+import {
+  GrowthPointData,
+  LastModifiedData,
+  ReadinessSummaryData,
+  RevisionData,
+  StatisticsData,
+  UndefinedTermReferenceData,
+} from '../../domain/types.js';
+import { Result } from '../../shared/types/functional.js';
+import { CONFIG } from '../../shared/constants/config.js';
+
+/**
+ * 統計情報取得ユースケース
+ * 機能定義・ユビキタス言語情報の件数と内訳、用語集の健全性の指標、変更履歴から求めた更新日時と推移、
+ * 機能定義の実装準備度の集計を取得する
+ */
+export class GetStatisticsUseCase {
+  private readonly readinessScorer = new FeatureReadinessScorer();
+
+  constructor(
+    private readonly featureRepository: IFeatureRepository,
+    private readonly termRepository: ITermRepository,
+    private readonly revisionRepository: IRevisionRepository
+  ) {}
+
+  /**
+   * 設計書の統計情報を取得する
+   */
+  async execute(): Promise<Result<StatisticsData, Error>> {
+    try {
+      // 1. 機能定義・ユビキタス言語情報・変更履歴の取得
+      const featuresResult = await this.featureRepository.findAll();
+      if (!featuresResult.success) {
+        return Result.failure(featuresResult.error);
+      }
+      const features = featuresResult.value;
+
+      const termsResult = await this.termRepository.findAll();
+      if (!termsResult.success) {
+        return Result.failure(termsResult.error);
+      }
+      const terms = termsResult.value;
+
+      const revisionsResult = await this.revisionRepository.findAll();
+      if (!revisionsResult.success) {
+        return Result.failure(revisionsResult.error);
+      }
+      const revisions = revisionsResult.value;
+
+      // 2. 件数・内訳と用語集の健全性の集計
+      const totalDefinitionLength = terms.reduce((sum, term) => sum + [...term.data.term.definition].length, 0);
+
+      return Result.success({
+        featureCount: features.length,
+        termCount: terms.length,
+        termsByCategory: this.countBy(terms, term => term.data.details.category),
+        termsByBoundedContext: this.countBy(terms, term => term.data.term.context.boundedContext),
+        featuresByStepCount: this.countBy(features, feature => String(feature.data.coreLogicSteps.length)),
+        orphanedTerms: terms
+          .filter(term => term.data.relationships.associatedFunctions.length === 0)
+          .map(term => term.name.value),
+        undefinedReferencedTerms: this.findUndefinedReferencedTerms(terms),
+        averageDefinitionLength: terms.length > 0
+          ? Math.round(totalDefinitionLength / terms.length * 10) / 10
+          : 0,
+
+        // 3. 変更履歴からの更新日時と推移の集計
+        lastModified: this.findLastModified(revisions, features, terms),
+        growth: this.calculateGrowth(revisions, features.length, terms.length),
+
+        // 4. 実装準備度の集計
+        readiness: this.summarizeReadiness(features, terms),
+      });
+
+    } catch (error) {
+      return Result.failure(
+        error instanceof Error
+          ? error
+          : new Error(`統計情報の取得中に予期しないエラーが発生しました: ${String(error)}`)
+      );
+    }
+  }
+
+  /**
+   * 値ごとの件数を数える
+   */
+  private countBy<T>(items: readonly T[], keyOf: (item: T) => string): Record<string, number> {
+    // constructor・__proto__ などのキーがプロトタイプのプロパティと衝突しないよう、Mapで数えてから変換する
+    const counts = new Map<string, number>();
+    items.forEach(item => {
+      const key = keyOf(item);
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    });
+    return Object.fromEntries(counts);
+  }
+
+  /**
+   * 関連用語（relatedTerms）で参照されているが定義されていない用語を、参照元の用語とともに列挙する
+   * 用語の保存時の参照整合性チェックと同じく、用語名の完全一致で照合する
+   */
+  private findUndefinedReferencedTerms(terms: readonly Term[]): UndefinedTermReferenceData[] {
+    const definedNames = new Set(terms.map(term => term.name.value));
+    const referencedBy = new Map<string, string[]>();
+
+    terms.forEach(term => {
+      term.data.relationships.relatedTerms.forEach(related => {
+        const termName = related.termName.trim();
+        if (definedNames.has(termName)) {
+          return;
+        }
+        const referrers = referencedBy.get(termName) ?? [];
+        if (!referrers.includes(term.name.value)) {
+          referrers.push(term.name.value);
+        }
+        referencedBy.set(termName, referrers);
+      });
+    });
+
+    return [...referencedBy].map(([termName, referrers]) => ({ termName, referencedBy: referrers }));
+  }
+
+  /**
+   * 現存する項目ごとの最終更新日時と、設計書全体の最終更新日時を求める
+   * 設計書全体には削除された項目の変更も含める
+   */
+  private findLastModified(
+    revisions: readonly RevisionData[],
+    features: readonly Feature[],
+    terms: readonly Term[]
+  ): LastModifiedData {
+    const latestOf = (entityType: RevisionData['entityType'], names: readonly string[]) => {
+      const existing = new Set(names);
+      const timestamps: Record<string, string> = {};
+      revisions
+        .filter(revision => revision.entityType === entityType && existing.has(revision.entityName))
+        .forEach(revision => {
+          const current = timestamps[revision.entityName];
+          if (current === undefined || revision.timestamp > current) {
+            timestamps[revision.entityName] = revision.timestamp;
+          }
+        });
+      return timestamps;
+    };
+
+    return {
+      latest: revisions.reduce<string | null>(
+        (latest, revision) => latest === null || revision.timestamp > latest ? revision.timestamp : latest,
+        null
+      ),
+      features: latestOf('feature', features.map(feature => feature.name.value)),
+      terms: latestOf('term', terms.map(term => term.name.value)),
+    };
+  }
+
+  /**
+   * 変更のあった期間ごとに、期間の終わり時点の項目数を求める
+   * 変更履歴のない項目は最初の期間より前から存在していたものとして、現在の件数から遡って求める
+   */
+  private calculateGrowth(
+    revisions: readonly RevisionData[],
+    featureCount: number,
+    termCount: number
+  ): GrowthPointData[] {
+    const deltas = new Map<string, { feature: number; term: number }>();
+    revisions.forEach(revision => {
+      const period = revision.timestamp.slice(0, CONFIG.STATISTICS.GROWTH_PERIOD_LENGTH);
+      const delta = deltas.get(period) ?? { feature: 0, term: 0 };
+      delta[revision.entityType] += Number(revision.newValue !== null) - Number(revision.previousValue !== null);
+      deltas.set(period, delta);
+    });
+
+    const growth: GrowthPointData[] = [];
+    let counts = { feature: featureCount, term: termCount };
+    [...deltas.keys()].sort().reverse().forEach(period => {
+      growth.unshift({ period, featureCount: counts.feature, termCount: counts.term });
+      const delta = deltas.get(period)!;
+      counts = { feature: counts.feature - delta.feature, term: counts.term - delta.term };
+    });
+
+    return growth;
+  }
+
+  /**
+   * 機能定義ごとの実装準備度を集計する
+   */
+  private summarizeReadiness(features: readonly Feature[], terms: readonly Term[]): ReadinessSummaryData {
+    const readiness = features.map(feature => {
+      const { featureName, score, ready } = this.readinessScorer.score(feature.data, terms);
+      return { featureName, score, ready };
+    });
+
+    return {
+      averageScore: readiness.length > 0
+        ? Math.round(readiness.reduce((sum, item) => sum + item.score, 0) / readiness.length)
+        : 0,
+      readyFeatureCount: readiness.filter(item => item.ready).length,
+      features: readiness,
+    };
+  }
+}
@@ -0,0 +1,168 @@
+import { FeatureName } from '../../domain/valueObjects/FeatureName.js';
+import { TermName } from '../../domain/valueObjects/TermName.js';
+import { IFeatureRepository } from '../../domain/repositories/IFeatureRepository.js';
+import { ITermRepository } from '../../domain/repositories/ITermRepository.js';
+import { ILintConfigRepository } from '../../domain/repositories/ILintConfigRepository.js';
+import { EntityNotFoundError } from '../../domain/errors/EntityNotFoundError.js';
+import { LintRuleRegistry } from '../../domain/lint/LintRuleRegistry.js';
+import { DesignLinter } from '../../domain/services/DesignLinter.js';
+import {
+  FeatureData,
+  LintEntityResultData,
+  LintFilterData,
+  LintResultData,
+  LintSeverity,
+  TermData,
+} from '../../domain/types.js';
+import { Result } from '../../shared/types/functional.js';
+import { CONFIG } from '../../shared/constants/config.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+
+/**
+ * 設計書lintユースケース
+ * プロジェクトのlintの設定に従って、機能定義・ユビキタス言語情報の品質のルールを検査する
+ */
+export class LintDesignUseCase {
+  constructor(
+    private readonly featureRepository: IFeatureRepository,
+    private readonly termRepository: ITermRepository,
+    private readonly lintConfigRepository: ILintConfigRepository,
+    private readonly ruleRegistry: LintRuleRegistry = LintRuleRegistry.withBuiltinRules()
+  ) {}
+
+  /**
+   * 設計書をlintする
+   * @param filter 対象の項目の種類・名前（省略時は全件）
+   * @returns 項目ごとの指摘と重要度ごとの件数
+   */
+  async execute(filter: LintFilterData = {}): Promise<Result<LintResultData, Error>> {
+    try {
+      // 1. lintの設定の読み込み
+      const configResult = await this.lintConfigRepository.load();
+      if (!configResult.success) {
+        return Result.failure(configResult.error);
+      }
+
+      const linterResult = DesignLinter.create(this.ruleRegistry, configResult.value);
+      if (!linterResult.success) {
+        return Result.failure(linterResult.error);
+      }
+      const linter = linterResult.value;
+
+      // 2. 対象の項目の取得
+      const targetsResult = await this.findTargets(filter);
+      if (!targetsResult.success) {
+        return Result.failure(targetsResult.error);
+      }
+      const { features, terms } = targetsResult.value;
+
+      // 3. 項目ごとのlint
+      const entities: LintEntityResultData[] = [
+        ...features.map(feature => ({
+          entityType: 'feature' as const,
+          entityName: feature.feature.name,
+          findings: linter.lintFeature(feature),
+        })),
+        ...terms.map(term => ({
+          entityType: 'term' as const,
+          entityName: term.term.name,
+          findings: linter.lintTerm(term),
+        })),
+      ];
+
+      const summary = Object.fromEntries(
+        CONFIG.LINT.SEVERITIES.map(severity => [
+          severity,
+          entities.reduce((count, entity) =>
+            count + entity.findings.filter(finding => finding.severity === severity).length, 0),
+        ])
+      ) as Record<LintSeverity, number>;
+
+      return Result.success({ entities, summary });
+
+    } catch (error) {
+      return Result.failure(
+        error instanceof Error
+          ? error
+          : new Error(`設計書のlint中に予期しないエラーが発生しました: ${String(error)}`)
+      );
+    }
+  }
+
+  /**
+   * lintの対象の機能定義・ユビキタス言語情報を取得する
+   */
+  private async findTargets(filter: LintFilterData): Promise<Result<{
+    readonly features: readonly FeatureData[];
+    readonly terms: readonly TermData[];
+  }, Error>> {
+    if (filter.name !== undefined && filter.entityType === 'feature') {
+      const nameResult = FeatureName.create(filter.name);
+      if (!nameResult.success) {
+        return Result.failure(nameResult.error);
+      }
+      const findResult = await this.featureRepository.findByName(nameResult.value);
+      if (!findResult.success) {
+        return Result.failure(findResult.error);
+      }
+      if (findResult.value.isNone) {
+        return Result.failure(new EntityNotFoundError('feature', filter.name));
+      }
+      return Result.success({ features: [findResult.value.value.data], terms: [] });
+    }
+
+    if (filter.name !== undefined && filter.entityType === 'term') {
+      const nameResult = TermName.create(filter.name);
+      if (!nameResult.success) {
+        return Result.failure(nameResult.error);
+      }
+      const findResult = await this.termRepository.findByName(nameResult.value);
+      if (!findResult.success) {
+        return Result.failure(findResult.error);
+      }
+      if (findResult.value.isNone) {
+        return Result.failure(new EntityNotFoundError('term', filter.name));
+      }
+      return Result.success({ features: [], terms: [findResult.value.value.data] });
+    }
+
+    const featuresResult = filter.entityType === 'term'
+      ? Result.success([])
+      : await this.featureRepository.findAll();
+    if (!featuresResult.success) {
+      return Result.failure(featuresResult.error);
+    }
+
+    const termsResult = filter.entityType === 'feature'
+      ? Result.success([])
+      : await this.termRepository.findAll();
+    if (!termsResult.success) {
+      return Result.failure(termsResult.error);
+    }
+
+    return Result.success({
+      features: featuresResult.value.map(feature => feature.data),
+      terms: termsResult.value.map(term => term.data),
+    });
+  }
+
+  /**
+   * 入力パラメータの事前検証
+   */
+  validateInput(entityType: any, name: any): Result<void, Error> {
+    if (entityType !== undefined && entityType !== 'feature' && entityType !== 'term') {
+      return Result.failure(new Error(MESSAGES.ERROR.INVALID_ENTITY_TYPE()));
+    }
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        return Result.failure(new Error(MESSAGES.ERROR.INVALID_PARAMS()));
+      }
+      if (entityType === undefined) {
+        return Result.failure(new Error(MESSAGES.ERROR.LINT_NAME_REQUIRES_ENTITY_TYPE()));
+      }
+    }
+
+    return Result.success(undefined);
+  }
+}
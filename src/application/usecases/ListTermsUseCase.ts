@@ -0,0 +1,88 @@
+import { Term } from '../../domain/entities/Term.js';
+import { ITermRepository } from '../../domain/repositories/ITermRepository.js';
+import { TermData, TermFilterData } from '../../domain/types.js';
+import { Result } from '../../shared/types/functional.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+
+/**
+ * ユビキタス言語絞り込みユースケース
+ * カテゴリ・境界づけられたコンテキスト・関連機能でユビキタス言語情報を絞り込んで取得する
+ */
+export class ListTermsUseCase {
+  constructor(
+    private readonly termRepository: ITermRepository
+  ) {}
+
+  /**
+   * 条件に一致するユビキタス言語情報を取得する
+   * @param filter 絞り込み条件（全て省略した場合は全件）
+   * @returns 条件に一致するユビキタス言語情報
+   */
+  async execute(filter: TermFilterData = {}): Promise<Result<readonly TermData[], Error>> {
+    try {
+      // 1. いずれか1つの条件でリポジトリから取得
+      const termsResult = await this.findCandidates(filter);
+      if (!termsResult.success) {
+        return Result.failure(termsResult.error);
+      }
+
+      // 2. 残りの条件で絞り込み
+      const terms = termsResult.value.filter(term =>
+        (filter.category === undefined || term.category === filter.category)
+        && (filter.boundedContext === undefined || term.boundedContext === filter.boundedContext)
+        && (filter.feature === undefined || term.isAssociatedWithFunction(filter.feature))
+      );
+
+      return Result.success(terms.map(term => term.data));
+
+    } catch (error) {
+      return Result.failure(
+        error instanceof Error
+          ? error
+          : new Error(`ユビキタス言語情報の絞り込み中に予期しないエラーが発生しました: ${String(error)}`)
+      );
+    }
+  }
+
+  /**
+   * 絞り込みの候補となるユビキタス言語情報を取得する
+   */
+  private async findCandidates(filter: TermFilterData): Promise<Result<readonly Term[], Error>> {
+    if (filter.boundedContext !== undefined) {
+      return this.termRepository.findByBoundedContext(filter.boundedContext);
+    }
+
+    if (filter.category !== undefined) {
+      return this.termRepository.findByCategory(filter.category);
+    }
+
+    if (filter.feature !== undefined) {
+      return this.termRepository.findByAssociatedFunction(filter.feature);
+    }
+
+    return this.termRepository.findAll();
+  }
+
+  /**
+   * 入力パラメータの事前検証
+   * 各条件は省略可能だが、指定する場合は空でない文字列とする
+   */
+  validateInput(filter: any): Result<void, Error> {
+    if (filter === undefined) {
+      return Result.success(undefined);
+    }
+
+    if (typeof filter !== 'object' || filter === null) {
+      return Result.failure(new Error(MESSAGES.ERROR.INVALID_PARAMS()));
+    }
+
+    for (const key of ['category', 'boundedContext', 'feature'] as const) {
+      const value = filter[key];
+      if (value !== undefined && (typeof value !== 'string' || !value.trim())) {
+        return Result.failure(new Error(MESSAGES.ERROR.INVALID_TERM_FILTER(key)));
+      }
+    }
+
+    return Result.success(undefined);
+  }
+}
@@ -0,0 +1,113 @@
+import { Feature } from '../../domain/entities/Feature.js';
+import { FeatureName } from '../../domain/valueObjects/FeatureName.js';
+import { IFeatureRepository } from '../../domain/repositories/IFeatureRepository.js';
+import { EntityNotFoundError } from '../../domain/errors/EntityNotFoundError.js';
+import { PatchApplicationError } from '../../domain/errors/PatchApplicationError.js';
+import { FeatureData, FeaturePatchResultData } from '../../domain/types.js';
+import { Result } from '../../shared/types/functional.js';
+import { JsonPatch, PatchDocument } from '../../shared/utils/jsonPatch.js';
+import { CONFIG } from '../../shared/constants/config.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+import { RevisionTracker } from '../services/RevisionTracker.js';
+import { AddOrUpdateFeatureUseCase, AddOrUpdateFeatureOptions } from './AddOrUpdateFeatureUseCase.js';
+
+/**
+ * 機能定義部分更新ユースケース
+ * 保存済みの機能定義にJSON PatchまたはJSON Merge Patchを適用し、検証した上で保存する
+ */
+export class PatchFeatureUseCase {
+  constructor(
+    private readonly featureRepository: IFeatureRepository,
+    private readonly addOrUpdateFeatureUseCase: AddOrUpdateFeatureUseCase
+  ) {}
+
+  /**
+   * 機能定義にパッチを適用する
+   * @param featureName 機能名
+   * @param patch JSON Patchの操作の配列、またはJSON Merge Patchのオブジェクト
+   * @param options 意味検証の厳格度・変更者・期待するリビジョンなどのオプション
+   * @returns パッチ適用後の機能定義と保存後のリビジョン（warnの場合は機能定義内の参照の問題を含む）
+   */
+  async execute(
+    featureName: string,
+    patch: PatchDocument,
+    options: AddOrUpdateFeatureOptions = {}
+  ): Promise<Result<FeaturePatchResultData, Error>> {
+    try {
+      // 1. 既存の機能定義の取得
+      const nameResult = FeatureName.create(featureName);
+      if (!nameResult.success) {
+        return Result.failure(nameResult.error);
+      }
+
+      const existingResult = await this.featureRepository.findByName(nameResult.value);
+      if (!existingResult.success) {
+        return Result.failure(existingResult.error);
+      }
+      if (existingResult.value.isNone) {
+        return Result.failure(new EntityNotFoundError('feature', featureName));
+      }
+
+      const existing = existingResult.value.value;
+
+      // 2. パッチの適用
+      const patchedResult = JsonPatch.patch<FeatureData>(existing.data, patch);
+      if (!patchedResult.success) {
+        return Result.failure(new PatchApplicationError(patchedResult.error.message));
+      }
+
+      // 3. 適用結果の検証（名前の変更は部分更新では扱わない）
+      const featureResult = Feature.create(patchedResult.value);
+      if (!featureResult.success) {
+        return Result.failure(new PatchApplicationError(
+          MESSAGES.ERROR.PATCHED_ENTITY_INVALID(featureResult.error.message)
+        ));
+      }
+      if (featureResult.value.name.value !== nameResult.value.value) {
+        return Result.failure(new PatchApplicationError(MESSAGES.ERROR.PATCH_CANNOT_RENAME(featureName)));
+      }
+
+      // 4. 機能定義の保存（変更履歴の記録を含む）
+      // 読み込んだ内容にパッチを適用して変更後の内容を作ったため、その後に他の操作で変更されていた場合は保存しない
+      const saveResult = await this.addOrUpdateFeatureUseCase.execute(featureResult.value.data, {
+        ...options,
+        expectedCurrent: existing.data,
+      });
+      if (!saveResult.success) {
+        return Result.failure(saveResult.error);
+      }
+
+      return Result.success({
+        feature: featureResult.value.data,
+        semanticIssues: saveResult.value.semanticIssues,
+        revision: saveResult.value.revision,
+      });
+
+    } catch (error) {
+      return Result.failure(
+        error instanceof Error
+          ? error
+          : new Error(`機能定義の部分更新中に予期しないエラーが発生しました: ${String(error)}`)
+      );
+    }
+  }
+
+  /**
+   * 入力パラメータの事前検証
+   */
+  validateInput(featureName: any, patch: any, strictness?: any, expectedRevision?: any): Result<void, Error> {
+    if (expectedRevision !== undefined && !RevisionTracker.isValidExpectedRevision(expectedRevision)) {
+      return Result.failure(new Error(MESSAGES.ERROR.INVALID_EXPECTED_REVISION()));
+    }
+
+    if (strictness !== undefined && !CONFIG.VALIDATION.SEMANTIC_STRICTNESS_VALUES.includes(strictness)) {
+      return Result.failure(new Error(MESSAGES.ERROR.INVALID_SEMANTIC_STRICTNESS()));
+    }
+
+    if (typeof featureName !== 'string' || !featureName.trim()) {
+      return Result.failure(new Error(MESSAGES.ERROR.FEATURE_NAME_REQUIRED()));
+    }
+
+    return JsonPatch.validateDocument(patch);
+  }
+}
@@ -0,0 +1,107 @@
+import { Term } from '../../domain/entities/Term.js';
+import { ITermRepository } from '../../domain/repositories/ITermRepository.js';
+import { EntityNotFoundError } from '../../domain/errors/EntityNotFoundError.js';
+import { PatchApplicationError } from '../../domain/errors/PatchApplicationError.js';
+import { TermData, TermPatchResultData } from '../../domain/types.js';
+import { Result } from '../../shared/types/functional.js';
+import { JsonPatch, PatchDocument } from '../../shared/utils/jsonPatch.js';
+import { CONFIG } from '../../shared/constants/config.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+import { RevisionTracker } from '../services/RevisionTracker.js';
+import { AddOrUpdateTermUseCase, AddOrUpdateTermOptions } from './AddOrUpdateTermUseCase.js';
+
+/**
+ * ユビキタス言語情報部分更新ユースケース
+ * 保存済みのユビキタス言語情報にJSON PatchまたはJSON Merge Patchを適用し、
+ * 追加・更新と同じ参照整合性・別名重複の確認を行った上で保存する
+ */
+export class PatchTermUseCase {
+  constructor(
+    private readonly termRepository: ITermRepository,
+    private readonly addOrUpdateTermUseCase: AddOrUpdateTermUseCase
+  ) {}
+
+  /**
+   * ユビキタス言語情報にパッチを適用する
+   * @param termName 用語名（別名でも指定可能）
+   * @param patch JSON Patchの操作の配列、またはJSON Merge Patchのオブジェクト
+   * @param options 参照整合性チェックの厳格度・変更者・期待するリビジョンなどのオプション
+   * @returns パッチ適用後のユビキタス言語情報と保存後のリビジョン（warnの場合は参照切れ一覧を含む）
+   */
+  async execute(
+    termName: string,
+    patch: PatchDocument,
+    options: AddOrUpdateTermOptions = {}
+  ): Promise<Result<TermPatchResultData, Error>> {
+    try {
+      // 1. 既存のユビキタス言語情報の取得
+      const existingResult = await this.termRepository.findByNameOrAlias(termName);
+      if (!existingResult.success) {
+        return Result.failure(existingResult.error);
+      }
+      if (existingResult.value.isNone) {
+        return Result.failure(new EntityNotFoundError('term', termName));
+      }
+      const existing = existingResult.value.value.term;
+
+      // 2. パッチの適用
+      const patchedResult = JsonPatch.patch<TermData>(existing.data, patch);
+      if (!patchedResult.success) {
+        return Result.failure(new PatchApplicationError(patchedResult.error.message));
+      }
+
+      // 3. 適用結果の検証（名前の変更は部分更新では扱わない）
+      const termResult = Term.create(patchedResult.value);
+      if (!termResult.success) {
+        return Result.failure(new PatchApplicationError(
+          MESSAGES.ERROR.PATCHED_ENTITY_INVALID(termResult.error.message)
+        ));
+      }
+      if (termResult.value.name.value !== existing.name.value) {
+        return Result.failure(new PatchApplicationError(MESSAGES.ERROR.PATCH_CANNOT_RENAME(existing.name.value)));
+      }
+
+      // 4. ユビキタス言語情報の保存（参照整合性・別名重複の確認と変更履歴の記録を含む）
+      // 読み込んだ内容にパッチを適用して変更後の内容を作ったため、その後に他の操作で変更されていた場合は保存しない
+      const saveResult = await this.addOrUpdateTermUseCase.execute(termResult.value.data, {
+        ...options,
+        expectedCurrent: existing.data,
+      });
+      if (!saveResult.success) {
+        return Result.failure(saveResult.error);
+      }
+
+      return Result.success({
+        term: termResult.value.data,
+        brokenReferences: saveResult.value.brokenReferences,
+        revision: saveResult.value.revision,
+      });
+
+    } catch (error) {
+      return Result.failure(
+        error instanceof Error
+          ? error
+          : new Error(`ユビキタス言語情報の部分更新中に予期しないエラーが発生しました: ${String(error)}`)
+      );
+    }
+  }
+
+  /**
+   * 入力パラメータの事前検証
+   */
+  validateInput(termName: any, patch: any, strictness?: any, expectedRevision?: any): Result<void, Error> {
+    if (expectedRevision !== undefined && !RevisionTracker.isValidExpectedRevision(expectedRevision)) {
+      return Result.failure(new Error(MESSAGES.ERROR.INVALID_EXPECTED_REVISION()));
+    }
+
+    if (strictness !== undefined && !CONFIG.VALIDATION.REFERENCE_STRICTNESS_VALUES.includes(strictness)) {
+      return Result.failure(new Error(MESSAGES.ERROR.INVALID_REFERENCE_STRICTNESS()));
+    }
+
+    if (typeof termName !== 'string' || !termName.trim()) {
+      return Result.failure(new Error(MESSAGES.ERROR.TERM_NAME_REQUIRED()));
+    }
+
+    return JsonPatch.validateDocument(patch);
+  }
+}
@@ -0,0 +1,277 @@
+import { Feature } from '../../domain/entities/Feature.js';
+import { Term } from '../../domain/entities/Term.js';
+import { FeatureName } from '../../domain/valueObjects/FeatureName.js';
+import { IFeatureRepository } from '../../domain/repositories/IFeatureRepository.js';
+import { ITermRepository } from '../../domain/repositories/ITermRepository.js';
+import { IDesignChangeSetRepository } from '../../domain/repositories/IDesignChangeSetRepository.js';
+import { EntityNotFoundError } from '../../domain/errors/EntityNotFoundError.js';
+import { NameConflictError } from '../../domain/errors/NameConflictError.js';
+import { ConcurrentModificationError } from '../../domain/errors/ConcurrentModificationError.js';
+import { NameMentionFinder } from '../../domain/services/NameMentionFinder.js';
+import {
+  EntityReplacementData,
+  ExpectedRevision,
+  InboundReferenceData,
+  RenameResultData,
+  TermData,
+} from '../../domain/types.js';
+import { Result } from '../../shared/types/functional.js';
+import { CONFIG } from '../../shared/constants/config.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+import { RevisionRecorder } from '../services/RevisionRecorder.js';
+import { RevisionTracker } from '../services/RevisionTracker.js';
+
+/**
+ * 機能定義の名前変更のオプション
+ */
+export interface RenameFeatureOptions {
+  /** 変更履歴に記録する変更者 */
+  readonly actor?: string;
+  /** 変更対象に期待するリビジョン（省略時は照合しない） */
+  readonly expectedRevision?: ExpectedRevision;
+}
+
+/**
+ * 機能定義名前変更ユースケース
+ * 機能名を変更し、ユビキタス言語のassociatedFunctionsの参照を新しい名前に書き換える
+ * 機能定義と参照元のユビキタス言語情報は1回の書き込みでまとめて保存する
+ */
+export class RenameFeatureUseCase {
+  private readonly nameMentionFinder = new NameMentionFinder();
+
+  constructor(
+    private readonly featureRepository: IFeatureRepository,
+    private readonly termRepository: ITermRepository,
+    private readonly changeSetRepository: IDesignChangeSetRepository,
+    private readonly revisionRecorder: RevisionRecorder,
+    private readonly revisionTracker: RevisionTracker
+  ) {}
+
+  /**
+   * 機能定義の名前を変更する
+   * @param featureName 現在の機能名
+   * @param newFeatureName 変更後の機能名
+   * @param options 変更者・期待するリビジョンなどのオプション
+   * @returns 書き換えた参照、書き換えなかった自由記述中の言及と、変更後の名前でのリビジョン
+   */
+  async execute(
+    featureName: string,
+    newFeatureName: string,
+    options: RenameFeatureOptions = {}
+  ): Promise<Result<RenameResultData, Error>> {
+    const actor = options.actor ?? CONFIG.HISTORY.DEFAULT_ACTOR;
+
+    try {
+      // 1. 機能名の検証とValueObjectの作成
+      const nameResult = FeatureName.create(featureName);
+      if (!nameResult.success) {
+        return Result.failure(nameResult.error);
+      }
+
+      const newNameResult = FeatureName.create(newFeatureName);
+      if (!newNameResult.success) {
+        return Result.failure(new Error(MESSAGES.ERROR.INVALID_NEW_NAME(newNameResult.error.message)));
+      }
+
+      const name = nameResult.value;
+      const newName = newNameResult.value;
+      if (name.equals(newName)) {
+        return Result.failure(new Error(MESSAGES.ERROR.RENAME_TO_SAME_NAME(name.value)));
+      }
+
+      // 2. 変更対象の取得と変更後の名前の重複確認
+      const featuresResult = await this.featureRepository.findAll();
+      if (!featuresResult.success) {
+        return Result.failure(featuresResult.error);
+      }
+
+      const existing = featuresResult.value.find(feature => feature.name.equals(name));
+      if (!existing) {
+        return Result.failure(new EntityNotFoundError('feature', name.value));
+      }
+      if (featuresResult.value.some(feature => feature.name.equals(newName))) {
+        return Result.failure(new NameConflictError('feature', newName.value));
+      }
+
+      const verifyResult = await this.revisionTracker.verify(
+        'feature',
+        name.value,
+        options.expectedRevision,
+        existing.data
+      );
+      if (!verifyResult.success) {
+        return Result.failure(verifyResult.error);
+      }
+      const expectedCurrent = verifyResult.value === undefined ? existing.data : verifyResult.value;
+      if (expectedCurrent === null) {
+        return Result.failure(new ConcurrentModificationError('feature', name.value));
+      }
+
+      const renamedResult = existing.update({ feature: { ...existing.data.feature, name: newName.value } });
+      if (!renamedResult.success) {
+        return Result.failure(renamedResult.error);
+      }
+      const renamed = renamedResult.value;
+
+      // 3. 参照元のユビキタス言語情報の書き換え
+      const termsResult = await this.termRepository.findAll();
+      if (!termsResult.success) {
+        return Result.failure(termsResult.error);
+      }
+
+      const rewriteResult = this.rewriteReferences(termsResult.value, name, newName);
+      if (!rewriteResult.success) {
+        return Result.failure(rewriteResult.error);
+      }
+      const { replacements, updatedReferences } = rewriteResult.value;
+
+      // 4. 機能定義と参照元の一括保存
+      const applyResult = await this.changeSetRepository.apply({
+        features: [{ currentName: name.value, previousValue: expectedCurrent, value: renamed.data }],
+        terms: replacements,
+      });
+      if (!applyResult.success) {
+        return Result.failure(applyResult.error);
+      }
+
+      // 5. 変更履歴の記録（旧名称の削除と新名称の作成として記録する）
+      const recordResult = await this.recordRevisions(existing, renamed, replacements, actor);
+      if (!recordResult.success) {
+        return Result.failure(recordResult.error);
+      }
+
+      const revisionResult = await this.revisionTracker.currentRevision('feature', newName.value);
+      if (!revisionResult.success) {
+        return Result.failure(revisionResult.error);
+      }
+
+      // 6. 書き換えなかった自由記述中の言及の収集
+      const termsAfterRename = termsResult.value.map(term =>
+        replacements.find(replacement => replacement.currentName === term.name.value)?.value ?? term.data
+      );
+      const featuresAfterRename = featuresResult.value.map(feature =>
+        feature === existing ? renamed.data : feature.data
+      );
+
+      return Result.success({
+        entityType: 'feature',
+        previousName: name.value,
+        newName: newName.value,
+        keptAsAlias: false,
+        revision: revisionResult.value,
+        updatedReferences,
+        unchangedMentions: this.nameMentionFinder.find(name.value, featuresAfterRename, termsAfterRename),
+      });
+
+    } catch (error) {
+      return Result.failure(
+        error instanceof Error
+          ? error
+          : new Error(`機能定義の名前変更中に予期しないエラーが発生しました: ${String(error)}`)
+      );
+    }
+  }
+
+  /**
+   * associatedFunctionsで旧名称を参照しているユビキタス言語情報を新しい名前に書き換える
+   */
+  private rewriteReferences(
+    terms: readonly Term[],
+    name: FeatureName,
+    newName: FeatureName
+  ): Result<{
+    readonly replacements: readonly EntityReplacementData<TermData>[];
+    readonly updatedReferences: readonly InboundReferenceData[];
+  }, Error> {
+    const replacements: EntityReplacementData<TermData>[] = [];
+    const updatedReferences: InboundReferenceData[] = [];
+
+    for (const term of terms) {
+      if (!term.isAssociatedWithFunction(name.value)) {
+        continue;
+      }
+
+      const associatedFunctions = term.associatedFunctions.map((functionName, index) => {
+        if (functionName !== name.value) {
+          return functionName;
+        }
+        updatedReferences.push({
+          kind: 'associatedFunction',
+          sourceTermName: term.name.value,
+          path: `relationships.associatedFunctions[${index}]`,
+        });
+        return newName.value;
+      });
+
+      const updateResult = term.update({
+        relationships: { ...term.data.relationships, associatedFunctions },
+      });
+      if (!updateResult.success) {
+        return Result.failure(updateResult.error);
+      }
+
+      replacements.push({ currentName: term.name.value, previousValue: term.data, value: updateResult.value.data });
+    }
+
+    return Result.success({ replacements, updatedReferences });
+  }
+
+  /**
+   * 名前変更に伴う変更履歴を記録する
+   */
+  private async recordRevisions(
+    existing: Feature,
+    renamed: Feature,
+    replacements: readonly EntityReplacementData<TermData>[],
+    actor: string
+  ): Promise<Result<void, Error>> {
+    const records = [
+      () => this.revisionRecorder.record('feature', existing.name.value, existing.data, null, actor),
+      () => this.revisionRecorder.record('feature', renamed.name.value, null, renamed.data, actor),
+      ...replacements.map(replacement => () => this.revisionRecorder.record(
+        'term',
+        replacement.currentName,
+        replacement.previousValue,
+        replacement.value,
+        actor
+      )),
+    ];
+
+    for (const record of records) {
+      const recordResult = await record();
+      if (!recordResult.success) {
+        return Result.failure(recordResult.error);
+      }
+    }
+
+    return Result.success(undefined);
+  }
+
+  /**
+   * 入力パラメータの事前検証
+   */
+  validateInput(featureName: any, newFeatureName: any, expectedRevision?: any): Result<void, Error> {
+    if (expectedRevision !== undefined && !RevisionTracker.isValidExpectedRevision(expectedRevision)) {
+      return Result.failure(new Error(MESSAGES.ERROR.INVALID_EXPECTED_REVISION()));
+    }
+
+    if (typeof featureName !== 'string' || !featureName.trim()) {
+      return Result.failure(new Error(MESSAGES.ERROR.FEATURE_NAME_REQUIRED()));
+    }
+
+    if (typeof newFeatureName !== 'string' || !newFeatureName.trim()) {
+      return Result.failure(new Error(MESSAGES.ERROR.NEW_NAME_REQUIRED()));
+    }
+
+    const newNameResult = FeatureName.create(newFeatureName);
+    if (!newNameResult.success) {
+      return Result.failure(new Error(MESSAGES.ERROR.INVALID_NEW_NAME(newNameResult.error.message)));
+    }
+
+    if (featureName.trim() === newFeatureName.trim()) {
+      return Result.failure(new Error(MESSAGES.ERROR.RENAME_TO_SAME_NAME(featureName.trim())));
+    }
+
+    return Result.success(undefined);
+  }
+}
@@ -0,0 +1,304 @@
+import { Term } from '../../domain/entities/Term.js';
+import { TermName } from '../../domain/valueObjects/TermName.js';
+import { IFeatureRepository } from '../../domain/repositories/IFeatureRepository.js';
+import { ITermRepository } from '../../domain/repositories/ITermRepository.js';
+import { IDesignChangeSetRepository } from '../../domain/repositories/IDesignChangeSetRepository.js';
+import { EntityNotFoundError } from '../../domain/errors/EntityNotFoundError.js';
+import { AliasConflictError } from '../../domain/errors/AliasConflictError.js';
+import { ConcurrentModificationError } from '../../domain/errors/ConcurrentModificationError.js';
+import { NameMentionFinder } from '../../domain/services/NameMentionFinder.js';
+import { TermResolver } from '../../domain/services/TermResolver.js';
+import {
+  EntityReplacementData,
+  ExpectedRevision,
+  InboundReferenceData,
+  RenameResultData,
+  TermData,
+} from '../../domain/types.js';
+import { Result } from '../../shared/types/functional.js';
+import { TextMatching } from '../../shared/utils/textMatching.js';
+import { CONFIG } from '../../shared/constants/config.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+import { RevisionRecorder } from '../services/RevisionRecorder.js';
+import { RevisionTracker } from '../services/RevisionTracker.js';
+
+/**
+ * ユビキタス言語情報の名前変更のオプション
+ */
+export interface RenameTermOptions {
+  /** 旧名称を別名として残すか（省略時は残さない） */
+  readonly keepOldNameAsAlias?: boolean;
+  /** 変更履歴に記録する変更者 */
+  readonly actor?: string;
+  /** 変更対象に期待するリビジョン（省略時は照合しない） */
+  readonly expectedRevision?: ExpectedRevision;
+}
+
+/**
+ * ユビキタス言語情報名前変更ユースケース
+ * 用語名を変更し、他のユビキタス言語のrelatedTermsの参照を新しい名前に書き換える
+ * 名前を変更した用語と参照元のユビキタス言語情報は1回の書き込みでまとめて保存する
+ */
+export class RenameTermUseCase {
+  private readonly resolver = new TermResolver();
+  private readonly nameMentionFinder = new NameMentionFinder();
+
+  constructor(
+    private readonly featureRepository: IFeatureRepository,
+    private readonly termRepository: ITermRepository,
+    private readonly changeSetRepository: IDesignChangeSetRepository,
+    private readonly revisionRecorder: RevisionRecorder,
+    private readonly revisionTracker: RevisionTracker
+  ) {}
+
+  /**
+   * ユビキタス言語情報の用語名を変更する
+   * @param termName 現在の用語名（別名でも指定可能）
+   * @param newTermName 変更後の用語名
+   * @param options 旧名称を別名として残すか・変更者・期待するリビジョンなどのオプション
+   * @returns 書き換えた参照、書き換えなかった自由記述中の言及と、変更後の名前でのリビジョン
+   */
+  async execute(
+    termName: string,
+    newTermName: string,
+    options: RenameTermOptions = {}
+  ): Promise<Result<RenameResultData, Error>> {
+    const keepOldNameAsAlias = options.keepOldNameAsAlias ?? false;
+    const actor = options.actor ?? CONFIG.HISTORY.DEFAULT_ACTOR;
+
+    try {
+      // 1. 変更後の用語名の検証
+      const newNameResult = TermName.create(newTermName);
+      if (!newNameResult.success) {
+        return Result.failure(new Error(MESSAGES.ERROR.INVALID_NEW_NAME(newNameResult.error.message)));
+      }
+      const newName = newNameResult.value;
+
+      // 2. 変更対象の解決
+      const termsResult = await this.termRepository.findAll();
+      if (!termsResult.success) {
+        return Result.failure(termsResult.error);
+      }
+
+      const resolution = this.resolver.resolve(termsResult.value, termName);
+      if (resolution.isNone) {
+        return Result.failure(new EntityNotFoundError('term', termName));
+      }
+      const existing = resolution.value.term;
+      if (existing.name.equals(newName)) {
+        return Result.failure(new Error(MESSAGES.ERROR.RENAME_TO_SAME_NAME(existing.name.value)));
+      }
+
+      const verifyResult = await this.revisionTracker.verify(
+        'term',
+        existing.name.value,
+        options.expectedRevision,
+        existing.data
+      );
+      if (!verifyResult.success) {
+        return Result.failure(verifyResult.error);
+      }
+      const expectedCurrent = verifyResult.value === undefined ? existing.data : verifyResult.value;
+      if (expectedCurrent === null) {
+        return Result.failure(new ConcurrentModificationError('term', existing.name.value));
+      }
+
+      // 3. 名前を変更した用語の作成と、他の用語の名前・別名との重複確認
+      // 別名を用語名に昇格する場合は、その別名を別名の一覧から取り除く
+      const aliases = existing.aliases.filter(alias => TextMatching.fold(alias) !== TextMatching.fold(newName.value));
+      const renamedResult = existing.update({
+        term: {
+          ...existing.data.term,
+          name: newName.value,
+          aliases: keepOldNameAsAlias ? [...aliases, existing.name.value] : aliases,
+        },
+      });
+      if (!renamedResult.success) {
+        return Result.failure(renamedResult.error);
+      }
+
+      const otherTerms = termsResult.value.filter(term => term !== existing);
+      const conflicts = this.resolver.findConflicts(renamedResult.value.data, otherTerms);
+      if (conflicts.length > 0) {
+        return Result.failure(new AliasConflictError(conflicts));
+      }
+
+      // 4. relatedTermsで旧名称を参照しているユビキタス言語情報の書き換え（自己参照を含む）
+      const rewriteResult = this.rewriteReferences(
+        termsResult.value.map(term => term === existing ? renamedResult.value : term),
+        existing.name,
+        newName
+      );
+      if (!rewriteResult.success) {
+        return Result.failure(rewriteResult.error);
+      }
+      const { rewritten, updatedReferences } = rewriteResult.value;
+
+      const renamedData = rewritten.get(newName.value) ?? renamedResult.value.data;
+      const replacements: EntityReplacementData<TermData>[] = [
+        { currentName: existing.name.value, previousValue: expectedCurrent, value: renamedData },
+        ...otherTerms
+          .filter(term => rewritten.has(term.name.value))
+          .map(term => ({
+            currentName: term.name.value,
+            previousValue: term.data,
+            value: rewritten.get(term.name.value) as TermData,
+          })),
+      ];
+
+      // 5. 名前を変更した用語と参照元の一括保存
+      const applyResult = await this.changeSetRepository.apply({ features: [], terms: replacements });
+      if (!applyResult.success) {
+        return Result.failure(applyResult.error);
+      }
+
+      // 6. 変更履歴の記録（旧名称の削除と新名称の作成として記録する）
+      const recordResult = await this.recordRevisions(replacements, actor);
+      if (!recordResult.success) {
+        return Result.failure(recordResult.error);
+      }
+
+      const revisionResult = await this.revisionTracker.currentRevision('term', newName.value);
+      if (!revisionResult.success) {
+        return Result.failure(revisionResult.error);
+      }
+
+      // 7. 書き換えなかった自由記述中の言及の収集
+      const featuresResult = await this.featureRepository.findAll();
+      if (!featuresResult.success) {
+        return Result.failure(featuresResult.error);
+      }
+
+      const termsAfterRename = termsResult.value.map(term =>
+        replacements.find(replacement => replacement.currentName === term.name.value)?.value ?? term.data
+      );
+
+      return Result.success({
+        entityType: 'term',
+        previousName: existing.name.value,
+        newName: newName.value,
+        keptAsAlias: keepOldNameAsAlias,
+        revision: revisionResult.value,
+        updatedReferences,
+        unchangedMentions: this.nameMentionFinder.find(
+          existing.name.value,
+          featuresResult.value.map(feature => feature.data),
+          termsAfterRename
+        ),
+      });
+
+    } catch (error) {
+      return Result.failure(
+        error instanceof Error
+          ? error
+          : new Error(`ユビキタス言語情報の名前変更中に予期しないエラーが発生しました: ${String(error)}`)
+      );
+    }
+  }
+
+  /**
+   * relatedTermsで旧名称を参照しているユビキタス言語情報を新しい名前に書き換える
+   * @returns 書き換え後の用語名をキーとした書き換え後の内容と、書き換えた参照
+   */
+  private rewriteReferences(
+    terms: readonly Term[],
+    name: TermName,
+    newName: TermName
+  ): Result<{
+    readonly rewritten: ReadonlyMap<string, TermData>;
+    readonly updatedReferences: readonly InboundReferenceData[];
+  }, Error> {
+    const rewritten = new Map<string, TermData>();
+    const updatedReferences: InboundReferenceData[] = [];
+
+    for (const term of terms) {
+      const relatedTerms = term.data.relationships.relatedTerms;
+      if (!relatedTerms.some(related => related.termName === name.value)) {
+        continue;
+      }
+
+      const updateResult = term.update({
+        relationships: {
+          ...term.data.relationships,
+          relatedTerms: relatedTerms.map((related, index) => {
+            if (related.termName !== name.value) {
+              return related;
+            }
+            updatedReferences.push({
+              kind: 'relatedTerm',
+              sourceTermName: term.name.value,
+              path: `relationships.relatedTerms[${index}].termName`,
+            });
+            return { ...related, termName: newName.value };
+          }),
+        },
+      });
+      if (!updateResult.success) {
+        return Result.failure(updateResult.error);
+      }
+
+      rewritten.set(term.name.value, updateResult.value.data);
+    }
+
+    return Result.success({ rewritten, updatedReferences });
+  }
+
+  /**
+   * 名前変更に伴う変更履歴を記録する
+   * 先頭の置き換えが名前を変更した用語、それ以降が参照を書き換えた用語
+   */
+  private async recordRevisions(
+    replacements: readonly EntityReplacementData<TermData>[],
+    actor: string
+  ): Promise<Result<void, Error>> {
+    const [renamed, ...referencing] = replacements;
+    const records = [
+      () => this.revisionRecorder.record('term', renamed.currentName, renamed.previousValue, null, actor),
+      () => this.revisionRecorder.record('term', renamed.value.term.name, null, renamed.value, actor),
+      ...referencing.map(replacement => () => this.revisionRecorder.record(
+        'term',
+        replacement.currentName,
+        replacement.previousValue,
+        replacement.value,
+        actor
+      )),
+    ];
+
+    for (const record of records) {
+      const recordResult = await record();
+      if (!recordResult.success) {
+        return Result.failure(recordResult.error);
+      }
+    }
+
+    return Result.success(undefined);
+  }
+
+  /**
+   * 入力パラメータの事前検証
+   */
+  validateInput(termName: any, newTermName: any, keepOldNameAsAlias?: any, expectedRevision?: any): Result<void, Error> {
+    if (expectedRevision !== undefined && !RevisionTracker.isValidExpectedRevision(expectedRevision)) {
+      return Result.failure(new Error(MESSAGES.ERROR.INVALID_EXPECTED_REVISION()));
+    }
+
+    if (keepOldNameAsAlias !== undefined && typeof keepOldNameAsAlias !== 'boolean') {
+      return Result.failure(new Error(MESSAGES.ERROR.INVALID_KEEP_OLD_NAME_AS_ALIAS()));
+    }
+
+    if (typeof termName !== 'string' || !termName.trim()) {
+      return Result.failure(new Error(MESSAGES.ERROR.TERM_NAME_REQUIRED()));
+    }
+
+    if (typeof newTermName !== 'string' || !newTermName.trim()) {
+      return Result.failure(new Error(MESSAGES.ERROR.NEW_NAME_REQUIRED()));
+    }
+
+    const newNameResult = TermName.create(newTermName);
+    if (!newNameResult.success) {
+      return Result.failure(new Error(MESSAGES.ERROR.INVALID_NEW_NAME(newNameResult.error.message)));
+    }
+
+    return Result.success(undefined);
+  }
+}
@@ -0,0 +1,197 @@
+import { IRevisionRepository } from '../../domain/repositories/IRevisionRepository.js';
+import { RevisionNotFoundError } from '../../domain/errors/RevisionNotFoundError.js';
+import { RevisionRecordingError } from '../../domain/errors/RevisionRecordingError.js';
+import {
+  FeatureData,
+  TermData,
+  RestoreResultData,
+  RevisionData,
+  RevisionEntityType,
+  RevisionSummaryData,
+} from '../../domain/types.js';
+import { Result } from '../../shared/types/functional.js';
+import { CONFIG } from '../../shared/constants/config.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+import { RevisionTracker } from '../services/RevisionTracker.js';
+import { EntityNameResolver } from '../services/EntityNameResolver.js';
+import { AddOrUpdateFeatureUseCase } from './AddOrUpdateFeatureUseCase.js';
+import { AddOrUpdateTermUseCase } from './AddOrUpdateTermUseCase.js';
+import { DeleteFeatureUseCase } from './DeleteFeatureUseCase.js';
+import { DeleteTermUseCase } from './DeleteTermUseCase.js';
+
+/**
+ * リビジョン復元のオプション
+ */
+export interface RestoreRevisionOptions {
+  /** 変更履歴に記録する変更者 */
+  readonly actor?: string;
+}
+
+/**
+ * リビジョン復元ユースケース
+ * 機能定義・ユビキタス言語情報を過去のリビジョンの状態に戻すビジネスロジックを管理
+ * 通常の追加・更新・削除と同じ検証（参照整合性・別名の重複・被参照の確認）を経るよう、各ユースケースを通して復元する
+ */
+export class RestoreRevisionUseCase {
+  constructor(
+    private readonly revisionRepository: IRevisionRepository,
+    private readonly revisionTracker: RevisionTracker,
+    private readonly entityNameResolver: EntityNameResolver,
+    private readonly addOrUpdateFeatureUseCase: AddOrUpdateFeatureUseCase,
+    private readonly addOrUpdateTermUseCase: AddOrUpdateTermUseCase,
+    private readonly deleteFeatureUseCase: DeleteFeatureUseCase,
+    private readonly deleteTermUseCase: DeleteTermUseCase
+  ) {}
+
+  /**
+   * 指定したリビジョンの状態に復元する
+   * 削除を記録したリビジョンを指定した場合は、項目を削除した状態に戻す（被参照がある場合は削除しない）
+   * @param entityType 項目の種類
+   * @param entityName 項目名（用語の場合は別名でも可）
+   * @param revisionNumber 復元するリビジョン番号
+   * @param options 変更者などのオプション
+   * @returns 復元結果（復元自体も新しいリビジョンとして記録される）
+   */
+  async execute(
+    entityType: RevisionEntityType,
+    entityName: string,
+    revisionNumber: number,
+    options: RestoreRevisionOptions = {}
+  ): Promise<Result<RestoreResultData, Error>> {
+    try {
+      // 1. 項目名の解決と復元元リビジョンの取得
+      const nameResult = await this.entityNameResolver.resolve(entityType, entityName);
+      if (!nameResult.success) {
+        return Result.failure(nameResult.error);
+      }
+
+      const revisionResult = await this.revisionRepository.findRevision(entityType, nameResult.value, revisionNumber);
+      if (!revisionResult.success) {
+        return Result.failure(revisionResult.error);
+      }
+
+      if (revisionResult.value.isNone) {
+        return Result.failure(new RevisionNotFoundError(entityType, nameResult.value, revisionNumber));
+      }
+
+      const revision = revisionResult.value.value;
+
+      // 2. 現在のリビジョンの取得（復元までの間に他の操作で変更された場合は失敗とする）
+      const currentResult = await this.revisionTracker.currentRevision(entityType, revision.entityName);
+      if (!currentResult.success) {
+        return Result.failure(currentResult.error);
+      }
+
+      // 3. 追加・更新・削除のユースケースを通して復元（変更履歴の記録を含む）
+      const restoreResult = await this.restore(revision, {
+        actor: options.actor ?? CONFIG.HISTORY.DEFAULT_ACTOR,
+        expectedRevision: currentResult.value,
+        restoredFrom: revisionNumber,
+      });
+      const result = {
+        entityType,
+        entityName: revision.entityName,
+        restoredFrom: revisionNumber,
+      };
+      if (!restoreResult.success) {
+        // 変更履歴の記録のみに失敗した場合は、復元した内容が保存されているため成功として返す
+        return restoreResult.error instanceof RevisionRecordingError
+          ? Result.success({ ...result, revision: null, historyError: restoreResult.error.message })
+          : Result.failure(restoreResult.error);
+      }
+
+      // 4. 復元結果の返却（内容が変わらず記録しなかった場合はリビジョンなし）
+      const recordedResult = await this.findRecorded(revision.entityType, revision.entityName, currentResult.value);
+      if (!recordedResult.success) {
+        return Result.failure(recordedResult.error);
+      }
+
+      return Result.success({ ...result, revision: recordedResult.value });
+
+    } catch (error) {
+      return Result.failure(
+        error instanceof Error
+          ? error
+          : new Error(`リビジョンの復元中に予期しないエラーが発生しました: ${String(error)}`)
+      );
+    }
+  }
+
+  /**
+   * 入力パラメータの事前検証
+   */
+  validateInput(entityType: any, entityName: any, revisionNumber: any): Result<void, Error> {
+    if (!CONFIG.HISTORY.ENTITY_TYPES.includes(entityType)) {
+      return Result.failure(new Error(MESSAGES.ERROR.INVALID_ENTITY_TYPE()));
+    }
+
+    if (!entityName || typeof entityName !== 'string') {
+      return Result.failure(new Error(
+        entityType === 'feature' ? MESSAGES.ERROR.FEATURE_NAME_REQUIRED() : MESSAGES.ERROR.TERM_NAME_REQUIRED()
+      ));
+    }
+
+    if (!Number.isInteger(revisionNumber) || revisionNumber < 1) {
+      return Result.failure(new Error(MESSAGES.ERROR.INVALID_REVISION_NUMBER()));
+    }
+
+    return Result.success(undefined);
+  }
+
+  /**
+   * 項目をリビジョンの状態に置き換える
+   */
+  private async restore(
+    revision: RevisionData,
+    options: { readonly actor: string; readonly expectedRevision: number; readonly restoredFrom: number }
+  ): Promise<Result<void, Error>> {
+    if (revision.newValue === null) {
+      const deleteUseCase = revision.entityType === 'feature' ? this.deleteFeatureUseCase : this.deleteTermUseCase;
+      const deleteResult = await deleteUseCase.execute(revision.entityName, { ...options, mode: 'block' });
+      return deleteResult.success ? Result.success(undefined) : Result.failure(deleteResult.error);
+    }
+
+    const saveResult = revision.entityType === 'feature'
+      ? await this.addOrUpdateFeatureUseCase.execute(revision.newValue as FeatureData, options)
+      : await this.addOrUpdateTermUseCase.execute(revision.newValue as TermData, options);
+    return saveResult.success ? Result.success(undefined) : Result.failure(saveResult.error);
+  }
+
+  /**
+   * 復元時に記録したリビジョンを取得する
+   * @param previousRevision 復元前のリビジョン番号
+   * @returns 記録したリビジョン（記録しなかった場合はnull）
+   */
+  private async findRecorded(
+    entityType: RevisionEntityType,
+    entityName: string,
+    previousRevision: number
+  ): Promise<Result<RevisionSummaryData | null, Error>> {
+    const currentResult = await this.revisionTracker.currentRevision(entityType, entityName);
+    if (!currentResult.success) {
+      return Result.failure(currentResult.error);
+    }
+
+    if (currentResult.value === previousRevision) {
+      return Result.success(null);
+    }
+
+    const recordedResult = await this.revisionRepository.findRevision(entityType, entityName, currentResult.value);
+    if (!recordedResult.success) {
+      return Result.failure(recordedResult.error);
+    }
+
+    if (recordedResult.value.isNone) {
+      return Result.success(null);
+    }
+
+    const recorded = recordedResult.value.value;
+    return Result.success({
+      revisionNumber: recorded.revisionNumber,
+      operation: recorded.operation,
+      timestamp: recorded.timestamp,
+      actor: recorded.actor,
+      restoredFrom: recorded.restoredFrom,
+    });
+  }
+}
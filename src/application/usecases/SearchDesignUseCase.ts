@@ -0,0 +1,315 @@
+import { IFeatureRepository } from '../../domain/repositories/IFeatureRepository.js';
+import { ITermRepository } from '../../domain/repositories/ITermRepository.js';
+import {
+  FeatureData,
+  RevisionEntityType,
+  SearchMatchData,
+  SearchResultData,
+  SearchResultItemData,
+  TermData,
+} from '../../domain/types.js';
+import { Result } from '../../shared/types/functional.js';
+import { TextMatching } from '../../shared/utils/textMatching.js';
+import { CONFIG } from '../../shared/constants/config.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+
+/**
+ * 検索対象のフィールドの型
+ */
+interface SearchableField {
+  readonly path: string;
+  readonly text: string;
+  readonly weight: number;
+}
+
+/**
+ * フィールドとの一致結果の型
+ * scoreは0より大きい一致度、indexは正規化後のテキストでの一致位置
+ */
+interface FieldMatch {
+  readonly score: number;
+  readonly index: number;
+  readonly length: number;
+}
+
+/**
+ * フィールドの種類ごとの重み
+ */
+const FIELD_WEIGHTS = {
+  NAME: 10,
+  ALIAS: 8,
+  SUMMARY: 4,
+  USER_STORY: 3,
+  DETAIL: 2,
+} as const;
+
+/**
+ * 検索語全体がフィールドに含まれない場合の一致度の割引率
+ */
+const TOKEN_MATCH_FACTOR = 0.8;
+
+/**
+ * 項目のスコアに加算する、最も一致度の高いフィールド以外の一致度の割合
+ */
+const SECONDARY_MATCH_FACTOR = 0.3;
+
+/**
+ * 設計検索ユースケース
+ * 機能定義とユビキタス言語情報を横断して検索し、一致度の高い順に返す
+ * 全角・半角やひらがな・カタカナの違い、軽微な誤字を許容する
+ */
+export class SearchDesignUseCase {
+  constructor(
+    private readonly featureRepository: IFeatureRepository,
+    private readonly termRepository: ITermRepository
+  ) {}
+
+  /**
+   * 設計を検索する
+   * @param query 検索語
+   * @param entityType 検索対象の種類（省略時は両方）
+   * @param limit 返す件数の上限
+   */
+  async execute(
+    query: string,
+    entityType?: RevisionEntityType,
+    limit: number = CONFIG.SEARCH.DEFAULT_LIMIT
+  ): Promise<Result<SearchResultData, Error>> {
+    try {
+      const items: SearchResultItemData[] = [];
+
+      if (entityType !== 'term') {
+        const featuresResult = await this.featureRepository.findAll();
+        if (!featuresResult.success) {
+          return Result.failure(featuresResult.error);
+        }
+        featuresResult.value.forEach(feature => {
+          const item = this.scoreEntity('feature', feature.name.value, this.featureFields(feature.data), query);
+          if (item) {
+            items.push(item);
+          }
+        });
+      }
+
+      if (entityType !== 'feature') {
+        const termsResult = await this.termRepository.findAll();
+        if (!termsResult.success) {
+          return Result.failure(termsResult.error);
+        }
+        termsResult.value.forEach(term => {
+          const item = this.scoreEntity('term', term.name.value, this.termFields(term.data), query);
+          if (item) {
+            items.push(item);
+          }
+        });
+      }
+
+      const ranked = items.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+
+      return Result.success({
+        query,
+        total: ranked.length,
+        results: ranked.slice(0, limit),
+      });
+
+    } catch (error) {
+      return Result.failure(
+        error instanceof Error
+          ? error
+          : new Error(`検索中に予期しないエラーが発生しました: ${String(error)}`)
+      );
+    }
+  }
+
+  /**
+   * 機能定義の検索対象フィールドを列挙する
+   */
+  private featureFields(data: FeatureData): SearchableField[] {
+    return [
+      { path: 'feature.name', text: data.feature.name, weight: FIELD_WEIGHTS.NAME },
+      { path: 'feature.purpose', text: data.feature.purpose, weight: FIELD_WEIGHTS.SUMMARY },
+      ...data.feature.userStories.map((story, index) => ({
+        path: `feature.userStories[${index}]`, text: story, weight: FIELD_WEIGHTS.USER_STORY,
+      })),
+      ...data.coreLogicSteps.map((step, index) => ({
+        path: `coreLogicSteps[${index}].description`, text: step.description, weight: FIELD_WEIGHTS.DETAIL,
+      })),
+    ];
+  }
+
+  /**
+   * ユビキタス言語情報の検索対象フィールドを列挙する
+   */
+  private termFields(data: TermData): SearchableField[] {
+    return [
+      { path: 'term.name', text: data.term.name, weight: FIELD_WEIGHTS.NAME },
+      ...data.term.aliases.map((alias, index) => ({
+        path: `term.aliases[${index}]`, text: alias, weight: FIELD_WEIGHTS.ALIAS,
+      })),
+      { path: 'term.definition', text: data.term.definition, weight: FIELD_WEIGHTS.SUMMARY },
+      ...data.details.examples.flatMap((example, index) => [
+        { path: `details.examples[${index}].scenario`, text: example.scenario, weight: FIELD_WEIGHTS.DETAIL },
+        { path: `details.examples[${index}].description`, text: example.description, weight: FIELD_WEIGHTS.DETAIL },
+      ]),
+    ];
+  }
+
+  /**
+   * 項目のスコアを計算する
+   * 一致したフィールドがない場合はnullを返す
+   */
+  private scoreEntity(
+    entityType: RevisionEntityType,
+    name: string,
+    fields: readonly SearchableField[],
+    query: string
+  ): SearchResultItemData | null {
+    const matches: SearchMatchData[] = [];
+
+    fields.forEach(field => {
+      const match = this.matchField(field.text, query);
+      if (match) {
+        matches.push({
+          path: field.path,
+          snippet: this.createSnippet(field.text, match),
+          score: this.round(field.weight * match.score),
+        });
+      }
+    });
+
+    if (matches.length === 0) {
+      return null;
+    }
+
+    const sorted = matches.sort((a, b) => b.score - a.score);
+    const [best, ...rest] = sorted;
+    const score = best.score + SECONDARY_MATCH_FACTOR * rest.reduce((sum, match) => sum + match.score, 0);
+
+    return {
+      entityType,
+      name,
+      score: this.round(score),
+      matches: sorted.slice(0, CONFIG.SEARCH.MAX_MATCHES_PER_RESULT),
+    };
+  }
+
+  /**
+   * フィールドと検索語を照合する
+   * 検索語全体を含む場合を最も高く評価し、それ以外は単語ごとの一致（前方一致・誤字の許容を含む）で評価する
+   */
+  private matchField(text: string, query: string): FieldMatch | null {
+    const normalizedText = TextMatching.normalize(text);
+    const normalizedQuery = TextMatching.normalize(query);
+    if (!normalizedText || !normalizedQuery) {
+      return null;
+    }
+
+    const phraseIndex = normalizedText.indexOf(normalizedQuery);
+    if (phraseIndex !== -1) {
+      return {
+        score: normalizedText === normalizedQuery ? 1.5 : 1,
+        index: phraseIndex,
+        length: normalizedQuery.length,
+      };
+    }
+
+    const queryTokens = [...new Set(TextMatching.tokenize(query))];
+    if (queryTokens.length === 0) {
+      return null;
+    }
+
+    const textTokens = TextMatching.tokenize(text);
+    const hits = queryTokens
+      .map(queryToken => this.matchToken(queryToken, normalizedText, textTokens))
+      .filter((hit): hit is FieldMatch => hit !== null);
+
+    // 検索語の単語の半分以上が一致しない場合は一致とみなさない
+    const coverage = hits.reduce((sum, hit) => sum + hit.score, 0) / queryTokens.length;
+    if (hits.length === 0 || coverage < 0.5) {
+      return null;
+    }
+
+    const firstHit = hits.reduce((first, hit) => hit.index < first.index ? hit : first);
+    return { score: coverage * TOKEN_MATCH_FACTOR, index: firstHit.index, length: firstHit.length };
+  }
+
+  /**
+   * 検索語の単語1つとフィールドを照合する
+   */
+  private matchToken(queryToken: string, normalizedText: string, textTokens: readonly string[]): FieldMatch | null {
+    // 分かち書きの単位が異なる場合も拾えるよう、部分文字列としての一致を優先する
+    const index = normalizedText.indexOf(queryToken);
+    if (index !== -1) {
+      return { score: 0.9, index, length: queryToken.length };
+    }
+
+    const prefixToken = textTokens.find(token => queryToken.length >= 2 && token.startsWith(queryToken));
+    if (prefixToken) {
+      return { score: 0.8, index: Math.max(0, normalizedText.indexOf(prefixToken)), length: prefixToken.length };
+    }
+
+    const allowedTypos = TextMatching.allowedTypos(queryToken);
+    if (allowedTypos === 0) {
+      return null;
+    }
+
+    let best: { token: string; distance: number } | null = null;
+    for (const token of textTokens) {
+      if (Math.abs(token.length - queryToken.length) > allowedTypos) {
+        continue;
+      }
+      const distance = TextMatching.editDistance(queryToken, token);
+      if (distance <= allowedTypos && (!best || distance < best.distance)) {
+        best = { token, distance };
+      }
+    }
+
+    if (!best) {
+      return null;
+    }
+
+    return {
+      score: 0.7 - 0.1 * (best.distance - 1),
+      index: Math.max(0, normalizedText.indexOf(best.token)),
+      length: best.token.length,
+    };
+  }
+
+  /**
+   * 一致箇所の前後を切り出したスニペットを作成する
+   * NFKC正規化でほとんどの文字は長さが変わらないため、正規化後の位置をそのまま使用する
+   */
+  private createSnippet(text: string, match: FieldMatch): string {
+    const singleLine = text.replace(/\s+/g, ' ').trim();
+    const start = Math.max(0, match.index - CONFIG.SEARCH.SNIPPET_RADIUS);
+    const end = Math.min(singleLine.length, match.index + match.length + CONFIG.SEARCH.SNIPPET_RADIUS);
+
+    return `${start > 0 ? '…' : ''}${singleLine.slice(start, end)}${end < singleLine.length ? '…' : ''}`;
+  }
+
+  /**
+   * スコアを小数点以下3桁に丸める
+   */
+  private round(score: number): number {
+    return Math.round(score * 1000) / 1000;
+  }
+
+  /**
+   * 入力パラメータの事前検証
+   */
+  validateInput(query: any, entityType?: any, limit?: any): Result<void, Error> {
+    if (typeof query !== 'string' || !query.trim() || query.length > CONFIG.SEARCH.MAX_QUERY_LENGTH) {
+      return Result.failure(new Error(MESSAGES.ERROR.SEARCH_QUERY_REQUIRED(CONFIG.SEARCH.MAX_QUERY_LENGTH)));
+    }
+
+    if (entityType !== undefined && !CONFIG.HISTORY.ENTITY_TYPES.includes(entityType)) {
+      return Result.failure(new Error(MESSAGES.ERROR.INVALID_ENTITY_TYPE()));
+    }
+
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > CONFIG.SEARCH.MAX_LIMIT)) {
+      return Result.failure(new Error(MESSAGES.ERROR.INVALID_SEARCH_LIMIT(CONFIG.SEARCH.MAX_LIMIT)));
+    }
+
+    return Result.success(undefined);
+  }
+}
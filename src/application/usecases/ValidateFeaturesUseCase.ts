@@ -0,0 +1,92 @@
+import { Feature } from '../../domain/entities/Feature.js';
+import { FeatureName } from '../../domain/valueObjects/FeatureName.js';
+import { IFeatureRepository } from '../../domain/repositories/IFeatureRepository.js';
+import { EntityNotFoundError } from '../../domain/errors/EntityNotFoundError.js';
+import { FeatureSemanticValidator } from '../../domain/services/FeatureSemanticValidator.js';
+import { FeatureValidationData } from '../../domain/types.js';
+import { Result } from '../../shared/types/functional.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+
+/**
+ * 機能定義意味検証ユースケース
+ * 保存済みの機能定義について、ステップ・入力・出力・エラーハンドリングの間の参照を検証する
+ */
+export class ValidateFeaturesUseCase {
+  private readonly semanticValidator = new FeatureSemanticValidator();
+
+  constructor(
+    private readonly featureRepository: IFeatureRepository
+  ) {}
+
+  /**
+   * 機能定義内の参照を検証する
+   * @param featureNames 検証する機能名（省略時は全件）
+   * @returns 機能定義ごとの参照の問題
+   */
+  async execute(featureNames: readonly string[] = []): Promise<Result<readonly FeatureValidationData[], Error>> {
+    try {
+      // 1. 検証対象の機能定義の取得
+      const featuresResult = await this.findTargets(featureNames);
+      if (!featuresResult.success) {
+        return Result.failure(featuresResult.error);
+      }
+
+      // 2. 機能定義ごとの検証
+      return Result.success(featuresResult.value.map(feature => ({
+        featureName: feature.name.value,
+        issues: this.semanticValidator.validate(feature.data),
+      })));
+
+    } catch (error) {
+      return Result.failure(
+        error instanceof Error
+          ? error
+          : new Error(`機能定義の検証中に予期しないエラーが発生しました: ${String(error)}`)
+      );
+    }
+  }
+
+  /**
+   * 検証対象の機能定義を取得する
+   * 指定した機能名が見つからない場合は失敗とする
+   */
+  private async findTargets(featureNames: readonly string[]): Promise<Result<readonly Feature[], Error>> {
+    if (featureNames.length === 0) {
+      return this.featureRepository.findAll();
+    }
+
+    const names: FeatureName[] = [];
+    for (const featureName of featureNames) {
+      const nameResult = FeatureName.create(featureName);
+      if (!nameResult.success) {
+        return Result.failure(nameResult.error);
+      }
+      names.push(nameResult.value);
+    }
+
+    const findResult = await this.featureRepository.findByNames(names);
+    if (!findResult.success) {
+      return Result.failure(findResult.error);
+    }
+    if (findResult.value.notFound.length > 0) {
+      return Result.failure(new EntityNotFoundError('feature', findResult.value.notFound[0].value));
+    }
+
+    return Result.success(findResult.value.found);
+  }
+
+  /**
+   * 入力パラメータの事前検証
+   */
+  validateInput(featureNames: any): Result<void, Error> {
+    if (featureNames === undefined) {
+      return Result.success(undefined);
+    }
+
+    if (!Array.isArray(featureNames) || featureNames.some(name => typeof name !== 'string' || !name.trim())) {
+      return Result.failure(new Error(MESSAGES.ERROR.INVALID_FEATURE_NAMES()));
+    }
+
+    return Result.success(undefined);
+  }
+}
@@ -0,0 +1,15 @@
+import { AliasConflictData } from '../types.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+
+/**
+ * 別名衝突エラー
+ * 用語名・別名が他のユビキタス言語の用語名・別名と重複するデータの保存を拒否した場合に使用
+ */
+export class AliasConflictError extends Error {
+  constructor(
+    readonly conflicts: readonly AliasConflictData[]
+  ) {
+    super(MESSAGES.ERROR.ALIAS_CONFLICT(conflicts.length));
+    this.name = 'AliasConflictError';
+  }
+}
@@ -0,0 +1,16 @@
+import { RevisionEntityType } from '../types.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+
+/**
+ * 同時変更エラー
+ * 読み込んだ時点から書き込むまでの間に、対象の項目が他の処理によって変更された場合に使用
+ */
+export class ConcurrentModificationError extends Error {
+  constructor(
+    readonly entityType: RevisionEntityType,
+    readonly entityName: string
+  ) {
+    super(MESSAGES.ERROR.CONCURRENT_MODIFICATION(entityType, entityName));
+    this.name = 'ConcurrentModificationError';
+  }
+}
@@ -0,0 +1,16 @@
+import { InboundReferenceData } from '../types.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+
+/**
+ * 依存関係競合エラー
+ * 他のユビキタス言語から参照されている項目の削除を拒否した場合に使用
+ */
+export class DependencyConflictError extends Error {
+  constructor(
+    readonly targetName: string,
+    readonly inboundReferences: readonly InboundReferenceData[]
+  ) {
+    super(MESSAGES.ERROR.DELETION_BLOCKED(targetName, inboundReferences.length));
+    this.name = 'DependencyConflictError';
+  }
+}
@@ -0,0 +1,18 @@
+import { RevisionEntityType } from '../types.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+
+/**
+ * 項目未検出エラー
+ * 既存の機能定義・ユビキタス言語情報を前提とする操作で、対象が存在しなかった場合に使用
+ */
+export class EntityNotFoundError extends Error {
+  constructor(
+    readonly entityType: RevisionEntityType,
+    readonly entityName: string
+  ) {
+    super(entityType === 'feature'
+      ? MESSAGES.ERROR.FEATURE_NOT_FOUND(entityName)
+      : MESSAGES.ERROR.TERM_NOT_FOUND(entityName));
+    this.name = 'EntityNotFoundError';
+  }
+}
@@ -0,0 +1,16 @@
+import { RevisionEntityType } from '../types.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+
+/**
+ * 名前重複エラー
+ * 名前の変更先が既存の機能定義・ユビキタス言語情報の名前（用語の場合は別名も含む）と重複する場合に使用
+ */
+export class NameConflictError extends Error {
+  constructor(
+    readonly entityType: RevisionEntityType,
+    readonly entityName: string
+  ) {
+    super(MESSAGES.ERROR.NAME_ALREADY_EXISTS(entityType, entityName));
+    this.name = 'NameConflictError';
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * パッチ適用エラー
+ * パッチを現在の内容に適用できない場合や、適用結果が不正な形式になる場合に使用
+ */
+export class PatchApplicationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PatchApplicationError';
+  }
+}
@@ -0,0 +1,15 @@
+import { BrokenReferenceData } from '../types.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+
+/**
+ * 参照整合性エラー
+ * 存在しない機能定義やユビキタス言語への参照を含むデータの保存を拒否した場合に使用
+ */
+export class ReferentialIntegrityError extends Error {
+  constructor(
+    readonly brokenReferences: readonly BrokenReferenceData[]
+  ) {
+    super(MESSAGES.ERROR.BROKEN_REFERENCES(brokenReferences.length));
+    this.name = 'ReferentialIntegrityError';
+  }
+}
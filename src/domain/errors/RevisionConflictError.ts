@@ -0,0 +1,18 @@
+import { ExpectedRevision, RevisionEntityType } from '../types.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+
+/**
+ * リビジョン競合エラー
+ * 更新時に期待したリビジョンと、項目の現在のリビジョンが一致しない場合に使用
+ */
+export class RevisionConflictError extends Error {
+  constructor(
+    readonly entityType: RevisionEntityType,
+    readonly entityName: string,
+    readonly expectedRevision: ExpectedRevision,
+    readonly currentRevision: number
+  ) {
+    super(MESSAGES.ERROR.REVISION_CONFLICT(entityType, entityName, String(expectedRevision), currentRevision));
+    this.name = 'RevisionConflictError';
+  }
+}
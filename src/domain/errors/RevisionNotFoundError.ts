@@ -0,0 +1,17 @@
+import { RevisionEntityType } from '../types.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+
+/**
+ * リビジョン未検出エラー
+ * 指定した項目の変更履歴に、指定した番号のリビジョンが存在しなかった場合に使用
+ */
+export class RevisionNotFoundError extends Error {
+  constructor(
+    readonly entityType: RevisionEntityType,
+    readonly entityName: string,
+    readonly revisionNumber: number
+  ) {
+    super(MESSAGES.ERROR.REVISION_NOT_FOUND(entityName, revisionNumber));
+    this.name = 'RevisionNotFoundError';
+  }
+}
@@ -0,0 +1,17 @@
+import { RevisionEntityType } from '../types.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+
+/**
+ * 変更履歴記録エラー
+ * 変更を保存した後で変更履歴の記録に失敗した場合に使用（変更自体は保存済み）
+ */
+export class RevisionRecordingError extends Error {
+  constructor(
+    readonly entityType: RevisionEntityType,
+    readonly entityName: string,
+    readonly cause: Error
+  ) {
+    super(MESSAGES.ERROR.REVISION_RECORDING_FAILED(entityName, cause.message));
+    this.name = 'RevisionRecordingError';
+  }
+}
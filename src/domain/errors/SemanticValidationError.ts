@@ -0,0 +1,15 @@
+import { SemanticIssueData } from '../types.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+
+/**
+ * 意味検証エラー
+ * ステップ・入力・出力・エラーハンドリングの間の参照に問題がある機能定義の保存を拒否した場合に使用
+ */
+export class SemanticValidationError extends Error {
+  constructor(
+    readonly issues: readonly SemanticIssueData[]
+  ) {
+    super(MESSAGES.ERROR.SEMANTIC_ISSUES(issues.length));
+    this.name = 'SemanticValidationError';
+  }
+}
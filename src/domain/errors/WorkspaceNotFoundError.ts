@@ -0,0 +1,15 @@
+import { MESSAGES } from '../../shared/constants/messages.js';
+
+/**
+ * ワークスペース未検出エラー
+ * 設定されていないワークスペース名が指定された場合に使用
+ */
+export class WorkspaceNotFoundError extends Error {
+  constructor(
+    readonly workspaceName: string,
+    readonly availableWorkspaces: readonly string[]
+  ) {
+    super(MESSAGES.ERROR.WORKSPACE_NOT_FOUND(workspaceName, availableWorkspaces));
+    this.name = 'WorkspaceNotFoundError';
+  }
+}
@@ -0,0 +1,37 @@
+import { FeatureData, LintSeverity, TermData } from '../types.js';
+
+/**
+ * lintのルールが検出した違反
+ */
+export interface LintViolation {
+  readonly path: string;
+  readonly message: string;
+}
+
+/**
+ * 機能定義のlintのルール
+ */
+export interface FeatureLintRule {
+  readonly id: string;
+  readonly entityType: 'feature';
+  /** 設定ファイルで指定しない場合の重要度 */
+  readonly defaultSeverity: LintSeverity;
+  check(feature: FeatureData): readonly LintViolation[];
+}
+
+/**
+ * ユビキタス言語のlintのルール
+ */
+export interface TermLintRule {
+  readonly id: string;
+  readonly entityType: 'term';
+  /** 設定ファイルで指定しない場合の重要度 */
+  readonly defaultSeverity: LintSeverity;
+  check(term: TermData): readonly LintViolation[];
+}
+
+/**
+ * lintのルール
+ * 各ルールは1つの項目を検査し、違反の位置とメッセージを返す
+ */
+export type LintRule = FeatureLintRule | TermLintRule;
@@ -0,0 +1,51 @@
+import { LintRule } from './LintRule.js';
+import { BUILTIN_LINT_RULES } from './builtinRules.js';
+import { RevisionEntityType } from '../types.js';
+import { Result, Option } from '../../shared/types/functional.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+
+/**
+ * lintのルールの一覧
+ * 標準のルールに加えて、プロジェクト独自のルールを登録できる
+ */
+export class LintRuleRegistry {
+  private readonly rules = new Map<string, LintRule>();
+
+  /**
+   * 標準のルールを登録した一覧を作成する
+   */
+  static withBuiltinRules(): LintRuleRegistry {
+    const registry = new LintRuleRegistry();
+    BUILTIN_LINT_RULES.forEach(rule => registry.register(rule));
+    return registry;
+  }
+
+  /**
+   * ルールを登録する
+   * 同じIDのルールは設定ファイルで区別できないため、重複して登録できない
+   */
+  register(rule: LintRule): Result<void, Error> {
+    if (this.rules.has(rule.id)) {
+      return Result.failure(new Error(MESSAGES.ERROR.DUPLICATE_LINT_RULE(rule.id)));
+    }
+
+    this.rules.set(rule.id, rule);
+    return Result.success(undefined);
+  }
+
+  /**
+   * 指定したIDのルールを取得する
+   */
+  find(ruleId: string): Option<LintRule> {
+    const rule = this.rules.get(ruleId);
+    return rule ? Option.some(rule) : Option.none();
+  }
+
+  /**
+   * 登録されている全てのルールを取得する
+   * @param entityType 対象の項目の種類（省略時は全て）
+   */
+  list(entityType?: RevisionEntityType): readonly LintRule[] {
+    return [...this.rules.values()].filter(rule => entityType === undefined || rule.entityType === entityType);
+  }
+}
@@ -0,0 +1,110 @@
+import { LintRule, LintViolation } from './LintRule.js';
+import { CONFIG } from '../../shared/constants/config.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+
+/**
+ * 空白のみの要素を除いた件数を数える
+ */
+const countFilled = (values: readonly string[]): number =>
+  values.filter(value => typeof value === 'string' && value.trim().length > 0).length;
+
+/**
+ * 文の数を数える
+ */
+const countSentences = (text: string): number =>
+  text.split(CONFIG.LINT.SENTENCE_DELIMITER).filter(sentence => sentence.trim().length > 0).length;
+
+/**
+ * 条件を満たさない場合に1件の違反を返す
+ */
+const violationIf = (condition: boolean, path: string, message: string): readonly LintViolation[] =>
+  condition ? [{ path, message }] : [];
+
+/**
+ * 標準のlintのルール
+ */
+export const BUILTIN_LINT_RULES: readonly LintRule[] = [
+  {
+    id: 'feature-user-story-required',
+    entityType: 'feature',
+    defaultSeverity: 'warning',
+    check: feature => violationIf(
+      countFilled(feature.feature.userStories) === 0,
+      'feature.userStories',
+      MESSAGES.LINT.USER_STORY_REQUIRED()
+    ),
+  },
+  {
+    id: 'feature-error-handling-required',
+    entityType: 'feature',
+    defaultSeverity: 'warning',
+    check: feature => violationIf(
+      feature.errorHandling.length === 0,
+      'errorHandling',
+      MESSAGES.LINT.ERROR_HANDLING_REQUIRED()
+    ),
+  },
+  {
+    id: 'feature-output-required',
+    entityType: 'feature',
+    defaultSeverity: 'warning',
+    check: feature => violationIf(
+      feature.outputs.length === 0,
+      'outputs',
+      MESSAGES.LINT.OUTPUT_REQUIRED()
+    ),
+  },
+  {
+    id: 'feature-step-required',
+    entityType: 'feature',
+    defaultSeverity: 'warning',
+    check: feature => violationIf(
+      feature.coreLogicSteps.length === 0,
+      'coreLogicSteps',
+      MESSAGES.LINT.STEP_REQUIRED()
+    ),
+  },
+  {
+    id: 'feature-purpose-sentences',
+    entityType: 'feature',
+    defaultSeverity: 'warning',
+    check: feature => {
+      const count = countSentences(feature.feature.purpose);
+      return violationIf(
+        count > CONFIG.LINT.MAX_PURPOSE_SENTENCES,
+        'feature.purpose',
+        MESSAGES.LINT.PURPOSE_SENTENCES(count, CONFIG.LINT.MAX_PURPOSE_SENTENCES)
+      );
+    },
+  },
+  {
+    id: 'term-example-required',
+    entityType: 'term',
+    defaultSeverity: 'warning',
+    check: term => violationIf(
+      term.details.examples.length === 0,
+      'details.examples',
+      MESSAGES.LINT.EXAMPLE_REQUIRED()
+    ),
+  },
+  {
+    id: 'term-code-mapping-identifier',
+    entityType: 'term',
+    defaultSeverity: 'warning',
+    check: term => violationIf(
+      !CONFIG.LINT.IDENTIFIER_PATTERN.test(term.implementation.codeMapping.trim()),
+      'implementation.codeMapping',
+      MESSAGES.LINT.CODE_MAPPING_IDENTIFIER(term.implementation.codeMapping)
+    ),
+  },
+  {
+    id: 'term-associated-function-recommended',
+    entityType: 'term',
+    defaultSeverity: 'info',
+    check: term => violationIf(
+      countFilled(term.relationships.associatedFunctions) === 0,
+      'relationships.associatedFunctions',
+      MESSAGES.LINT.ASSOCIATED_FUNCTION_RECOMMENDED()
+    ),
+  },
+];
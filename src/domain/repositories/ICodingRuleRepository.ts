@@ -0,0 +1,13 @@
+import { Result } from '../../shared/types/functional.js';
+
+/**
+ * コーディング原則リポジトリのインターフェース
+ * 実装時に従うべきコーディング原則の文書の取得に関するドメインの要求を定義
+ */
+export interface ICodingRuleRepository {
+  /**
+   * コーディング原則を取得する
+   * @returns Markdown形式のコーディング原則（文書が存在しない場合は空文字列）
+   */
+  load(): Promise<Result<string, Error>>;
+}
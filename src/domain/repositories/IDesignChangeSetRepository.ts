@@ -0,0 +1,15 @@
+import { DesignChangeSetData } from '../types.js';
+import { Result } from '../../shared/types/functional.js';
+
+/**
+ * 一括変更リポジトリのインターフェース
+ * 複数の機能定義・ユビキタス言語情報にまたがる変更を1回の書き込みで反映するためのドメインの要求を定義
+ */
+export interface IDesignChangeSetRepository {
+  /**
+   * 一括変更を原子的に適用する
+   * いずれかの置き換え・削除対象が取得時から変更されている場合や、変更後に名前が重複する場合は何も書き込まない
+   * @param changeSet 置き換え・削除する機能定義・ユビキタス言語情報の一覧
+   */
+  apply(changeSet: DesignChangeSetData): Promise<Result<void, Error>>;
+}
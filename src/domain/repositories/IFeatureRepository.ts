@@ -1,6 +1,6 @@
 import { Feature } from '../entities/Feature.js';
 import { FeatureName } from '../valueObjects/FeatureName.js';
-import { FeatureListItemData, OperationResultData, DeletionResultData } from '../types.js';
+import { FeatureListItemData, FeatureData, OperationResultData, DeletionResultData } from '../types.js';
 import { Result, Option } from '../../shared/types/functional.js';
 
 /**
@@ -30,16 +30,18 @@ export interface IFeatureRepository {
   /**
    * 機能定義を保存する（追加または更新）
    * @param feature 保存する機能定義
+   * @param expectedCurrent 保存直前の内容として期待する値（新規作成を期待する場合はnull、省略時は確認しない）
    * @returns 操作結果（追加の場合false、更新の場合true）
    */
-  save(feature: Feature): Promise<Result<OperationResultData, Error>>;
+  save(feature: Feature, expectedCurrent?: FeatureData | null): Promise<Result<OperationResultData, Error>>;
 
   /**
    * 指定された機能名の機能定義を削除する
    * @param name 削除する機能名
+   * @param expectedCurrent 削除直前の内容として期待する値（省略時は確認しない）
    * @returns 削除結果（見つかった場合true、見つからない場合false）
    */
-  delete(name: FeatureName): Promise<Result<DeletionResultData, Error>>;
+  delete(name: FeatureName, expectedCurrent?: FeatureData | null): Promise<Result<DeletionResultData, Error>>;
 
   /**
    * 指定された機能名の機能定義が存在するかチェックする
@@ -0,0 +1,14 @@
+import { LintConfigData } from '../types.js';
+import { Result } from '../../shared/types/functional.js';
+
+/**
+ * lint設定リポジトリのインターフェース
+ * ルールごとの重要度を定めたプロジェクトの設定の取得に関するドメインの要求を定義
+ */
+export interface ILintConfigRepository {
+  /**
+   * lintの設定を取得する
+   * @returns lintの設定（設定ファイルが存在しない場合は全てのルールが既定の重要度）
+   */
+  load(): Promise<Result<LintConfigData, Error>>;
+}
@@ -0,0 +1,42 @@
+import { NewRevisionData, RevisionData, RevisionEntityType } from '../types.js';
+import { Result, Option } from '../../shared/types/functional.js';
+
+/**
+ * 変更履歴リポジトリのインターフェース
+ * 機能定義・ユビキタス言語情報の変更履歴の永続化に関するドメインの要求を定義
+ */
+export interface IRevisionRepository {
+  /**
+   * 変更履歴を追記する
+   * @param revision 記録する変更内容
+   * @returns 採番済みの変更履歴
+   */
+  append(revision: NewRevisionData): Promise<Result<RevisionData, Error>>;
+
+  /**
+   * 全ての項目の変更履歴を記録した順に取得する
+   * @returns 変更履歴の配列
+   */
+  findAll(): Promise<Result<readonly RevisionData[], Error>>;
+
+  /**
+   * 指定した項目の変更履歴を古い順に取得する
+   * @param entityType 項目の種類
+   * @param entityName 項目名
+   * @returns 変更履歴の配列
+   */
+  findByEntity(entityType: RevisionEntityType, entityName: string): Promise<Result<readonly RevisionData[], Error>>;
+
+  /**
+   * 指定した項目の特定のリビジョンを取得する
+   * @param entityType 項目の種類
+   * @param entityName 項目名
+   * @param revisionNumber リビジョン番号
+   * @returns 変更履歴（見つからない場合はNone）
+   */
+  findRevision(
+    entityType: RevisionEntityType,
+    entityName: string,
+    revisionNumber: number
+  ): Promise<Result<Option<RevisionData>, Error>>;
+}
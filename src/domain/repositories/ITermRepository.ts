@@ -1,7 +1,8 @@
 import { Term } from '../entities/Term.js';
 import { TermName } from '../valueObjects/TermName.js';
-import { TermListItemData, OperationResultData, DeletionResultData } from '../types.js';
+import { TermListItemData, TermData, OperationResultData, DeletionResultData } from '../types.js';
 import { Result, Option } from '../../shared/types/functional.js';
+import { TermResolution } from '../services/TermResolver.js';
 
 /**
  * ユビキタス言語情報リポジトリのインターフェース
@@ -15,6 +16,14 @@ export interface ITermRepository {
    */
   findByName(name: TermName): Promise<Result<Option<Term>, Error>>;
 
+  /**
+   * 用語名または別名でユビキタス言語情報を解決する
+   * 照合方法の設定によっては全角・半角や大文字・小文字の違いも無視する
+   * @param name 用語名または別名
+   * @returns 解決したユビキタス言語情報と一致の種類（見つからない場合はNone）
+   */
+  findByNameOrAlias(name: string): Promise<Result<Option<TermResolution>, Error>>;
+
   /**
    * 全てのユビキタス言語情報の一覧を取得する
    * @returns ユビキタス言語情報一覧
@@ -30,16 +39,18 @@ export interface ITermRepository {
   /**
    * ユビキタス言語情報を保存する（追加または更新）
    * @param term 保存するユビキタス言語情報
+   * @param expectedCurrent 保存直前の内容として期待する値（新規作成を期待する場合はnull、省略時は確認しない）
    * @returns 操作結果（追加の場合false、更新の場合true）
    */
-  save(term: Term): Promise<Result<OperationResultData, Error>>;
+  save(term: Term, expectedCurrent?: TermData | null): Promise<Result<OperationResultData, Error>>;
 
   /**
    * 指定された用語名のユビキタス言語情報を削除する
    * @param name 削除する用語名
+   * @param expectedCurrent 削除直前の内容として期待する値（省略時は確認しない）
    * @returns 削除結果（見つかった場合true、見つからない場合false）
    */
-  delete(name: TermName): Promise<Result<DeletionResultData, Error>>;
+  delete(name: TermName, expectedCurrent?: TermData | null): Promise<Result<DeletionResultData, Error>>;
 
   /**
    * 指定された用語名のユビキタス言語情報が存在するかチェックする
@@ -0,0 +1,451 @@
+import {
+  DesignDocumentData,
+  DiffChangeData,
+  EntityDiffData,
+  FeatureData,
+  RevisionEntityType,
+  TermData,
+} from '../types.js';
+
+/**
+ * 配列の比較方法の型
+ * keyed: 指定したキーの値で要素を対応付ける / set: 文字列の集合として比較する
+ * steps: 説明文、次にステップ番号で対応付け、番号の振り直しを検出する
+ */
+type ArrayStrategy =
+  | { readonly kind: 'keyed'; readonly key: string }
+  | { readonly kind: 'set' }
+  | { readonly kind: 'steps' };
+
+/**
+ * 比較中の位置の型
+ * schemaPathは配列の添字を除いたフィールド名の並びで、配列の比較方法の特定に使用する
+ */
+interface DiffLocation {
+  readonly path: string;
+  readonly label: string;
+  readonly schemaPath: string;
+}
+
+/**
+ * 項目の種類ごとの配列の比較方法
+ * 指定のない配列は添字の位置同士で比較する
+ */
+const ARRAY_STRATEGIES: Readonly<Record<RevisionEntityType, Readonly<Record<string, ArrayStrategy>>>> = {
+  feature: {
+    'feature.userStories': { kind: 'set' },
+    'inputs': { kind: 'keyed', key: 'name' },
+    'inputs.constraints': { kind: 'set' },
+    'outputs': { kind: 'keyed', key: 'condition' },
+    'coreLogicSteps': { kind: 'steps' },
+    'coreLogicSteps.inputs': { kind: 'set' },
+    'errorHandling': { kind: 'keyed', key: 'errorCondition' },
+    'nonFunctionalRequirements': { kind: 'keyed', key: 'requirement' },
+    'documentationNotes': { kind: 'set' },
+  },
+  term: {
+    'term.aliases': { kind: 'set' },
+    'details.examples': { kind: 'keyed', key: 'scenario' },
+    'details.ambiguitiesAndBoundaries': { kind: 'set' },
+    'relationships.relatedTerms': { kind: 'keyed', key: 'termName' },
+    'relationships.associatedFunctions': { kind: 'set' },
+    'implementation.constraints': { kind: 'set' },
+  },
+};
+
+/**
+ * 設計書の構造的な差分を計算するドメインサービス
+ * 機能定義・ユビキタス言語情報をフィールド単位で比較し、JSON Patchに近い形式の変更一覧を生成する
+ * キーで対応付ける配列では、要素の並び順の変更は差分として扱わない
+ */
+export class DesignDiffer {
+  /**
+   * 2つの機能定義を比較する
+   * @param base 比較元（存在しない場合はnull）
+   * @param target 比較先（存在しない場合はnull）
+   */
+  diffFeatures(base: FeatureData | null, target: FeatureData | null): EntityDiffData {
+    const name = (target ?? base)?.feature.name ?? '';
+    return this.diffEntities('feature', name, base, target);
+  }
+
+  /**
+   * 2つのユビキタス言語情報を比較する
+   * @param base 比較元（存在しない場合はnull）
+   * @param target 比較先（存在しない場合はnull）
+   */
+  diffTerms(base: TermData | null, target: TermData | null): EntityDiffData {
+    const name = (target ?? base)?.term.name ?? '';
+    return this.diffEntities('term', name, base, target);
+  }
+
+  /**
+   * 2つの設計書を比較する
+   * 機能定義・ユビキタス言語情報をそれぞれ名前で対応付け、全ての項目の差分を返す
+   */
+  diffDocuments(base: DesignDocumentData, target: DesignDocumentData): EntityDiffData[] {
+    const featureNames = this.unionNames(
+      base.features.map(f => f.feature.name),
+      target.features.map(f => f.feature.name)
+    );
+    const termNames = this.unionNames(
+      base.terms.map(t => t.term.name),
+      target.terms.map(t => t.term.name)
+    );
+
+    return [
+      ...featureNames.map(name => this.diffFeatures(
+        base.features.find(f => f.feature.name === name) ?? null,
+        target.features.find(f => f.feature.name === name) ?? null
+      )),
+      ...termNames.map(name => this.diffTerms(
+        base.terms.find(t => t.term.name === name) ?? null,
+        target.terms.find(t => t.term.name === name) ?? null
+      )),
+    ];
+  }
+
+  /**
+   * 項目単位の差分を計算する
+   */
+  private diffEntities(
+    entityType: RevisionEntityType,
+    name: string,
+    base: FeatureData | TermData | null,
+    target: FeatureData | TermData | null
+  ): EntityDiffData {
+    if (base === null && target === null) {
+      return { entityType, name, status: 'unchanged', changes: [] };
+    }
+
+    if (base === null) {
+      return {
+        entityType,
+        name,
+        status: 'added',
+        changes: [{ op: 'add', path: '', label: '', newValue: target }],
+      };
+    }
+
+    if (target === null) {
+      return {
+        entityType,
+        name,
+        status: 'removed',
+        changes: [{ op: 'remove', path: '', label: '', oldValue: base }],
+      };
+    }
+
+    const changes: DiffChangeData[] = [];
+    this.compareValues(entityType, base, target, { path: '', label: '', schemaPath: '' }, changes);
+
+    return {
+      entityType,
+      name,
+      status: changes.length > 0 ? 'modified' : 'unchanged',
+      changes,
+    };
+  }
+
+  /**
+   * 値を再帰的に比較し、変更を収集する
+   */
+  private compareValues(
+    entityType: RevisionEntityType,
+    base: unknown,
+    target: unknown,
+    location: DiffLocation,
+    changes: DiffChangeData[]
+  ): void {
+    if (Array.isArray(base) && Array.isArray(target)) {
+      this.compareArrays(entityType, base, target, location, changes);
+      return;
+    }
+
+    if (this.isPlainObject(base) && this.isPlainObject(target)) {
+      this.compareObjects(entityType, base, target, location, changes);
+      return;
+    }
+
+    if (!this.isEqual(base, target)) {
+      changes.push({ op: 'replace', path: location.path, label: location.label, oldValue: base, newValue: target });
+    }
+  }
+
+  /**
+   * オブジェクトをフィールド単位で比較する
+   */
+  private compareObjects(
+    entityType: RevisionEntityType,
+    base: Record<string, unknown>,
+    target: Record<string, unknown>,
+    location: DiffLocation,
+    changes: DiffChangeData[]
+  ): void {
+    const keys = this.unionNames(Object.keys(base), Object.keys(target));
+
+    keys.forEach(key => {
+      const child = this.childLocation(location, key);
+
+      if (!(key in target)) {
+        changes.push({ op: 'remove', path: child.path, label: child.label, oldValue: base[key] });
+      } else if (!(key in base)) {
+        changes.push({ op: 'add', path: child.path, label: child.label, newValue: target[key] });
+      } else {
+        this.compareValues(entityType, base[key], target[key], child, changes);
+      }
+    });
+  }
+
+  /**
+   * 配列を比較方法に応じて比較する
+   */
+  private compareArrays(
+    entityType: RevisionEntityType,
+    base: readonly unknown[],
+    target: readonly unknown[],
+    location: DiffLocation,
+    changes: DiffChangeData[]
+  ): void {
+    const strategy = ARRAY_STRATEGIES[entityType][location.schemaPath];
+
+    switch (strategy?.kind) {
+      case 'keyed':
+        this.compareKeyedArrays(entityType, base, target, strategy.key, location, changes);
+        return;
+
+      case 'set':
+        this.compareSets(base, target, location, changes);
+        return;
+
+      case 'steps':
+        this.compareSteps(entityType, base, target, location, changes);
+        return;
+
+      default:
+        this.compareIndexedArrays(entityType, base, target, location, changes);
+    }
+  }
+
+  /**
+   * キーの値で要素を対応付けて比較する
+   */
+  private compareKeyedArrays(
+    entityType: RevisionEntityType,
+    base: readonly unknown[],
+    target: readonly unknown[],
+    key: string,
+    location: DiffLocation,
+    changes: DiffChangeData[]
+  ): void {
+    const keyOf = (item: unknown) => String(this.isPlainObject(item) ? item[key] : item);
+    const matchedBaseIndexes = new Set<number>();
+
+    target.forEach((targetItem, targetIndex) => {
+      const baseIndex = base.findIndex((baseItem, index) =>
+        !matchedBaseIndexes.has(index) && keyOf(baseItem) === keyOf(targetItem)
+      );
+      const itemLocation = this.itemLocation(location, targetIndex, keyOf(targetItem));
+
+      if (baseIndex === -1) {
+        changes.push({ op: 'add', path: itemLocation.path, label: itemLocation.label, newValue: targetItem });
+        return;
+      }
+
+      matchedBaseIndexes.add(baseIndex);
+      this.compareValues(entityType, base[baseIndex], targetItem, itemLocation, changes);
+    });
+
+    base.forEach((baseItem, baseIndex) => {
+      if (!matchedBaseIndexes.has(baseIndex)) {
+        const itemLocation = this.itemLocation(location, baseIndex, keyOf(baseItem));
+        changes.push({ op: 'remove', path: itemLocation.path, label: itemLocation.label, oldValue: baseItem });
+      }
+    });
+  }
+
+  /**
+   * 文字列の集合として比較する
+   */
+  private compareSets(
+    base: readonly unknown[],
+    target: readonly unknown[],
+    location: DiffLocation,
+    changes: DiffChangeData[]
+  ): void {
+    target.forEach((value, index) => {
+      if (!base.some(baseValue => this.isEqual(baseValue, value))) {
+        changes.push({ op: 'add', path: `${location.path}/${index}`, label: location.label, newValue: value });
+      }
+    });
+
+    base.forEach((value, index) => {
+      if (!target.some(targetValue => this.isEqual(targetValue, value))) {
+        changes.push({ op: 'remove', path: `${location.path}/${index}`, label: location.label, oldValue: value });
+      }
+    });
+  }
+
+  /**
+   * コアロジックステップを比較する
+   * 説明文が同じステップを優先して対応付け、残りはステップ番号で対応付ける
+   * 対応付いたステップの番号が変わっている場合はmoveとして記録する
+   */
+  private compareSteps(
+    entityType: RevisionEntityType,
+    base: readonly unknown[],
+    target: readonly unknown[],
+    location: DiffLocation,
+    changes: DiffChangeData[]
+  ): void {
+    const stepNumberOf = (item: unknown) => this.isPlainObject(item) ? item.stepNumber : undefined;
+    const descriptionOf = (item: unknown) =>
+      this.isPlainObject(item) && typeof item.description === 'string' ? item.description.trim() : undefined;
+
+    const pairs = new Map<number, number>();
+    const matchedBaseIndexes = new Set<number>();
+    const match = (isPair: (baseItem: unknown, targetItem: unknown) => boolean) => {
+      target.forEach((targetItem, targetIndex) => {
+        if (pairs.has(targetIndex)) {
+          return;
+        }
+        const baseIndex = base.findIndex((baseItem, index) =>
+          !matchedBaseIndexes.has(index) && isPair(baseItem, targetItem)
+        );
+        if (baseIndex !== -1) {
+          pairs.set(targetIndex, baseIndex);
+          matchedBaseIndexes.add(baseIndex);
+        }
+      });
+    };
+
+    match((baseItem, targetItem) =>
+      descriptionOf(baseItem) !== undefined && descriptionOf(baseItem) === descriptionOf(targetItem)
+    );
+    match((baseItem, targetItem) => stepNumberOf(baseItem) === stepNumberOf(targetItem));
+
+    target.forEach((targetItem, targetIndex) => {
+      const itemLocation = this.itemLocation(location, targetIndex, `#${String(stepNumberOf(targetItem))}`);
+      const baseIndex = pairs.get(targetIndex);
+
+      if (baseIndex === undefined) {
+        changes.push({ op: 'add', path: itemLocation.path, label: itemLocation.label, newValue: targetItem });
+        return;
+      }
+
+      const baseItem = base[baseIndex];
+      if (stepNumberOf(baseItem) !== stepNumberOf(targetItem)) {
+        changes.push({
+          op: 'move',
+          from: `${location.path}/${baseIndex}`,
+          path: itemLocation.path,
+          label: itemLocation.label,
+          oldValue: stepNumberOf(baseItem),
+          newValue: stepNumberOf(targetItem),
+        });
+      }
+
+      // ステップ番号の変更はmoveで記録済みのため、それ以外のフィールドを比較する
+      if (this.isPlainObject(baseItem) && this.isPlainObject(targetItem)) {
+        const { stepNumber: _baseStepNumber, ...baseFields } = baseItem;
+        const { stepNumber: _targetStepNumber, ...targetFields } = targetItem;
+        this.compareObjects(entityType, baseFields, targetFields, itemLocation, changes);
+      } else {
+        this.compareValues(entityType, baseItem, targetItem, itemLocation, changes);
+      }
+    });
+
+    base.forEach((baseItem, baseIndex) => {
+      if (!matchedBaseIndexes.has(baseIndex)) {
+        const itemLocation = this.itemLocation(location, baseIndex, `#${String(stepNumberOf(baseItem))}`);
+        changes.push({ op: 'remove', path: itemLocation.path, label: itemLocation.label, oldValue: baseItem });
+      }
+    });
+  }
+
+  /**
+   * 添字の位置同士で比較する
+   */
+  private compareIndexedArrays(
+    entityType: RevisionEntityType,
+    base: readonly unknown[],
+    target: readonly unknown[],
+    location: DiffLocation,
+    changes: DiffChangeData[]
+  ): void {
+    target.forEach((targetItem, index) => {
+      const itemLocation = this.itemLocation(location, index, String(index));
+      if (index < base.length) {
+        this.compareValues(entityType, base[index], targetItem, itemLocation, changes);
+      } else {
+        changes.push({ op: 'add', path: itemLocation.path, label: itemLocation.label, newValue: targetItem });
+      }
+    });
+
+    // 後ろの要素から削除した場合に添字がずれないよう、末尾から記録する
+    for (let index = base.length - 1; index >= target.length; index--) {
+      const itemLocation = this.itemLocation(location, index, String(index));
+      changes.push({ op: 'remove', path: itemLocation.path, label: itemLocation.label, oldValue: base[index] });
+    }
+  }
+
+  /**
+   * オブジェクトのフィールドの位置を生成する
+   */
+  private childLocation(location: DiffLocation, key: string): DiffLocation {
+    return {
+      path: `${location.path}/${this.escapePointer(key)}`,
+      label: location.label ? `${location.label}.${key}` : key,
+      schemaPath: location.schemaPath ? `${location.schemaPath}.${key}` : key,
+    };
+  }
+
+  /**
+   * 配列の要素の位置を生成する
+   * 要素はフィールド名を持たないため、schemaPathは配列と同じものを引き継ぐ
+   */
+  private itemLocation(location: DiffLocation, index: number, itemLabel: string): DiffLocation {
+    return {
+      path: `${location.path}/${index}`,
+      label: `${location.label}[${itemLabel}]`,
+      schemaPath: location.schemaPath,
+    };
+  }
+
+  /**
+   * JSON Pointerの予約文字をエスケープする
+   */
+  private escapePointer(key: string): string {
+    return key.replace(/~/g, '~0').replace(/\//g, '~1');
+  }
+
+  /**
+   * 出現順を保ったまま名前の和集合を求める
+   */
+  private unionNames(baseNames: readonly string[], targetNames: readonly string[]): string[] {
+    return [...new Set([...baseNames, ...targetNames])];
+  }
+
+  /**
+   * 値が単純なオブジェクトかどうかを判定する
+   */
+  private isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  /**
+   * 値が構造的に等しいかどうかを判定する
+   */
+  private isEqual(a: unknown, b: unknown): boolean {
+    if (Array.isArray(a) && Array.isArray(b)) {
+      return a.length === b.length && a.every((item, index) => this.isEqual(item, b[index]));
+    }
+
+    if (this.isPlainObject(a) && this.isPlainObject(b)) {
+      const keys = this.unionNames(Object.keys(a), Object.keys(b));
+      return keys.every(key => key in a && key in b && this.isEqual(a[key], b[key]));
+    }
+
+    return a === b;
+  }
+}
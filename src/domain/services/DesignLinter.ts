@@ -0,0 +1,91 @@
+import { LintRule, LintViolation } from '../lint/LintRule.js';
+import { LintRuleRegistry } from '../lint/LintRuleRegistry.js';
+import {
+  FeatureData,
+  LintConfigData,
+  LintFindingData,
+  LintSeverity,
+  TermData,
+} from '../types.js';
+import { Result } from '../../shared/types/functional.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+
+/**
+ * 有効なルールと適用する重要度
+ */
+interface EnabledRule {
+  readonly rule: LintRule;
+  readonly severity: LintSeverity;
+}
+
+/**
+ * 設計書の品質をlintするドメインサービス
+ * 登録されたルールを設定ファイルの重要度で適用し、項目ごとの指摘を返す
+ */
+export class DesignLinter {
+  private constructor(
+    private readonly enabledRules: readonly EnabledRule[]
+  ) {}
+
+  /**
+   * ルールの一覧とlintの設定からlintを作成する
+   * 設定ファイルに存在しないルールIDがある場合は、設定の誤りとして失敗とする
+   */
+  static create(registry: LintRuleRegistry, config: LintConfigData): Result<DesignLinter, Error> {
+    const available = registry.list().map(rule => rule.id);
+    const unknownRuleId = Object.keys(config.rules).find(ruleId => !registry.find(ruleId).isSome);
+    if (unknownRuleId !== undefined) {
+      return Result.failure(new Error(MESSAGES.ERROR.UNKNOWN_LINT_RULE(unknownRuleId, available)));
+    }
+
+    const enabledRules = registry.list().flatMap(rule => {
+      const setting = config.rules[rule.id] ?? rule.defaultSeverity;
+      return setting === 'off' ? [] : [{ rule, severity: setting }];
+    });
+
+    return Result.success(new DesignLinter(enabledRules));
+  }
+
+  /**
+   * 機能定義をlintする
+   */
+  lintFeature(feature: FeatureData): LintFindingData[] {
+    return this.enabledRules.flatMap(({ rule, severity }) =>
+      rule.entityType === 'feature'
+        ? this.toFindings(rule.id, severity, () => rule.check(feature))
+        : []
+    );
+  }
+
+  /**
+   * ユビキタス言語情報をlintする
+   */
+  lintTerm(term: TermData): LintFindingData[] {
+    return this.enabledRules.flatMap(({ rule, severity }) =>
+      rule.entityType === 'term'
+        ? this.toFindings(rule.id, severity, () => rule.check(term))
+        : []
+    );
+  }
+
+  /**
+   * ルールを実行し、違反を指摘に変換する
+   * 独自のルールの不具合で他のルールの結果が失われないよう、ルールの例外は指摘として報告する
+   */
+  private toFindings(
+    ruleId: string,
+    severity: LintSeverity,
+    check: () => readonly LintViolation[]
+  ): LintFindingData[] {
+    try {
+      return check().map(violation => ({ ruleId, severity, path: violation.path, message: violation.message }));
+    } catch (error) {
+      return [{
+        ruleId,
+        severity: 'error',
+        path: '',
+        message: MESSAGES.LINT.RULE_FAILED(ruleId, error instanceof Error ? error.message : String(error)),
+      }];
+    }
+  }
+}
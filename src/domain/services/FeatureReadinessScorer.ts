@@ -0,0 +1,134 @@
+import { Term } from '../entities/Term.js';
+import { FeatureData, FeatureReadinessData, ReadinessCheckData, ReadinessCheckId } from '../types.js';
+import { FeatureSemanticValidator } from './FeatureSemanticValidator.js';
+import { FeatureTermSelector } from './FeatureTermSelector.js';
+import { VocabularyAnalyzer } from './VocabularyAnalyzer.js';
+import { CONFIG } from '../../shared/constants/config.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+
+/**
+ * 確認項目の充足状況
+ */
+interface Coverage {
+  readonly covered: number;
+  readonly total: number;
+  readonly missing: readonly string[];
+}
+
+/**
+ * 機能定義の実装準備度を評価するドメインサービス
+ * 確認項目ごとの充足率に配点を掛けた合計（0〜100点）を準備度とする
+ */
+export class FeatureReadinessScorer {
+  private readonly semanticValidator = new FeatureSemanticValidator();
+  private readonly termSelector = new FeatureTermSelector();
+  private readonly vocabularyAnalyzer = new VocabularyAnalyzer();
+
+  /**
+   * 機能定義の実装準備度と確認項目の結果を求める
+   * @param terms 設計書の全てのユビキタス言語情報
+   */
+  score(feature: FeatureData, terms: readonly Term[]): FeatureReadinessData {
+    const checks = [
+      this.check('inputsCoveredBySteps', MESSAGES.READINESS.INPUTS_COVERED_BY_STEPS(), this.inputsCoveredBySteps(feature)),
+      this.check('stepsHaveErrorHandling', MESSAGES.READINESS.STEPS_HAVE_ERROR_HANDLING(), this.stepsHaveErrorHandling(feature)),
+      this.check('nonFunctionalRequirementsHaveLogic', MESSAGES.READINESS.NON_FUNCTIONAL_REQUIREMENTS_HAVE_LOGIC(), this.nonFunctionalRequirementsHaveLogic(feature)),
+      this.check('referencedTermsDefined', MESSAGES.READINESS.REFERENCED_TERMS_DEFINED(), this.referencedTermsDefined(feature, terms)),
+    ];
+
+    const score = Math.round(
+      checks.reduce((sum, check) => sum + (check.total === 0 ? check.weight : check.weight * check.covered / check.total), 0)
+    );
+
+    return {
+      featureName: feature.feature.name,
+      score,
+      ready: score >= CONFIG.READINESS.READY_SCORE,
+      checks,
+    };
+  }
+
+  /**
+   * どのステップの入力にも使われていない入力パラメータを数える
+   * 入力パラメータのない機能定義は充足しているとみなす
+   */
+  private inputsCoveredBySteps(feature: FeatureData): Coverage {
+    const usedNames = new Set(feature.coreLogicSteps.flatMap(step => step.inputs.map(name => String(name).trim())));
+    const missing = feature.inputs
+      .map((input, index) => ({ input, path: `inputs[${index}]` }))
+      .filter(({ input }) => !usedNames.has(input.name.trim()))
+      .map(({ path }) => path);
+
+    return { covered: feature.inputs.length - missing.length, total: feature.inputs.length, missing };
+  }
+
+  /**
+   * どのエラーハンドリングの検出箇所にもなっていないステップを数える
+   * ステップのない機能定義は実装できないため、充足していないとみなす
+   */
+  private stepsHaveErrorHandling(feature: FeatureData): Coverage {
+    if (feature.coreLogicSteps.length === 0) {
+      return { covered: 0, total: 1, missing: ['coreLogicSteps'] };
+    }
+
+    const detectedSteps = new Set(feature.errorHandling.flatMap(handling =>
+      this.semanticValidator.resolveDetectionPoint(handling.detectionPoint ?? '', feature.coreLogicSteps)
+    ));
+    const missing = feature.coreLogicSteps
+      .map((step, index) => ({ step, path: `coreLogicSteps[${index}]` }))
+      .filter(({ step }) => !detectedSteps.has(step.stepNumber))
+      .map(({ path }) => path);
+
+    return { covered: feature.coreLogicSteps.length - missing.length, total: feature.coreLogicSteps.length, missing };
+  }
+
+  /**
+   * ロジック上の考慮事項が空の非機能要件を数える
+   * 非機能要件のない機能定義は充足していないとみなす
+   */
+  private nonFunctionalRequirementsHaveLogic(feature: FeatureData): Coverage {
+    if (feature.nonFunctionalRequirements.length === 0) {
+      return { covered: 0, total: 1, missing: ['nonFunctionalRequirements'] };
+    }
+
+    const missing = feature.nonFunctionalRequirements
+      .map((requirement, index) => ({ requirement, path: `nonFunctionalRequirements[${index}].considerationsForLogic` }))
+      .filter(({ requirement }) => !requirement.considerationsForLogic?.trim())
+      .map(({ path }) => path);
+
+    return {
+      covered: feature.nonFunctionalRequirements.length - missing.length,
+      total: feature.nonFunctionalRequirements.length,
+      missing,
+    };
+  }
+
+  /**
+   * 機能の本文で繰り返し使われている語句が、ユビキタス言語として定義されているかを確認する
+   * 関連付け・言及されている定義済みの用語を充足、未定義の語彙の候補を不足として数える
+   */
+  private referencedTermsDefined(feature: FeatureData, terms: readonly Term[]): Coverage {
+    const defined = this.termSelector.select(feature, terms).length;
+    const missing = this.vocabularyAnalyzer
+      .analyze([feature], terms.map(term => term.data), CONFIG.VOCABULARY.DEFAULT_MIN_OCCURRENCES)
+      .candidates
+      .map(candidate => candidate.phrase);
+
+    return { covered: defined, total: defined + missing.length, missing };
+  }
+
+  /**
+   * 確認項目の結果を作成する
+   */
+  private check(id: ReadinessCheckId, description: string, coverage: Coverage): ReadinessCheckData {
+    return {
+      id,
+      description,
+      passed: coverage.covered === coverage.total,
+      covered: coverage.covered,
+      total: coverage.total,
+      weight: CONFIG.READINESS.CHECK_WEIGHTS[id],
+      missing: coverage.missing,
+    };
+  }
+}
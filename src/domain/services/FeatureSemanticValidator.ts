@@ -0,0 +1,222 @@
+import {
+  CoreLogicStepData,
+  FeatureData,
+  SemanticIssueData,
+  SemanticIssueKind,
+} from '../types.js';
+import { TextMatching } from '../../shared/utils/textMatching.js';
+import { CONFIG } from '../../shared/constants/config.js';
+
+/**
+ * 機能定義内の参照を検証するドメインサービス
+ * ステップの入力、エラーハンドリングの検出箇所と結果の出力条件が、同じ機能定義の入力・ステップ・出力を指しているかを確認する
+ * 各フィールドの形式はFeatureエンティティで検証済みであることを前提とする
+ */
+export class FeatureSemanticValidator {
+  /**
+   * 機能定義内の参照の問題を検出する
+   */
+  validate(feature: FeatureData): SemanticIssueData[] {
+    return [
+      ...this.findStepNumberGaps(feature.coreLogicSteps),
+      ...this.validateStepInputs(feature),
+      ...this.validateErrorHandling(feature),
+      ...this.findUnusedInputs(feature),
+      ...this.findUnreachableOutputs(feature),
+    ];
+  }
+
+  /**
+   * ステップ番号が最小値から欠けずに連続しているかを確認する
+   * 重複はFeatureエンティティで検証するため、ここでは欠番と整数でない番号を報告する
+   */
+  private findStepNumberGaps(steps: readonly CoreLogicStepData[]): SemanticIssueData[] {
+    const issues: SemanticIssueData[] = [];
+    const ordered = steps
+      .map((step, index) => ({ step, index }))
+      .sort((a, b) => a.step.stepNumber - b.step.stepNumber);
+
+    let expected = CONFIG.VALIDATION.MIN_STEP_NUMBER;
+    for (const { step, index } of ordered) {
+      if (!Number.isInteger(step.stepNumber) || step.stepNumber > expected) {
+        issues.push(this.issue('nonContiguousStepNumber', `coreLogicSteps[${index}].stepNumber`, String(step.stepNumber)));
+      }
+      if (Number.isInteger(step.stepNumber)) {
+        expected = step.stepNumber + 1;
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * ステップの入力が、入力パラメータ・前のステップの出力・前のステップ番号のいずれかを指しているかを確認する
+   */
+  private validateStepInputs(feature: FeatureData): SemanticIssueData[] {
+    const inputNames = new Set(feature.inputs.map(input => input.name.trim()));
+    const stepNumbers = new Set(feature.coreLogicSteps.map(step => step.stepNumber));
+
+    // 同じ出力名のステップが複数ある場合は、最も前のステップの出力とみなす
+    const producers = new Map<string, number>();
+    feature.coreLogicSteps.forEach(step => {
+      const output = step.output.trim();
+      const producer = producers.get(output);
+      if (producer === undefined || step.stepNumber < producer) {
+        producers.set(output, step.stepNumber);
+      }
+    });
+
+    return feature.coreLogicSteps.flatMap((step, stepIndex) =>
+      step.inputs.flatMap((name, inputIndex) => {
+        const kind = this.resolveStepInput(String(name), step.stepNumber, inputNames, producers, stepNumbers);
+        return kind ? [this.issue(kind, `coreLogicSteps[${stepIndex}].inputs[${inputIndex}]`, String(name))] : [];
+      })
+    );
+  }
+
+  /**
+   * ステップの入力の参照先を解決し、問題があればその種類を返す
+   */
+  private resolveStepInput(
+    name: string,
+    stepNumber: number,
+    inputNames: ReadonlySet<string>,
+    producers: ReadonlyMap<string, number>,
+    stepNumbers: ReadonlySet<number>
+  ): SemanticIssueKind | null {
+    const trimmed = name.trim();
+    if (inputNames.has(trimmed)) {
+      return null;
+    }
+
+    const producer = producers.get(trimmed);
+    if (producer !== undefined) {
+      return producer < stepNumber ? null : 'forwardStepReference';
+    }
+
+    const referencedStep = this.parseStepNumber(trimmed);
+    if (referencedStep !== null && stepNumbers.has(referencedStep)) {
+      return referencedStep < stepNumber ? null : 'forwardStepReference';
+    }
+
+    return 'undefinedStepInput';
+  }
+
+  /**
+   * エラーハンドリングの検出箇所が存在するステップを指し、結果の出力条件が出力データの条件と一致するかを確認する
+   */
+  private validateErrorHandling(feature: FeatureData): SemanticIssueData[] {
+    const stepNumbers = new Set(feature.coreLogicSteps.map(step => step.stepNumber));
+    const conditions = new Set(feature.outputs.map(output => TextMatching.fold(output.condition)));
+    const issues: SemanticIssueData[] = [];
+
+    feature.errorHandling.forEach((handling, index) => {
+      const detectionPoint = handling.detectionPoint ?? '';
+      if (!this.pointsToStep(detectionPoint, feature.coreLogicSteps, stepNumbers)) {
+        issues.push(this.issue('undefinedDetectionPoint', `errorHandling[${index}].detectionPoint`, detectionPoint));
+      }
+
+      const outputCondition = handling.resultingOutputCondition ?? '';
+      if (!conditions.has(TextMatching.fold(outputCondition))) {
+        issues.push(this.issue('undefinedOutputCondition', `errorHandling[${index}].resultingOutputCondition`, outputCondition));
+      }
+    });
+
+    return issues;
+  }
+
+  /**
+   * 検出箇所が存在するステップを指しているかを判定する
+   * 指しているステップ番号が1つ以上あり、全ての番号のステップが存在することを求める
+   */
+  private pointsToStep(
+    detectionPoint: string,
+    steps: readonly CoreLogicStepData[],
+    stepNumbers: ReadonlySet<number>
+  ): boolean {
+    const referencedSteps = this.resolveDetectionPoint(detectionPoint, steps);
+    return referencedSteps.length > 0 && referencedSteps.every(stepNumber => stepNumbers.has(stepNumber));
+  }
+
+  /**
+   * エラーハンドリングの検出箇所が指すステップ番号を求める
+   * ステップ番号の記述（2、ステップ2など）を含む場合はその番号を、含まない場合は出力名が一致するステップの番号を返す
+   * 記述された番号のステップが存在するかは確認しない
+   */
+  resolveDetectionPoint(detectionPoint: string, steps: readonly CoreLogicStepData[]): number[] {
+    const bareNumber = this.parseStepNumber(detectionPoint);
+    if (bareNumber !== null) {
+      return [bareNumber];
+    }
+
+    const referencedSteps = [...detectionPoint.matchAll(CONFIG.VALIDATION.STEP_REFERENCE_PATTERN)]
+      .map(match => Number(match[1]));
+    if (referencedSteps.length > 0) {
+      return referencedSteps;
+    }
+
+    return steps
+      .filter(step => step.output.trim() === detectionPoint.trim())
+      .map(step => step.stepNumber);
+  }
+
+  /**
+   * どのステップの入力にも使われていない入力パラメータを検出する
+   */
+  private findUnusedInputs(feature: FeatureData): SemanticIssueData[] {
+    const usedNames = new Set(feature.coreLogicSteps.flatMap(step => step.inputs.map(name => String(name).trim())));
+
+    return feature.inputs.flatMap((input, index) =>
+      usedNames.has(input.name.trim())
+        ? []
+        : [this.issue('unusedInput', `inputs[${index}].name`, input.name)]
+    );
+  }
+
+  /**
+   * 到達する経路のない出力データを検出する
+   * 出力データごとに、エラーハンドリングの結果の条件と一致するか、ステップの出力名を条件・説明・構造に含むかを確認する
+   * エラーハンドリングの結果にならない出力データが1件のみの場合は、最後のステップの出力（正常終了時の結果）とみなす
+   */
+  private findUnreachableOutputs(feature: FeatureData): SemanticIssueData[] {
+    const handledConditions = new Set(
+      feature.errorHandling.map(handling => TextMatching.fold(handling.resultingOutputCondition ?? ''))
+    );
+    const stepOutputs = feature.coreLogicSteps
+      .map(step => TextMatching.fold(step.output))
+      .filter(output => output.length > 0);
+
+    const unhandled = feature.outputs
+      .map((output, index) => ({ output, index }))
+      .filter(({ output }) => !handledConditions.has(TextMatching.fold(output.condition)));
+    if (unhandled.length === 1 && stepOutputs.length > 0) {
+      return [];
+    }
+
+    return unhandled.flatMap(({ output, index }) => {
+      const described = TextMatching.fold([
+        output.condition,
+        output.dataDescription,
+        ...Object.keys(output.structureHint ?? {}),
+      ].join(' '));
+      return stepOutputs.some(stepOutput => described.includes(stepOutput))
+        ? []
+        : [this.issue('unreachableOutput', `outputs[${index}].condition`, output.condition)];
+    });
+  }
+
+  /**
+   * ステップ番号のみの記述（2、ステップ2、Step 2、#2）からステップ番号を取り出す
+   */
+  private parseStepNumber(text: string): number | null {
+    const match = CONFIG.VALIDATION.STEP_NUMBER_PATTERN.exec(text);
+    return match ? Number(match[1]) : null;
+  }
+
+  /**
+   * 問題の情報を作成する
+   */
+  private issue(kind: SemanticIssueKind, path: string, value: string): SemanticIssueData {
+    return { kind, path, value };
+  }
+}
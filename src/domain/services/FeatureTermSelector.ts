@@ -0,0 +1,44 @@
+import { Term } from '../entities/Term.js';
+import { FeatureData } from '../types.js';
+import { TextMatching } from '../../shared/utils/textMatching.js';
+
+/**
+ * 機能定義が参照するユビキタス言語を選び出すドメインサービス
+ */
+export class FeatureTermSelector {
+  /**
+   * 機能が参照するユビキタス言語情報を選び出す
+   * 機能に関連付けられた用語を先に、機能定義の本文で用語名・別名が言及されている用語を後に並べる
+   */
+  select(feature: FeatureData, terms: readonly Term[]): Term[] {
+    const associated = terms.filter(term => term.isAssociatedWithFunction(feature.feature.name));
+
+    const featureText = this.collectTexts(feature).map(text => TextMatching.fold(text)).join('\n');
+    const mentioned = terms.filter(term =>
+      !associated.includes(term) &&
+      [term.name.value, ...term.aliases].some(value => {
+        const folded = TextMatching.fold(value);
+        return folded.length > 0 && featureText.includes(folded);
+      })
+    );
+
+    return [...associated, ...mentioned];
+  }
+
+  /**
+   * 値に含まれる文字列を再帰的に列挙する
+   * プロパティ名との誤一致を避けるため、値のみを対象とする
+   */
+  private collectTexts(value: unknown): string[] {
+    if (typeof value === 'string') {
+      return [value];
+    }
+    if (Array.isArray(value)) {
+      return value.flatMap(item => this.collectTexts(item));
+    }
+    if (typeof value === 'object' && value !== null) {
+      return Object.values(value).flatMap(item => this.collectTexts(item));
+    }
+    return [];
+  }
+}
@@ -0,0 +1,97 @@
+import { FeatureData, NameMentionData, RevisionEntityType, TermData } from '../types.js';
+import { TextMatching } from '../../shared/utils/textMatching.js';
+import { CONFIG } from '../../shared/constants/config.js';
+
+/**
+ * 名前や参照を表すフィールドの位置
+ * 名前の変更で構造的に書き換えるか、名前そのものであるため、自由記述の言及としては扱わない
+ */
+const STRUCTURED_NAME_PATHS = [
+  /^feature\.name$/,
+  /^term\.name$/,
+  /^term\.aliases\[\d+\]$/,
+  /^relationships\.associatedFunctions\[\d+\]$/,
+  /^relationships\.relatedTerms\[\d+\]\.termName$/,
+];
+
+/**
+ * 文字列のフィールドの型
+ */
+interface TextField {
+  readonly path: string;
+  readonly text: string;
+}
+
+/**
+ * 自由記述中の名前の言及を探すドメインサービス
+ * 全角・半角や大文字・小文字の違いを無視して、説明文や用例などに含まれる名前を洗い出す
+ */
+export class NameMentionFinder {
+  /**
+   * 機能定義・ユビキタス言語情報の自由記述から、指定した名前の言及を探す
+   */
+  find(
+    name: string,
+    features: readonly FeatureData[],
+    terms: readonly TermData[]
+  ): NameMentionData[] {
+    const foldedName = TextMatching.fold(name);
+    if (!foldedName) {
+      return [];
+    }
+
+    return [
+      ...features.flatMap(feature => this.findInEntity('feature', feature.feature.name, feature, foldedName)),
+      ...terms.flatMap(term => this.findInEntity('term', term.term.name, term, foldedName)),
+    ];
+  }
+
+  /**
+   * 1件の項目から名前の言及を探す
+   */
+  private findInEntity(
+    entityType: RevisionEntityType,
+    entityName: string,
+    data: FeatureData | TermData,
+    foldedName: string
+  ): NameMentionData[] {
+    return this.collectFields(data, '')
+      .filter(field => !STRUCTURED_NAME_PATHS.some(pattern => pattern.test(field.path)))
+      .flatMap(field => {
+        const singleLine = field.text.replace(/\s+/g, ' ').trim();
+        const index = TextMatching.fold(singleLine).indexOf(foldedName);
+        return index === -1
+          ? []
+          : [{ entityType, entityName, path: field.path, snippet: this.createSnippet(singleLine, index, foldedName.length) }];
+      });
+  }
+
+  /**
+   * 値に含まれる文字列をフィールドの位置とともに再帰的に列挙する
+   */
+  private collectFields(value: unknown, path: string): TextField[] {
+    if (typeof value === 'string') {
+      return [{ path, text: value }];
+    }
+    if (Array.isArray(value)) {
+      return value.flatMap((item, index) => this.collectFields(item, `${path}[${index}]`));
+    }
+    if (typeof value === 'object' && value !== null) {
+      return Object.entries(value).flatMap(([key, item]) =>
+        this.collectFields(item, path ? `${path}.${key}` : key)
+      );
+    }
+    return [];
+  }
+
+  /**
+   * 言及箇所の前後を切り出したスニペットを作成する
+   * 畳み込みでほとんどの文字は長さが変わらないため、畳み込み後の位置をそのまま使用する
+   */
+  private createSnippet(text: string, index: number, length: number): string {
+    const start = Math.max(0, index - CONFIG.SEARCH.SNIPPET_RADIUS);
+    const end = Math.min(text.length, index + length + CONFIG.SEARCH.SNIPPET_RADIUS);
+
+    return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+  }
+}
@@ -0,0 +1,125 @@
+import { Term } from '../entities/Term.js';
+import { AliasConflictData, TermData, TermMatchKind, TermNameMatching } from '../types.js';
+import { Option } from '../../shared/types/functional.js';
+import { TextMatching } from '../../shared/utils/textMatching.js';
+import { CONFIG } from '../../shared/constants/config.js';
+
+/**
+ * 用語の解決結果
+ */
+export interface TermResolution {
+  readonly term: Term;
+  readonly matchedBy: TermMatchKind;
+  readonly matchedValue: string;
+}
+
+/**
+ * 照合対象となる用語名・別名の型
+ */
+interface TermLabel {
+  readonly value: string;
+  readonly path: string;
+  readonly isAlias: boolean;
+}
+
+/**
+ * 用語名と別名による用語の解決を担うドメインサービス
+ * 正規の用語名、別名の順に完全一致で照合し、照合方法がnormalizedの場合は表記ゆれを無視して再度照合する
+ */
+export class TermResolver {
+  constructor(
+    private readonly matching: TermNameMatching = CONFIG.TERM_LOOKUP.MATCHING
+  ) {}
+
+  /**
+   * 指定した名前に対応する用語を解決する
+   * 同じ優先度で複数の用語に一致した場合は、設計書での出現順で先の用語を返す
+   */
+  resolve(terms: readonly Term[], requestedName: string): Option<TermResolution> {
+    const name = requestedName.trim();
+    const folded = TextMatching.fold(name);
+
+    const attempts: ReadonlyArray<{
+      readonly matchedBy: TermMatchKind;
+      readonly isAlias: boolean;
+      readonly matches: (value: string) => boolean;
+    }> = [
+      { matchedBy: 'name', isAlias: false, matches: value => value === name },
+      { matchedBy: 'alias', isAlias: true, matches: value => value === name },
+      ...(this.matching === 'normalized'
+        ? [
+          { matchedBy: 'normalizedName' as const, isAlias: false, matches: (value: string) => TextMatching.fold(value) === folded },
+          { matchedBy: 'normalizedAlias' as const, isAlias: true, matches: (value: string) => TextMatching.fold(value) === folded },
+        ]
+        : []),
+    ];
+
+    for (const attempt of attempts) {
+      for (const term of terms) {
+        const label = this.labelsOf(term.data).find(l => l.isAlias === attempt.isAlias && attempt.matches(l.value));
+        if (label) {
+          return Option.some({ term, matchedBy: attempt.matchedBy, matchedValue: label.value });
+        }
+      }
+    }
+
+    return Option.none();
+  }
+
+  /**
+   * 保存しようとしている用語の名前・別名の重複を検出する
+   * 用語自身の名前・別名どうしの重複と、他の用語の名前・別名との衝突を対象とし、同じ用語名の既存データは更新対象のため比較しない
+   */
+  findConflicts(candidate: TermData, terms: readonly Term[]): AliasConflictData[] {
+    const candidateLabels = this.labelsOf(candidate);
+    const conflicts: AliasConflictData[] = [];
+
+    candidateLabels.forEach((label, index) => {
+      const duplicated = candidateLabels.slice(0, index).find(earlier => this.isSameLabel(label.value, earlier.value));
+      if (duplicated) {
+        conflicts.push({
+          value: label.value,
+          path: label.path,
+          conflictingTermName: candidate.term.name,
+          conflictingPath: duplicated.path,
+        });
+      }
+    });
+
+    terms
+      .filter(term => term.name.value !== candidate.term.name)
+      .forEach(term => {
+        this.labelsOf(term.data).forEach(existing => {
+          candidateLabels
+            .filter(label => this.isSameLabel(label.value, existing.value))
+            .forEach(label => conflicts.push({
+              value: label.value,
+              path: label.path,
+              conflictingTermName: term.name.value,
+              conflictingPath: existing.path,
+            }));
+        });
+      });
+
+    return conflicts;
+  }
+
+  /**
+   * 用語の名前と別名を列挙する
+   */
+  private labelsOf(data: TermData): TermLabel[] {
+    return [
+      { value: data.term.name, path: 'term.name', isAlias: false },
+      ...data.term.aliases.map((alias, index) => ({ value: alias, path: `term.aliases[${index}]`, isAlias: true })),
+    ];
+  }
+
+  /**
+   * 照合方法に従って2つの名前が同一とみなせるかを判定する
+   */
+  private isSameLabel(a: string, b: string): boolean {
+    return this.matching === 'normalized'
+      ? TextMatching.fold(a) === TextMatching.fold(b)
+      : a.trim() === b.trim();
+  }
+}
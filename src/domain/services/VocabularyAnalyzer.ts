@@ -0,0 +1,229 @@
+import {
+  FeatureData,
+  TermData,
+  VocabularyAnalysisData,
+  VocabularyCandidateData,
+  VocabularyLocationData,
+} from '../types.js';
+import { TextMatching } from '../../shared/utils/textMatching.js';
+import { CONFIG } from '../../shared/constants/config.js';
+
+/**
+ * 元の表記と照合用の表記を持つ単語
+ */
+interface Word {
+  readonly surface: string;
+  readonly key: string;
+}
+
+/**
+ * 照合用の単語の並びで表した用語名・別名
+ */
+interface TermLabel {
+  readonly termName: string;
+  readonly keys: readonly string[];
+}
+
+/**
+ * 語句ごとの出現の集計
+ */
+interface PhraseTally {
+  readonly phrase: string;
+  readonly wordCount: number;
+  occurrences: number;
+  readonly locations: VocabularyLocationData[];
+}
+
+/**
+ * 機能定義の本文の語彙を分析するドメインサービス
+ * 目的・ユーザーストーリー・ステップの説明を単語に分割し、定義済みの用語名・別名と照合したうえで、
+ * 残りの語句のうち繰り返し使われているものをユビキタス言語の候補として返す
+ */
+export class VocabularyAnalyzer {
+  /**
+   * 機能定義の本文で使われている定義済みの用語と、未定義の用語の候補を求める
+   * @param minOccurrences 候補とする語句の最小出現回数
+   */
+  analyze(
+    features: readonly FeatureData[],
+    terms: readonly TermData[],
+    minOccurrences: number
+  ): VocabularyAnalysisData {
+    const labels = this.toLabels(terms);
+    const knownUsage = new Map<string, number>();
+    const tallies = new Map<string, PhraseTally>();
+
+    features.forEach(feature => {
+      this.collectTexts(feature).forEach(({ path, text }) => {
+        const location = { featureName: feature.feature.name, path };
+        this.toClauses(text)
+          .flatMap(clause => this.splitByKnownTerms(clause, labels, knownUsage))
+          .flatMap(words => this.splitAtBoundaryWords(words))
+          .forEach(words => this.tallyPhrases(words, location, tallies));
+      });
+    });
+
+    return {
+      analyzedFeatureCount: features.length,
+      knownTerms: [...knownUsage]
+        .map(([termName, occurrences]) => ({ termName, occurrences }))
+        .sort((a, b) => b.occurrences - a.occurrences),
+      candidates: this.selectCandidates(tallies, minOccurrences),
+    };
+  }
+
+  /**
+   * 分析対象の本文を位置とともに列挙する
+   */
+  private collectTexts(feature: FeatureData): { readonly path: string; readonly text: string }[] {
+    return [
+      { path: 'feature.purpose', text: feature.feature.purpose },
+      ...feature.feature.userStories.map((text, index) => ({ path: `feature.userStories[${index}]`, text })),
+      ...feature.coreLogicSteps.map((step, index) => ({ path: `coreLogicSteps[${index}].description`, text: step.description })),
+    ].filter(({ text }) => typeof text === 'string' && text.trim().length > 0);
+  }
+
+  /**
+   * 用語名・別名を照合用の単語の並びに変換する
+   * 長い用語名を優先して照合するため、語数の多い順に並べる
+   */
+  private toLabels(terms: readonly TermData[]): TermLabel[] {
+    return terms
+      .flatMap(term => [term.term.name, ...(term.term.aliases ?? [])].map(label => ({
+        termName: term.term.name,
+        keys: TextMatching.segment(label)
+          .filter(segment => segment.isWord)
+          .map(segment => TextMatching.normalize(segment.text))
+          .filter(key => key.length > 0),
+      })))
+      .filter(label => label.keys.length > 0)
+      .sort((a, b) => b.keys.length - a.keys.length);
+  }
+
+  /**
+   * テキストを記号で区切られた節に分割する
+   * 空白は英語の語句や分割したCamelCaseの構成語をつなぐため、区切りとみなさない
+   */
+  private toClauses(text: string): Word[][] {
+    const clauses: Word[][] = [[]];
+    TextMatching.segment(text).forEach(segment => {
+      if (segment.isWord) {
+        clauses[clauses.length - 1].push({ surface: segment.text, key: TextMatching.normalize(segment.text) });
+      } else if (segment.text.trim()) {
+        clauses.push([]);
+      }
+    });
+    return clauses.filter(clause => clause.length > 0);
+  }
+
+  /**
+   * 節の中の定義済みの用語名・別名を数え、用語以外の単語の並びに分割する
+   */
+  private splitByKnownTerms(
+    clause: readonly Word[],
+    labels: readonly TermLabel[],
+    knownUsage: Map<string, number>
+  ): Word[][] {
+    const runs: Word[][] = [[]];
+    let index = 0;
+
+    while (index < clause.length) {
+      const label = labels.find(candidate =>
+        candidate.keys.every((key, offset) => clause[index + offset]?.key === key)
+      );
+
+      if (label) {
+        knownUsage.set(label.termName, (knownUsage.get(label.termName) ?? 0) + 1);
+        runs.push([]);
+        index += label.keys.length;
+      } else {
+        runs[runs.length - 1].push(clause[index]);
+        index++;
+      }
+    }
+
+    return runs.filter(run => run.length > 0);
+  }
+
+  /**
+   * 助詞・活用語尾などのひらがなを含む語、数字、区切りとみなす語で単語の並びを分割する
+   */
+  private splitAtBoundaryWords(words: readonly Word[]): Word[][] {
+    const runs: Word[][] = [[]];
+    words.forEach(word => {
+      const isBoundary = /[ぁ-ゖ]/.test(word.surface) ||
+        /^\d+$/.test(word.key) ||
+        (CONFIG.VOCABULARY.STOP_WORDS as readonly string[]).includes(word.key);
+
+      if (isBoundary) {
+        runs.push([]);
+      } else {
+        runs[runs.length - 1].push(word);
+      }
+    });
+    return runs.filter(run => run.length > 0);
+  }
+
+  /**
+   * 単語の並びに含まれる語句（連続する1〜最大語数の単語）の出現を数える
+   */
+  private tallyPhrases(
+    words: readonly Word[],
+    location: VocabularyLocationData,
+    tallies: Map<string, PhraseTally>
+  ): void {
+    for (let start = 0; start < words.length; start++) {
+      for (let wordCount = 1; wordCount <= CONFIG.VOCABULARY.MAX_PHRASE_WORDS && start + wordCount <= words.length; wordCount++) {
+        const phraseWords = words.slice(start, start + wordCount);
+        const phrase = this.joinWords(phraseWords.map(word => word.surface));
+        if ([...phrase.replace(/\s/g, '')].length < CONFIG.VOCABULARY.MIN_PHRASE_LENGTH) {
+          continue;
+        }
+
+        const key = phraseWords.map(word => word.key).join(' ');
+        const tally = tallies.get(key) ?? { phrase, wordCount, occurrences: 0, locations: [] };
+        tally.occurrences++;
+        if (!tally.locations.some(l => l.featureName === location.featureName && l.path === location.path)) {
+          tally.locations.push(location);
+        }
+        tallies.set(key, tally);
+      }
+    }
+  }
+
+  /**
+   * 単語をつないで語句の表記にする
+   * 英数字の単語どうしの間にのみ空白を入れる
+   */
+  private joinWords(words: readonly string[]): string {
+    return words.reduce((phrase, word) =>
+      /[A-Za-z0-9]$/.test(phrase) && /^[A-Za-z0-9]/.test(word) ? `${phrase} ${word}` : phrase + word
+    );
+  }
+
+  /**
+   * 出現回数が最小出現回数以上の語句を、用語の候補として出現回数の多い順に選ぶ
+   * 常により長い候補の一部として現れる語句は、長い候補に含めて除外する
+   */
+  private selectCandidates(
+    tallies: ReadonlyMap<string, PhraseTally>,
+    minOccurrences: number
+  ): VocabularyCandidateData[] {
+    const frequent = [...tallies].filter(([, tally]) => tally.occurrences >= minOccurrences);
+
+    return frequent
+      .filter(([key, tally]) => !frequent.some(([otherKey, other]) =>
+        other.wordCount > tally.wordCount &&
+        other.occurrences === tally.occurrences &&
+        ` ${otherKey} `.includes(` ${key} `)
+      ))
+      .map(([, tally]) => tally)
+      .sort((a, b) =>
+        b.occurrences - a.occurrences ||
+        b.wordCount - a.wordCount ||
+        a.phrase.localeCompare(b.phrase)
+      )
+      .slice(0, CONFIG.VOCABULARY.MAX_CANDIDATES)
+      .map(({ phrase, occurrences, locations }) => ({ phrase, occurrences, locations }));
+  }
+}
@@ -137,6 +137,16 @@ export interface TermListItemData {
   readonly category: string;
 }
 
+/**
+ * ユビキタス言語の絞り込み条件の型
+ * 指定した条件は全て満たすもの（AND）に絞り込む
+ */
+export interface TermFilterData {
+  readonly category?: string;
+  readonly boundedContext?: string;
+  readonly feature?: string;
+}
+
 /**
  * 詳細取得結果の型
  */
@@ -147,6 +157,76 @@ export interface DetailsResponseData {
     readonly featureNames: readonly string[];
     readonly termNames: readonly string[];
   };
+  readonly resolvedAliases: readonly TermAliasResolutionData[];
+  readonly revisions: {
+    readonly features: Readonly<Record<string, number>>;
+    readonly terms: Readonly<Record<string, number>>;
+  };
+}
+
+/**
+ * 用語名の照合方法の型
+ * exact: 完全一致のみ / normalized: 全角・半角や大文字・小文字の違いを無視する
+ */
+export type TermNameMatching = 'exact' | 'normalized';
+
+/**
+ * 用語の解決に使われた一致の種類の型
+ */
+export type TermMatchKind = 'name' | 'alias' | 'normalizedName' | 'normalizedAlias';
+
+/**
+ * 正規の用語名以外で指定された用語の解決結果の型
+ */
+export interface TermAliasResolutionData {
+  readonly requestedName: string;
+  readonly termName: string;
+  readonly matchedBy: TermMatchKind;
+  readonly matchedValue: string;
+}
+
+/**
+ * 用語名・別名の衝突情報の型
+ * pathは保存しようとした用語側、conflictingPathは既存の用語側（用語自身の中での重複の場合は先に現れた側）の位置を指す
+ */
+export interface AliasConflictData {
+  readonly value: string;
+  readonly path: string;
+  readonly conflictingTermName: string;
+  readonly conflictingPath: string;
+}
+
+/**
+ * 機能の実装に必要な情報の型
+ * termsは機能に関連付けられた用語と、機能定義の中で言及されている用語
+ */
+export interface ImplementationContextData {
+  readonly feature: FeatureData;
+  readonly terms: readonly TermData[];
+  readonly codingRules: string;
+}
+
+/**
+ * 設計書の変更で生じた項目の変化の種類の型
+ */
+export type DesignEntityChangeKind = 'added' | 'removed' | 'updated';
+
+/**
+ * 設計書の変更で変化した項目の型
+ * aliasesには変更前後の別名を全て含める
+ */
+export interface DesignEntityChangeData {
+  readonly entityType: RevisionEntityType;
+  readonly name: string;
+  readonly aliases: readonly string[];
+  readonly change: DesignEntityChangeKind;
+}
+
+/**
+ * 設計書の変更内容の型
+ */
+export interface DesignChangeData {
+  readonly entities: readonly DesignEntityChangeData[];
 }
 
 /**
@@ -156,6 +236,105 @@ export interface OperationResultData {
   readonly isUpdate: boolean;
 }
 
+/**
+ * 更新時に期待するリビジョンの型
+ * 数値は項目の現在のリビジョン番号（変更履歴のない項目は0）、*は項目が存在することのみを期待する
+ */
+export type ExpectedRevision = number | '*';
+
+/**
+ * 機能定義の保存結果の型
+ * revisionは保存後の機能定義のリビジョン番号
+ */
+export interface FeatureSaveResultData extends OperationResultData {
+  readonly semanticIssues: readonly SemanticIssueData[];
+  readonly revision: number;
+}
+
+/**
+ * 機能定義の意味検証の厳格度の型
+ * strict: 問題があれば保存を拒否する / warn: 警告として報告し保存を続行する
+ */
+export type SemanticStrictness = 'strict' | 'warn';
+
+/**
+ * 機能定義内の参照の問題の種類の型
+ */
+export type SemanticIssueKind =
+  | 'undefinedStepInput'
+  | 'forwardStepReference'
+  | 'nonContiguousStepNumber'
+  | 'undefinedDetectionPoint'
+  | 'undefinedOutputCondition'
+  | 'unusedInput'
+  | 'unreachableOutput';
+
+/**
+ * 機能定義内の参照の問題の型
+ * pathは問題のある値の位置、valueはその値
+ */
+export interface SemanticIssueData {
+  readonly kind: SemanticIssueKind;
+  readonly path: string;
+  readonly value: string;
+}
+
+/**
+ * 保存済みの機能定義の意味検証結果の型
+ */
+export interface FeatureValidationData {
+  readonly featureName: string;
+  readonly issues: readonly SemanticIssueData[];
+}
+
+/**
+ * 参照整合性チェックの厳格度の型
+ * strict: 参照切れがあれば保存を拒否する / warn: 警告として報告し保存を続行する
+ */
+export type ReferenceStrictness = 'strict' | 'warn';
+
+/**
+ * 参照切れの種類の型
+ */
+export type BrokenReferenceKind = 'associatedFunction' | 'relatedTerm';
+
+/**
+ * 参照切れ情報の型
+ */
+export interface BrokenReferenceData {
+  readonly kind: BrokenReferenceKind;
+  readonly path: string;
+  readonly referencedName: string;
+  /** 別名で参照されている場合の正規の用語名 */
+  readonly canonicalName?: string;
+}
+
+/**
+ * ユビキタス言語情報の保存結果の型
+ */
+export interface TermSaveResultData extends OperationResultData {
+  readonly brokenReferences: readonly BrokenReferenceData[];
+  readonly revision: number;
+}
+
+/**
+ * 機能定義の部分更新結果の型
+ */
+export interface FeaturePatchResultData {
+  readonly feature: FeatureData;
+  readonly semanticIssues: readonly SemanticIssueData[];
+  readonly revision: number;
+}
+
+/**
+ * ユビキタス言語情報の部分更新結果の型
+ */
+export interface TermPatchResultData {
+  readonly term: TermData;
+  readonly brokenReferences: readonly BrokenReferenceData[];
+  readonly revision: number;
+}
+
 /**
  * 削除結果の型
  */
@@ -163,10 +342,421 @@ export interface DeletionResultData {
   readonly found: boolean;
 }
 
+/**
+ * 被参照を持つ項目の削除モードの型
+ * block: 被参照があれば削除を拒否する
+ * cascade: 参照元から参照を除去した上で削除する
+ * orphan: 参照元はそのまま残して削除する
+ */
+export type DeletionMode = 'block' | 'cascade' | 'orphan';
+
+/**
+ * 被参照（削除対象を指している参照）情報の型
+ */
+export interface InboundReferenceData {
+  readonly kind: BrokenReferenceKind;
+  readonly sourceTermName: string;
+  readonly path: string;
+}
+
+/**
+ * 依存関係を考慮した削除結果の型
+ */
+export interface DependencyAwareDeletionResultData extends DeletionResultData {
+  readonly mode: DeletionMode;
+  readonly inboundReferences: readonly InboundReferenceData[];
+  readonly updatedTermNames: readonly string[];
+}
+
+/**
+ * ユビキタス言語情報の削除結果の型
+ * termNameは別名で指定された場合も正規の用語名とする
+ */
+export interface TermDeletionResultData extends DependencyAwareDeletionResultData {
+  readonly termName: string;
+}
+
+/**
+ * 名前の変更で書き換えなかった自由記述中の言及の型
+ * pathは言及を含むフィールドの位置（例: coreLogicSteps[2].description）
+ */
+export interface NameMentionData {
+  readonly entityType: RevisionEntityType;
+  readonly entityName: string;
+  readonly path: string;
+  readonly snippet: string;
+}
+
+/**
+ * 名前の変更結果の型
+ * updatedReferencesは新しい名前に書き換えた参照（pathは書き換え後の参照元での位置）
+ */
+export interface RenameResultData {
+  readonly entityType: RevisionEntityType;
+  readonly previousName: string;
+  readonly newName: string;
+  readonly keptAsAlias: boolean;
+  readonly revision: number;
+  readonly updatedReferences: readonly InboundReferenceData[];
+  readonly unchangedMentions: readonly NameMentionData[];
+}
+
+/**
+ * 一括変更での項目の置き換えの型
+ * currentNameの項目を、previousValueから変更されていないことを確認した上でvalueに置き換える
+ */
+export interface EntityReplacementData<T extends FeatureData | TermData> {
+  readonly currentName: string;
+  readonly previousValue: T;
+  readonly value: T;
+}
+
+/**
+ * 一括変更での項目の削除の型
+ * currentNameの項目を、previousValueから変更されていないことを確認した上で削除する
+ */
+export interface EntityDeletionData<T extends FeatureData | TermData> {
+  readonly currentName: string;
+  readonly previousValue: T;
+}
+
+/**
+ * 複数の項目をまとめて置き換える一括変更の型
+ * 削除は全ての置き換えを反映した後に行う
+ */
+export interface DesignChangeSetData {
+  readonly features: readonly EntityReplacementData<FeatureData>[];
+  readonly terms: readonly EntityReplacementData<TermData>[];
+  readonly deletedFeatures?: readonly EntityDeletionData<FeatureData>[];
+  readonly deletedTerms?: readonly EntityDeletionData<TermData>[];
+}
+
+/**
+ * 履歴管理対象の種類の型
+ */
+export type RevisionEntityType = 'feature' | 'term';
+
+/**
+ * 履歴に記録する操作の種類の型
+ */
+export type RevisionOperation = 'create' | 'update' | 'delete' | 'restore';
+
+/**
+ * 新たに記録する履歴の型
+ * 削除時はnewValue、新規作成時はpreviousValueがnullとなる
+ */
+export interface NewRevisionData {
+  readonly entityType: RevisionEntityType;
+  readonly entityName: string;
+  readonly operation: RevisionOperation;
+  readonly actor: string;
+  readonly previousValue: FeatureData | TermData | null;
+  readonly newValue: FeatureData | TermData | null;
+  readonly restoredFrom?: number;
+}
+
+/**
+ * 記録済みの履歴（リビジョン）の型
+ * revisionNumberは項目ごとに1から単調増加する
+ */
+export interface RevisionData extends NewRevisionData {
+  readonly revisionNumber: number;
+  readonly timestamp: string;
+}
+
+/**
+ * 履歴一覧の項目の型
+ */
+export interface RevisionSummaryData {
+  readonly revisionNumber: number;
+  readonly operation: RevisionOperation;
+  readonly timestamp: string;
+  readonly actor: string;
+  readonly restoredFrom?: number;
+}
+
+/**
+ * 履歴の復元結果の型
+ */
+export interface RestoreResultData {
+  readonly entityType: RevisionEntityType;
+  readonly entityName: string;
+  readonly restoredFrom: number;
+  readonly revision: RevisionSummaryData | null;
+  /** 変更履歴の記録に失敗した場合のエラーメッセージ（復元した内容は保存済み） */
+  readonly historyError?: string;
+}
+
+/**
+ * 差分の操作の種類の型
+ * JSON Patchの操作に合わせ、番号が振り直されたステップはmoveとして表す
+ */
+export type DiffOperation = 'add' | 'remove' | 'replace' | 'move';
+
+/**
+ * 差分の1件分の変更の型
+ * pathはJSON Pointer形式で、remove・moveのfromは比較元、それ以外は比較先の位置を指す
+ * labelは配列要素をキー（入力名やエラー条件など）で示した読みやすい位置表記
+ */
+export interface DiffChangeData {
+  readonly op: DiffOperation;
+  readonly path: string;
+  readonly from?: string;
+  readonly label: string;
+  readonly oldValue?: unknown;
+  readonly newValue?: unknown;
+}
+
+/**
+ * 項目単位の差分の状態の型
+ */
+export type EntityDiffStatus = 'added' | 'removed' | 'modified' | 'unchanged';
+
+/**
+ * 項目単位の差分の型
+ */
+export interface EntityDiffData {
+  readonly entityType: RevisionEntityType;
+  readonly name: string;
+  readonly status: EntityDiffStatus;
+  readonly changes: readonly DiffChangeData[];
+}
+
+/**
+ * 差分計算の結果の型
+ * entitiesには差分のある項目のみを含める
+ */
+export interface DesignDiffData {
+  readonly entities: readonly EntityDiffData[];
+  readonly summary: {
+    readonly added: number;
+    readonly removed: number;
+    readonly modified: number;
+    readonly unchanged: number;
+  };
+}
+
+/**
+ * 差分計算の要求の型
+ * feature・termを指定した場合は保存済みの内容と比較し、
+ * baseDocument・targetDocumentを指定した場合は2つの設計書同士を比較する
+ */
+export interface DiffRequestData {
+  readonly feature?: FeatureData;
+  readonly term?: TermData;
+  readonly baseDocument?: DesignDocumentData;
+  readonly targetDocument?: DesignDocumentData;
+}
+
+/**
+ * 検索で一致したフィールドの型
+ * pathは一致したフィールドの位置（例: coreLogicSteps[2].description）
+ */
+export interface SearchMatchData {
+  readonly path: string;
+  readonly snippet: string;
+  readonly score: number;
+}
+
+/**
+ * 検索結果の項目の型
+ */
+export interface SearchResultItemData {
+  readonly entityType: RevisionEntityType;
+  readonly name: string;
+  readonly score: number;
+  readonly matches: readonly SearchMatchData[];
+}
+
+/**
+ * 検索結果の型
+ * totalは件数の上限を適用する前の一致件数
+ */
+export interface SearchResultData {
+  readonly query: string;
+  readonly total: number;
+  readonly results: readonly SearchResultItemData[];
+}
+
+/**
+ * 実装準備度の確認項目の種類
+ */
+export type ReadinessCheckId =
+  | 'inputsCoveredBySteps'
+  | 'stepsHaveErrorHandling'
+  | 'nonFunctionalRequirementsHaveLogic'
+  | 'referencedTermsDefined';
+
+/**
+ * 実装準備度の確認項目の結果の型
+ * missingには満たしていない値の位置（例: inputs[1]）を列挙する
+ */
+export interface ReadinessCheckData {
+  readonly id: ReadinessCheckId;
+  readonly description: string;
+  readonly passed: boolean;
+  readonly covered: number;
+  readonly total: number;
+  readonly weight: number;
+  readonly missing: readonly string[];
+}
+
+/**
+ * 機能定義の実装準備度の型
+ */
+export interface FeatureReadinessData {
+  readonly featureName: string;
+  readonly score: number;
+  readonly ready: boolean;
+  readonly checks: readonly ReadinessCheckData[];
+}
+
+/**
+ * 設計書全体の実装準備度の集計の型
+ */
+export interface ReadinessSummaryData {
+  readonly averageScore: number;
+  readonly readyFeatureCount: number;
+  readonly features: readonly {
+    readonly featureName: string;
+    readonly score: number;
+    readonly ready: boolean;
+  }[];
+}
+
+/**
+ * 未定義の関連用語の参照の型
+ */
+export interface UndefinedTermReferenceData {
+  readonly termName: string;
+  readonly referencedBy: readonly string[];
+}
+
+/**
+ * 変更履歴から求めた最終更新日時の型
+ * 変更履歴のない項目は含まない
+ */
+export interface LastModifiedData {
+  readonly latest: string | null;
+  readonly features: Readonly<Record<string, string>>;
+  readonly terms: Readonly<Record<string, string>>;
+}
+
+/**
+ * 期間の終わり時点の項目数の型
+ */
+export interface GrowthPointData {
+  readonly period: string;
+  readonly featureCount: number;
+  readonly termCount: number;
+}
+
 /**
  * 統計情報の型
  */
 export interface StatisticsData {
   readonly featureCount: number;
   readonly termCount: number;
+  readonly termsByCategory: Readonly<Record<string, number>>;
+  readonly termsByBoundedContext: Readonly<Record<string, number>>;
+  readonly featuresByStepCount: Readonly<Record<string, number>>;
+  readonly orphanedTerms: readonly string[];
+  readonly undefinedReferencedTerms: readonly UndefinedTermReferenceData[];
+  readonly averageDefinitionLength: number;
+  readonly lastModified: LastModifiedData;
+  readonly growth: readonly GrowthPointData[];
+  readonly readiness: ReadinessSummaryData;
+}
+
+/**
+ * 機能定義の本文中の語句の出現位置の型
+ */
+export interface VocabularyLocationData {
+  readonly featureName: string;
+  readonly path: string;
+}
+
+/**
+ * ユビキタス言語に定義されていない語句（用語の候補）の型
+ */
+export interface VocabularyCandidateData {
+  readonly phrase: string;
+  readonly occurrences: number;
+  readonly locations: readonly VocabularyLocationData[];
+}
+
+/**
+ * 機能定義の本文で使われている定義済みの用語の型
+ */
+export interface KnownTermUsageData {
+  readonly termName: string;
+  readonly occurrences: number;
+}
+
+/**
+ * 機能定義の語彙の分析結果の型
+ */
+export interface VocabularyAnalysisData {
+  readonly analyzedFeatureCount: number;
+  readonly knownTerms: readonly KnownTermUsageData[];
+  readonly candidates: readonly VocabularyCandidateData[];
+}
+
+/**
+ * 設計書のlintの指摘の重要度の型
+ */
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * lintのルールごとの設定の型（offはルールを無効にする）
+ */
+export type LintRuleSetting = LintSeverity | 'off';
+
+/**
+ * lintの設定の型
+ * rulesはルールIDと重要度の組（指定しないルールは既定の重要度）
+ */
+export interface LintConfigData {
+  readonly rules: Readonly<Record<string, LintRuleSetting>>;
+}
+
+/**
+ * lintの指摘の型
+ */
+export interface LintFindingData {
+  readonly ruleId: string;
+  readonly severity: LintSeverity;
+  readonly path: string;
+  readonly message: string;
+}
+
+/**
+ * 項目ごとのlintの結果の型
+ */
+export interface LintEntityResultData {
+  readonly entityType: RevisionEntityType;
+  readonly entityName: string;
+  readonly findings: readonly LintFindingData[];
+}
+
+/**
+ * 重要度ごとの指摘の件数の型
+ */
+export type LintSummaryData = Readonly<Record<LintSeverity, number>>;
+
+/**
+ * 設計書のlintの結果の型
+ */
+export interface LintResultData {
+  readonly entities: readonly LintEntityResultData[];
+  readonly summary: LintSummaryData;
+}
+
+/**
+ * lintの絞り込み条件の型
+ * nameを指定する場合はentityTypeも指定する
+ */
+export interface LintFilterData {
+  readonly entityType?: RevisionEntityType;
+  readonly name?: string;
 }
@@ -7,25 +7,65 @@
  * 環境変数 SERVER_MODE によってMCPサーバーまたはREST APIサーバーを起動
  * - SERVER_MODE=mcp (デフォルト): MCPサーバーとして起動
  * - SERVER_MODE=rest: REST APIサーバーとして起動
+ *
+ * 使い方: node build/index.js [--data-dir <ディレクトリ>] [--workspace <ワークスペース名>] [--config <設定ファイル>]
+ * - --data-dir: 設計書と変更履歴を保存するデータディレクトリ（環境変数 DESIGN_DATA_DIR より優先）
+ * - --workspace: 使用するワークスペース名（環境変数 DESIGN_WORKSPACE より優先）
+ * - --config: ワークスペースの設定ファイル（環境変数 CLINE_SUPPORT_CONFIG より優先）
  */
 
+import { parseArgs } from 'util';
+import { WorkspaceConfiguration } from './infrastructure/workspace/WorkspaceConfiguration.js';
+import { WorkspaceRegistry } from './infrastructure/workspace/WorkspaceRegistry.js';
+import { MESSAGES } from './shared/constants/messages.js';
+
 const serverMode = process.env.SERVER_MODE || 'mcp';
 
 async function main() {
+  let values: { 'data-dir'?: string; workspace?: string; config?: string };
+  try {
+    ({ values } = parseArgs({
+      options: {
+        'data-dir': { type: 'string' },
+        workspace: { type: 'string' },
+        config: { type: 'string' },
+      },
+    }));
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    console.error(MESSAGES.INFO.SERVER_USAGE());
+    process.exit(1);
+  }
+
+  const configurationResult = await WorkspaceConfiguration.load({
+    dataDirectory: values['data-dir'],
+    workspace: values.workspace,
+    configFile: values.config,
+  });
+  if (!configurationResult.success) {
+    console.error(configurationResult.error.message);
+    process.exit(1);
+  }
+  const workspaces = new WorkspaceRegistry(configurationResult.value);
+
   try {
     switch (serverMode.toLowerCase()) {
       case 'rest':
         console.log('🌐 REST APIモードで起動しています...');
         const { RestServer } = await import('./infrastructure/rest/RestServer.js');
-        const restServer = new RestServer();
+        const restServer = new RestServer(workspaces);
         await restServer.run();
         break;
       
       case 'mcp':
       default:
         console.log('🔗 MCPモードで起動しています...');
+        const workspaceResult = workspaces.open();
+        if (!workspaceResult.success) {
+          throw workspaceResult.error;
+        }
         const { ClineSupportServer } = await import('./infrastructure/mcp/ClineSupportServer.js');
-        const mcpServer = new ClineSupportServer();
+        const mcpServer = new ClineSupportServer(workspaceResult.value);
         await mcpServer.run();
         break;
     }
@@ -1,14 +1,10 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { FileSystemFeatureRepository } from '../persistence/FileSystemFeatureRepository.js';
-import { FileSystemTermRepository } from '../persistence/FileSystemTermRepository.js';
-import { AddOrUpdateFeatureUseCase } from '../../application/usecases/AddOrUpdateFeatureUseCase.js';
-import { DeleteFeatureUseCase } from '../../application/usecases/DeleteFeatureUseCase.js';
-import { AddOrUpdateTermUseCase } from '../../application/usecases/AddOrUpdateTermUseCase.js';
-import { DeleteTermUseCase } from '../../application/usecases/DeleteTermUseCase.js';
-import { GetDetailsUseCase } from '../../application/usecases/GetDetailsUseCase.js';
+import { DesignDocumentWatcher } from '../persistence/DesignDocumentWatcher.js';
+import { WorkspaceContext } from '../workspace/WorkspaceContext.js';
 import { ToolHandlers } from '../../presentation/handlers/ToolHandlers.js';
 import { ResourceHandlers } from '../../presentation/handlers/ResourceHandlers.js';
+import { PromptHandlers } from '../../presentation/handlers/PromptHandlers.js';
 import { CONFIG } from '../../shared/constants/config.js';
 import { MESSAGES } from '../../shared/constants/messages.js';
 
@@ -19,17 +15,15 @@ import { MESSAGES } from '../../shared/constants/messages.js';
  */
 export class ClineSupportServer {
   private readonly server: Server;
-  private readonly featureRepository: FileSystemFeatureRepository;
-  private readonly termRepository: FileSystemTermRepository;
-  private readonly addOrUpdateFeatureUseCase: AddOrUpdateFeatureUseCase;
-  private readonly deleteFeatureUseCase: DeleteFeatureUseCase;
-  private readonly addOrUpdateTermUseCase: AddOrUpdateTermUseCase;
-  private readonly deleteTermUseCase: DeleteTermUseCase;
-  private readonly getDetailsUseCase: GetDetailsUseCase;
+  private readonly designDocumentWatcher: DesignDocumentWatcher;
   private readonly toolHandlers: ToolHandlers;
   private readonly resourceHandlers: ResourceHandlers;
+  private readonly promptHandlers: PromptHandlers;
 
-  constructor() {
+  /**
+   * @param workspace 接続中に使用するワークスペース
+   */
+  constructor(private readonly workspace: WorkspaceContext) {
     // MCPサーバーの初期化
     this.server = new Server(
       {
@@ -38,54 +32,64 @@ export class ClineSupportServer {
       },
       {
         capabilities: {
-          resources: {},
+          resources: {
+            subscribe: true,
+            listChanged: true,
+          },
           tools: {},
+          prompts: {},
+          completions: {},
         },
       }
     );
 
-    // 依存関係の構築（下位レイヤーから上位レイヤーへ）
-    // インフラストラクチャ層（リポジトリ実装）
-    this.featureRepository = new FileSystemFeatureRepository();
-    this.termRepository = new FileSystemTermRepository();
-
-    // アプリケーション層（ユースケース）
-    this.addOrUpdateFeatureUseCase = new AddOrUpdateFeatureUseCase(
-      this.featureRepository
-    );
-    this.deleteFeatureUseCase = new DeleteFeatureUseCase(
-      this.featureRepository
-    );
-    this.addOrUpdateTermUseCase = new AddOrUpdateTermUseCase(
-      this.termRepository
-    );
-    this.deleteTermUseCase = new DeleteTermUseCase(
-      this.termRepository
-    );
-    this.getDetailsUseCase = new GetDetailsUseCase(
-      this.featureRepository,
-      this.termRepository
-    );
-
     // プレゼンテーション層（ハンドラー）
+    // リポジトリとユースケースはワークスペースごとに組み立て済みのものを使用する
     this.toolHandlers = new ToolHandlers(
       this.server,
-      this.addOrUpdateFeatureUseCase,
-      this.deleteFeatureUseCase,
-      this.addOrUpdateTermUseCase,
-      this.deleteTermUseCase,
-      this.getDetailsUseCase
+      workspace.addOrUpdateFeatureUseCase,
+      workspace.deleteFeatureUseCase,
+      workspace.addOrUpdateTermUseCase,
+      workspace.deleteTermUseCase,
+      workspace.getDetailsUseCase,
+      workspace.getRevisionHistoryUseCase,
+      workspace.restoreRevisionUseCase,
+      workspace.diffDesignUseCase,
+      workspace.searchDesignUseCase,
+      workspace.listTermsUseCase,
+      workspace.patchFeatureUseCase,
+      workspace.patchTermUseCase,
+      workspace.renameFeatureUseCase,
+      workspace.renameTermUseCase,
+      workspace.validateFeaturesUseCase,
+      workspace.lintDesignUseCase,
+      workspace.analyzeVocabularyUseCase
     );
 
     this.resourceHandlers = new ResourceHandlers(
       this.server,
-      this.featureRepository,
-      this.termRepository
+      workspace.featureRepository,
+      workspace.termRepository,
+      workspace.listTermsUseCase,
+      workspace.getFeatureReadinessUseCase,
+      workspace.getStatisticsUseCase
+    );
+
+    this.promptHandlers = new PromptHandlers(
+      this.server,
+      workspace.getImplementationContextUseCase
+    );
+
+    // 他のプロセスによる変更も含めて設計書の変更をクライアントに通知する
+    this.designDocumentWatcher = new DesignDocumentWatcher(
+      workspace.designStorage.backend,
+      change => this.resourceHandlers.notifyDesignChanged(change)
     );
 
     // ハンドラーの設定
     this.toolHandlers.setup();
     this.resourceHandlers.setup();
+    this.promptHandlers.setup();
     
     this.setupErrorHandling();
   }
@@ -97,6 +101,7 @@ export class ClineSupportServer {
     this.server.onerror = (error) => console.error(MESSAGES.INFO.MCP_ERROR(), error);
     
     process.on('SIGINT', async () => {
+      this.designDocumentWatcher.stop();
       await this.server.close();
       process.exit(0);
     });
@@ -113,6 +118,9 @@ export class ClineSupportServer {
       // MCPサーバーの接続
       const transport = new StdioServerTransport();
       await this.server.connect(transport);
+
+      // 設計書の変更監視の開始
+      await this.designDocumentWatcher.start();
       
       console.error(MESSAGES.INFO.SERVER_RUNNING());
       
@@ -128,21 +136,33 @@ export class ClineSupportServer {
    */
   private async initializeData(): Promise<void> {
     try {
+      // 古いスキーマの設計書は、バックアップを取った上で移行する
+      const upgradeResult = await this.workspace.designStorage.backend.upgrade();
+      if (!upgradeResult.success) {
+        console.error('設計書のスキーマの移行に失敗:', upgradeResult.error.message);
+        return;
+      }
+      if (upgradeResult.value.backupPath !== null) {
+        const { fromVersion, toVersion, backupPath } = upgradeResult.value;
+        console.error(MESSAGES.INFO.SCHEMA_UPGRADED(fromVersion, toVersion, backupPath));
+      }
+
       // 機能定義の統計取得（ファイル存在確認も兼ねる）
-      const featureCountResult = await this.featureRepository.count();
+      const featureCountResult = await this.workspace.featureRepository.count();
       if (!featureCountResult.success) {
         console.error('機能定義の初期化に失敗:', featureCountResult.error.message);
         return;
       }
 
       // ユビキタス言語情報の統計取得
-      const termCountResult = await this.termRepository.count();
+      const termCountResult = await this.workspace.termRepository.count();
       if (!termCountResult.success) {
         console.error('ユビキタス言語情報の初期化に失敗:', termCountResult.error.message);
         return;
       }
 
       // 初期化完了のログ出力
+      console.error(MESSAGES.INFO.WORKSPACE_SELECTED(this.workspace.name, this.workspace.dataDirectory));
       console.error(
         MESSAGES.INFO.DESIGN_LOADED(
           featureCountResult.value, 
@@ -161,6 +181,7 @@ export class ClineSupportServer {
    */
   async shutdown(): Promise<void> {
     try {
+      this.designDocumentWatcher.stop();
       await this.server.close();
       console.error('サーバーが正常に停止しました');
     } catch (error) {
@@ -181,8 +202,8 @@ export class ClineSupportServer {
   }> {
     try {
       // リポジトリの接続確認
-      const featureCountResult = await this.featureRepository.count();
-      const termCountResult = await this.termRepository.count();
+      const featureCountResult = await this.workspace.featureRepository.count();
+      const termCountResult = await this.workspace.termRepository.count();
 
       const featureRepoHealthy = featureCountResult.success;
       const termRepoHealthy = termCountResult.success;
@@ -0,0 +1,616 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { DesignDocumentData, FeatureData, RevisionEntityType, TermData } from '../../domain/types.js';
+import { Result } from '../../shared/types/functional.js';
+import { CanonicalJson } from '../../shared/utils/canonicalJson.js';
+import { CONFIG } from '../../shared/constants/config.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+import { NameConflictError } from '../../domain/errors/NameConflictError.js';
+import { FileLock } from './FileLock.js';
+import { DesignWatchTarget } from './DesignDocumentWatcher.js';
+import { EntityFileCodec, EntityFileCodecs } from './EntityFileCodec.js';
+import { DesignSchema, DesignSchemaUpgrade, StoredDesignSchema } from './DesignSchema.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * 項目の種類ごとの内容の型
+ */
+type EntityDataOf<K extends RevisionEntityType> = K extends 'feature' ? FeatureData : TermData;
+
+/**
+ * 項目ファイルのパスと読み込んだ内容
+ */
+interface StoredEntityFile<T> {
+  readonly filePath: string;
+  readonly entity: T;
+}
+
+/**
+ * ファイル名に使用できない文字（パス区切り・予約文字・制御文字・エスケープ用の%）
+ */
+const UNSAFE_FILE_NAME_CHARACTERS = /[\\/:*?"<>|%\x00-\x1f]|^[. ]|[. ]$/g;
+
+/**
+ * 項目ごとのファイルに分割した設計書ディレクトリのストア
+ * 機能定義は features/、ユビキタス言語情報は terms/ の下に1項目1ファイルで保存し、
+ * キーを辞書順に並べて書き出すことで、別々の項目の変更が同じファイルの差分にならないようにする
+ * ファイルの形式（JSON・YAML・Markdown）は拡張子で判定し、既存の項目は元の形式のまま書き込む
+ * 書き込みはプロセス内で直列化した上で、ファイルロックによりプロセス間の同時書き込みを防ぐ
+ * 設計書のスキーマのバージョンはディレクトリ直下の schema.json に保持する
+ */
+export class DesignDirectoryStore {
+  private mutationQueue: Promise<unknown> = Promise.resolve();
+  private readonly lock: FileLock;
+  private schemaChecked = false;
+
+  constructor(
+    private readonly rootPath: string = DesignDirectoryStore.resolveDefaultPath()
+  ) {
+    this.lock = new FileLock(rootPath);
+  }
+
+  /**
+   * 既定の設計書ディレクトリのパスを取得する
+   */
+  static resolveDefaultPath(): string {
+    const rootPath = path.resolve(__dirname, '../../../');
+    return path.resolve(rootPath, CONFIG.PATHS.DATA_DIRECTORY, CONFIG.PATHS.DESIGN_DIRECTORY);
+  }
+
+  /**
+   * 設計書ディレクトリのパスを取得する
+   */
+  get path(): string {
+    return this.rootPath;
+  }
+
+  /**
+   * 変更監視の対象とするディレクトリ（項目の種類ごとのディレクトリ）
+   */
+  get watchTargets(): readonly DesignWatchTarget[] {
+    return [{ directory: this.directoryOf('feature') }, { directory: this.directoryOf('term') }];
+  }
+
+  /**
+   * 指定された名前の項目を読み込む
+   * @returns 項目の内容（存在しない場合はnull）
+   */
+  async read<K extends RevisionEntityType>(entityType: K, name: string): Promise<Result<EntityDataOf<K> | null, Error>> {
+    const schemaResult = await this.ensureCurrentSchema();
+    if (!schemaResult.success) {
+      return Result.failure(schemaResult.error);
+    }
+
+    try {
+      const filePath = await this.locate(entityType, name);
+      const entity = filePath ? await this.readFile<EntityDataOf<K>>(entityType, filePath) : null;
+      // 大文字・小文字を区別しないファイルシステムでは別の名前の項目を読むことがあるため、名前を確認する
+      return Result.success(entity && this.nameOf(entityType, entity) === name ? entity : null);
+
+    } catch (error) {
+      return Result.failure(this.toLoadError(error));
+    }
+  }
+
+  /**
+   * 指定した種類の全ての項目をファイル名順に読み込む
+   */
+  async readAll<K extends RevisionEntityType>(entityType: K): Promise<Result<EntityDataOf<K>[], Error>> {
+    const schemaResult = await this.ensureCurrentSchema();
+    if (!schemaResult.success) {
+      return Result.failure(schemaResult.error);
+    }
+
+    try {
+      return Result.success(await this.readEntities(entityType));
+    } catch (error) {
+      return Result.failure(this.toLoadError(error));
+    }
+  }
+
+  /**
+   * 設計書全体を読み込む
+   */
+  async load(): Promise<Result<DesignDocumentData, Error>> {
+    const featuresResult = await this.readAll('feature');
+    if (!featuresResult.success) {
+      return Result.failure(featuresResult.error);
+    }
+
+    const termsResult = await this.readAll('term');
+    if (!termsResult.success) {
+      return Result.failure(termsResult.error);
+    }
+
+    return Result.success({ features: featuresResult.value, terms: termsResult.value });
+  }
+
+  /**
+   * 保存されている設計書を、スキーマを移行せずにそのまま読み込む
+   */
+  async inspect(): Promise<Result<StoredDesignSchema, Error>> {
+    try {
+      return Result.success({
+        schemaVersion: await this.readSchemaVersion(),
+        document: { features: await this.readEntities('feature'), terms: await this.readEntities('term') },
+      });
+    } catch (error) {
+      return Result.failure(this.toLoadError(error));
+    }
+  }
+
+  /**
+   * 古いスキーマの設計書を現在のスキーマに移行する
+   * 移行前の設計書ディレクトリはバックアップとして複製しておく
+   */
+  async upgrade(): Promise<Result<DesignSchemaUpgrade, Error>> {
+    const queued = this.mutationQueue.then(() => this.lock.runExclusively(() => this.upgradeStored()));
+    this.mutationQueue = queued.catch(() => undefined);
+    return queued;
+  }
+
+  /**
+   * 書き込み処理を排他的に実行する
+   * 読み込みから書き込みまでを1つの処理にまとめることで、同時に行われた変更が失われない
+   * @param task 項目の読み込み・書き込み・削除を行う処理
+   */
+  async exclusively<T>(task: () => Promise<Result<T, Error>>): Promise<Result<T, Error>> {
+    const queued = this.mutationQueue.then(() => this.lock.runExclusively(async (): Promise<Result<T, Error>> => {
+      // 古いスキーマの設計書は、変更を適用する前に移行する
+      const upgradeResult = await this.upgradeStored();
+      if (!upgradeResult.success) {
+        return Result.failure(upgradeResult.error);
+      }
+
+      try {
+        return await task();
+      } catch (error) {
+        if (error instanceof NameConflictError) {
+          return Result.failure(error);
+        }
+        return Result.failure(this.toSaveError(error));
+      }
+    }));
+    this.mutationQueue = queued.catch(() => undefined);
+    return queued;
+  }
+
+  /**
+   * 項目をファイルに書き込む
+   * 既存のファイルがあればその形式で、なければ設定された形式で書き込む
+   * 一時ファイルに書き込んでからリネームすることで原子的に置き換える
+   * exclusivelyの処理の中から呼び出す
+   * @param previousName 名前変更の場合の変更前の項目名（変更前のファイルの形式を引き継ぐ）
+   * @throws NameConflictError 大文字・小文字のみが異なる別の項目のファイルがある場合
+   */
+  async write<K extends RevisionEntityType>(entityType: K, entity: EntityDataOf<K>, previousName?: string): Promise<void> {
+    await this.assertNoCaseConflict(entityType, this.nameOf(entityType, entity), previousName);
+    await this.writeEntity(entityType, entity, previousName);
+
+    // 新しく作成した設計書ディレクトリは現在のスキーマとする
+    if (!(await this.exists(this.schemaFilePath))) {
+      await this.writeSchemaVersion();
+    }
+  }
+
+  /**
+   * 項目のファイルを削除する
+   * 大文字・小文字のみの名前変更で同じファイルを指す場合に備え、ファイル内の名前を確認してから削除する
+   * exclusivelyの処理の中から呼び出す
+   * @returns 削除した場合true
+   */
+  async remove(entityType: RevisionEntityType, name: string): Promise<boolean> {
+    const filePath = await this.locate(entityType, name);
+    const entity = filePath ? await this.readFile<FeatureData | TermData>(entityType, filePath) : null;
+    if (!filePath || !entity || this.nameOf(entityType, entity) !== name) {
+      return false;
+    }
+
+    try {
+      await fs.unlink(filePath);
+      return true;
+    } catch (error) {
+      if (this.isErrorCode(error, 'ENOENT')) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 設計書全体を置き換える
+   */
+  async replace(document: DesignDocumentData): Promise<Result<void, Error>> {
+    return this.exclusively(async () => {
+      await this.replaceEntities(
+        { features: await this.readEntityFiles('feature'), terms: await this.readEntityFiles('term') },
+        document
+      );
+      if (!(await this.exists(this.schemaFilePath))) {
+        await this.writeSchemaVersion();
+      }
+      return Result.success(undefined);
+    });
+  }
+
+  /**
+   * スキーマの移行を確認していなければ、移行してから読み込めるようにする
+   */
+  private async ensureCurrentSchema(): Promise<Result<void, Error>> {
+    if (this.schemaChecked) {
+      return Result.success(undefined);
+    }
+
+    const upgradeResult = await this.upgrade();
+    return upgradeResult.success ? Result.success(undefined) : Result.failure(upgradeResult.error);
+  }
+
+  /**
+   * 保存されている設計書のスキーマが古い場合は、バックアップを取った上で移行して書き込む
+   * 項目ファイルは元のパス・形式のまま、移行で内容が変わったものだけを書き換える
+   * ロックを取得した処理の中から呼び出す
+   */
+  private async upgradeStored(): Promise<Result<DesignSchemaUpgrade, Error>> {
+    if (this.schemaChecked) {
+      const schemaVersion = DesignSchema.CURRENT_VERSION;
+      return Result.success({ fromVersion: schemaVersion, toVersion: schemaVersion, backupPath: null });
+    }
+
+    let schemaVersion: number;
+    let storedFeatures: StoredEntityFile<FeatureData>[];
+    let storedTerms: StoredEntityFile<TermData>[];
+    try {
+      schemaVersion = await this.readSchemaVersion();
+      storedFeatures = await this.readEntityFiles('feature');
+      storedTerms = await this.readEntityFiles('term');
+    } catch (error) {
+      return Result.failure(this.toLoadError(error));
+    }
+
+    if (schemaVersion === DesignSchema.CURRENT_VERSION) {
+      this.schemaChecked = true;
+      return Result.success({ fromVersion: schemaVersion, toVersion: schemaVersion, backupPath: null });
+    }
+
+    const documentResult = DesignSchema.upgrade({
+      schemaVersion,
+      document: {
+        features: storedFeatures.map(stored => stored.entity),
+        terms: storedTerms.map(stored => stored.entity),
+      },
+    });
+    if (!documentResult.success) {
+      return Result.failure(documentResult.error);
+    }
+
+    const backupPath = DesignSchema.backupPathOf(this.rootPath, schemaVersion);
+    try {
+      await fs.cp(this.rootPath, backupPath, { recursive: true });
+    } catch (error) {
+      return Result.failure(new Error(MESSAGES.ERROR.SCHEMA_BACKUP_FAILED(
+        error instanceof Error ? error.message : String(error)
+      )));
+    }
+
+    try {
+      await this.replaceEntities({ features: storedFeatures, terms: storedTerms }, documentResult.value);
+      await this.writeSchemaVersion();
+    } catch (error) {
+      return Result.failure(this.toSaveError(error));
+    }
+
+    this.schemaChecked = true;
+    return Result.success({ fromVersion: schemaVersion, toVersion: DesignSchema.CURRENT_VERSION, backupPath });
+  }
+
+  /**
+   * 項目をファイルに書き込む（schema.json の作成・名前の重複の確認は呼び出し側で行う）
+   */
+  private async writeEntity(entityType: RevisionEntityType, entity: FeatureData | TermData, previousName?: string): Promise<void> {
+    const name = this.nameOf(entityType, entity);
+    const existingPath = await this.locate(entityType, name);
+    const formatSource = existingPath ?? (previousName ? await this.locate(entityType, previousName) : null);
+    const codec = (formatSource && EntityFileCodecs.forPath(formatSource)) ||
+      EntityFileCodecs.forFormat(CONFIG.PERSISTENCE.ENTITY_FILE_FORMAT);
+    const filePath = existingPath ?? this.filePathOf(entityType, name, codec);
+    const temporaryPath = `${filePath}.${process.pid}.${Date.now()}${CONFIG.PERSISTENCE.TEMPORARY_FILE_SUFFIX}`;
+
+    try {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(temporaryPath, codec.encode(entityType, entity), CONFIG.ENCODING.UTF8);
+      await fs.rename(temporaryPath, filePath);
+    } catch (error) {
+      await fs.rm(temporaryPath, { force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * 全ての項目のファイルを設計書の内容で置き換える
+   * 既存の項目は元のパス・形式のまま、内容が変わったものだけを書き換える
+   * 途中で失敗しても設計書の項目が失われないよう、全ての項目を書き込んでから不要になったファイルを削除する
+   * @param storedFiles 置き換え前の項目ファイル
+   */
+  private async replaceEntities(
+    storedFiles: { readonly features: readonly StoredEntityFile<FeatureData>[]; readonly terms: readonly StoredEntityFile<TermData>[] },
+    document: DesignDocumentData
+  ): Promise<void> {
+    const entries = [
+      { entityType: 'feature' as const, stored: storedFiles.features, entities: document.features },
+      { entityType: 'term' as const, stored: storedFiles.terms, entities: document.terms },
+    ];
+
+    for (const { entityType, entities } of entries) {
+      this.assertNoCaseDuplicates(entityType, entities);
+    }
+
+    for (const { entityType, stored, entities } of entries) {
+      const storedByName = new Map<string, FeatureData | TermData>(
+        stored.map(storedFile => [this.nameOf(entityType, storedFile.entity), storedFile.entity])
+      );
+      for (const entity of entities) {
+        const storedEntity = storedByName.get(this.nameOf(entityType, entity));
+        if (!storedEntity || !CanonicalJson.equals(storedEntity, entity)) {
+          await this.writeEntity(entityType, entity);
+        }
+      }
+    }
+
+    for (const { entityType, stored, entities } of entries) {
+      const names = new Set<string>(entities.map(entity => this.nameOf(entityType, entity)));
+      for (const storedFile of stored) {
+        const name = this.nameOf(entityType, storedFile.entity);
+        if (!names.has(name)) {
+          await this.remove(entityType, name);
+        }
+      }
+    }
+  }
+
+  /**
+   * 書き込む項目の中に、大文字・小文字のみが異なる（同じファイルになりうる）名前がないことを確認する
+   */
+  private assertNoCaseDuplicates(entityType: RevisionEntityType, entities: readonly (FeatureData | TermData)[]): void {
+    const baseNames = new Set<string>();
+    for (const entity of entities) {
+      const name = this.nameOf(entityType, entity);
+      const baseName = this.baseNameOf(name).toLowerCase();
+      if (baseNames.has(baseName)) {
+        throw new NameConflictError(entityType, name);
+      }
+      baseNames.add(baseName);
+    }
+  }
+
+  /**
+   * 保存されている設計書のスキーマのバージョンを取得する
+   * schema.json のないディレクトリは、項目があればバージョン導入前の設計書、なければ新しい設計書とみなす
+   */
+  private async readSchemaVersion(): Promise<number> {
+    try {
+      const content = JSON.parse(await fs.readFile(this.schemaFilePath, CONFIG.ENCODING.UTF8));
+      return DesignSchema.versionOf(content);
+    } catch (error) {
+      if (!this.isErrorCode(error, 'ENOENT')) {
+        throw new Error(`${CONFIG.PATHS.SCHEMA_FILE}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    const fileNames = [
+      ...await this.listFileNames(this.directoryOf('feature')),
+      ...await this.listFileNames(this.directoryOf('term')),
+    ];
+    return fileNames.length > 0 ? 0 : DesignSchema.CURRENT_VERSION;
+  }
+
+  /**
+   * 現在のスキーマのバージョンを schema.json に書き込む
+   */
+  private async writeSchemaVersion(): Promise<void> {
+    await fs.mkdir(this.rootPath, { recursive: true });
+    await fs.writeFile(
+      this.schemaFilePath,
+      `${JSON.stringify({ [DesignSchema.VERSION_FIELD]: DesignSchema.CURRENT_VERSION }, null, 2)}\n`,
+      CONFIG.ENCODING.UTF8
+    );
+  }
+
+  /**
+   * スキーマのバージョンを保持するファイルのパス
+   */
+  private get schemaFilePath(): string {
+    return path.join(this.rootPath, CONFIG.PATHS.SCHEMA_FILE);
+  }
+
+  /**
+   * ファイルが存在するかを判定する
+   */
+  private async exists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch (error) {
+      if (this.isErrorCode(error, 'ENOENT')) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 指定した種類の全ての項目をファイル名順に読み込む（スキーマは移行しない）
+   */
+  private async readEntities<K extends RevisionEntityType>(entityType: K): Promise<EntityDataOf<K>[]> {
+    return (await this.readEntityFiles(entityType)).map(stored => stored.entity);
+  }
+
+  /**
+   * 指定した種類の全ての項目をファイルのパスとともにファイル名順に読み込む（スキーマは移行しない）
+   */
+  private async readEntityFiles<K extends RevisionEntityType>(entityType: K): Promise<StoredEntityFile<EntityDataOf<K>>[]> {
+    const directory = this.directoryOf(entityType);
+    const fileNames = (await this.listFileNames(directory)).sort();
+
+    // 同じ項目が別の形式のファイルにもある場合は、どちらが正しいか判断できないため失敗とする
+    const fileNamesByBaseName = new Map<string, string>();
+    for (const fileName of fileNames) {
+      const baseName = path.basename(fileName, path.extname(fileName));
+      const duplicate = fileNamesByBaseName.get(baseName);
+      if (duplicate) {
+        throw new Error(MESSAGES.ERROR.DUPLICATE_ENTITY_FILES(duplicate, fileName));
+      }
+      fileNamesByBaseName.set(baseName, fileName);
+    }
+
+    const storedFiles: StoredEntityFile<EntityDataOf<K>>[] = [];
+    for (const fileName of fileNames) {
+      const filePath = path.join(directory, fileName);
+      const entity = await this.readFile<EntityDataOf<K>>(entityType, filePath);
+      if (entity) {
+        storedFiles.push({ filePath, entity });
+      }
+    }
+
+    return storedFiles;
+  }
+
+  /**
+   * 項目の種類ごとのディレクトリのパスを取得する
+   */
+  private directoryOf(entityType: RevisionEntityType): string {
+    return path.join(
+      this.rootPath,
+      entityType === 'feature' ? CONFIG.PATHS.FEATURES_DIRECTORY : CONFIG.PATHS.TERMS_DIRECTORY
+    );
+  }
+
+  /**
+   * 指定した形式での項目のファイルパスを取得する
+   */
+  private filePathOf(entityType: RevisionEntityType, name: string, codec: EntityFileCodec): string {
+    return path.join(this.directoryOf(entityType), `${this.baseNameOf(name)}${codec.extensions[0]}`);
+  }
+
+  /**
+   * 項目名から拡張子を除いたファイル名を求める
+   * ファイル名に使用できない文字は%XX形式（UTF-8）にエスケープする
+   */
+  private baseNameOf(name: string): string {
+    return name.replace(UNSAFE_FILE_NAME_CHARACTERS, char =>
+      [...Buffer.from(char, 'utf8')].map(byte => `%${byte.toString(16).toUpperCase().padStart(2, '0')}`).join('')
+    );
+  }
+
+  /**
+   * 項目の既存のファイルを探す
+   * @returns ファイルパス（どの形式のファイルも存在しない場合はnull）
+   */
+  private async locate(entityType: RevisionEntityType, name: string): Promise<string | null> {
+    const directory = this.directoryOf(entityType);
+    const baseName = this.baseNameOf(name);
+
+    for (const extension of EntityFileCodecs.extensions) {
+      const filePath = path.join(directory, `${baseName}${extension}`);
+      try {
+        await fs.access(filePath);
+        return filePath;
+      } catch (error) {
+        if (!this.isErrorCode(error, 'ENOENT')) {
+          throw error;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 大文字・小文字のみが異なる別の項目のファイルがないことを確認する
+   * 大文字・小文字を区別しないファイルシステムでは同じファイルを上書きしてしまうため、
+   * ファイルシステムによらず同じ結果になるよう、区別するファイルシステムでも重複とする
+   * @param previousName 名前変更の場合の変更前の項目名（大文字・小文字のみの名前変更は許可する）
+   */
+  private async assertNoCaseConflict(entityType: RevisionEntityType, name: string, previousName?: string): Promise<void> {
+    const directory = this.directoryOf(entityType);
+    const baseName = this.baseNameOf(name).toLowerCase();
+
+    for (const fileName of await this.listFileNames(directory)) {
+      if (path.basename(fileName, path.extname(fileName)).toLowerCase() !== baseName) {
+        continue;
+      }
+
+      const entity = await this.readFile<FeatureData | TermData>(entityType, path.join(directory, fileName));
+      const existingName = entity ? this.nameOf(entityType, entity) : null;
+      if (existingName !== null && existingName !== name && existingName !== previousName) {
+        throw new NameConflictError(entityType, name);
+      }
+    }
+  }
+
+  /**
+   * 項目の名前を取得する
+   */
+  private nameOf(entityType: RevisionEntityType, entity: FeatureData | TermData): string {
+    return entityType === 'feature' ? (entity as FeatureData).feature.name : (entity as TermData).term.name;
+  }
+
+  /**
+   * ディレクトリ内の項目ファイル名の一覧を取得する（ディレクトリが存在しない場合は空）
+   */
+  private async listFileNames(directory: string): Promise<string[]> {
+    try {
+      const fileNames = await fs.readdir(directory);
+      return fileNames.filter(fileName => EntityFileCodecs.forPath(fileName) !== undefined);
+    } catch (error) {
+      if (this.isErrorCode(error, 'ENOENT')) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 項目ファイルを拡張子に応じた形式で読み込む（ファイルが存在しない場合はnull）
+   */
+  private async readFile<T>(entityType: RevisionEntityType, filePath: string): Promise<T | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, CONFIG.ENCODING.UTF8);
+    } catch (error) {
+      if (this.isErrorCode(error, 'ENOENT')) {
+        return null;
+      }
+      throw error;
+    }
+
+    try {
+      return (EntityFileCodecs.forPath(filePath) as EntityFileCodec).decode(entityType, content) as T;
+    } catch (error) {
+      throw new Error(`${path.relative(this.rootPath, filePath)}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * 読み込み時の例外をエラーメッセージ付きのエラーに変換する
+   */
+  private toLoadError(error: unknown): Error {
+    return new Error(MESSAGES.ERROR.DESIGN_LOAD_FAILED(error instanceof Error ? error.message : String(error)));
+  }
+
+  /**
+   * 書き込み時の例外をエラーメッセージ付きのエラーに変換する
+   */
+  private toSaveError(error: unknown): Error {
+    return new Error(MESSAGES.ERROR.DESIGN_SAVE_FAILED(error instanceof Error ? error.message : String(error)));
+  }
+
+  /**
+   * ファイルシステムエラーのコードを判定する
+   */
+  private isErrorCode(error: unknown, code: string): boolean {
+    return error instanceof Error && (error as NodeJS.ErrnoException).code === code;
+  }
+}
@@ -0,0 +1,264 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { DesignDocumentData } from '../../domain/types.js';
+import { Result } from '../../shared/types/functional.js';
+import { CONFIG } from '../../shared/constants/config.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+import { FileLock } from './FileLock.js';
+import { DesignWatchTarget } from './DesignDocumentWatcher.js';
+import { DesignSchema, DesignSchemaUpgrade, StoredDesignSchema } from './DesignSchema.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * 設計書に対する変更処理の結果の型
+ * documentを省略した場合は設計書を書き込まない
+ */
+export interface DesignDocumentMutation<T> {
+  readonly document?: DesignDocumentData;
+  readonly value: T;
+}
+
+/**
+ * 設計書ファイルの共有ストア
+ * 機能定義リポジトリとユビキタス言語情報リポジトリの下で単一の設計書を共有し、
+ * 変更処理をプロセス内で直列化した上で、ファイルロックによりプロセス間の同時書き込みを防ぐ
+ */
+export class DesignDocumentStore {
+  private mutationQueue: Promise<unknown> = Promise.resolve();
+  private readonly lock: FileLock;
+
+  constructor(
+    private readonly documentPath: string = DesignDocumentStore.resolveDefaultPath()
+  ) {
+    this.lock = new FileLock(documentPath);
+  }
+
+  /**
+   * 既定の設計書ファイルパスを取得する
+   */
+  static resolveDefaultPath(): string {
+    const rootPath = path.resolve(__dirname, '../../../');
+    return path.resolve(rootPath, CONFIG.PATHS.DATA_DIRECTORY, CONFIG.PATHS.DESIGN_DOCUMENT_FILE);
+  }
+
+  /**
+   * 設計書ファイルのパスを取得する
+   */
+  get path(): string {
+    return this.documentPath;
+  }
+
+  /**
+   * 変更監視の対象（設計書ファイルのみを扱う）
+   */
+  get watchTargets(): readonly DesignWatchTarget[] {
+    return [{ directory: path.dirname(this.documentPath), fileName: path.basename(this.documentPath) }];
+  }
+
+  /**
+   * 設計書を読み込む
+   * 書き込みは一時ファイルからのリネームで行うため、ロックなしでも書きかけの内容は読まれない
+   * 古いスキーマの設計書は、バックアップを取った上で現在のスキーマに移行してから読み込む
+   */
+  async load(): Promise<Result<DesignDocumentData, Error>> {
+    let storedResult = await this.inspect();
+    if (storedResult.success && storedResult.value.schemaVersion !== DesignSchema.CURRENT_VERSION) {
+      const upgradeResult = await this.upgrade();
+      if (!upgradeResult.success) {
+        return Result.failure(upgradeResult.error);
+      }
+      storedResult = await this.inspect();
+    }
+
+    if (!storedResult.success) {
+      return Result.failure(storedResult.error);
+    }
+
+    return DesignSchema.upgrade(storedResult.value);
+  }
+
+  /**
+   * 保存されている設計書を、スキーマを移行せずにそのまま読み込む
+   */
+  async inspect(): Promise<Result<StoredDesignSchema, Error>> {
+    try {
+      const fileContent = await fs.readFile(this.documentPath, CONFIG.ENCODING.UTF8);
+      const document = JSON.parse(fileContent);
+
+      // データ整合性の確認（移行で空の設計書に置き換えないよう、最上位が不正な場合は読み込みを失敗とする）
+      if (typeof document !== 'object' || document === null || Array.isArray(document)) {
+        return Result.failure(new Error(MESSAGES.ERROR.DESIGN_LOAD_FAILED(MESSAGES.ERROR.INVALID_DESIGN_ROOT())));
+      }
+
+      return Result.success({ schemaVersion: DesignSchema.versionOf(document), document });
+
+    } catch (error) {
+      if (this.isErrorCode(error, 'ENOENT')) {
+        // ファイルが存在しない場合は空の設計書を返す
+        return Result.success({ schemaVersion: DesignSchema.CURRENT_VERSION, document: {} });
+      }
+
+      return Result.failure(
+        error instanceof Error
+          ? new Error(MESSAGES.ERROR.DESIGN_LOAD_FAILED(error.message))
+          : new Error(MESSAGES.ERROR.DESIGN_LOAD_FAILED(String(error)))
+      );
+    }
+  }
+
+  /**
+   * 古いスキーマの設計書を現在のスキーマに移行する
+   * 移行前の設計書ファイルはバックアップとして残す
+   */
+  async upgrade(): Promise<Result<DesignSchemaUpgrade, Error>> {
+    return this.exclusively(() => this.upgradeStored());
+  }
+
+  /**
+   * 設計書全体を置き換える
+   */
+  async replace(document: DesignDocumentData): Promise<Result<void, Error>> {
+    return this.update<void>(() => Result.success({ document, value: undefined }));
+  }
+
+  /**
+   * 設計書を読み込み、変更を適用して保存する
+   * 読み込みから書き込みまでを排他的に実行するため、同時に行われた変更が失われない
+   * @param mutator 最新の設計書を受け取り、変更後の設計書と戻り値を返す関数
+   */
+  async update<T>(
+    mutator: (document: DesignDocumentData) => Result<DesignDocumentMutation<T>, Error>
+  ): Promise<Result<T, Error>> {
+    return this.exclusively(() => this.applyMutation(mutator));
+  }
+
+  /**
+   * 処理をプロセス内で直列化し、ファイルロックを取得した上で実行する
+   */
+  private async exclusively<T>(task: () => Promise<Result<T, Error>>): Promise<Result<T, Error>> {
+    const queued = this.mutationQueue.then(() => this.lock.runExclusively(task));
+    this.mutationQueue = queued.catch(() => undefined);
+    return queued;
+  }
+
+  /**
+   * 保存されている設計書のスキーマが古い場合は、バックアップを取った上で移行して書き込む
+   * exclusivelyの処理の中から呼び出す
+   */
+  private async upgradeStored(): Promise<Result<DesignSchemaUpgrade, Error>> {
+    const storedResult = await this.inspect();
+    if (!storedResult.success) {
+      return Result.failure(storedResult.error);
+    }
+
+    const { schemaVersion } = storedResult.value;
+    if (schemaVersion === DesignSchema.CURRENT_VERSION) {
+      return Result.success({ fromVersion: schemaVersion, toVersion: schemaVersion, backupPath: null });
+    }
+
+    const documentResult = DesignSchema.upgrade(storedResult.value);
+    if (!documentResult.success) {
+      return Result.failure(documentResult.error);
+    }
+
+    const backupPath = DesignSchema.backupPathOf(this.documentPath, schemaVersion);
+    try {
+      await fs.copyFile(this.documentPath, backupPath);
+    } catch (error) {
+      return Result.failure(new Error(MESSAGES.ERROR.SCHEMA_BACKUP_FAILED(
+        error instanceof Error ? error.message : String(error)
+      )));
+    }
+
+    const writeResult = await this.writeAtomically(documentResult.value);
+    if (!writeResult.success) {
+      return Result.failure(writeResult.error);
+    }
+
+    return Result.success({ fromVersion: schemaVersion, toVersion: DesignSchema.CURRENT_VERSION, backupPath });
+  }
+
+  /**
+   * 最新の設計書に変更を適用して保存する
+   */
+  private async applyMutation<T>(
+    mutator: (document: DesignDocumentData) => Result<DesignDocumentMutation<T>, Error>
+  ): Promise<Result<T, Error>> {
+    try {
+      // 古いスキーマの設計書は、変更を適用する前に移行する
+      const upgradeResult = await this.upgradeStored();
+      if (!upgradeResult.success) {
+        return Result.failure(upgradeResult.error);
+      }
+
+      const storedResult = await this.inspect();
+      if (!storedResult.success) {
+        return Result.failure(storedResult.error);
+      }
+
+      const documentResult = DesignSchema.upgrade(storedResult.value);
+      if (!documentResult.success) {
+        return Result.failure(documentResult.error);
+      }
+
+      const mutationResult = mutator(documentResult.value);
+      if (!mutationResult.success) {
+        return Result.failure(mutationResult.error);
+      }
+
+      const { document, value } = mutationResult.value;
+      if (document) {
+        const writeResult = await this.writeAtomically(document);
+        if (!writeResult.success) {
+          return Result.failure(writeResult.error);
+        }
+      }
+
+      return Result.success(value);
+
+    } catch (error) {
+      return Result.failure(
+        error instanceof Error
+          ? error
+          : new Error(MESSAGES.ERROR.DESIGN_SAVE_FAILED(String(error)))
+      );
+    }
+  }
+
+  /**
+   * 一時ファイルに書き込んでからリネームすることで設計書を原子的に置き換える
+   */
+  private async writeAtomically(document: DesignDocumentData): Promise<Result<void, Error>> {
+    const temporaryPath = `${this.documentPath}.${process.pid}.${Date.now()}${CONFIG.PERSISTENCE.TEMPORARY_FILE_SUFFIX}`;
+
+    try {
+      await fs.mkdir(path.dirname(this.documentPath), { recursive: true });
+      const jsonContent = JSON.stringify({
+        schemaVersion: DesignSchema.CURRENT_VERSION,
+        features: document.features,
+        terms: document.terms,
+      }, null, 2);
+      await fs.writeFile(temporaryPath, jsonContent, CONFIG.ENCODING.UTF8);
+      await fs.rename(temporaryPath, this.documentPath);
+      return Result.success(undefined);
+
+    } catch (error) {
+      await fs.rm(temporaryPath, { force: true });
+      return Result.failure(
+        error instanceof Error
+          ? new Error(MESSAGES.ERROR.DESIGN_SAVE_FAILED(error.message))
+          : new Error(MESSAGES.ERROR.DESIGN_SAVE_FAILED(String(error)))
+      );
+    }
+  }
+
+  /**
+   * ファイルシステムエラーのコードを判定する
+   */
+  private isErrorCode(error: unknown, code: string): boolean {
+    return error instanceof Error && (error as NodeJS.ErrnoException).code === code;
+  }
+}
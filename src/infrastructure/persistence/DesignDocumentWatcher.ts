@@ -0,0 +1,203 @@
+import { watch, FSWatcher, promises as fs } from 'fs';
+import {
+  DesignChangeData,
+  DesignDocumentData,
+  DesignEntityChangeData,
+  RevisionEntityType,
+} from '../../domain/types.js';
+import { CONFIG } from '../../shared/constants/config.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+import { DesignDocumentBackend } from './DesignStorage.js';
+
+/**
+ * スナップショットに記録する項目の型
+ * serializedは変更の有無を比較するためのJSON文字列
+ */
+interface SnapshotEntry {
+  readonly entityType: RevisionEntityType;
+  readonly name: string;
+  readonly aliases: readonly string[];
+  readonly serialized: string;
+}
+
+/**
+ * 設計書のスナップショットの型（キーは「種類:名前」）
+ */
+type DesignSnapshot = ReadonlyMap<string, SnapshotEntry>;
+
+/**
+ * 変更監視の対象
+ * ディレクトリを監視し、fileNameを指定した場合はそのファイルの変更のみを扱う
+ */
+export interface DesignWatchTarget {
+  readonly directory: string;
+  readonly fileName?: string;
+}
+
+/**
+ * 設計書の変更を受け取るリスナーの型
+ */
+export type DesignChangeListener = (change: DesignChangeData) => void;
+
+/**
+ * 設計書の保存先の変更監視
+ * 他のプロセスによる書き込みも検知し、直前のスナップショットとの比較で変化した項目を通知する
+ */
+export class DesignDocumentWatcher {
+  private watchers: FSWatcher[] = [];
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private snapshot: DesignSnapshot | null = null;
+  private checking: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly store: DesignDocumentBackend,
+    private readonly listener: DesignChangeListener
+  ) {}
+
+  /**
+   * 監視を開始する
+   * 書き込みは一時ファイルからのリネームで行われるため、ファイルではなく保存先が示すディレクトリを監視する
+   */
+  async start(): Promise<void> {
+    if (this.watchers.length > 0) {
+      return;
+    }
+
+    for (const { directory } of this.store.watchTargets) {
+      await fs.mkdir(directory, { recursive: true });
+    }
+
+    this.snapshot = await this.takeSnapshot();
+    this.watchers = this.store.watchTargets.map(({ directory, fileName }) => {
+      const watcher = watch(directory, (_, changedFileName) => {
+        if (!fileName || !changedFileName || changedFileName.toString() === fileName) {
+          this.scheduleCheck();
+        }
+      });
+      watcher.on('error', error => console.error(MESSAGES.ERROR.DESIGN_WATCH_FAILED(error.message)));
+      // 監視のためだけにプロセスを存続させない
+      watcher.unref();
+      return watcher;
+    });
+  }
+
+  /**
+   * 監視を終了する
+   */
+  stop(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers = [];
+  }
+
+  /**
+   * 連続した変更をまとめてから変更の確認を予約する
+   */
+  private scheduleCheck(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.checking = this.checking
+        .then(() => this.check())
+        .catch(error => console.error(MESSAGES.ERROR.DESIGN_WATCH_FAILED(
+          error instanceof Error ? error.message : String(error)
+        )));
+    }, CONFIG.WATCH.DEBOUNCE_MS);
+  }
+
+  /**
+   * 最新の設計書を読み込み、変化した項目があればリスナーに通知する
+   */
+  private async check(): Promise<void> {
+    const current = await this.takeSnapshot();
+    if (!current) {
+      return;
+    }
+
+    const previous = this.snapshot;
+    this.snapshot = current;
+    if (!previous) {
+      return;
+    }
+
+    const entities = this.compare(previous, current);
+    if (entities.length > 0) {
+      this.listener({ entities });
+    }
+  }
+
+  /**
+   * 2つのスナップショットを比較し、変化した項目を列挙する
+   */
+  private compare(previous: DesignSnapshot, current: DesignSnapshot): DesignEntityChangeData[] {
+    const changes: DesignEntityChangeData[] = [];
+
+    current.forEach((entry, key) => {
+      const before = previous.get(key);
+      if (!before) {
+        changes.push({ entityType: entry.entityType, name: entry.name, aliases: entry.aliases, change: 'added' });
+      } else if (before.serialized !== entry.serialized) {
+        changes.push({
+          entityType: entry.entityType,
+          name: entry.name,
+          aliases: [...new Set([...before.aliases, ...entry.aliases])],
+          change: 'updated',
+        });
+      }
+    });
+
+    previous.forEach((entry, key) => {
+      if (!current.has(key)) {
+        changes.push({ entityType: entry.entityType, name: entry.name, aliases: entry.aliases, change: 'removed' });
+      }
+    });
+
+    return changes;
+  }
+
+  /**
+   * 設計書のスナップショットを作成する
+   * 読み込みに失敗した場合はnullを返す
+   */
+  private async takeSnapshot(): Promise<DesignSnapshot | null> {
+    const documentResult = await this.store.load();
+    if (!documentResult.success) {
+      console.error(MESSAGES.ERROR.DESIGN_WATCH_FAILED(documentResult.error.message));
+      return null;
+    }
+
+    return this.toSnapshot(documentResult.value);
+  }
+
+  /**
+   * 設計書を項目ごとのスナップショットに変換する
+   */
+  private toSnapshot(document: DesignDocumentData): DesignSnapshot {
+    const snapshot = new Map<string, SnapshotEntry>();
+
+    document.features.forEach(feature => {
+      snapshot.set(`feature:${feature.feature.name}`, {
+        entityType: 'feature',
+        name: feature.feature.name,
+        aliases: [],
+        serialized: JSON.stringify(feature),
+      });
+    });
+
+    document.terms.forEach(term => {
+      snapshot.set(`term:${term.term.name}`, {
+        entityType: 'term',
+        name: term.term.name,
+        aliases: term.term.aliases,
+        serialized: JSON.stringify(term),
+      });
+    });
+
+    return snapshot;
+  }
+}
@@ -0,0 +1,156 @@
+import { DesignDocumentData } from '../../domain/types.js';
+import { Result } from '../../shared/types/functional.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+import { CanonicalJson } from '../../shared/utils/canonicalJson.js';
+
+/**
+ * 保存された設計書（スキーマ移行前の内容を含むため形式は保証しない）
+ */
+export type StoredDesignDocument = Readonly<Record<string, unknown>>;
+
+/**
+ * 設計書のスキーマの移行手順
+ * fromのバージョンの設計書を、次のバージョン（from + 1）の設計書に変換する
+ */
+export interface DesignSchemaMigration {
+  readonly from: number;
+  readonly description: string;
+  migrate(document: StoredDesignDocument): StoredDesignDocument;
+}
+
+/**
+ * 保存先から読み込んだ設計書とスキーマのバージョン
+ */
+export interface StoredDesignSchema {
+  readonly schemaVersion: number;
+  readonly document: StoredDesignDocument;
+}
+
+/**
+ * スキーマ移行で変わる最上位のフィールド（存在しない場合はundefined）
+ */
+export interface DesignSchemaFieldChange {
+  readonly field: string;
+  readonly before: unknown;
+  readonly after: unknown;
+}
+
+/**
+ * スキーマ移行の結果
+ */
+export interface DesignSchemaUpgrade {
+  readonly fromVersion: number;
+  readonly toVersion: number;
+  /** 移行前の内容のバックアップ（移行しなかった場合はnull） */
+  readonly backupPath: string | null;
+}
+
+/**
+ * スキーマの移行手順の一覧（バージョン順）
+ * FeatureData・TermDataの形式を変更する場合は、末尾に手順を追加する
+ */
+const MIGRATIONS: readonly DesignSchemaMigration[] = [
+  {
+    from: 0,
+    description: 'スキーマのバージョンを追加し、features・termsを配列に揃える',
+    migrate: document => ({
+      ...document,
+      features: Array.isArray(document.features) ? document.features : [],
+      terms: Array.isArray(document.terms) ? document.terms : [],
+    }),
+  },
+];
+
+/**
+ * 現在のスキーマのバージョン
+ */
+const CURRENT_VERSION = MIGRATIONS.length;
+
+export const DesignSchema = {
+  /**
+   * 現在のスキーマのバージョン
+   */
+  CURRENT_VERSION,
+
+  /**
+   * 設計書ファイルでスキーマのバージョンを保持するフィールド名
+   */
+  VERSION_FIELD: 'schemaVersion',
+
+  /**
+   * 設計書ファイルの内容からスキーマのバージョンを取得する（バージョンのない設計書は0）
+   */
+  versionOf: (document: StoredDesignDocument): number =>
+    typeof document.schemaVersion === 'number' ? document.schemaVersion : 0,
+
+  /**
+   * 指定したバージョンから現在のバージョンまでの移行手順を取得する
+   * 現在より新しいバージョンの設計書は、このバージョンのサーバーでは扱えないため失敗とする
+   */
+  migrationsFrom: (schemaVersion: number): Result<readonly DesignSchemaMigration[], Error> => {
+    if (!Number.isInteger(schemaVersion) || schemaVersion < 0 || schemaVersion > CURRENT_VERSION) {
+      return Result.failure(new Error(MESSAGES.ERROR.UNSUPPORTED_SCHEMA_VERSION(schemaVersion, CURRENT_VERSION)));
+    }
+
+    return Result.success(MIGRATIONS.slice(schemaVersion));
+  },
+
+  /**
+   * 設計書を現在のスキーマに移行する
+   */
+  upgrade: (stored: StoredDesignSchema): Result<DesignDocumentData, Error> => {
+    const migratedResult = DesignSchema.migrate(stored);
+    return migratedResult.success
+      ? Result.success(DesignSchema.toDocument(migratedResult.value))
+      : Result.failure(migratedResult.error);
+  },
+
+  /**
+   * 設計書を現在のスキーマに移行し、移行後に保存される内容（バージョン・features・terms）を返す
+   */
+  migrate: (stored: StoredDesignSchema): Result<StoredDesignDocument, Error> => {
+    const migrationsResult = DesignSchema.migrationsFrom(stored.schemaVersion);
+    if (!migrationsResult.success) {
+      return Result.failure(migrationsResult.error);
+    }
+
+    let document = stored.document;
+    for (const migration of migrationsResult.value) {
+      try {
+        document = migration.migrate(document);
+      } catch (error) {
+        return Result.failure(new Error(MESSAGES.ERROR.SCHEMA_MIGRATION_FAILED(
+          migration.from,
+          migration.from + 1,
+          error instanceof Error ? error.message : String(error)
+        )));
+      }
+    }
+
+    return Result.success({ [DesignSchema.VERSION_FIELD]: CURRENT_VERSION, ...DesignSchema.toDocument(document) });
+  },
+
+  /**
+   * 移行前後の設計書の内容を比較し、値が変わる最上位のフィールドを列挙する
+   * 移行後に保存されないフィールドは、afterをundefinedとして含める
+   */
+  changedFields: (before: StoredDesignDocument, after: StoredDesignDocument): DesignSchemaFieldChange[] =>
+    [...new Set([...Object.keys(before), ...Object.keys(after)])]
+      .filter(field => !CanonicalJson.equals(before[field], after[field]))
+      .map(field => ({ field, before: before[field], after: after[field] })),
+
+  /**
+   * 現在のスキーマの設計書ファイルの内容から設計書を取り出す
+   */
+  toDocument: (document: StoredDesignDocument): DesignDocumentData => ({
+    features: Array.isArray(document.features) ? document.features : [],
+    terms: Array.isArray(document.terms) ? document.terms : [],
+  }),
+
+  /**
+   * 移行前の内容のバックアップのパスを求める
+   * 同じバージョンから複数回移行しても上書きしないよう、日時を含める
+   */
+  backupPathOf: (storagePath: string, schemaVersion: number): string =>
+    `${storagePath}.v${schemaVersion}-${new Date().toISOString().replace(/[:.]/g, '-')}.bak`,
+};
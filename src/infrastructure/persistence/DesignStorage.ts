@@ -0,0 +1,121 @@
+import path from 'path';
+import { IFeatureRepository } from '../../domain/repositories/IFeatureRepository.js';
+import { ITermRepository } from '../../domain/repositories/ITermRepository.js';
+import { IDesignChangeSetRepository } from '../../domain/repositories/IDesignChangeSetRepository.js';
+import { DesignDocumentData } from '../../domain/types.js';
+import { Result } from '../../shared/types/functional.js';
+import { CONFIG } from '../../shared/constants/config.js';
+import { DesignDocumentStore } from './DesignDocumentStore.js';
+import { DesignDirectoryStore } from './DesignDirectoryStore.js';
+import { DesignWatchTarget } from './DesignDocumentWatcher.js';
+import { DesignSchemaUpgrade, StoredDesignSchema } from './DesignSchema.js';
+import { FileSystemFeatureRepository } from './FileSystemFeatureRepository.js';
+import { FileSystemTermRepository } from './FileSystemTermRepository.js';
+import { FileSystemDesignChangeSetRepository } from './FileSystemDesignChangeSetRepository.js';
+import { SqliteDesignDatabase } from './SqliteDesignDatabase.js';
+import { SqliteFeatureRepository } from './SqliteFeatureRepository.js';
+import { SqliteTermRepository } from './SqliteTermRepository.js';
+import { SqliteDesignChangeSetRepository } from './SqliteDesignChangeSetRepository.js';
+import { DirectoryFeatureRepository } from './DirectoryFeatureRepository.js';
+import { DirectoryTermRepository } from './DirectoryTermRepository.js';
+import { DirectoryDesignChangeSetRepository } from './DirectoryDesignChangeSetRepository.js';
+
+/**
+ * 設計書の保存先の種類
+ */
+export type DesignStorageKind = typeof CONFIG.PERSISTENCE.STORAGE;
+
+/**
+ * 設計書全体の読み込みと置き換えを行う保存先
+ * 変更監視・保存先の移行・スキーマの移行で使用する
+ */
+export interface DesignDocumentBackend {
+  readonly path: string;
+  readonly watchTargets: readonly DesignWatchTarget[];
+  load(): Promise<Result<DesignDocumentData, Error>>;
+  replace(document: DesignDocumentData): Promise<Result<void, Error>>;
+  /** 保存されている設計書を、スキーマを移行せずにそのまま読み込む */
+  inspect(): Promise<Result<StoredDesignSchema, Error>>;
+  /** 古いスキーマの設計書を、バックアップを取った上で現在のスキーマに移行する */
+  upgrade(): Promise<Result<DesignSchemaUpgrade, Error>>;
+}
+
+/**
+ * 設計書の保存先
+ * 設定された種類に応じて、同じ保存先を共有する各リポジトリを組み立てる
+ */
+export class DesignStorage {
+  private constructor(
+    readonly kind: DesignStorageKind,
+    readonly backend: DesignDocumentBackend,
+    readonly featureRepository: IFeatureRepository,
+    readonly termRepository: ITermRepository,
+    readonly changeSetRepository: IDesignChangeSetRepository
+  ) {}
+
+  /**
+   * 指定した種類の保存先を開く
+   * @param kind 保存先の種類（省略時は設定値）
+   * @param storagePath 保存先のファイルまたはディレクトリのパス（省略時は種類ごとの既定のパス）
+   */
+  static open(kind: DesignStorageKind = CONFIG.PERSISTENCE.STORAGE, storagePath?: string): DesignStorage {
+    if (kind === 'sqlite') {
+      const database = new SqliteDesignDatabase(storagePath);
+      return new DesignStorage(
+        kind,
+        database,
+        new SqliteFeatureRepository(database),
+        new SqliteTermRepository(database),
+        new SqliteDesignChangeSetRepository(database)
+      );
+    }
+
+    if (kind === 'directory') {
+      const directoryStore = new DesignDirectoryStore(storagePath);
+      return new DesignStorage(
+        kind,
+        directoryStore,
+        new DirectoryFeatureRepository(directoryStore),
+        new DirectoryTermRepository(directoryStore),
+        new DirectoryDesignChangeSetRepository(directoryStore)
+      );
+    }
+
+    const store = new DesignDocumentStore(storagePath);
+    return new DesignStorage(
+      kind,
+      store,
+      new FileSystemFeatureRepository(store),
+      new FileSystemTermRepository(store),
+      new FileSystemDesignChangeSetRepository(store)
+    );
+  }
+
+  /**
+   * データディレクトリ内の指定した種類の保存先を開く
+   * @param dataDirectory 設計書を保存するデータディレクトリ
+   * @param kind 保存先の種類（省略時は設定値）
+   */
+  static openIn(dataDirectory: string, kind: DesignStorageKind = CONFIG.PERSISTENCE.STORAGE): DesignStorage {
+    const fileName = kind === 'sqlite'
+      ? CONFIG.PATHS.DESIGN_DATABASE_FILE
+      : kind === 'directory'
+        ? CONFIG.PATHS.DESIGN_DIRECTORY
+        : CONFIG.PATHS.DESIGN_DOCUMENT_FILE;
+    return DesignStorage.open(kind, path.resolve(dataDirectory, fileName));
+  }
+
+  /**
+   * 保存先の種類として有効な値かを判定する
+   */
+  static isValidKind(value: unknown): value is DesignStorageKind {
+    return typeof value === 'string' && (CONFIG.PERSISTENCE.STORAGE_KINDS as readonly string[]).includes(value);
+  }
+
+  /**
+   * 保存先のファイルパスを取得する
+   */
+  get path(): string {
+    return this.backend.path;
+  }
+}
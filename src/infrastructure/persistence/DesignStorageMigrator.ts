@@ -0,0 +1,116 @@
+import { DesignDocumentData } from '../../domain/types.js';
+import { Result } from '../../shared/types/functional.js';
+import { CanonicalJson } from '../../shared/utils/canonicalJson.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+import { DesignStorage } from './DesignStorage.js';
+
+/**
+ * 保存先の移行のオプション
+ */
+export interface DesignStorageMigrationOptions {
+  /** 移行先に既にデータがある場合も上書きするか（省略時は上書きしない） */
+  readonly force?: boolean;
+}
+
+/**
+ * 保存先の移行結果
+ */
+export interface DesignStorageMigrationResult {
+  readonly sourcePath: string;
+  readonly targetPath: string;
+  readonly featureCount: number;
+  readonly termCount: number;
+}
+
+/**
+ * 設計書の保存先の移行
+ * 移行元の設計書全体を移行先に書き込み、読み直した内容が移行元と一致することを確認する
+ * 変更履歴は保存先と同じディレクトリのファイルのまま共有するため移行しない
+ */
+export class DesignStorageMigrator {
+  /**
+   * 設計書を別の種類の保存先に移行する
+   * @param from 移行元の保存先
+   * @param to 移行先の保存先
+   */
+  async migrate(
+    from: DesignStorage,
+    to: DesignStorage,
+    options: DesignStorageMigrationOptions = {}
+  ): Promise<Result<DesignStorageMigrationResult, Error>> {
+    if (from.kind === to.kind) {
+      return Result.failure(new Error(MESSAGES.ERROR.MIGRATION_SAME_STORAGE()));
+    }
+
+    const sourceResult = await from.backend.load();
+    if (!sourceResult.success) {
+      return Result.failure(sourceResult.error);
+    }
+
+    const targetResult = await to.backend.load();
+    if (!targetResult.success) {
+      return Result.failure(targetResult.error);
+    }
+    if (!options.force && this.countEntities(targetResult.value) > 0) {
+      return Result.failure(new Error(MESSAGES.ERROR.MIGRATION_TARGET_NOT_EMPTY(to.path)));
+    }
+
+    const replaceResult = await to.backend.replace(sourceResult.value);
+    if (!replaceResult.success) {
+      return Result.failure(replaceResult.error);
+    }
+
+    const verifyResult = await this.verify(sourceResult.value, to);
+    if (!verifyResult.success) {
+      return Result.failure(verifyResult.error);
+    }
+
+    return Result.success({
+      sourcePath: from.path,
+      targetPath: to.path,
+      featureCount: sourceResult.value.features.length,
+      termCount: sourceResult.value.terms.length,
+    });
+  }
+
+  /**
+   * 移行先を読み直し、移行元と同じ内容が保存されたことを確認する
+   * 項目の順序とキーの順序は保存先によって異なるため、項目名ごとにキーの順序を無視して比較する
+   */
+  private async verify(source: DesignDocumentData, to: DesignStorage): Promise<Result<void, Error>> {
+    const migratedResult = await to.backend.load();
+    if (!migratedResult.success) {
+      return Result.failure(migratedResult.error);
+    }
+
+    const describe = (document: DesignDocumentData) =>
+      `機能定義 ${document.features.length}件, 用語 ${document.terms.length}件`;
+    const matches =
+      this.sameEntities(source.features, migratedResult.value.features, feature => feature.feature.name) &&
+      this.sameEntities(source.terms, migratedResult.value.terms, term => term.term.name);
+    if (!matches) {
+      return Result.failure(new Error(MESSAGES.ERROR.MIGRATION_VERIFICATION_FAILED(
+        describe(source),
+        describe(migratedResult.value)
+      )));
+    }
+
+    return Result.success(undefined);
+  }
+
+  /**
+   * 2つの項目の一覧が、順序を除いて同じ内容かを判定する
+   */
+  private sameEntities<T>(expected: readonly T[], actual: readonly T[], nameOf: (entity: T) => string): boolean {
+    const actualByName = new Map(actual.map(entity => [nameOf(entity), entity]));
+    return expected.length === actual.length &&
+      expected.every(entity => CanonicalJson.equals(entity, actualByName.get(nameOf(entity))));
+  }
+
+  /**
+   * 設計書の項目数を数える
+   */
+  private countEntities(document: DesignDocumentData): number {
+    return document.features.length + document.terms.length;
+  }
+}
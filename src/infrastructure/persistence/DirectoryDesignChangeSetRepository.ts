@@ -0,0 +1,155 @@
+import { IDesignChangeSetRepository } from '../../domain/repositories/IDesignChangeSetRepository.js';
+import { ConcurrentModificationError } from '../../domain/errors/ConcurrentModificationError.js';
+import { NameConflictError } from '../../domain/errors/NameConflictError.js';
+import {
+  DesignChangeSetData,
+  EntityDeletionData,
+  EntityReplacementData,
+  FeatureData,
+  RevisionEntityType,
+  TermData,
+} from '../../domain/types.js';
+import { Result } from '../../shared/types/functional.js';
+import { CanonicalJson } from '../../shared/utils/canonicalJson.js';
+import { DesignDirectoryStore } from './DesignDirectoryStore.js';
+
+/**
+ * 1項目1ファイルの設計書ディレクトリを使用した一括変更リポジトリの実装
+ * 全ての置き換えを確認してからファイルを書き込むため、確認に失敗した場合は何も書き込まない
+ * 途中で失敗しても項目が失われないよう、全ての置き換え後の内容を書き込んでから名前変更前・削除対象のファイルを削除する
+ */
+export class DirectoryDesignChangeSetRepository implements IDesignChangeSetRepository {
+  constructor(
+    private readonly store: DesignDirectoryStore
+  ) {}
+
+  /**
+   * 一括変更を適用する
+   */
+  async apply(changeSet: DesignChangeSetData): Promise<Result<void, Error>> {
+    return this.store.exclusively(async () => {
+      const featuresResult = await this.verify('feature', changeSet.features, feature => feature.feature.name);
+      if (!featuresResult.success) {
+        return featuresResult;
+      }
+
+      const termsResult = await this.verify('term', changeSet.terms, term => term.term.name);
+      if (!termsResult.success) {
+        return termsResult;
+      }
+
+      const deletedFeaturesResult = await this.verifyDeletions('feature', changeSet.deletedFeatures ?? []);
+      if (!deletedFeaturesResult.success) {
+        return deletedFeaturesResult;
+      }
+
+      const deletedTermsResult = await this.verifyDeletions('term', changeSet.deletedTerms ?? []);
+      if (!deletedTermsResult.success) {
+        return deletedTermsResult;
+      }
+
+      await this.write('feature', changeSet.features);
+      await this.write('term', changeSet.terms);
+      await this.removeRenamed('feature', changeSet.features, feature => feature.feature.name);
+      await this.removeRenamed('term', changeSet.terms, term => term.term.name);
+      for (const deletion of changeSet.deletedFeatures ?? []) {
+        await this.store.remove('feature', deletion.currentName);
+      }
+      for (const deletion of changeSet.deletedTerms ?? []) {
+        await this.store.remove('term', deletion.currentName);
+      }
+      return Result.success(undefined);
+    });
+  }
+
+  /**
+   * 置き換え対象が取得時から変更されていないこと、置き換え後の名前が他の項目と重複しないことを確認する
+   */
+  private async verify<T extends FeatureData | TermData>(
+    entityType: RevisionEntityType,
+    replacements: readonly EntityReplacementData<T>[],
+    nameOf: (entity: T) => string
+  ): Promise<Result<void, Error>> {
+    const renamedFrom = new Set(
+      replacements.filter(r => nameOf(r.value) !== r.currentName).map(r => r.currentName)
+    );
+    const newNames = new Set<string>();
+
+    for (const replacement of replacements) {
+      const currentResult = await this.store.read(entityType, replacement.currentName);
+      if (!currentResult.success) {
+        return Result.failure(currentResult.error);
+      }
+      if (!currentResult.value || !CanonicalJson.equals(currentResult.value, replacement.previousValue)) {
+        return Result.failure(new ConcurrentModificationError(entityType, replacement.currentName));
+      }
+
+      const newName = nameOf(replacement.value);
+      if (newNames.has(newName)) {
+        return Result.failure(new NameConflictError(entityType, newName));
+      }
+      newNames.add(newName);
+
+      if (newName !== replacement.currentName && !renamedFrom.has(newName)) {
+        const existingResult = await this.store.read(entityType, newName);
+        if (!existingResult.success) {
+          return Result.failure(existingResult.error);
+        }
+        if (existingResult.value) {
+          return Result.failure(new NameConflictError(entityType, newName));
+        }
+      }
+    }
+
+    return Result.success(undefined);
+  }
+
+  /**
+   * 削除対象が取得時から変更されていないことを確認する
+   */
+  private async verifyDeletions<T extends FeatureData | TermData>(
+    entityType: RevisionEntityType,
+    deletions: readonly EntityDeletionData<T>[]
+  ): Promise<Result<void, Error>> {
+    for (const deletion of deletions) {
+      const currentResult = await this.store.read(entityType, deletion.currentName);
+      if (!currentResult.success) {
+        return Result.failure(currentResult.error);
+      }
+      if (!currentResult.value || !CanonicalJson.equals(currentResult.value, deletion.previousValue)) {
+        return Result.failure(new ConcurrentModificationError(entityType, deletion.currentName));
+      }
+    }
+
+    return Result.success(undefined);
+  }
+
+  /**
+   * 置き換え後の内容を書き込む
+   */
+  private async write<T extends FeatureData | TermData>(
+    entityType: RevisionEntityType,
+    replacements: readonly EntityReplacementData<T>[]
+  ): Promise<void> {
+    for (const replacement of replacements) {
+      await this.store.write(entityType, replacement.value, replacement.currentName);
+    }
+  }
+
+  /**
+   * 名前が変わった項目の元のファイルを削除する
+   */
+  private async removeRenamed<T extends FeatureData | TermData>(
+    entityType: RevisionEntityType,
+    replacements: readonly EntityReplacementData<T>[],
+    nameOf: (entity: T) => string
+  ): Promise<void> {
+    const newNames = new Set(replacements.map(replacement => nameOf(replacement.value)));
+
+    for (const replacement of replacements) {
+      if (!newNames.has(replacement.currentName)) {
+        await this.store.remove(entityType, replacement.currentName);
+      }
+    }
+  }
+}
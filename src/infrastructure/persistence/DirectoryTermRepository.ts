@@ -0,0 +1,245 @@
+import { Term } from '../../domain/entities/Term.js';
+import { TermName } from '../../domain/valueObjects/TermName.js';
+import { ITermRepository } from '../../domain/repositories/ITermRepository.js';
+import { TermResolution, TermResolver } from '../../domain/services/TermResolver.js';
+import { TermListItemData, TermData, OperationResultData, DeletionResultData } from '../../domain/types.js';
+import { ConcurrentModificationError } from '../../domain/errors/ConcurrentModificationError.js';
+import { Result, Option } from '../../shared/types/functional.js';
+import { CanonicalJson } from '../../shared/utils/canonicalJson.js';
+import { DesignDirectoryStore } from './DesignDirectoryStore.js';
+
+/**
+ * 1項目1ファイルの設計書ディレクトリを使用したユビキタス言語情報リポジトリの実装
+ * 用語名から求めたファイルのみを読み書きし、別名での解決や絞り込みの時だけディレクトリ全体を読み込む
+ */
+export class DirectoryTermRepository implements ITermRepository {
+  private readonly resolver = new TermResolver();
+
+  constructor(
+    private readonly store: DesignDirectoryStore
+  ) {}
+
+  /**
+   * 指定された用語名のユビキタス言語情報を取得する
+   */
+  async findByName(name: TermName): Promise<Result<Option<Term>, Error>> {
+    const dataResult = await this.store.read('term', name.value);
+    if (!dataResult.success) {
+      return Result.failure(dataResult.error);
+    }
+
+    if (!dataResult.value) {
+      return Result.success(Option.none());
+    }
+
+    const termResult = Term.create(dataResult.value);
+    if (!termResult.success) {
+      return Result.failure(termResult.error);
+    }
+
+    return Result.success(Option.some(termResult.value));
+  }
+
+  /**
+   * 用語名または別名でユビキタス言語情報を解決する
+   * 用語名の完全一致はファイルを直接読み、一致しない場合のみ全件を対象に別名や表記ゆれを照合する
+   */
+  async findByNameOrAlias(name: string): Promise<Result<Option<TermResolution>, Error>> {
+    const requestedName = name.trim();
+    const dataResult = await this.store.read('term', requestedName);
+    if (!dataResult.success) {
+      return Result.failure(dataResult.error);
+    }
+
+    if (dataResult.value) {
+      const termResult = Term.create(dataResult.value);
+      if (!termResult.success) {
+        return Result.failure(termResult.error);
+      }
+      return Result.success(Option.some({ term: termResult.value, matchedBy: 'name', matchedValue: requestedName }));
+    }
+
+    const termsResult = await this.findAll();
+    if (!termsResult.success) {
+      return Result.failure(termsResult.error);
+    }
+
+    return Result.success(this.resolver.resolve(termsResult.value, name));
+  }
+
+  /**
+   * 全てのユビキタス言語情報の一覧を取得する
+   */
+  async findAll(): Promise<Result<readonly Term[], Error>> {
+    const dataResult = await this.store.readAll('term');
+    if (!dataResult.success) {
+      return Result.failure(dataResult.error);
+    }
+
+    const terms: Term[] = [];
+    const errors: string[] = [];
+
+    for (const termData of dataResult.value) {
+      const termResult = Term.create(termData);
+      if (termResult.success) {
+        terms.push(termResult.value);
+      } else {
+        errors.push(`用語「${termData.term.name}」の読み込みに失敗: ${termResult.error.message}`);
+      }
+    }
+
+    if (errors.length > 0) {
+      return Result.failure(new Error(errors.join(', ')));
+    }
+
+    return Result.success(terms);
+  }
+
+  /**
+   * ユビキタス言語情報の概要一覧を取得する
+   */
+  async getList(): Promise<Result<readonly TermListItemData[], Error>> {
+    const dataResult = await this.store.readAll('term');
+    if (!dataResult.success) {
+      return Result.failure(dataResult.error);
+    }
+
+    return Result.success(dataResult.value.map(term => ({
+      name: term.term.name,
+      definition: term.term.definition,
+      category: term.details.category,
+    })));
+  }
+
+  /**
+   * ユビキタス言語情報を保存する（追加または更新）
+   */
+  async save(term: Term, expectedCurrent?: TermData | null): Promise<Result<OperationResultData, Error>> {
+    return this.store.exclusively(async () => {
+      const currentResult = await this.store.read('term', term.name.value);
+      if (!currentResult.success) {
+        return Result.failure(currentResult.error);
+      }
+
+      if (!this.matchesExpected(currentResult.value, expectedCurrent)) {
+        return Result.failure(new ConcurrentModificationError('term', term.name.value));
+      }
+
+      await this.store.write('term', term.data);
+      return Result.success({ isUpdate: currentResult.value !== null });
+    });
+  }
+
+  /**
+   * 指定された用語名のユビキタス言語情報を削除する
+   */
+  async delete(name: TermName, expectedCurrent?: TermData | null): Promise<Result<DeletionResultData, Error>> {
+    return this.store.exclusively(async () => {
+      const currentResult = await this.store.read('term', name.value);
+      if (!currentResult.success) {
+        return Result.failure(currentResult.error);
+      }
+
+      if (!this.matchesExpected(currentResult.value, expectedCurrent)) {
+        return Result.failure(new ConcurrentModificationError('term', name.value));
+      }
+
+      if (!currentResult.value) {
+        return Result.success({ found: false });
+      }
+
+      return Result.success({ found: await this.store.remove('term', name.value) });
+    });
+  }
+
+  /**
+   * 指定された用語名のユビキタス言語情報が存在するかチェックする
+   */
+  async exists(name: TermName): Promise<Result<boolean, Error>> {
+    const dataResult = await this.store.read('term', name.value);
+    if (!dataResult.success) {
+      return Result.failure(dataResult.error);
+    }
+
+    return Result.success(dataResult.value !== null);
+  }
+
+  /**
+   * ユビキタス言語情報の総数を取得する
+   */
+  async count(): Promise<Result<number, Error>> {
+    const dataResult = await this.store.readAll('term');
+    if (!dataResult.success) {
+      return Result.failure(dataResult.error);
+    }
+
+    return Result.success(dataResult.value.length);
+  }
+
+  /**
+   * 複数の用語名でユビキタス言語情報を一括取得する
+   */
+  async findByNames(names: readonly TermName[]): Promise<Result<{
+    readonly found: readonly Term[];
+    readonly notFound: readonly TermName[];
+  }, Error>> {
+    const found: Term[] = [];
+    const notFound: TermName[] = [];
+
+    for (const name of names) {
+      const findResult = await this.findByName(name);
+      if (!findResult.success) {
+        return Result.failure(findResult.error);
+      }
+
+      if (findResult.value.isSome) {
+        found.push(findResult.value.value);
+      } else {
+        notFound.push(name);
+      }
+    }
+
+    return Result.success({ found, notFound });
+  }
+
+  /**
+   * 指定した機能に関連するユビキタス言語情報を取得する
+   */
+  async findByAssociatedFunction(functionName: string): Promise<Result<readonly Term[], Error>> {
+    return this.findMatching(term => term.isAssociatedWithFunction(functionName));
+  }
+
+  /**
+   * 指定したカテゴリのユビキタス言語情報を取得する
+   */
+  async findByCategory(category: string): Promise<Result<readonly Term[], Error>> {
+    return this.findMatching(term => term.category === category);
+  }
+
+  /**
+   * 指定した境界づけられたコンテキストのユビキタス言語情報を取得する
+   */
+  async findByBoundedContext(boundedContext: string): Promise<Result<readonly Term[], Error>> {
+    return this.findMatching(term => term.boundedContext === boundedContext);
+  }
+
+  /**
+   * 条件に一致するユビキタス言語情報を取得する
+   */
+  private async findMatching(predicate: (term: Term) => boolean): Promise<Result<readonly Term[], Error>> {
+    const termsResult = await this.findAll();
+    if (!termsResult.success) {
+      return Result.failure(termsResult.error);
+    }
+
+    return Result.success(termsResult.value.filter(predicate));
+  }
+
+  /**
+   * 保存済みの内容が期待する内容と一致するかを判定する
+   * キーの順序の違いは無視し、期待する内容が指定されていない場合は常に一致とみなす
+   */
+  private matchesExpected(current: TermData | null, expectedCurrent: TermData | null | undefined): boolean {
+    return expectedCurrent === undefined || CanonicalJson.equals(current, expectedCurrent);
+  }
+}
@@ -0,0 +1,163 @@
+import path from 'path';
+import YAML from 'yaml';
+import { FeatureData, RevisionEntityType, TermData } from '../../domain/types.js';
+import { CanonicalJson } from '../../shared/utils/canonicalJson.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+
+/**
+ * 項目ファイルの形式
+ */
+export type EntityFileFormat = 'json' | 'yaml' | 'markdown';
+
+/**
+ * 項目ファイルの形式ごとの変換
+ */
+export interface EntityFileCodec {
+  readonly format: EntityFileFormat;
+  /** 読み込むファイルの拡張子（先頭の拡張子で書き込む） */
+  readonly extensions: readonly string[];
+  /** 項目の内容をファイルの内容に変換する */
+  encode(entityType: RevisionEntityType, entity: FeatureData | TermData): string;
+  /** ファイルの内容を項目の内容に変換する（形式が不正な場合は例外を送出する） */
+  decode(entityType: RevisionEntityType, content: string): FeatureData | TermData;
+}
+
+/**
+ * Markdownのフロントマターの区切り行
+ */
+const FRONTMATTER_DELIMITER = '---';
+
+/**
+ * 本文の段落の区切り（空行）
+ */
+const PARAGRAPH_SEPARATOR = /\n[ \t]*\n/;
+
+/**
+ * キーを辞書順に並べたJSON形式
+ */
+class JsonEntityCodec implements EntityFileCodec {
+  readonly format = 'json';
+  readonly extensions = ['.json'];
+
+  encode(_: RevisionEntityType, entity: FeatureData | TermData): string {
+    return `${CanonicalJson.stringify(entity, 2)}\n`;
+  }
+
+  decode(_: RevisionEntityType, content: string): FeatureData | TermData {
+    return JSON.parse(content);
+  }
+}
+
+/**
+ * キーを辞書順に並べたYAML形式
+ */
+class YamlEntityCodec implements EntityFileCodec {
+  readonly format = 'yaml';
+  readonly extensions = ['.yaml', '.yml'];
+
+  encode(_: RevisionEntityType, entity: FeatureData | TermData): string {
+    return YAML.stringify(CanonicalJson.sortKeys(entity));
+  }
+
+  decode(_: RevisionEntityType, content: string): FeatureData | TermData {
+    return YAML.parse(content);
+  }
+}
+
+/**
+ * YAMLのフロントマターと本文からなるMarkdown形式
+ * 機能定義はdocumentationNotesを、ユビキタス言語情報はdefinitionを本文の段落として書き出す
+ * 本文にすると元に戻せない値（空の段落・空行や前後の空白を含む値）はフロントマターに残す
+ */
+class MarkdownEntityCodec implements EntityFileCodec {
+  readonly format = 'markdown';
+  readonly extensions = ['.md'];
+
+  encode(entityType: RevisionEntityType, entity: FeatureData | TermData): string {
+    const { frontmatter, paragraphs } = entityType === 'feature'
+      ? this.splitFeature(entity as FeatureData)
+      : this.splitTerm(entity as TermData);
+
+    const header = `${FRONTMATTER_DELIMITER}\n${YAML.stringify(CanonicalJson.sortKeys(frontmatter))}${FRONTMATTER_DELIMITER}\n`;
+    return paragraphs.length > 0 ? `${header}\n${paragraphs.join('\n\n')}\n` : header;
+  }
+
+  decode(entityType: RevisionEntityType, content: string): FeatureData | TermData {
+    const lines = content.replace(/\r\n/g, '\n').split('\n');
+    const closing = lines.indexOf(FRONTMATTER_DELIMITER, 1);
+    if (lines[0] !== FRONTMATTER_DELIMITER || closing < 0) {
+      throw new Error(MESSAGES.ERROR.FRONTMATTER_NOT_FOUND());
+    }
+
+    const frontmatter = YAML.parse(lines.slice(1, closing).join('\n')) ?? {};
+    const body = lines.slice(closing + 1).join('\n').trim();
+    const paragraphs = body ? body.split(PARAGRAPH_SEPARATOR).map(paragraph => paragraph.trim()) : [];
+
+    if (entityType === 'feature') {
+      return {
+        ...frontmatter,
+        documentationNotes: [...(frontmatter.documentationNotes ?? []), ...paragraphs],
+      };
+    }
+
+    return paragraphs.length > 0
+      ? { ...frontmatter, term: { ...frontmatter.term, definition: paragraphs.join('\n\n') } }
+      : frontmatter;
+  }
+
+  /**
+   * 機能定義をフロントマターと本文の段落に分ける
+   */
+  private splitFeature(feature: FeatureData): { frontmatter: object; paragraphs: readonly string[] } {
+    if (!feature.documentationNotes.every(note => this.isParagraph(note))) {
+      return { frontmatter: feature, paragraphs: [] };
+    }
+
+    const { documentationNotes, ...frontmatter } = feature;
+    return { frontmatter, paragraphs: documentationNotes };
+  }
+
+  /**
+   * ユビキタス言語情報をフロントマターと本文の段落に分ける
+   * 定義は空行を含まない場合のみ本文にする
+   */
+  private splitTerm(term: TermData): { frontmatter: object; paragraphs: readonly string[] } {
+    if (!this.isParagraph(term.term.definition)) {
+      return { frontmatter: term, paragraphs: [] };
+    }
+
+    const { definition, ...termHeader } = term.term;
+    return { frontmatter: { ...term, term: termHeader }, paragraphs: [definition] };
+  }
+
+  /**
+   * 値を1つの段落として書き出しても元の値に戻せるかを判定する
+   */
+  private isParagraph(value: string): boolean {
+    return value.length > 0 && value === value.trim() && !PARAGRAPH_SEPARATOR.test(value) && !value.includes('\r');
+  }
+}
+
+/**
+ * 対応している項目ファイルの形式
+ */
+const CODECS: readonly EntityFileCodec[] = [new JsonEntityCodec(), new YamlEntityCodec(), new MarkdownEntityCodec()];
+
+export const EntityFileCodecs = {
+  /**
+   * 対応している全ての拡張子
+   */
+  extensions: CODECS.flatMap(codec => codec.extensions),
+
+  /**
+   * 形式に対応する変換を取得する
+   */
+  forFormat: (format: EntityFileFormat): EntityFileCodec =>
+    CODECS.find(codec => codec.format === format) as EntityFileCodec,
+
+  /**
+   * ファイルの拡張子から変換を判定する（対応していない拡張子の場合はundefined）
+   */
+  forPath: (filePath: string): EntityFileCodec | undefined =>
+    CODECS.find(codec => codec.extensions.includes(path.extname(filePath).toLowerCase())),
+};
@@ -0,0 +1,193 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { Result, Option } from '../../shared/types/functional.js';
+import { CONFIG } from '../../shared/constants/config.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+
+/**
+ * ロックファイルの内容の型
+ */
+interface LockFileContent {
+  readonly pid: number;
+  readonly acquiredAt: number;
+  /** ロックの取得ごとに発行する所有者の識別子 */
+  readonly token: string;
+}
+
+/**
+ * ロックファイルによる勧告ロック
+ * 同じファイルを扱う複数プロセス間で、書き込み処理を排他的に実行するために使用
+ * ロックファイルには所有者の識別子を書き込み、自身が取得したロックのみを解放する
+ */
+export class FileLock {
+  constructor(
+    private readonly targetPath: string
+  ) {}
+
+  /**
+   * ロックを取得した状態で処理を実行する
+   * 処理の成否にかかわらずロックは解放される
+   */
+  async runExclusively<T>(task: () => Promise<Result<T, Error>>): Promise<Result<T, Error>> {
+    const lockResult = await this.acquire();
+    if (!lockResult.success) {
+      return Result.failure(lockResult.error);
+    }
+
+    try {
+      return await task();
+    } finally {
+      await this.release(lockResult.value);
+    }
+  }
+
+  /**
+   * 勧告ロックを取得する
+   * ロックファイルを排他作成できるまで待機し、異常終了したプロセスが残したロックは破棄する
+   * @returns 取得したロックの所有者の識別子
+   */
+  private async acquire(): Promise<Result<string, Error>> {
+    const startedAt = Date.now();
+    const token = randomUUID();
+
+    try {
+      await fs.mkdir(path.dirname(this.lockPath), { recursive: true });
+    } catch (error) {
+      return Result.failure(new Error(MESSAGES.ERROR.FILE_LOCK_FAILED(
+        error instanceof Error ? error.message : String(error)
+      )));
+    }
+
+    while (true) {
+      try {
+        const content: LockFileContent = { pid: process.pid, acquiredAt: Date.now(), token };
+        await fs.writeFile(this.lockPath, JSON.stringify(content), { encoding: CONFIG.ENCODING.UTF8, flag: 'wx' });
+        return Result.success(token);
+
+      } catch (error) {
+        if (!this.isErrorCode(error, 'EEXIST')) {
+          return Result.failure(
+            error instanceof Error
+              ? new Error(MESSAGES.ERROR.FILE_LOCK_FAILED(error.message))
+              : new Error(MESSAGES.ERROR.FILE_LOCK_FAILED(String(error)))
+          );
+        }
+      }
+
+      const staleContent = await this.readStaleContent();
+      if (staleContent.isSome) {
+        try {
+          await this.breakStaleLock(staleContent.value);
+        } catch (error) {
+          return Result.failure(new Error(MESSAGES.ERROR.FILE_LOCK_FAILED(
+            error instanceof Error ? error.message : String(error)
+          )));
+        }
+        continue;
+      }
+
+      if (Date.now() - startedAt > CONFIG.PERSISTENCE.LOCK_TIMEOUT_MS) {
+        return Result.failure(new Error(MESSAGES.ERROR.FILE_LOCK_TIMEOUT(this.lockPath)));
+      }
+
+      await new Promise(resolve => setTimeout(resolve, CONFIG.PERSISTENCE.LOCK_RETRY_INTERVAL_MS));
+    }
+  }
+
+  /**
+   * 勧告ロックを解放する
+   * 放置とみなされて他のプロセスに取得し直されたロックは、そのプロセスのものであるため削除しない
+   * @param token 取得時に発行した所有者の識別子
+   */
+  private async release(token: string): Promise<void> {
+    // 既に削除されている、または他のプロセスが書き込み中のロックは解放しない
+    const content = await fs.readFile(this.lockPath, CONFIG.ENCODING.UTF8)
+      .then(raw => JSON.parse(raw) as Partial<LockFileContent>)
+      .catch(() => undefined);
+    if (content?.token === token) {
+      await fs.rm(this.lockPath, { force: true });
+    }
+  }
+
+  /**
+   * ロックファイルが放置されたものであれば、その内容を取得する
+   * 保持プロセスが存在しない場合、または保持期間が上限を超えている場合に放置とみなす
+   * @returns 放置されたロックファイルの内容（放置でない場合はNone）
+   */
+  private async readStaleContent(): Promise<Option<string>> {
+    // 読み込み中に解放された場合は再試行させる
+    const raw = await fs.readFile(this.lockPath, CONFIG.ENCODING.UTF8).catch(() => undefined);
+    if (raw === undefined) {
+      return Option.none();
+    }
+
+    try {
+      const content = JSON.parse(raw) as LockFileContent;
+      const isStale = Date.now() - content.acquiredAt > CONFIG.PERSISTENCE.LOCK_STALE_MS ||
+        !this.isProcessAlive(content.pid);
+      return isStale ? Option.some(raw) : Option.none();
+
+    } catch (error) {
+      // 書きかけ等で内容を解釈できない場合は更新日時で判定する
+      const stat = await fs.stat(this.lockPath).catch(() => undefined);
+      return stat !== undefined && Date.now() - stat.mtimeMs > CONFIG.PERSISTENCE.LOCK_STALE_MS
+        ? Option.some(raw)
+        : Option.none();
+    }
+  }
+
+  /**
+   * 放置されたロックを破棄する
+   * 放置と判定してから破棄するまでに他のプロセスが新しくロックを取得している場合があるため、
+   * ロックファイルを一意な名前に移してから内容を確認し、判定したロックでなければ元に戻す
+   * @param staleContent 放置と判定したロックファイルの内容
+   */
+  private async breakStaleLock(staleContent: string): Promise<void> {
+    const claimedPath = `${this.lockPath}.${randomUUID()}`;
+    try {
+      await fs.rename(this.lockPath, claimedPath);
+    } catch (error) {
+      if (this.isErrorCode(error, 'ENOENT')) {
+        return;
+      }
+      throw error;
+    }
+
+    try {
+      const claimedContent = await fs.readFile(claimedPath, CONFIG.ENCODING.UTF8);
+      if (claimedContent !== staleContent) {
+        // 既に別のロックが作成されている場合は、そちらを優先する
+        await fs.link(claimedPath, this.lockPath).catch(() => undefined);
+      }
+    } finally {
+      await fs.rm(claimedPath, { force: true });
+    }
+  }
+
+  /**
+   * 指定したプロセスが存在するかどうかを判定する
+   */
+  private isProcessAlive(pid: number): boolean {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch (error) {
+      return this.isErrorCode(error, 'EPERM');
+    }
+  }
+
+  /**
+   * ロックファイルのパスを取得する
+   */
+  private get lockPath(): string {
+    return `${this.targetPath}${CONFIG.PERSISTENCE.LOCK_FILE_SUFFIX}`;
+  }
+
+  /**
+   * ファイルシステムエラーのコードを判定する
+   */
+  private isErrorCode(error: unknown, code: string): boolean {
+    return error instanceof Error && (error as NodeJS.ErrnoException).code === code;
+  }
+}
@@ -0,0 +1,67 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { ICodingRuleRepository } from '../../domain/repositories/ICodingRuleRepository.js';
+import { Result } from '../../shared/types/functional.js';
+import { CONFIG } from '../../shared/constants/config.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * ファイルシステムを使用したコーディング原則リポジトリの実装
+ * Markdownファイルを読み込み、存在しない場合は代替のファイル（プロジェクトに同梱されたもの等）を読み込む
+ */
+export class FileSystemCodingRuleRepository implements ICodingRuleRepository {
+  constructor(
+    private readonly rulePath: string = FileSystemCodingRuleRepository.resolveDefaultPath(),
+    private readonly fallbackPath?: string
+  ) {}
+
+  /**
+   * データディレクトリのコーディング原則を読み込むリポジトリを作成する
+   * データディレクトリに原則のファイルがない場合は、プロジェクトに同梱された原則を使用する
+   */
+  static forDataDirectory(dataDirectory: string): FileSystemCodingRuleRepository {
+    return new FileSystemCodingRuleRepository(
+      path.join(dataDirectory, CONFIG.PATHS.CODING_RULES_FILE),
+      FileSystemCodingRuleRepository.resolveDefaultPath()
+    );
+  }
+
+  /**
+   * 既定のコーディング原則ファイルパスを取得する
+   */
+  static resolveDefaultPath(): string {
+    const rootPath = path.resolve(__dirname, '../../../');
+    return path.resolve(rootPath, CONFIG.PATHS.RULES_DIRECTORY, CONFIG.PATHS.CODING_RULES_FILE);
+  }
+
+  /**
+   * コーディング原則を取得する
+   */
+  async load(): Promise<Result<string, Error>> {
+    return this.loadFrom(this.rulePath, this.fallbackPath);
+  }
+
+  /**
+   * 指定したファイルからコーディング原則を読み込む
+   */
+  private async loadFrom(rulePath: string, fallbackPath?: string): Promise<Result<string, Error>> {
+    try {
+      const content = await fs.readFile(rulePath, CONFIG.ENCODING.UTF8);
+      return Result.success(content);
+
+    } catch (error) {
+      if (error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+        // 原則の文書は任意のため、代替のファイルもない場合は原則なしとして扱う
+        return fallbackPath ? this.loadFrom(fallbackPath) : Result.success('');
+      }
+
+      return Result.failure(new Error(MESSAGES.ERROR.CODING_RULES_LOAD_FAILED(
+        error instanceof Error ? error.message : String(error)
+      )));
+    }
+  }
+}
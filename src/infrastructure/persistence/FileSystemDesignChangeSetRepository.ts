@@ -0,0 +1,108 @@
+import { IDesignChangeSetRepository } from '../../domain/repositories/IDesignChangeSetRepository.js';
+import { ConcurrentModificationError } from '../../domain/errors/ConcurrentModificationError.js';
+import { NameConflictError } from '../../domain/errors/NameConflictError.js';
+import {
+  DesignChangeSetData,
+  EntityDeletionData,
+  EntityReplacementData,
+  FeatureData,
+  RevisionEntityType,
+  TermData,
+} from '../../domain/types.js';
+import { Result } from '../../shared/types/functional.js';
+import { CanonicalJson } from '../../shared/utils/canonicalJson.js';
+import { DesignDocumentStore } from './DesignDocumentStore.js';
+
+/**
+ * ファイルシステムを使用した一括変更リポジトリの実装
+ * 共有の設計書ストアの1回の更新で全ての置き換えを反映する
+ */
+export class FileSystemDesignChangeSetRepository implements IDesignChangeSetRepository {
+  constructor(
+    private readonly store: DesignDocumentStore
+  ) {}
+
+  /**
+   * 一括変更を原子的に適用する
+   */
+  async apply(changeSet: DesignChangeSetData): Promise<Result<void, Error>> {
+    try {
+      return await this.store.update<void>(document => {
+        const featuresResult = this.replaceAll(
+          'feature',
+          document.features,
+          changeSet.features,
+          changeSet.deletedFeatures ?? [],
+          feature => feature.feature.name
+        );
+        if (!featuresResult.success) {
+          return Result.failure(featuresResult.error);
+        }
+
+        const termsResult = this.replaceAll(
+          'term',
+          document.terms,
+          changeSet.terms,
+          changeSet.deletedTerms ?? [],
+          term => term.term.name
+        );
+        if (!termsResult.success) {
+          return Result.failure(termsResult.error);
+        }
+
+        return Result.success({
+          document: { ...document, features: featuresResult.value, terms: termsResult.value },
+          value: undefined,
+        });
+      });
+
+    } catch (error) {
+      return Result.failure(
+        error instanceof Error
+          ? error
+          : new Error(`設計書の一括変更中にエラーが発生しました: ${String(error)}`)
+      );
+    }
+  }
+
+  /**
+   * 項目の一覧に置き換えと削除を適用する
+   * 置き換えた項目は元の位置に残し、置き換え後に同じ名前の項目が複数ある場合は失敗とする
+   */
+  private replaceAll<T extends FeatureData | TermData>(
+    entityType: RevisionEntityType,
+    entities: readonly T[],
+    replacements: readonly EntityReplacementData<T>[],
+    deletions: readonly EntityDeletionData<T>[],
+    nameOf: (entity: T) => string
+  ): Result<T[], Error> {
+    const updated = [...entities];
+
+    for (const replacement of replacements) {
+      const index = updated.findIndex(entity => nameOf(entity) === replacement.currentName);
+      if (index < 0 || !CanonicalJson.equals(updated[index], replacement.previousValue)) {
+        return Result.failure(new ConcurrentModificationError(entityType, replacement.currentName));
+      }
+      updated[index] = replacement.value;
+    }
+
+    for (const deletion of deletions) {
+      const index = updated.findIndex(entity => nameOf(entity) === deletion.currentName);
+      if (index < 0 || !CanonicalJson.equals(updated[index], deletion.previousValue)) {
+        return Result.failure(new ConcurrentModificationError(entityType, deletion.currentName));
+      }
+      updated.splice(index, 1);
+    }
+
+    const names = new Set<string>();
+    for (const entity of updated) {
+      const name = nameOf(entity);
+      if (names.has(name)) {
+        return Result.failure(new NameConflictError(entityType, name));
+      }
+      names.add(name);
+    }
+
+    return Result.success(updated);
+  }
+}
@@ -1,35 +1,27 @@
-import { promises as fs } from 'fs';
-import path from 'path';
-import { fileURLToPath } from 'url';
 import { Feature } from '../../domain/entities/Feature.js';
 import { FeatureName } from '../../domain/valueObjects/FeatureName.js';
 import { IFeatureRepository } from '../../domain/repositories/IFeatureRepository.js';
-import { FeatureListItemData, OperationResultData, DeletionResultData, DesignDocumentData } from '../../domain/types.js';
+import { FeatureListItemData, FeatureData, OperationResultData, DeletionResultData, DesignDocumentData } from '../../domain/types.js';
+import { ConcurrentModificationError } from '../../domain/errors/ConcurrentModificationError.js';
 import { Result, Option } from '../../shared/types/functional.js';
-import { CONFIG } from '../../shared/constants/config.js';
-import { MESSAGES } from '../../shared/constants/messages.js';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+import { CanonicalJson } from '../../shared/utils/canonicalJson.js';
+import { DesignDocumentStore } from './DesignDocumentStore.js';
 
 /**
  * ファイルシステムを使用した機能定義リポジトリの実装
- * JSON ファイルによる永続化を提供
+ * 共有の設計書ストアを介してJSONファイルによる永続化を提供
  */
 export class FileSystemFeatureRepository implements IFeatureRepository {
-  private readonly designDocumentPath: string;
-
-  constructor() {
-    const roolPath = path.resolve(__dirname, '../../../');
-    this.designDocumentPath = path.resolve(roolPath, CONFIG.PATHS.DATA_DIRECTORY, CONFIG.PATHS.DESIGN_DOCUMENT_FILE);
-  }
+  constructor(
+    private readonly store: DesignDocumentStore
+  ) {}
 
   /**
    * 指定された機能名の機能定義を取得する
    */
   async findByName(name: FeatureName): Promise<Result<Option<Feature>, Error>> {
     try {
-      const documentResult = await this.loadDesignDocument();
+      const documentResult = await this.store.load();
       if (!documentResult.success) {
         return Result.failure(documentResult.error);
       }
@@ -60,7 +52,7 @@ export class FileSystemFeatureRepository implements IFeatureRepository {
    */
   async findAll(): Promise<Result<readonly Feature[], Error>> {
     try {
-      const documentResult = await this.loadDesignDocument();
+      const documentResult = await this.store.load();
       if (!documentResult.success) {
         return Result.failure(documentResult.error);
       }
@@ -97,7 +89,7 @@ export class FileSystemFeatureRepository implements IFeatureRepository {
    */
   async getList(): Promise<Result<readonly FeatureListItemData[], Error>> {
     try {
-      const documentResult = await this.loadDesignDocument();
+      const documentResult = await this.store.load();
       if (!documentResult.success) {
         return Result.failure(documentResult.error);
       }
@@ -121,37 +113,31 @@ export class FileSystemFeatureRepository implements IFeatureRepository {
   /**
    * 機能定義を保存する（追加または更新）
    */
-  async save(feature: Feature): Promise<Result<OperationResultData, Error>> {
+  async save(feature: Feature, expectedCurrent?: FeatureData | null): Promise<Result<OperationResultData, Error>> {
     try {
-      const documentResult = await this.loadDesignDocument();
-      if (!documentResult.success) {
-        return Result.failure(documentResult.error);
-      }
+      return await this.store.update(document => {
+        const existingIndex = document.features.findIndex(f => f.feature.name === feature.name.value);
+        const isUpdate = existingIndex >= 0;
 
-      const document = documentResult.value;
-      const existingIndex = document.features.findIndex(f => f.feature.name === feature.name.value);
-      const isUpdate = existingIndex >= 0;
-
-      // 機能定義の追加または更新
-      let updatedDocument: DesignDocumentData;
-      if (isUpdate) {
-        const newFeatures = [...document.features];
-        newFeatures[existingIndex] = feature.data;
-        updatedDocument = { ...document, features: newFeatures };
-      } else {
-        updatedDocument = {
-          ...document,
-          features: [...document.features, feature.data]
-        };
-      }
+        if (!this.matchesExpected(document.features[existingIndex] ?? null, expectedCurrent)) {
+          return Result.failure(new ConcurrentModificationError('feature', feature.name.value));
+        }
 
-      // 設計書の保存
-      const saveResult = await this.saveDesignDocument(updatedDocument);
-      if (!saveResult.success) {
-        return Result.failure(saveResult.error);
-      }
+        // 機能定義の追加または更新
+        let updatedDocument: DesignDocumentData;
+        if (isUpdate) {
+          const newFeatures = [...document.features];
+          newFeatures[existingIndex] = feature.data;
+          updatedDocument = { ...document, features: newFeatures };
+        } else {
+          updatedDocument = {
+            ...document,
+            features: [...document.features, feature.data]
+          };
+        }
 
-      return Result.success({ isUpdate });
+        return Result.success({ document: updatedDocument, value: { isUpdate } });
+      });
 
     } catch (error) {
       return Result.failure(
@@ -165,31 +151,25 @@ export class FileSystemFeatureRepository implements IFeatureRepository {
   /**
    * 指定された機能名の機能定義を削除する
    */
-  async delete(name: FeatureName): Promise<Result<DeletionResultData, Error>> {
+  async delete(name: FeatureName, expectedCurrent?: FeatureData | null): Promise<Result<DeletionResultData, Error>> {
     try {
-      const documentResult = await this.loadDesignDocument();
-      if (!documentResult.success) {
-        return Result.failure(documentResult.error);
-      }
+      return await this.store.update<DeletionResultData>(document => {
+        const existingIndex = document.features.findIndex(f => f.feature.name === name.value);
 
-      const document = documentResult.value;
-      const existingIndex = document.features.findIndex(f => f.feature.name === name.value);
-
-      if (existingIndex < 0) {
-        return Result.success({ found: false });
-      }
+        if (!this.matchesExpected(document.features[existingIndex] ?? null, expectedCurrent)) {
+          return Result.failure(new ConcurrentModificationError('feature', name.value));
+        }
 
-      // 機能定義の削除
-      const newFeatures = document.features.filter((_, index) => index !== existingIndex);
-      const updatedDocument = { ...document, features: newFeatures };
+        if (existingIndex < 0) {
+          return Result.success({ value: { found: false } });
+        }
 
-      // 設計書の保存
-      const saveResult = await this.saveDesignDocument(updatedDocument);
-      if (!saveResult.success) {
-        return Result.failure(saveResult.error);
-      }
+        // 機能定義の削除
+        const newFeatures = document.features.filter((_, index) => index !== existingIndex);
+        const updatedDocument = { ...document, features: newFeatures };
 
-      return Result.success({ found: true });
+        return Result.success({ document: updatedDocument, value: { found: true } });
+      });
 
     } catch (error) {
       return Result.failure(
@@ -226,7 +206,7 @@ export class FileSystemFeatureRepository implements IFeatureRepository {
    */
   async count(): Promise<Result<number, Error>> {
     try {
-      const documentResult = await this.loadDesignDocument();
+      const documentResult = await this.store.load();
       if (!documentResult.success) {
         return Result.failure(documentResult.error);
       }
@@ -250,7 +230,7 @@ export class FileSystemFeatureRepository implements IFeatureRepository {
     readonly notFound: readonly FeatureName[];
   }, Error>> {
     try {
-      const documentResult = await this.loadDesignDocument();
+      const documentResult = await this.store.load();
       if (!documentResult.success) {
         return Result.failure(documentResult.error);
       }
@@ -284,51 +264,10 @@ export class FileSystemFeatureRepository implements IFeatureRepository {
   }
 
   /**
-   * 設計書をファイルから読み込む
+   * 保存済みの内容が期待する内容と一致するかを判定する
+   * キーの順序の違いは無視し、期待する内容が指定されていない場合は常に一致とみなす
    */
-  private async loadDesignDocument(): Promise<Result<DesignDocumentData, Error>> {
-    try {
-      const fileContent = await fs.readFile(this.designDocumentPath, CONFIG.ENCODING.UTF8);
-      const document = JSON.parse(fileContent) as DesignDocumentData;
-
-      // データ整合性の確認
-      const validatedDocument: DesignDocumentData = {
-        features: Array.isArray(document.features) ? document.features : [],
-        terms: Array.isArray(document.terms) ? document.terms : [],
-      };
-
-      return Result.success(validatedDocument);
-
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('ENOENT')) {
-        // ファイルが存在しない場合は空の設計書を返す
-        const emptyDocument: DesignDocumentData = { features: [], terms: [] };
-        return Result.success(emptyDocument);
-      }
-
-      return Result.failure(
-        error instanceof Error
-          ? new Error(MESSAGES.ERROR.DESIGN_LOAD_FAILED(error.message))
-          : new Error(MESSAGES.ERROR.DESIGN_LOAD_FAILED(String(error)))
-      );
-    }
-  }
-
-  /**
-   * 設計書をファイルに保存する
-   */
-  private async saveDesignDocument(document: DesignDocumentData): Promise<Result<void, Error>> {
-    try {
-      const jsonContent = JSON.stringify(document, null, 2);
-      await fs.writeFile(this.designDocumentPath, jsonContent, CONFIG.ENCODING.UTF8);
-      return Result.success(undefined);
-
-    } catch (error) {
-      return Result.failure(
-        error instanceof Error
-          ? new Error(MESSAGES.ERROR.DESIGN_SAVE_FAILED(error.message))
-          : new Error(MESSAGES.ERROR.DESIGN_SAVE_FAILED(String(error)))
-      );
-    }
+  private matchesExpected(current: FeatureData | null, expectedCurrent: FeatureData | null | undefined): boolean {
+    return expectedCurrent === undefined || CanonicalJson.equals(current, expectedCurrent);
   }
 }
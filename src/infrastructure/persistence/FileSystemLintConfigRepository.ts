@@ -0,0 +1,68 @@
+import { promises as fs } from 'fs';
+import { ILintConfigRepository } from '../../domain/repositories/ILintConfigRepository.js';
+import { LintConfigData, LintRuleSetting } from '../../domain/types.js';
+import { Result } from '../../shared/types/functional.js';
+import { CONFIG } from '../../shared/constants/config.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+
+/**
+ * ファイルシステムを使用したlint設定リポジトリの実装
+ * データディレクトリのJSONファイル（例: {"rules": {"term-example-required": "error"}}）を読み込む
+ */
+export class FileSystemLintConfigRepository implements ILintConfigRepository {
+  constructor(
+    private readonly configPath: string
+  ) {}
+
+  /**
+   * lintの設定を取得する
+   */
+  async load(): Promise<Result<LintConfigData, Error>> {
+    let content: unknown;
+    try {
+      content = JSON.parse(await fs.readFile(this.configPath, CONFIG.ENCODING.UTF8));
+    } catch (error) {
+      if (error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+        // 設定ファイルは任意のため、存在しない場合は既定の重要度で全てのルールを適用する
+        return Result.success({ rules: {} });
+      }
+
+      return Result.failure(new Error(MESSAGES.ERROR.LINT_CONFIG_LOAD_FAILED(
+        this.configPath,
+        error instanceof Error ? error.message : String(error)
+      )));
+    }
+
+    return this.parse(content);
+  }
+
+  /**
+   * 設定ファイルの内容を検証する
+   * ルールIDの存在はルールの一覧と照合する必要があるため、ここでは形式のみを確認する
+   */
+  private parse(content: unknown): Result<LintConfigData, Error> {
+    const invalid = (field: string, expected: string) =>
+      Result.failure(new Error(MESSAGES.ERROR.LINT_CONFIG_INVALID(this.configPath, field, expected)));
+    const isObject = (value: unknown): value is Record<string, unknown> =>
+      typeof value === 'object' && value !== null && !Array.isArray(value);
+
+    if (!isObject(content)) {
+      return invalid('全体', 'オブジェクト');
+    }
+
+    const { rules = {} } = content;
+    if (!isObject(rules)) {
+      return invalid('rules', 'ルールIDと重要度の組');
+    }
+
+    const settings: Record<string, LintRuleSetting> = {};
+    for (const [ruleId, setting] of Object.entries(rules)) {
+      if (typeof setting !== 'string' || !(CONFIG.LINT.RULE_SETTINGS as readonly string[]).includes(setting)) {
+        return invalid(`rules.${ruleId}`, CONFIG.LINT.RULE_SETTINGS.join('・'));
+      }
+      settings[ruleId] = setting as LintRuleSetting;
+    }
+
+    return Result.success({ rules: settings });
+  }
+}
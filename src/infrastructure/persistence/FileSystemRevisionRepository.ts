@@ -0,0 +1,331 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { IRevisionRepository } from '../../domain/repositories/IRevisionRepository.js';
+import { NewRevisionData, RevisionData, RevisionEntityType } from '../../domain/types.js';
+import { Result, Option } from '../../shared/types/functional.js';
+import { CONFIG } from '../../shared/constants/config.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+import { FileLock } from './FileLock.js';
+
+/**
+ * 読み込み済みの変更履歴の索引
+ * offsetまでの行を解釈済みとし、ファイルの状態（inode・サイズ・更新日時）が変わらない限り読み直さない
+ * 追記分を読み足す際はrevisions・byEntityに直接追加するため、外部には複製して返す
+ */
+interface RevisionIndex {
+  inode: number;
+  size: number;
+  modifiedAt: number;
+  /** 解釈済みの位置（最後に読み込んだ改行の直後のバイト位置） */
+  offset: number;
+  /** 解釈済みの行数（読み込めない行の報告に使用） */
+  lineCount: number;
+  readonly revisions: RevisionData[];
+  /** 項目ごとの変更履歴（記録した順） */
+  readonly byEntity: Map<string, RevisionData[]>;
+}
+
+/**
+ * 何も読み込んでいない索引を作成する
+ */
+const createIndex = (): RevisionIndex => ({
+  inode: -1,
+  size: 0,
+  modifiedAt: 0,
+  offset: 0,
+  lineCount: 0,
+  revisions: [],
+  byEntity: new Map(),
+});
+
+/**
+ * 改行のバイト値
+ */
+const LINE_BREAK = 0x0a;
+
+/**
+ * ファイルシステムを使用した変更履歴リポジトリの実装
+ * 1行1リビジョンのJSON Lines形式で追記専用のファイルに記録する
+ * 読み込んだ履歴は索引として保持し、ファイルに追記された分だけを読み足す
+ */
+export class FileSystemRevisionRepository implements IRevisionRepository {
+  private appendQueue: Promise<unknown> = Promise.resolve();
+  private indexQueue: Promise<unknown> = Promise.resolve();
+  private index: RevisionIndex = createIndex();
+  private readonly lock: FileLock;
+  /** 報告済みの読み込めない行（同じ行を読み込みのたびに報告しないようにする） */
+  private readonly reportedMalformedLines = new Set<string>();
+
+  constructor(
+    private readonly historyPath: string
+  ) {
+    this.lock = new FileLock(historyPath);
+  }
+
+  /**
+   * 設計書ファイルと同じディレクトリに履歴ファイルを置くリポジトリを作成する
+   */
+  static forDesignDocument(designDocumentPath: string): FileSystemRevisionRepository {
+    return new FileSystemRevisionRepository(
+      path.join(path.dirname(designDocumentPath), CONFIG.PATHS.HISTORY_FILE)
+    );
+  }
+
+  /**
+   * 変更履歴を追記する
+   * リビジョン番号の採番と追記をロック下で行い、プロセス間で番号が重複しないようにする
+   */
+  async append(revision: NewRevisionData): Promise<Result<RevisionData, Error>> {
+    const task = this.appendQueue.then(() => this.lock.runExclusively(async () => {
+      try {
+        const indexResult = await this.loadIndex();
+        if (!indexResult.success) {
+          return Result.failure(indexResult.error);
+        }
+
+        const latestNumber = (indexResult.value.byEntity.get(this.entityKey(revision.entityType, revision.entityName)) ?? [])
+          .reduce((max, r) => Math.max(max, r.revisionNumber), 0);
+
+        const recorded: RevisionData = {
+          ...revision,
+          revisionNumber: latestNumber + 1,
+          timestamp: new Date().toISOString(),
+        };
+
+        // 書き込み途中で中断した行があれば、その行に続けて書かないよう改行してから追記する
+        await fs.mkdir(path.dirname(this.historyPath), { recursive: true });
+        const separator = (await this.endsWithLineBreak()) ? '' : '\n';
+        await fs.appendFile(this.historyPath, `${separator}${JSON.stringify(recorded)}\n`, CONFIG.ENCODING.UTF8);
+
+        return Result.success(recorded);
+
+      } catch (error) {
+        return Result.failure(
+          error instanceof Error
+            ? new Error(MESSAGES.ERROR.HISTORY_SAVE_FAILED(error.message))
+            : new Error(MESSAGES.ERROR.HISTORY_SAVE_FAILED(String(error)))
+        );
+      }
+    }));
+
+    this.appendQueue = task.catch(() => undefined);
+    return task;
+  }
+
+  /**
+   * 全ての項目の変更履歴を記録した順に取得する
+   */
+  async findAll(): Promise<Result<readonly RevisionData[], Error>> {
+    const indexResult = await this.loadIndex();
+    return indexResult.success ? Result.success([...indexResult.value.revisions]) : Result.failure(indexResult.error);
+  }
+
+  /**
+   * 指定した項目の変更履歴を古い順に取得する
+   */
+  async findByEntity(entityType: RevisionEntityType, entityName: string): Promise<Result<readonly RevisionData[], Error>> {
+    const indexResult = await this.loadIndex();
+    if (!indexResult.success) {
+      return Result.failure(indexResult.error);
+    }
+
+    const revisions = [...(indexResult.value.byEntity.get(this.entityKey(entityType, entityName)) ?? [])]
+      .sort((a, b) => a.revisionNumber - b.revisionNumber);
+
+    return Result.success(revisions);
+  }
+
+  /**
+   * 指定した項目の特定のリビジョンを取得する
+   */
+  async findRevision(
+    entityType: RevisionEntityType,
+    entityName: string,
+    revisionNumber: number
+  ): Promise<Result<Option<RevisionData>, Error>> {
+    const revisionsResult = await this.findByEntity(entityType, entityName);
+    if (!revisionsResult.success) {
+      return Result.failure(revisionsResult.error);
+    }
+
+    return Result.success(
+      Option.fromNullable(revisionsResult.value.find(r => r.revisionNumber === revisionNumber))
+    );
+  }
+
+  /**
+   * 変更履歴の索引を最新の状態にして取得する
+   * 同時に呼び出された場合も追記分を二重に読み込まないよう、更新は順に行う
+   */
+  private async loadIndex(): Promise<Result<RevisionIndex, Error>> {
+    const task = this.indexQueue.then(() => this.refreshIndex());
+    this.indexQueue = task.catch(() => undefined);
+    return task;
+  }
+
+  /**
+   * 履歴ファイルの状態を確認し、変わっていれば索引を更新する
+   * 追記された場合は追記分だけを読み込み、それ以外の変更（縮小・置き換えなど）の場合は全体を読み直す
+   */
+  private async refreshIndex(): Promise<Result<RevisionIndex, Error>> {
+    let handle: fs.FileHandle | undefined;
+    try {
+      handle = await fs.open(this.historyPath, 'r');
+      const stat = await handle.stat();
+      const cached = this.index;
+      if (cached.inode === stat.ino && cached.size === stat.size && cached.modifiedAt === stat.mtimeMs) {
+        return Result.success(cached);
+      }
+
+      const index = await this.isAppendedTo(handle, cached, stat) ? cached : createIndex();
+      const buffer = Buffer.alloc(stat.size - index.offset);
+      await handle.read(buffer, 0, buffer.length, index.offset);
+
+      // 書き込み途中の可能性がある最後の行（改行で終わらない行）は、次回の読み込みに回す
+      const parsedLength = buffer.lastIndexOf(LINE_BREAK) + 1;
+      this.appendToIndex(index, buffer.subarray(0, parsedLength).toString(CONFIG.ENCODING.UTF8));
+      Object.assign(index, {
+        inode: stat.ino,
+        size: stat.size,
+        modifiedAt: stat.mtimeMs,
+        offset: index.offset + parsedLength,
+      });
+
+      this.index = index;
+      return Result.success(index);
+
+    } catch (error) {
+      if (error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+        // 履歴ファイルが存在しない場合は履歴なしとして扱う
+        this.index = createIndex();
+        return Result.success(this.index);
+      }
+
+      return Result.failure(
+        error instanceof Error
+          ? new Error(MESSAGES.ERROR.HISTORY_LOAD_FAILED(error.message))
+          : new Error(MESSAGES.ERROR.HISTORY_LOAD_FAILED(String(error)))
+      );
+    } finally {
+      await handle?.close();
+    }
+  }
+
+  /**
+   * 索引を作成した後に、履歴ファイルへ追記されただけかを判定する
+   * 同じファイルが大きくなり、解釈済みの位置の直前が改行のままであれば追記とみなす
+   */
+  private async isAppendedTo(
+    handle: fs.FileHandle,
+    cached: RevisionIndex,
+    stat: { readonly ino: number; readonly size: number }
+  ): Promise<boolean> {
+    if (cached.inode !== stat.ino || stat.size <= cached.size) {
+      return false;
+    }
+    if (cached.offset === 0) {
+      return true;
+    }
+
+    const buffer = Buffer.alloc(1);
+    await handle.read(buffer, 0, 1, cached.offset - 1);
+    return buffer[0] === LINE_BREAK;
+  }
+
+  /**
+   * 読み込んだ行を解釈して索引に加える
+   * 読み込めない行（書き込み途中の行や手作業での編集による破損）は報告した上で読み飛ばし、他の履歴は利用できるようにする
+   */
+  private appendToIndex(index: RevisionIndex, content: string): void {
+    const lines = content ? content.slice(0, -1).split('\n') : [];
+
+    lines.forEach((line, lineIndex) => {
+      if (!line.trim()) {
+        return;
+      }
+
+      try {
+        const revision = this.parseRevision(line);
+        const key = this.entityKey(revision.entityType, revision.entityName);
+        index.revisions.push(revision);
+        const entityRevisions = index.byEntity.get(key);
+        if (entityRevisions) {
+          entityRevisions.push(revision);
+        } else {
+          index.byEntity.set(key, [revision]);
+        }
+      } catch (error) {
+        this.reportMalformedLine(line, index.lineCount + lineIndex + 1, error);
+      }
+    });
+
+    index.lineCount += lines.length;
+  }
+
+  /**
+   * 索引で項目を識別するキーを求める
+   */
+  private entityKey(entityType: RevisionEntityType, entityName: string): string {
+    return `${entityType}\u0000${entityName}`;
+  }
+
+  /**
+   * 履歴ファイルの1行をリビジョンとして解釈する
+   * 項目の特定と採番に必要なフィールドがない行は不正とする
+   */
+  private parseRevision(line: string): RevisionData {
+    const revision = JSON.parse(line);
+    if (
+      !revision || typeof revision !== 'object' ||
+      !(CONFIG.HISTORY.ENTITY_TYPES as readonly unknown[]).includes(revision.entityType) ||
+      typeof revision.entityName !== 'string' ||
+      !Number.isInteger(revision.revisionNumber)
+    ) {
+      throw new Error(MESSAGES.ERROR.INVALID_REVISION_RECORD());
+    }
+
+    return revision as RevisionData;
+  }
+
+  /**
+   * 読み込めない行を報告する（同じ行は一度だけ報告する）
+   */
+  private reportMalformedLine(line: string, lineNumber: number, error: unknown): void {
+    const key = `${lineNumber}:${line}`;
+    if (this.reportedMalformedLines.has(key)) {
+      return;
+    }
+
+    this.reportedMalformedLines.add(key);
+    console.error(MESSAGES.ERROR.MALFORMED_HISTORY_LINE(
+      this.historyPath,
+      lineNumber,
+      error instanceof Error ? error.message : String(error)
+    ));
+  }
+
+  /**
+   * 履歴ファイルが改行で終わっているか（ファイルが空または存在しない場合も含む）を判定する
+   */
+  private async endsWithLineBreak(): Promise<boolean> {
+    let handle: fs.FileHandle | undefined;
+    try {
+      handle = await fs.open(this.historyPath, 'r');
+      const { size } = await handle.stat();
+      if (size === 0) {
+        return true;
+      }
+
+      const buffer = Buffer.alloc(1);
+      await handle.read(buffer, 0, 1, size - 1);
+      return buffer.toString(CONFIG.ENCODING.UTF8) === '\n';
+    } catch (error) {
+      if (error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return true;
+      }
+      throw error;
+    } finally {
+      await handle?.close();
+    }
+  }
+}
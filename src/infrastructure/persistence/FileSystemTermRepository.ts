@@ -1,35 +1,30 @@
-import { promises as fs } from 'fs';
-import path from 'path';
-import { fileURLToPath } from 'url';
 import { Term } from '../../domain/entities/Term.js';
 import { TermName } from '../../domain/valueObjects/TermName.js';
 import { ITermRepository } from '../../domain/repositories/ITermRepository.js';
-import { TermListItemData, OperationResultData, DeletionResultData, DesignDocumentData } from '../../domain/types.js';
+import { TermResolution, TermResolver } from '../../domain/services/TermResolver.js';
+import { TermListItemData, TermData, OperationResultData, DeletionResultData, DesignDocumentData } from '../../domain/types.js';
+import { ConcurrentModificationError } from '../../domain/errors/ConcurrentModificationError.js';
 import { Result, Option } from '../../shared/types/functional.js';
-import { CONFIG } from '../../shared/constants/config.js';
-import { MESSAGES } from '../../shared/constants/messages.js';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+import { CanonicalJson } from '../../shared/utils/canonicalJson.js';
+import { DesignDocumentStore } from './DesignDocumentStore.js';
 
 /**
  * ファイルシステムを使用したユビキタス言語情報リポジトリの実装
- * JSON ファイルによる永続化を提供
+ * 共有の設計書ストアを介してJSONファイルによる永続化を提供
  */
 export class FileSystemTermRepository implements ITermRepository {
-  private readonly designDocumentPath: string;
+  private readonly resolver = new TermResolver();
 
-  constructor() {
-    const roolPath = path.resolve(__dirname, '../../../');
-    this.designDocumentPath = path.resolve(roolPath, CONFIG.PATHS.DATA_DIRECTORY, CONFIG.PATHS.DESIGN_DOCUMENT_FILE);
-  }
+  constructor(
+    private readonly store: DesignDocumentStore
+  ) {}
 
   /**
    * 指定された用語名のユビキタス言語情報を取得する
    */
   async findByName(name: TermName): Promise<Result<Option<Term>, Error>> {
     try {
-      const documentResult = await this.loadDesignDocument();
+      const documentResult = await this.store.load();
       if (!documentResult.success) {
         return Result.failure(documentResult.error);
       }
@@ -55,12 +50,24 @@ export class FileSystemTermRepository implements ITermRepository {
     }
   }
 
+  /**
+   * 用語名または別名でユビキタス言語情報を解決する
+   */
+  async findByNameOrAlias(name: string): Promise<Result<Option<TermResolution>, Error>> {
+    const termsResult = await this.findAll();
+    if (!termsResult.success) {
+      return Result.failure(termsResult.error);
+    }
+
+    return Result.success(this.resolver.resolve(termsResult.value, name));
+  }
+
   /**
    * 全てのユビキタス言語情報の一覧を取得する
    */
   async findAll(): Promise<Result<readonly Term[], Error>> {
     try {
-      const documentResult = await this.loadDesignDocument();
+      const documentResult = await this.store.load();
       if (!documentResult.success) {
         return Result.failure(documentResult.error);
       }
@@ -97,7 +104,7 @@ export class FileSystemTermRepository implements ITermRepository {
    */
   async getList(): Promise<Result<readonly TermListItemData[], Error>> {
     try {
-      const documentResult = await this.loadDesignDocument();
+      const documentResult = await this.store.load();
       if (!documentResult.success) {
         return Result.failure(documentResult.error);
       }
@@ -122,37 +129,31 @@ export class FileSystemTermRepository implements ITermRepository {
   /**
    * ユビキタス言語情報を保存する（追加または更新）
    */
-  async save(term: Term): Promise<Result<OperationResultData, Error>> {
+  async save(term: Term, expectedCurrent?: TermData | null): Promise<Result<OperationResultData, Error>> {
     try {
-      const documentResult = await this.loadDesignDocument();
-      if (!documentResult.success) {
-        return Result.failure(documentResult.error);
-      }
+      return await this.store.update(document => {
+        const existingIndex = document.terms.findIndex(t => t.term.name === term.name.value);
+        const isUpdate = existingIndex >= 0;
 
-      const document = documentResult.value;
-      const existingIndex = document.terms.findIndex(t => t.term.name === term.name.value);
-      const isUpdate = existingIndex >= 0;
-
-      // ユビキタス言語情報の追加または更新
-      let updatedDocument: DesignDocumentData;
-      if (isUpdate) {
-        const newTerms = [...document.terms];
-        newTerms[existingIndex] = term.data;
-        updatedDocument = { ...document, terms: newTerms };
-      } else {
-        updatedDocument = {
-          ...document,
-          terms: [...document.terms, term.data]
-        };
-      }
+        if (!this.matchesExpected(document.terms[existingIndex] ?? null, expectedCurrent)) {
+          return Result.failure(new ConcurrentModificationError('term', term.name.value));
+        }
 
-      // 設計書の保存
-      const saveResult = await this.saveDesignDocument(updatedDocument);
-      if (!saveResult.success) {
-        return Result.failure(saveResult.error);
-      }
+        // ユビキタス言語情報の追加または更新
+        let updatedDocument: DesignDocumentData;
+        if (isUpdate) {
+          const newTerms = [...document.terms];
+          newTerms[existingIndex] = term.data;
+          updatedDocument = { ...document, terms: newTerms };
+        } else {
+          updatedDocument = {
+            ...document,
+            terms: [...document.terms, term.data]
+          };
+        }
 
-      return Result.success({ isUpdate });
+        return Result.success({ document: updatedDocument, value: { isUpdate } });
+      });
 
     } catch (error) {
       return Result.failure(
@@ -166,31 +167,25 @@ export class FileSystemTermRepository implements ITermRepository {
   /**
    * 指定された用語名のユビキタス言語情報を削除する
    */
-  async delete(name: TermName): Promise<Result<DeletionResultData, Error>> {
+  async delete(name: TermName, expectedCurrent?: TermData | null): Promise<Result<DeletionResultData, Error>> {
     try {
-      const documentResult = await this.loadDesignDocument();
-      if (!documentResult.success) {
-        return Result.failure(documentResult.error);
-      }
-
-      const document = documentResult.value;
-      const existingIndex = document.terms.findIndex(t => t.term.name === name.value);
+      return await this.store.update<DeletionResultData>(document => {
+        const existingIndex = document.terms.findIndex(t => t.term.name === name.value);
 
-      if (existingIndex < 0) {
-        return Result.success({ found: false });
-      }
+        if (!this.matchesExpected(document.terms[existingIndex] ?? null, expectedCurrent)) {
+          return Result.failure(new ConcurrentModificationError('term', name.value));
+        }
 
-      // ユビキタス言語情報の削除
-      const newTerms = document.terms.filter((_, index) => index !== existingIndex);
-      const updatedDocument = { ...document, terms: newTerms };
+        if (existingIndex < 0) {
+          return Result.success({ value: { found: false } });
+        }
 
-      // 設計書の保存
-      const saveResult = await this.saveDesignDocument(updatedDocument);
-      if (!saveResult.success) {
-        return Result.failure(saveResult.error);
-      }
+        // ユビキタス言語情報の削除
+        const newTerms = document.terms.filter((_, index) => index !== existingIndex);
+        const updatedDocument = { ...document, terms: newTerms };
 
-      return Result.success({ found: true });
+        return Result.success({ document: updatedDocument, value: { found: true } });
+      });
 
     } catch (error) {
       return Result.failure(
@@ -227,7 +222,7 @@ export class FileSystemTermRepository implements ITermRepository {
    */
   async count(): Promise<Result<number, Error>> {
     try {
-      const documentResult = await this.loadDesignDocument();
+      const documentResult = await this.store.load();
       if (!documentResult.success) {
         return Result.failure(documentResult.error);
       }
@@ -251,7 +246,7 @@ export class FileSystemTermRepository implements ITermRepository {
     readonly notFound: readonly TermName[];
   }, Error>> {
     try {
-      const documentResult = await this.loadDesignDocument();
+      const documentResult = await this.store.load();
       if (!documentResult.success) {
         return Result.failure(documentResult.error);
       }
@@ -360,51 +355,10 @@ export class FileSystemTermRepository implements ITermRepository {
   }
 
   /**
-   * 設計書をファイルから読み込む
+   * 保存済みの内容が期待する内容と一致するかを判定する
+   * キーの順序の違いは無視し、期待する内容が指定されていない場合は常に一致とみなす
    */
-  private async loadDesignDocument(): Promise<Result<DesignDocumentData, Error>> {
-    try {
-      const fileContent = await fs.readFile(this.designDocumentPath, CONFIG.ENCODING.UTF8);
-      const document = JSON.parse(fileContent) as DesignDocumentData;
-
-      // データ整合性の確認
-      const validatedDocument: DesignDocumentData = {
-        features: Array.isArray(document.features) ? document.features : [],
-        terms: Array.isArray(document.terms) ? document.terms : [],
-      };
-
-      return Result.success(validatedDocument);
-
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('ENOENT')) {
-        // ファイルが存在しない場合は空の設計書を返す
-        const emptyDocument: DesignDocumentData = { features: [], terms: [] };
-        return Result.success(emptyDocument);
-      }
-
-      return Result.failure(
-        error instanceof Error
-          ? new Error(MESSAGES.ERROR.DESIGN_LOAD_FAILED(error.message))
-          : new Error(MESSAGES.ERROR.DESIGN_LOAD_FAILED(String(error)))
-      );
-    }
-  }
-
-  /**
-   * 設計書をファイルに保存する
-   */
-  private async saveDesignDocument(document: DesignDocumentData): Promise<Result<void, Error>> {
-    try {
-      const jsonContent = JSON.stringify(document, null, 2);
-      await fs.writeFile(this.designDocumentPath, jsonContent, CONFIG.ENCODING.UTF8);
-      return Result.success(undefined);
-
-    } catch (error) {
-      return Result.failure(
-        error instanceof Error
-          ? new Error(MESSAGES.ERROR.DESIGN_SAVE_FAILED(error.message))
-          : new Error(MESSAGES.ERROR.DESIGN_SAVE_FAILED(String(error)))
-      );
-    }
+  private matchesExpected(current: TermData | null, expectedCurrent: TermData | null | undefined): boolean {
+    return expectedCurrent === undefined || CanonicalJson.equals(current, expectedCurrent);
   }
 }
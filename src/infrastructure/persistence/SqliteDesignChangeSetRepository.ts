@@ -0,0 +1,119 @@
+import { IDesignChangeSetRepository } from '../../domain/repositories/IDesignChangeSetRepository.js';
+import { ConcurrentModificationError } from '../../domain/errors/ConcurrentModificationError.js';
+import { NameConflictError } from '../../domain/errors/NameConflictError.js';
+import {
+  DesignChangeSetData,
+  EntityDeletionData,
+  EntityReplacementData,
+  FeatureData,
+  RevisionEntityType,
+  TermData,
+} from '../../domain/types.js';
+import { Result } from '../../shared/types/functional.js';
+import { CanonicalJson } from '../../shared/utils/canonicalJson.js';
+import { SqliteDesignDatabase } from './SqliteDesignDatabase.js';
+
+/**
+ * SQLiteを使用した一括変更リポジトリの実装
+ * 共有の設計書データベースの1つのトランザクションで全ての置き換えを反映する
+ */
+export class SqliteDesignChangeSetRepository implements IDesignChangeSetRepository {
+  constructor(
+    private readonly database: SqliteDesignDatabase
+  ) {}
+
+  /**
+   * 一括変更を原子的に適用する
+   */
+  async apply(changeSet: DesignChangeSetData): Promise<Result<void, Error>> {
+    return this.database.transaction(() => {
+      const featuresResult = this.replaceAll(
+        'feature',
+        changeSet.features,
+        name => this.database.findFeature(name),
+        (currentName, feature) => this.database.putFeature(currentName, feature),
+        feature => feature.feature.name
+      );
+      if (!featuresResult.success) {
+        return featuresResult;
+      }
+
+      const termsResult = this.replaceAll(
+        'term',
+        changeSet.terms,
+        name => this.database.findTerm(name),
+        (currentName, term) => this.database.putTerm(currentName, term),
+        term => term.term.name
+      );
+      if (!termsResult.success) {
+        return termsResult;
+      }
+
+      const deletedFeaturesResult = this.removeAll(
+        'feature',
+        changeSet.deletedFeatures ?? [],
+        name => this.database.findFeature(name),
+        name => this.database.removeFeature(name)
+      );
+      if (!deletedFeaturesResult.success) {
+        return deletedFeaturesResult;
+      }
+
+      return this.removeAll(
+        'term',
+        changeSet.deletedTerms ?? [],
+        name => this.database.findTerm(name),
+        name => this.database.removeTerm(name)
+      );
+    });
+  }
+
+  /**
+   * 置き換えを順に適用する
+   * 置き換えた項目は元の位置に残し、置き換え後の名前が他の項目と重複する場合は失敗とする
+   */
+  private replaceAll<T extends FeatureData | TermData>(
+    entityType: RevisionEntityType,
+    replacements: readonly EntityReplacementData<T>[],
+    find: (name: string) => T | null,
+    put: (currentName: string, entity: T) => boolean,
+    nameOf: (entity: T) => string
+  ): Result<void, Error> {
+    for (const replacement of replacements) {
+      const current = find(replacement.currentName);
+      if (!current || !CanonicalJson.equals(current, replacement.previousValue)) {
+        return Result.failure(new ConcurrentModificationError(entityType, replacement.currentName));
+      }
+
+      const newName = nameOf(replacement.value);
+      if (newName !== replacement.currentName && find(newName)) {
+        return Result.failure(new NameConflictError(entityType, newName));
+      }
+
+      put(replacement.currentName, replacement.value);
+    }
+
+    return Result.success(undefined);
+  }
+
+  /**
+   * 削除を順に適用する
+   */
+  private removeAll<T extends FeatureData | TermData>(
+    entityType: RevisionEntityType,
+    deletions: readonly EntityDeletionData<T>[],
+    find: (name: string) => T | null,
+    remove: (name: string) => boolean
+  ): Result<void, Error> {
+    for (const deletion of deletions) {
+      const current = find(deletion.currentName);
+      if (!current || !CanonicalJson.equals(current, deletion.previousValue)) {
+        return Result.failure(new ConcurrentModificationError(entityType, deletion.currentName));
+      }
+
+      remove(deletion.currentName);
+    }
+
+    return Result.success(undefined);
+  }
+}
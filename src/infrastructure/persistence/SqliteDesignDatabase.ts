@@ -0,0 +1,476 @@
+import Database from 'better-sqlite3';
+import { existsSync, mkdirSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { DesignDocumentData, FeatureData, TermData } from '../../domain/types.js';
+import { Result } from '../../shared/types/functional.js';
+import { CONFIG } from '../../shared/constants/config.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+import { DesignWatchTarget } from './DesignDocumentWatcher.js';
+import { DesignSchema, DesignSchemaUpgrade, StoredDesignSchema } from './DesignSchema.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * 設計書データベースのスキーマ
+ * 項目の内容はJSONのまま保持し、検索に使う列とインデックスを別に持つ
+ * 一覧の順序は追加順（id順）とし、名前変更では行を置き換えずに更新して位置を保つ
+ */
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS features (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL UNIQUE,
+  data TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS terms (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL UNIQUE,
+  category TEXT NOT NULL,
+  bounded_context TEXT NOT NULL,
+  data TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS terms_category ON terms (category);
+CREATE INDEX IF NOT EXISTS terms_bounded_context ON terms (bounded_context);
+
+CREATE TABLE IF NOT EXISTS term_associated_functions (
+  term_id INTEGER NOT NULL REFERENCES terms (id) ON DELETE CASCADE,
+  function_name TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS term_associated_functions_function_name ON term_associated_functions (function_name);
+CREATE INDEX IF NOT EXISTS term_associated_functions_term_id ON term_associated_functions (term_id);
+`;
+
+/**
+ * 項目の内容を保持する行の型
+ */
+interface DataRow {
+  readonly data: string;
+}
+
+/**
+ * ユビキタス言語情報の検索条件の型
+ */
+export type TermCriteria =
+  | { readonly category: string }
+  | { readonly boundedContext: string }
+  | { readonly associatedFunction: string };
+
+/**
+ * SQLiteによる設計書データベース
+ * 機能定義リポジトリとユビキタス言語情報リポジトリの下で単一のデータベースを共有する
+ * 書き込みはBEGIN IMMEDIATEのトランザクションで行い、プロセス間の同時書き込みはSQLiteのロックで防ぐ
+ * ジャーナルは既定のロールバックジャーナルとし、コミット時にデータベースファイル自体が更新されるようにする（変更監視のため）
+ * 設計書のスキーマのバージョンはuser_versionに保持する
+ */
+export class SqliteDesignDatabase {
+  private database: Database.Database | null = null;
+  private schemaChecked = false;
+
+  constructor(
+    private readonly databasePath: string = SqliteDesignDatabase.resolveDefaultPath()
+  ) {}
+
+  /**
+   * 既定のデータベースファイルパスを取得する
+   */
+  static resolveDefaultPath(): string {
+    const rootPath = path.resolve(__dirname, '../../../');
+    return path.resolve(rootPath, CONFIG.PATHS.DATA_DIRECTORY, CONFIG.PATHS.DESIGN_DATABASE_FILE);
+  }
+
+  /**
+   * データベースファイルのパスを取得する
+   */
+  get path(): string {
+    return this.databasePath;
+  }
+
+  /**
+   * 変更監視の対象（データベースファイルのみを扱う）
+   */
+  get watchTargets(): readonly DesignWatchTarget[] {
+    return [{ directory: path.dirname(this.databasePath), fileName: path.basename(this.databasePath) }];
+  }
+
+  /**
+   * 読み込み処理を実行する
+   * @param reader データベースから値を読み込む関数
+   */
+  async read<T>(reader: () => T): Promise<Result<T, Error>> {
+    try {
+      this.ensureUpgraded();
+      return Result.success(reader());
+
+    } catch (error) {
+      return Result.failure(this.toDatabaseError(error));
+    }
+  }
+
+  /**
+   * 書き込み処理をトランザクション内で実行する
+   * 処理が失敗を返した場合や例外が発生した場合はロールバックし、何も書き込まない
+   * @param writer データベースを変更し、戻り値を返す関数
+   */
+  async transaction<T>(writer: () => Result<T, Error>): Promise<Result<T, Error>> {
+    let database: Database.Database;
+    try {
+      this.ensureUpgraded();
+      database = this.connection();
+      database.exec('BEGIN IMMEDIATE');
+    } catch (error) {
+      return Result.failure(this.toDatabaseError(error));
+    }
+
+    try {
+      const result = writer();
+      database.exec(result.success ? 'COMMIT' : 'ROLLBACK');
+      return result;
+
+    } catch (error) {
+      if (database.inTransaction) {
+        database.exec('ROLLBACK');
+      }
+      return Result.failure(this.toDatabaseError(error));
+    }
+  }
+
+  /**
+   * 設計書全体を読み込む
+   */
+  async load(): Promise<Result<DesignDocumentData, Error>> {
+    return this.read(() => ({ features: this.listFeatures(), terms: this.listTerms() }));
+  }
+
+  /**
+   * 設計書全体を置き換える
+   */
+  async replace(document: DesignDocumentData): Promise<Result<void, Error>> {
+    return this.transaction(() => {
+      this.replaceRows(document);
+      return Result.success(undefined);
+    });
+  }
+
+  /**
+   * 保存されている設計書を、スキーマを移行せずにそのまま読み込む
+   * 読み取り専用で開くため、データベースファイルを変更しない
+   */
+  async inspect(): Promise<Result<StoredDesignSchema, Error>> {
+    if (!existsSync(this.databasePath)) {
+      return Result.success({ schemaVersion: DesignSchema.CURRENT_VERSION, document: {} });
+    }
+
+    let database: Database.Database | null = null;
+    try {
+      const readonlyDatabase = new Database(this.databasePath, { readonly: true, fileMustExist: true });
+      database = readonlyDatabase;
+      if (!this.hasTables(readonlyDatabase)) {
+        return Result.success({ schemaVersion: DesignSchema.CURRENT_VERSION, document: {} });
+      }
+
+      const readAll = (table: 'features' | 'terms') => readonlyDatabase
+        .prepare<[], DataRow>(`SELECT data FROM ${table} ORDER BY id`)
+        .all()
+        .map(row => JSON.parse(row.data));
+      return Result.success({
+        schemaVersion: this.schemaVersionOf(readonlyDatabase),
+        document: { features: readAll('features'), terms: readAll('terms') },
+      });
+
+    } catch (error) {
+      return Result.failure(this.toDatabaseError(error));
+    } finally {
+      database?.close();
+    }
+  }
+
+  /**
+   * 古いスキーマの設計書を現在のスキーマに移行する
+   * 移行前のデータベースはバックアップとして残す
+   */
+  async upgrade(): Promise<Result<DesignSchemaUpgrade, Error>> {
+    try {
+      const upgrade = this.upgradeSchema();
+      this.schemaChecked = true;
+      return Result.success(upgrade);
+
+    } catch (error) {
+      return Result.failure(this.toDatabaseError(error));
+    }
+  }
+
+  /**
+   * データベースを閉じる
+   */
+  close(): void {
+    this.database?.close();
+    this.database = null;
+  }
+
+  /**
+   * 指定された名前の機能定義を取得する
+   */
+  findFeature(name: string): FeatureData | null {
+    const row = this.connection()
+      .prepare<[string], DataRow>('SELECT data FROM features WHERE name = ?')
+      .get(name);
+    return row ? JSON.parse(row.data) as FeatureData : null;
+  }
+
+  /**
+   * 全ての機能定義を追加順に取得する
+   */
+  listFeatures(): FeatureData[] {
+    return this.connection()
+      .prepare<[], DataRow>('SELECT data FROM features ORDER BY id')
+      .all()
+      .map(row => JSON.parse(row.data) as FeatureData);
+  }
+
+  /**
+   * 機能定義の件数を取得する
+   */
+  countFeatures(): number {
+    return this.count('features');
+  }
+
+  /**
+   * 機能定義を保存する
+   * currentNameの行があれば内容（名前を含む）を更新し、なければ末尾に追加する
+   * @returns 既存の行を更新した場合true
+   */
+  putFeature(currentName: string, feature: FeatureData): boolean {
+    const database = this.connection();
+    const updated = database
+      .prepare('UPDATE features SET name = ?, data = ? WHERE name = ?')
+      .run(feature.feature.name, JSON.stringify(feature), currentName);
+    if (updated.changes > 0) {
+      return true;
+    }
+
+    database
+      .prepare('INSERT INTO features (name, data) VALUES (?, ?)')
+      .run(feature.feature.name, JSON.stringify(feature));
+    return false;
+  }
+
+  /**
+   * 指定された名前の機能定義を削除する
+   * @returns 削除した場合true
+   */
+  removeFeature(name: string): boolean {
+    return this.connection().prepare('DELETE FROM features WHERE name = ?').run(name).changes > 0;
+  }
+
+  /**
+   * 指定された名前のユビキタス言語情報を取得する
+   */
+  findTerm(name: string): TermData | null {
+    const row = this.connection()
+      .prepare<[string], DataRow>('SELECT data FROM terms WHERE name = ?')
+      .get(name);
+    return row ? JSON.parse(row.data) as TermData : null;
+  }
+
+  /**
+   * 全てのユビキタス言語情報を追加順に取得する
+   */
+  listTerms(): TermData[] {
+    return this.connection()
+      .prepare<[], DataRow>('SELECT data FROM terms ORDER BY id')
+      .all()
+      .map(row => JSON.parse(row.data) as TermData);
+  }
+
+  /**
+   * 条件に一致するユビキタス言語情報をインデックスを使って追加順に取得する
+   */
+  findTermsBy(criteria: TermCriteria): TermData[] {
+    const [condition, value] = 'category' in criteria
+      ? ['category = ?', criteria.category]
+      : 'boundedContext' in criteria
+        ? ['bounded_context = ?', criteria.boundedContext]
+        : ['id IN (SELECT term_id FROM term_associated_functions WHERE function_name = ?)', criteria.associatedFunction];
+
+    return this.connection()
+      .prepare<[string], DataRow>(`SELECT data FROM terms WHERE ${condition} ORDER BY id`)
+      .all(value)
+      .map(row => JSON.parse(row.data) as TermData);
+  }
+
+  /**
+   * ユビキタス言語情報の件数を取得する
+   */
+  countTerms(): number {
+    return this.count('terms');
+  }
+
+  /**
+   * ユビキタス言語情報を保存する
+   * currentNameの行があれば内容（名前を含む）を更新し、なければ末尾に追加する
+   * @returns 既存の行を更新した場合true
+   */
+  putTerm(currentName: string, term: TermData): boolean {
+    const database = this.connection();
+    const values = [term.term.name, term.details.category, term.term.context.boundedContext, JSON.stringify(term)];
+
+    const existing = database
+      .prepare<[string], { id: number }>('SELECT id FROM terms WHERE name = ?')
+      .get(currentName);
+
+    let termId: number;
+    if (existing) {
+      database
+        .prepare('UPDATE terms SET name = ?, category = ?, bounded_context = ?, data = ? WHERE id = ?')
+        .run(...values, existing.id);
+      database.prepare('DELETE FROM term_associated_functions WHERE term_id = ?').run(existing.id);
+      termId = existing.id;
+    } else {
+      termId = Number(database
+        .prepare('INSERT INTO terms (name, category, bounded_context, data) VALUES (?, ?, ?, ?)')
+        .run(...values)
+        .lastInsertRowid);
+    }
+
+    const insertFunction = database.prepare('INSERT INTO term_associated_functions (term_id, function_name) VALUES (?, ?)');
+    new Set(term.relationships.associatedFunctions).forEach(functionName => insertFunction.run(termId, functionName));
+
+    return existing !== undefined;
+  }
+
+  /**
+   * 指定された名前のユビキタス言語情報を削除する
+   * 関連機能の索引は外部キーの連鎖削除で取り除かれる
+   * @returns 削除した場合true
+   */
+  removeTerm(name: string): boolean {
+    return this.connection().prepare('DELETE FROM terms WHERE name = ?').run(name).changes > 0;
+  }
+
+  /**
+   * 接続を取得する
+   * 初回の呼び出しでデータベースを開き、スキーマを作成する
+   */
+  private connection(): Database.Database {
+    if (this.database) {
+      return this.database;
+    }
+
+    mkdirSync(path.dirname(this.databasePath), { recursive: true });
+    const database = new Database(this.databasePath);
+    try {
+      database.pragma(`busy_timeout = ${CONFIG.PERSISTENCE.LOCK_TIMEOUT_MS}`);
+      database.pragma('foreign_keys = ON');
+      // 新しく作成したデータベースは現在のスキーマとする
+      const created = !this.hasTables(database);
+      database.exec(SCHEMA);
+      if (created) {
+        database.pragma(`user_version = ${DesignSchema.CURRENT_VERSION}`);
+      }
+    } catch (error) {
+      database.close();
+      throw error;
+    }
+
+    this.database = database;
+    return database;
+  }
+
+  /**
+   * 接続後に初めて読み書きする前に、古いスキーマの設計書を移行する
+   */
+  private ensureUpgraded(): void {
+    if (!this.schemaChecked) {
+      this.upgradeSchema();
+      this.schemaChecked = true;
+    }
+  }
+
+  /**
+   * 保存されている設計書のスキーマが古い場合は、バックアップを取った上で移行する
+   * 例外はread・transactionと同様に呼び出し元でエラーに変換する
+   */
+  private upgradeSchema(): DesignSchemaUpgrade {
+    const database = this.connection();
+    const schemaVersion = this.schemaVersionOf(database);
+    if (schemaVersion === DesignSchema.CURRENT_VERSION) {
+      return { fromVersion: schemaVersion, toVersion: schemaVersion, backupPath: null };
+    }
+
+    const migrationsResult = DesignSchema.migrationsFrom(schemaVersion);
+    if (!migrationsResult.success) {
+      throw migrationsResult.error;
+    }
+
+    const backupPath = DesignSchema.backupPathOf(this.databasePath, schemaVersion);
+    try {
+      database.prepare('VACUUM INTO ?').run(backupPath);
+    } catch (error) {
+      throw new Error(MESSAGES.ERROR.SCHEMA_BACKUP_FAILED(error instanceof Error ? error.message : String(error)));
+    }
+
+    database.transaction(() => {
+      // バックアップ中に他のプロセスが移行した場合は何もしない
+      const storedVersion = this.schemaVersionOf(database);
+      if (storedVersion === DesignSchema.CURRENT_VERSION) {
+        return;
+      }
+
+      const documentResult = DesignSchema.upgrade({
+        schemaVersion: storedVersion,
+        document: { features: this.listFeatures(), terms: this.listTerms() },
+      });
+      if (!documentResult.success) {
+        throw documentResult.error;
+      }
+
+      this.replaceRows(documentResult.value);
+      database.pragma(`user_version = ${DesignSchema.CURRENT_VERSION}`);
+    }).immediate();
+
+    return { fromVersion: schemaVersion, toVersion: DesignSchema.CURRENT_VERSION, backupPath };
+  }
+
+  /**
+   * 全ての行を設計書の内容で置き換える
+   */
+  private replaceRows(document: DesignDocumentData): void {
+    this.connection().exec('DELETE FROM term_associated_functions; DELETE FROM terms; DELETE FROM features;');
+    document.features.forEach(feature => this.putFeature(feature.feature.name, feature));
+    document.terms.forEach(term => this.putTerm(term.term.name, term));
+  }
+
+  /**
+   * 設計書のテーブルが作成済みかを判定する
+   */
+  private hasTables(database: Database.Database): boolean {
+    return database
+      .prepare<[], { name: string }>("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'features'")
+      .get() !== undefined;
+  }
+
+  /**
+   * データベースに保持しているスキーマのバージョンを取得する
+   */
+  private schemaVersionOf(database: Database.Database): number {
+    return database.pragma('user_version', { simple: true }) as number;
+  }
+
+  /**
+   * テーブルの行数を取得する
+   */
+  private count(table: 'features' | 'terms'): number {
+    return (this.connection()
+      .prepare<[], { count: number }>(`SELECT COUNT(*) AS count FROM ${table}`)
+      .get() as { count: number }).count;
+  }
+
+  /**
+   * データベースの例外をエラーメッセージ付きのエラーに変換する
+   */
+  private toDatabaseError(error: unknown): Error {
+    return new Error(MESSAGES.ERROR.DESIGN_DATABASE_FAILED(error instanceof Error ? error.message : String(error)));
+  }
+}
@@ -0,0 +1,153 @@
+import { Feature } from '../../domain/entities/Feature.js';
+import { FeatureName } from '../../domain/valueObjects/FeatureName.js';
+import { IFeatureRepository } from '../../domain/repositories/IFeatureRepository.js';
+import { FeatureListItemData, FeatureData, OperationResultData, DeletionResultData } from '../../domain/types.js';
+import { ConcurrentModificationError } from '../../domain/errors/ConcurrentModificationError.js';
+import { Result, Option } from '../../shared/types/functional.js';
+import { CanonicalJson } from '../../shared/utils/canonicalJson.js';
+import { SqliteDesignDatabase } from './SqliteDesignDatabase.js';
+
+/**
+ * SQLiteを使用した機能定義リポジトリの実装
+ * 共有の設計書データベースを介して、機能名の索引による取得と行単位の書き込みを提供
+ */
+export class SqliteFeatureRepository implements IFeatureRepository {
+  constructor(
+    private readonly database: SqliteDesignDatabase
+  ) {}
+
+  /**
+   * 指定された機能名の機能定義を取得する
+   */
+  async findByName(name: FeatureName): Promise<Result<Option<Feature>, Error>> {
+    const dataResult = await this.database.read(() => this.database.findFeature(name.value));
+    if (!dataResult.success) {
+      return Result.failure(dataResult.error);
+    }
+
+    if (!dataResult.value) {
+      return Result.success(Option.none());
+    }
+
+    const featureResult = Feature.create(dataResult.value);
+    if (!featureResult.success) {
+      return Result.failure(featureResult.error);
+    }
+
+    return Result.success(Option.some(featureResult.value));
+  }
+
+  /**
+   * 全ての機能定義の一覧を取得する
+   */
+  async findAll(): Promise<Result<readonly Feature[], Error>> {
+    const dataResult = await this.database.read(() => this.database.listFeatures());
+    if (!dataResult.success) {
+      return Result.failure(dataResult.error);
+    }
+
+    const features: Feature[] = [];
+    const errors: string[] = [];
+
+    for (const featureData of dataResult.value) {
+      const featureResult = Feature.create(featureData);
+      if (featureResult.success) {
+        features.push(featureResult.value);
+      } else {
+        errors.push(`機能「${featureData.feature.name}」の読み込みに失敗: ${featureResult.error.message}`);
+      }
+    }
+
+    if (errors.length > 0) {
+      return Result.failure(new Error(errors.join(', ')));
+    }
+
+    return Result.success(features);
+  }
+
+  /**
+   * 機能定義の概要一覧を取得する
+   */
+  async getList(): Promise<Result<readonly FeatureListItemData[], Error>> {
+    return this.database.read(() => this.database.listFeatures().map(feature => ({
+      name: feature.feature.name,
+      purpose: feature.feature.purpose,
+    })));
+  }
+
+  /**
+   * 機能定義を保存する（追加または更新）
+   */
+  async save(feature: Feature, expectedCurrent?: FeatureData | null): Promise<Result<OperationResultData, Error>> {
+    return this.database.transaction(() => {
+      const current = this.database.findFeature(feature.name.value);
+      if (!this.matchesExpected(current, expectedCurrent)) {
+        return Result.failure(new ConcurrentModificationError('feature', feature.name.value));
+      }
+
+      return Result.success({ isUpdate: this.database.putFeature(feature.name.value, feature.data) });
+    });
+  }
+
+  /**
+   * 指定された機能名の機能定義を削除する
+   */
+  async delete(name: FeatureName, expectedCurrent?: FeatureData | null): Promise<Result<DeletionResultData, Error>> {
+    return this.database.transaction(() => {
+      const current = this.database.findFeature(name.value);
+      if (!this.matchesExpected(current, expectedCurrent)) {
+        return Result.failure(new ConcurrentModificationError('feature', name.value));
+      }
+
+      return Result.success({ found: this.database.removeFeature(name.value) });
+    });
+  }
+
+  /**
+   * 指定された機能名の機能定義が存在するかチェックする
+   */
+  async exists(name: FeatureName): Promise<Result<boolean, Error>> {
+    return this.database.read(() => this.database.findFeature(name.value) !== null);
+  }
+
+  /**
+   * 機能定義の総数を取得する
+   */
+  async count(): Promise<Result<number, Error>> {
+    return this.database.read(() => this.database.countFeatures());
+  }
+
+  /**
+   * 複数の機能名で機能定義を一括取得する
+   */
+  async findByNames(names: readonly FeatureName[]): Promise<Result<{
+    readonly found: readonly Feature[];
+    readonly notFound: readonly FeatureName[];
+  }, Error>> {
+    const found: Feature[] = [];
+    const notFound: FeatureName[] = [];
+
+    for (const name of names) {
+      const findResult = await this.findByName(name);
+      if (!findResult.success) {
+        return Result.failure(findResult.error);
+      }
+
+      if (findResult.value.isSome) {
+        found.push(findResult.value.value);
+      } else {
+        notFound.push(name);
+      }
+    }
+
+    return Result.success({ found, notFound });
+  }
+
+  /**
+   * 保存済みの内容が期待する内容と一致するかを判定する
+   * キーの順序の違いは無視し、期待する内容が指定されていない場合は常に一致とみなす
+   */
+  private matchesExpected(current: FeatureData | null, expectedCurrent: FeatureData | null | undefined): boolean {
+    return expectedCurrent === undefined || CanonicalJson.equals(current, expectedCurrent);
+  }
+}
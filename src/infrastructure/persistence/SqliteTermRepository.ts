@@ -0,0 +1,225 @@
+import { Term } from '../../domain/entities/Term.js';
+import { TermName } from '../../domain/valueObjects/TermName.js';
+import { ITermRepository } from '../../domain/repositories/ITermRepository.js';
+import { TermResolution, TermResolver } from '../../domain/services/TermResolver.js';
+import { TermListItemData, TermData, OperationResultData, DeletionResultData } from '../../domain/types.js';
+import { ConcurrentModificationError } from '../../domain/errors/ConcurrentModificationError.js';
+import { Result, Option } from '../../shared/types/functional.js';
+import { CanonicalJson } from '../../shared/utils/canonicalJson.js';
+import { SqliteDesignDatabase, TermCriteria } from './SqliteDesignDatabase.js';
+
+/**
+ * SQLiteを使用したユビキタス言語情報リポジトリの実装
+ * 共有の設計書データベースを介して、用語名・カテゴリ・境界づけられたコンテキスト・関連機能の索引による検索を提供
+ */
+export class SqliteTermRepository implements ITermRepository {
+  private readonly resolver = new TermResolver();
+
+  constructor(
+    private readonly database: SqliteDesignDatabase
+  ) {}
+
+  /**
+   * 指定された用語名のユビキタス言語情報を取得する
+   */
+  async findByName(name: TermName): Promise<Result<Option<Term>, Error>> {
+    const dataResult = await this.database.read(() => this.database.findTerm(name.value));
+    if (!dataResult.success) {
+      return Result.failure(dataResult.error);
+    }
+
+    if (!dataResult.value) {
+      return Result.success(Option.none());
+    }
+
+    const termResult = Term.create(dataResult.value);
+    if (!termResult.success) {
+      return Result.failure(termResult.error);
+    }
+
+    return Result.success(Option.some(termResult.value));
+  }
+
+  /**
+   * 用語名または別名でユビキタス言語情報を解決する
+   * 用語名の完全一致は索引で引き、一致しない場合のみ全件を対象に別名や表記ゆれを照合する
+   */
+  async findByNameOrAlias(name: string): Promise<Result<Option<TermResolution>, Error>> {
+    const requestedName = name.trim();
+    const dataResult = await this.database.read(() => this.database.findTerm(requestedName));
+    if (!dataResult.success) {
+      return Result.failure(dataResult.error);
+    }
+
+    if (dataResult.value) {
+      const termResult = Term.create(dataResult.value);
+      if (!termResult.success) {
+        return Result.failure(termResult.error);
+      }
+      return Result.success(Option.some({ term: termResult.value, matchedBy: 'name', matchedValue: requestedName }));
+    }
+
+    const termsResult = await this.findAll();
+    if (!termsResult.success) {
+      return Result.failure(termsResult.error);
+    }
+
+    return Result.success(this.resolver.resolve(termsResult.value, name));
+  }
+
+  /**
+   * 全てのユビキタス言語情報の一覧を取得する
+   */
+  async findAll(): Promise<Result<readonly Term[], Error>> {
+    const dataResult = await this.database.read(() => this.database.listTerms());
+    if (!dataResult.success) {
+      return Result.failure(dataResult.error);
+    }
+
+    return this.toTerms(dataResult.value);
+  }
+
+  /**
+   * ユビキタス言語情報の概要一覧を取得する
+   */
+  async getList(): Promise<Result<readonly TermListItemData[], Error>> {
+    return this.database.read(() => this.database.listTerms().map(term => ({
+      name: term.term.name,
+      definition: term.term.definition,
+      category: term.details.category,
+    })));
+  }
+
+  /**
+   * ユビキタス言語情報を保存する（追加または更新）
+   */
+  async save(term: Term, expectedCurrent?: TermData | null): Promise<Result<OperationResultData, Error>> {
+    return this.database.transaction(() => {
+      const current = this.database.findTerm(term.name.value);
+      if (!this.matchesExpected(current, expectedCurrent)) {
+        return Result.failure(new ConcurrentModificationError('term', term.name.value));
+      }
+
+      return Result.success({ isUpdate: this.database.putTerm(term.name.value, term.data) });
+    });
+  }
+
+  /**
+   * 指定された用語名のユビキタス言語情報を削除する
+   */
+  async delete(name: TermName, expectedCurrent?: TermData | null): Promise<Result<DeletionResultData, Error>> {
+    return this.database.transaction(() => {
+      const current = this.database.findTerm(name.value);
+      if (!this.matchesExpected(current, expectedCurrent)) {
+        return Result.failure(new ConcurrentModificationError('term', name.value));
+      }
+
+      return Result.success({ found: this.database.removeTerm(name.value) });
+    });
+  }
+
+  /**
+   * 指定された用語名のユビキタス言語情報が存在するかチェックする
+   */
+  async exists(name: TermName): Promise<Result<boolean, Error>> {
+    return this.database.read(() => this.database.findTerm(name.value) !== null);
+  }
+
+  /**
+   * ユビキタス言語情報の総数を取得する
+   */
+  async count(): Promise<Result<number, Error>> {
+    return this.database.read(() => this.database.countTerms());
+  }
+
+  /**
+   * 複数の用語名でユビキタス言語情報を一括取得する
+   */
+  async findByNames(names: readonly TermName[]): Promise<Result<{
+    readonly found: readonly Term[];
+    readonly notFound: readonly TermName[];
+  }, Error>> {
+    const found: Term[] = [];
+    const notFound: TermName[] = [];
+
+    for (const name of names) {
+      const findResult = await this.findByName(name);
+      if (!findResult.success) {
+        return Result.failure(findResult.error);
+      }
+
+      if (findResult.value.isSome) {
+        found.push(findResult.value.value);
+      } else {
+        notFound.push(name);
+      }
+    }
+
+    return Result.success({ found, notFound });
+  }
+
+  /**
+   * 指定した機能に関連するユビキタス言語情報を取得する
+   */
+  async findByAssociatedFunction(functionName: string): Promise<Result<readonly Term[], Error>> {
+    return this.findBy({ associatedFunction: functionName });
+  }
+
+  /**
+   * 指定したカテゴリのユビキタス言語情報を取得する
+   */
+  async findByCategory(category: string): Promise<Result<readonly Term[], Error>> {
+    return this.findBy({ category });
+  }
+
+  /**
+   * 指定した境界づけられたコンテキストのユビキタス言語情報を取得する
+   */
+  async findByBoundedContext(boundedContext: string): Promise<Result<readonly Term[], Error>> {
+    return this.findBy({ boundedContext });
+  }
+
+  /**
+   * 索引を使って条件に一致するユビキタス言語情報を取得する
+   */
+  private async findBy(criteria: TermCriteria): Promise<Result<readonly Term[], Error>> {
+    const dataResult = await this.database.read(() => this.database.findTermsBy(criteria));
+    if (!dataResult.success) {
+      return Result.failure(dataResult.error);
+    }
+
+    return this.toTerms(dataResult.value);
+  }
+
+  /**
+   * 保存されている内容をユビキタス言語情報に変換する
+   * 読み込めない項目がある場合は、全ての項目のエラーをまとめて失敗とする
+   */
+  private toTerms(termDataList: readonly TermData[]): Result<readonly Term[], Error> {
+    const terms: Term[] = [];
+    const errors: string[] = [];
+
+    for (const termData of termDataList) {
+      const termResult = Term.create(termData);
+      if (termResult.success) {
+        terms.push(termResult.value);
+      } else {
+        errors.push(`用語「${termData.term.name}」の読み込みに失敗: ${termResult.error.message}`);
+      }
+    }
+
+    if (errors.length > 0) {
+      return Result.failure(new Error(errors.join(', ')));
+    }
+
+    return Result.success(terms);
+  }
+
+  /**
+   * 保存済みの内容が期待する内容と一致するかを判定する
+   * キーの順序の違いは無視し、期待する内容が指定されていない場合は常に一致とみなす
+   */
+  private matchesExpected(current: TermData | null, expectedCurrent: TermData | null | undefined): boolean {
+    return expectedCurrent === undefined || CanonicalJson.equals(current, expectedCurrent);
+  }
+}
@@ -1,12 +1,7 @@
 import express from 'express';
 import cors from 'cors';
-import { FileSystemFeatureRepository } from '../persistence/FileSystemFeatureRepository.js';
-import { FileSystemTermRepository } from '../persistence/FileSystemTermRepository.js';
-import { AddOrUpdateFeatureUseCase } from '../../application/usecases/AddOrUpdateFeatureUseCase.js';
-import { DeleteFeatureUseCase } from '../../application/usecases/DeleteFeatureUseCase.js';
-import { AddOrUpdateTermUseCase } from '../../application/usecases/AddOrUpdateTermUseCase.js';
-import { DeleteTermUseCase } from '../../application/usecases/DeleteTermUseCase.js';
-import { GetDetailsUseCase } from '../../application/usecases/GetDetailsUseCase.js';
+import { WorkspaceRegistry } from '../workspace/WorkspaceRegistry.js';
+import { WorkspaceContext } from '../workspace/WorkspaceContext.js';
 import { RestHandlers } from '../../presentation/handlers/RestHandlers.js';
 import { CONFIG } from '../../shared/constants/config.js';
 import { MESSAGES } from '../../shared/constants/messages.js';
@@ -18,53 +13,15 @@ import { MESSAGES } from '../../shared/constants/messages.js';
  */
 export class RestServer {
   private readonly app: express.Application;
-  private readonly featureRepository: FileSystemFeatureRepository;
-  private readonly termRepository: FileSystemTermRepository;
-  private readonly addOrUpdateFeatureUseCase: AddOrUpdateFeatureUseCase;
-  private readonly deleteFeatureUseCase: DeleteFeatureUseCase;
-  private readonly addOrUpdateTermUseCase: AddOrUpdateTermUseCase;
-  private readonly deleteTermUseCase: DeleteTermUseCase;
-  private readonly getDetailsUseCase: GetDetailsUseCase;
-  private readonly restHandlers: RestHandlers;
+  private readonly restHandlers = new Map<string, RestHandlers>();
   private server?: any;
 
-  constructor() {
+  /**
+   * @param workspaces リクエストで指定できるワークスペースの一覧
+   */
+  constructor(private readonly workspaces: WorkspaceRegistry) {
     this.app = express();
 
-    // 依存関係の構築（下位レイヤーから上位レイヤーへ）
-    // インフラストラクチャ層（リポジトリ実装）
-    this.featureRepository = new FileSystemFeatureRepository();
-    this.termRepository = new FileSystemTermRepository();
-
-    // アプリケーション層（ユースケース）
-    this.addOrUpdateFeatureUseCase = new AddOrUpdateFeatureUseCase(
-      this.featureRepository
-    );
-    this.deleteFeatureUseCase = new DeleteFeatureUseCase(
-      this.featureRepository
-    );
-    this.addOrUpdateTermUseCase = new AddOrUpdateTermUseCase(
-      this.termRepository
-    );
-    this.deleteTermUseCase = new DeleteTermUseCase(
-      this.termRepository
-    );
-    this.getDetailsUseCase = new GetDetailsUseCase(
-      this.featureRepository,
-      this.termRepository
-    );
-
-    // プレゼンテーション層（ハンドラー）
-    this.restHandlers = new RestHandlers(
-      this.addOrUpdateFeatureUseCase,
-      this.deleteFeatureUseCase,
-      this.addOrUpdateTermUseCase,
-      this.deleteTermUseCase,
-      this.getDetailsUseCase,
-      this.featureRepository,
-      this.termRepository
-    );
-
     this.setupMiddleware();
     this.setupRoutes();
     this.setupErrorHandling();
@@ -79,10 +36,15 @@ export class RestServer {
       origin: CONFIG.REST_API.CORS.ORIGIN,
       methods: [...CONFIG.REST_API.CORS.METHODS],
       allowedHeaders: [...CONFIG.REST_API.CORS.ALLOWED_HEADERS],
+      exposedHeaders: [...CONFIG.REST_API.CORS.EXPOSED_HEADERS],
     }));
 
     // JSONパーサー
-    this.app.use(express.json({ limit: '10mb' }));
+    // JSON PatchとJSON Merge PatchのContent-Typeも受け付ける
+    this.app.use(express.json({
+      limit: '10mb',
+      type: [CONFIG.MIME_TYPES.JSON, CONFIG.MIME_TYPES.JSON_PATCH, CONFIG.MIME_TYPES.MERGE_PATCH],
+    }));
     this.app.use(express.urlencoded({ extended: true }));
 
     // リクエストログ
@@ -99,25 +61,71 @@ export class RestServer {
     const apiRouter = express.Router();
 
     // 機能定義関連
-    apiRouter.post('/features', this.restHandlers.addOrUpdateFeature.bind(this.restHandlers));
-    apiRouter.delete('/features/:name', this.restHandlers.deleteFeature.bind(this.restHandlers));
+    apiRouter.get('/features', this.route((handlers, req, res) => handlers.listFeatures(req, res)));
+    apiRouter.get('/features/:name', this.route((handlers, req, res) => handlers.getFeature(req, res)));
+    apiRouter.get('/features/:name/readiness', this.route((handlers, req, res) => handlers.getFeatureReadiness(req, res)));
+    apiRouter.post('/features', this.route((handlers, req, res) => handlers.addOrUpdateFeature(req, res)));
+    apiRouter.patch('/features/:name', this.route((handlers, req, res) => handlers.patchFeature(req, res)));
+    apiRouter.post('/features/:name/rename', this.route((handlers, req, res) => handlers.renameFeature(req, res)));
+    apiRouter.delete('/features/:name', this.route((handlers, req, res) => handlers.deleteFeature(req, res)));
 
     // ユビキタス言語関連
-    apiRouter.post('/terms', this.restHandlers.addOrUpdateTerm.bind(this.restHandlers));
-    apiRouter.delete('/terms/:name', this.restHandlers.deleteTerm.bind(this.restHandlers));
+    apiRouter.get('/terms', this.route((handlers, req, res) => handlers.listTerms(req, res)));
+    apiRouter.get('/terms/:name', this.route((handlers, req, res) => handlers.getTerm(req, res)));
+    apiRouter.post('/terms', this.route((handlers, req, res) => handlers.addOrUpdateTerm(req, res)));
+    apiRouter.patch('/terms/:name', this.route((handlers, req, res) => handlers.patchTerm(req, res)));
+    apiRouter.post('/terms/:name/rename', this.route((handlers, req, res) => handlers.renameTerm(req, res)));
+    apiRouter.delete('/terms/:name', this.route((handlers, req, res) => handlers.deleteTerm(req, res)));
+
+    // 変更履歴関連
+    for (const [collection, entityType] of [['features', 'feature'], ['terms', 'term']] as const) {
+      apiRouter.get(`/${collection}/:name/revisions`, this.route((handlers, req, res) =>
+        handlers.listRevisions(entityType, req, res)));
+      apiRouter.get(`/${collection}/:name/revisions/:revision`, this.route((handlers, req, res) =>
+        handlers.getRevision(entityType, req, res)));
+      apiRouter.post(`/${collection}/:name/revisions/:revision/restore`, this.route((handlers, req, res) =>
+        handlers.restoreRevision(entityType, req, res)));
+    }
+
+    // 機能定義の検証
+    apiRouter.get('/validation/features', this.route((handlers, req, res) => handlers.validateFeatures(req, res)));
+
+    // 設計書のlint
+    apiRouter.get('/lint', this.route((handlers, req, res) => handlers.lint(req, res)));
+
+    // 語彙の分析
+    apiRouter.get('/analysis/vocabulary', this.route((handlers, req, res) => handlers.analyzeVocabulary(req, res)));
 
     // 詳細情報取得
-    apiRouter.post('/details', this.restHandlers.getDetails.bind(this.restHandlers));
+    apiRouter.post('/details', this.route((handlers, req, res) => handlers.getDetails(req, res)));
+
+    // 検索
+    apiRouter.get('/search', this.route((handlers, req, res) => handlers.search(req, res)));
+
+    // 設計差分
+    apiRouter.post('/diff', this.route((handlers, req, res) => handlers.diff(req, res)));
 
     // リソース関連
-    apiRouter.get('/resources/features', this.restHandlers.getFeaturesList.bind(this.restHandlers));
-    apiRouter.get('/resources/terms', this.restHandlers.getTermsList.bind(this.restHandlers));
-    apiRouter.get('/resources/statistics', this.restHandlers.getStatistics.bind(this.restHandlers));
+    apiRouter.get('/resources/features', this.route((handlers, req, res) => handlers.getFeaturesList(req, res)));
+    apiRouter.get('/resources/terms', this.route((handlers, req, res) => handlers.getTermsList(req, res)));
+    apiRouter.get('/resources/statistics', this.route((handlers, req, res) => handlers.getStatistics(req, res)));
 
     // ヘルスチェック
-    apiRouter.get('/health', this.restHandlers.healthCheck.bind(this.restHandlers));
-
-    this.app.use(CONFIG.REST_API.BASE_PATH, apiRouter);
+    apiRouter.get('/health', this.route((handlers, req, res) => handlers.healthCheck(req, res)));
+
+    // ワークスペース関連
+    // パスの指定、ヘッダーの指定、既定のワークスペースの順に対象のワークスペースを決める
+    this.app.get(`${CONFIG.REST_API.BASE_PATH}/workspaces`, this.listWorkspaces.bind(this));
+    this.app.use(
+      `${CONFIG.REST_API.BASE_PATH}/workspaces/:workspace`,
+      (req, res, next) => this.selectWorkspace(req.params.workspace, res, next),
+      apiRouter
+    );
+    this.app.use(
+      CONFIG.REST_API.BASE_PATH,
+      (req, res, next) => this.selectWorkspace(req.get(CONFIG.WORKSPACE.HEADER) ?? this.workspaces.selectedWorkspace, res, next),
+      apiRouter
+    );
 
     // ルート情報の表示
     this.app.get('/', (req, res) => {
@@ -126,20 +134,124 @@ export class RestServer {
         version: CONFIG.SERVER.VERSION,
         description: 'clineサポート用REST APIサーバー',
         endpoints: {
+          'GET /api/features': '機能定義の取得（JSON / Markdown / HTML）',
+          'GET /api/features/:name': '機能定義の個別取得（JSON / Markdown / HTML）',
+          'GET /api/features/:name/readiness': '機能定義の実装準備度と確認項目の取得',
           'POST /api/features': '機能定義の追加・更新',
+          'PATCH /api/features/:name': '機能定義の部分更新（JSON Patch / JSON Merge Patch）',
+          'POST /api/features/:name/rename': '機能定義の名前変更（参照の書き換えを含む）',
           'DELETE /api/features/:name': '機能定義の削除',
+          'GET /api/terms?category=&boundedContext=&feature=': 'ユビキタス言語の絞り込み取得（JSON / Markdown / HTML）',
+          'GET /api/terms/:name': 'ユビキタス言語の個別取得（JSON / Markdown / HTML）',
           'POST /api/terms': 'ユビキタス言語の追加・更新',
+          'PATCH /api/terms/:name': 'ユビキタス言語の部分更新（JSON Patch / JSON Merge Patch）',
+          'POST /api/terms/:name/rename': 'ユビキタス言語の名前変更（参照の書き換えを含む）',
           'DELETE /api/terms/:name': 'ユビキタス言語の削除',
+          'GET /api/features/:name/revisions': '機能定義の変更履歴一覧の取得',
+          'GET /api/features/:name/revisions/:revision': '機能定義の特定リビジョンの取得',
+          'POST /api/features/:name/revisions/:revision/restore': '機能定義の特定リビジョンへの復元',
+          'GET /api/terms/:name/revisions': 'ユビキタス言語の変更履歴一覧の取得',
+          'GET /api/terms/:name/revisions/:revision': 'ユビキタス言語の特定リビジョンの取得',
+          'POST /api/terms/:name/revisions/:revision/restore': 'ユビキタス言語の特定リビジョンへの復元',
+          'GET /api/validation/features?names=': '機能定義内の参照（ステップ・入力・出力・エラーハンドリング）の検証',
+          'GET /api/lint?entityType=&name=': '設計書の品質のルールによるlint（項目ごとの指摘）',
+          'GET /api/analysis/vocabulary?names=&minOccurrences=': '機能定義で使われている未定義の語彙（用語の候補）の検出',
           'POST /api/details': '詳細情報の取得',
+          'POST /api/diff': '設計差分の取得',
+          'GET /api/search?q=': '機能定義・ユビキタス言語の横断検索',
           'GET /api/resources/features': '機能定義一覧の取得',
           'GET /api/resources/terms': 'ユビキタス言語一覧の取得',
-          'GET /api/resources/statistics': '統計情報の取得',
+          'GET /api/resources/statistics': '統計情報の取得（内訳・健全性の指標・推移・実装準備度の集計を含む）',
           'GET /api/health': 'ヘルスチェック',
+          'GET /api/workspaces': 'ワークスペース一覧の取得',
+          '/api/workspaces/:workspace/...': '指定したワークスペースでの各エンドポイントの利用（X-Workspaceヘッダーでも指定可能）',
         },
       });
     });
   }
 
+  /**
+   * リクエストの対象のワークスペースのハンドラーで処理するリクエストハンドラーを作成する
+   */
+  private route(
+    action: (handlers: RestHandlers, req: express.Request, res: express.Response) => Promise<void>
+  ): express.RequestHandler {
+    return (req, res) => action(res.locals.restHandlers as RestHandlers, req, res);
+  }
+
+  /**
+   * リクエストの対象のワークスペースを選択する
+   * 存在しないワークスペースが指定された場合は404を返す
+   */
+  private selectWorkspace(name: string, res: express.Response, next: express.NextFunction): void {
+    const workspaceResult = this.workspaces.open(name);
+    if (!workspaceResult.success) {
+      res.status(404).json({
+        error: 'Workspace Not Found',
+        message: workspaceResult.error.message,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    res.locals.restHandlers = this.handlersFor(workspaceResult.value);
+    res.setHeader(CONFIG.WORKSPACE.HEADER, name);
+    next();
+  }
+
+  /**
+   * ワークスペースのハンドラーを取得する（初回のみ組み立てる）
+   */
+  private handlersFor(workspace: WorkspaceContext): RestHandlers {
+    const cached = this.restHandlers.get(workspace.name);
+    if (cached) {
+      return cached;
+    }
+
+    // プレゼンテーション層（ハンドラー）
+    const handlers = new RestHandlers(
+      workspace.addOrUpdateFeatureUseCase,
+      workspace.deleteFeatureUseCase,
+      workspace.addOrUpdateTermUseCase,
+      workspace.deleteTermUseCase,
+      workspace.getDetailsUseCase,
+      workspace.featureRepository,
+      workspace.termRepository,
+      workspace.getRevisionHistoryUseCase,
+      workspace.restoreRevisionUseCase,
+      workspace.diffDesignUseCase,
+      workspace.searchDesignUseCase,
+      workspace.listTermsUseCase,
+      workspace.patchFeatureUseCase,
+      workspace.patchTermUseCase,
+      workspace.renameFeatureUseCase,
+      workspace.renameTermUseCase,
+      workspace.validateFeaturesUseCase,
+      workspace.lintDesignUseCase,
+      workspace.getFeatureReadinessUseCase,
+      workspace.getStatisticsUseCase,
+      workspace.analyzeVocabularyUseCase,
+      workspace.revisionTracker
+    );
+    this.restHandlers.set(workspace.name, handlers);
+    return handlers;
+  }
+
+  /**
+   * ワークスペース一覧の取得処理
+   */
+  private listWorkspaces(req: express.Request, res: express.Response): void {
+    res.status(200).json({
+      success: true,
+      message: 'ワークスペース一覧を取得しました',
+      data: this.workspaces.list().map(workspace => ({
+        name: workspace.name,
+        isDefault: workspace.name === this.workspaces.selectedWorkspace,
+      })),
+      timestamp: new Date().toISOString(),
+    });
+  }
+
   /**
    * エラーハンドリングの設定
    */
@@ -209,15 +321,29 @@ export class RestServer {
    */
   private async initializeData(): Promise<void> {
     try {
+      const workspace = this.openSelectedWorkspace();
+      console.log(MESSAGES.INFO.WORKSPACE_SELECTED(workspace.name, workspace.dataDirectory));
+
+      // 古いスキーマの設計書は、バックアップを取った上で移行する
+      const upgradeResult = await workspace.designStorage.backend.upgrade();
+      if (!upgradeResult.success) {
+        console.error('設計書のスキーマの移行に失敗:', upgradeResult.error.message);
+        return;
+      }
+      if (upgradeResult.value.backupPath !== null) {
+        const { fromVersion, toVersion, backupPath } = upgradeResult.value;
+        console.log(MESSAGES.INFO.SCHEMA_UPGRADED(fromVersion, toVersion, backupPath));
+      }
+
       // 機能定義の統計取得（ファイル存在確認も兼ねる）
-      const featureCountResult = await this.featureRepository.count();
+      const featureCountResult = await workspace.featureRepository.count();
       if (!featureCountResult.success) {
         console.error('機能定義の初期化に失敗:', featureCountResult.error.message);
         return;
       }
 
       // ユビキタス言語情報の統計取得
-      const termCountResult = await this.termRepository.count();
+      const termCountResult = await workspace.termRepository.count();
       if (!termCountResult.success) {
         console.error('ユビキタス言語情報の初期化に失敗:', termCountResult.error.message);
         return;
@@ -237,6 +363,18 @@ export class RestServer {
     }
   }
 
+  /**
+   * 既定のワークスペースを開く
+   */
+  private openSelectedWorkspace(): WorkspaceContext {
+    const workspaceResult = this.workspaces.open();
+    if (!workspaceResult.success) {
+      throw workspaceResult.error;
+    }
+
+    return workspaceResult.value;
+  }
+
   /**
    * サーバーの正常停止
    */
@@ -267,9 +405,10 @@ export class RestServer {
     };
   }> {
     try {
-      // リポジトリの接続確認
-      const featureCountResult = await this.featureRepository.count();
-      const termCountResult = await this.termRepository.count();
+      // 既定のワークスペースのリポジトリの接続確認
+      const workspace = this.openSelectedWorkspace();
+      const featureCountResult = await workspace.featureRepository.count();
+      const termCountResult = await workspace.termRepository.count();
 
       const featureRepoHealthy = featureCountResult.success;
       const termRepoHealthy = termCountResult.success;
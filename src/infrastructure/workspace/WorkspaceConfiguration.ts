@@ -0,0 +1,182 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { WorkspaceNotFoundError } from '../../domain/errors/WorkspaceNotFoundError.js';
+import { Result, Option } from '../../shared/types/functional.js';
+import { CONFIG } from '../../shared/constants/config.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * コマンドライン引数によるワークスペースの指定
+ * 省略した項目は環境変数、設定ファイルの順に補う
+ */
+export interface WorkspaceOptions {
+  readonly dataDirectory?: string;
+  readonly workspace?: string;
+  readonly configFile?: string;
+}
+
+/**
+ * ワークスペースの定義
+ */
+export interface WorkspaceDefinition {
+  readonly name: string;
+  /** 設計書と変更履歴を保存するデータディレクトリ（絶対パス） */
+  readonly dataDirectory: string;
+}
+
+/**
+ * 設定ファイルの内容（パスは設定ファイルのディレクトリを基準に解決済み）
+ */
+interface WorkspaceConfigFile {
+  readonly dataDirectory?: string;
+  readonly defaultWorkspace?: string;
+  readonly workspaces: readonly WorkspaceDefinition[];
+}
+
+/**
+ * ワークスペースの設定
+ * データディレクトリに対応する既定のワークスペースと、設定ファイルで定義した名前付きのワークスペースを扱う
+ */
+export class WorkspaceConfiguration {
+  private constructor(
+    readonly workspaces: readonly WorkspaceDefinition[],
+    readonly selectedWorkspace: string
+  ) {}
+
+  /**
+   * コマンドライン引数・環境変数・設定ファイルの順に優先してワークスペースの設定を読み込む
+   */
+  static async load(options: WorkspaceOptions = {}): Promise<Result<WorkspaceConfiguration, Error>> {
+    const configFileResult = await WorkspaceConfiguration.readConfigFile(
+      options.configFile ?? CONFIG.WORKSPACE.CONFIG_FILE
+    );
+    if (!configFileResult.success) {
+      return Result.failure(configFileResult.error);
+    }
+    const configFile = configFileResult.value;
+
+    const dataDirectory = options.dataDirectory ?? CONFIG.WORKSPACE.DATA_DIRECTORY;
+    const workspaces: readonly WorkspaceDefinition[] = [
+      {
+        name: CONFIG.WORKSPACE.DEFAULT_NAME,
+        dataDirectory: dataDirectory !== undefined
+          ? path.resolve(dataDirectory)
+          : configFile.dataDirectory ?? WorkspaceConfiguration.resolveDefaultDataDirectory(),
+      },
+      ...configFile.workspaces,
+    ];
+
+    const selectedWorkspace = options.workspace
+      ?? CONFIG.WORKSPACE.SELECTED
+      ?? configFile.defaultWorkspace
+      ?? CONFIG.WORKSPACE.DEFAULT_NAME;
+    if (!workspaces.some(workspace => workspace.name === selectedWorkspace)) {
+      return Result.failure(new WorkspaceNotFoundError(selectedWorkspace, workspaces.map(workspace => workspace.name)));
+    }
+
+    return Result.success(new WorkspaceConfiguration(workspaces, selectedWorkspace));
+  }
+
+  /**
+   * インストール先のデータディレクトリを取得する
+   */
+  static resolveDefaultDataDirectory(): string {
+    const rootPath = path.resolve(__dirname, '../../../');
+    return path.resolve(rootPath, CONFIG.PATHS.DATA_DIRECTORY);
+  }
+
+  /**
+   * 指定した名前のワークスペースを取得する
+   */
+  find(name: string): Option<WorkspaceDefinition> {
+    const workspace = this.workspaces.find(candidate => candidate.name === name);
+    return workspace ? Option.some(workspace) : Option.none();
+  }
+
+  /**
+   * 既定で使用するワークスペースを取得する
+   */
+  get selected(): WorkspaceDefinition {
+    return this.workspaces.find(workspace => workspace.name === this.selectedWorkspace) as WorkspaceDefinition;
+  }
+
+  /**
+   * ワークスペース名の一覧を取得する
+   */
+  get names(): readonly string[] {
+    return this.workspaces.map(workspace => workspace.name);
+  }
+
+  /**
+   * 設定ファイルを読み込む
+   * 作業ディレクトリの既定の設定ファイルは任意のため、存在しない場合は空の設定として扱う
+   */
+  private static async readConfigFile(configFile: string | undefined): Promise<Result<WorkspaceConfigFile, Error>> {
+    const filePath = path.resolve(configFile ?? CONFIG.PATHS.WORKSPACE_CONFIG_FILE);
+
+    let content: unknown;
+    try {
+      content = JSON.parse(await fs.readFile(filePath, CONFIG.ENCODING.UTF8));
+    } catch (error) {
+      if (configFile === undefined && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return Result.success({ workspaces: [] });
+      }
+
+      return Result.failure(new Error(MESSAGES.ERROR.WORKSPACE_CONFIG_LOAD_FAILED(
+        filePath,
+        error instanceof Error ? error.message : String(error)
+      )));
+    }
+
+    return WorkspaceConfiguration.parseConfigFile(filePath, content);
+  }
+
+  /**
+   * 設定ファイルの内容を検証し、パスを設定ファイルのディレクトリを基準に解決する
+   */
+  private static parseConfigFile(filePath: string, content: unknown): Result<WorkspaceConfigFile, Error> {
+    const invalid = (field: string, expected: string) =>
+      Result.failure(new Error(MESSAGES.ERROR.WORKSPACE_CONFIG_INVALID_FIELD(filePath, field, expected)));
+    const isPath = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+    const baseDirectory = path.dirname(filePath);
+
+    if (typeof content !== 'object' || content === null || Array.isArray(content)) {
+      return invalid('全体', 'オブジェクト');
+    }
+    const { dataDirectory, defaultWorkspace, workspaces = {} } = content as Record<string, unknown>;
+
+    if (dataDirectory !== undefined && !isPath(dataDirectory)) {
+      return invalid('dataDirectory', 'ディレクトリのパス');
+    }
+    if (defaultWorkspace !== undefined && typeof defaultWorkspace !== 'string') {
+      return invalid('defaultWorkspace', 'ワークスペース名');
+    }
+    if (typeof workspaces !== 'object' || workspaces === null || Array.isArray(workspaces)) {
+      return invalid('workspaces', 'ワークスペース名とディレクトリのパスの組');
+    }
+
+    const definitions: WorkspaceDefinition[] = [];
+    for (const [name, workspaceDirectory] of Object.entries(workspaces)) {
+      if (name === CONFIG.WORKSPACE.DEFAULT_NAME) {
+        return Result.failure(new Error(MESSAGES.ERROR.RESERVED_WORKSPACE_NAME(name)));
+      }
+      if (!CONFIG.WORKSPACE.NAME_PATTERN.test(name)) {
+        return Result.failure(new Error(MESSAGES.ERROR.INVALID_WORKSPACE_NAME(name)));
+      }
+      if (!isPath(workspaceDirectory)) {
+        return invalid(`workspaces.${name}`, 'ディレクトリのパス');
+      }
+      definitions.push({ name, dataDirectory: path.resolve(baseDirectory, workspaceDirectory) });
+    }
+
+    return Result.success({
+      dataDirectory: dataDirectory !== undefined ? path.resolve(baseDirectory, dataDirectory) : undefined,
+      defaultWorkspace,
+      workspaces: definitions,
+    });
+  }
+}
@@ -0,0 +1,197 @@
+import path from 'path';
+import { DesignStorage } from '../persistence/DesignStorage.js';
+import { FileSystemRevisionRepository } from '../persistence/FileSystemRevisionRepository.js';
+import { FileSystemCodingRuleRepository } from '../persistence/FileSystemCodingRuleRepository.js';
+import { FileSystemLintConfigRepository } from '../persistence/FileSystemLintConfigRepository.js';
+import { IFeatureRepository } from '../../domain/repositories/IFeatureRepository.js';
+import { ITermRepository } from '../../domain/repositories/ITermRepository.js';
+import { IDesignChangeSetRepository } from '../../domain/repositories/IDesignChangeSetRepository.js';
+import { RevisionRecorder } from '../../application/services/RevisionRecorder.js';
+import { RevisionTracker } from '../../application/services/RevisionTracker.js';
+import { EntityNameResolver } from '../../application/services/EntityNameResolver.js';
+import { AddOrUpdateFeatureUseCase } from '../../application/usecases/AddOrUpdateFeatureUseCase.js';
+import { DeleteFeatureUseCase } from '../../application/usecases/DeleteFeatureUseCase.js';
+import { AddOrUpdateTermUseCase } from '../../application/usecases/AddOrUpdateTermUseCase.js';
+import { DeleteTermUseCase } from '../../application/usecases/DeleteTermUseCase.js';
+import { GetDetailsUseCase } from '../../application/usecases/GetDetailsUseCase.js';
+import { GetRevisionHistoryUseCase } from '../../application/usecases/GetRevisionHistoryUseCase.js';
+import { RestoreRevisionUseCase } from '../../application/usecases/RestoreRevisionUseCase.js';
+import { DiffDesignUseCase } from '../../application/usecases/DiffDesignUseCase.js';
+import { SearchDesignUseCase } from '../../application/usecases/SearchDesignUseCase.js';
+import { ListTermsUseCase } from '../../application/usecases/ListTermsUseCase.js';
+import { PatchFeatureUseCase } from '../../application/usecases/PatchFeatureUseCase.js';
+import { PatchTermUseCase } from '../../application/usecases/PatchTermUseCase.js';
+import { RenameFeatureUseCase } from '../../application/usecases/RenameFeatureUseCase.js';
+import { RenameTermUseCase } from '../../application/usecases/RenameTermUseCase.js';
+import { GetImplementationContextUseCase } from '../../application/usecases/GetImplementationContextUseCase.js';
+import { ValidateFeaturesUseCase } from '../../application/usecases/ValidateFeaturesUseCase.js';
+import { LintDesignUseCase } from '../../application/usecases/LintDesignUseCase.js';
+import { GetFeatureReadinessUseCase } from '../../application/usecases/GetFeatureReadinessUseCase.js';
+import { GetStatisticsUseCase } from '../../application/usecases/GetStatisticsUseCase.js';
+import { AnalyzeVocabularyUseCase } from '../../application/usecases/AnalyzeVocabularyUseCase.js';
+import { CONFIG } from '../../shared/constants/config.js';
+import { WorkspaceDefinition } from './WorkspaceConfiguration.js';
+
+/**
+ * ワークスペースごとの依存関係
+ * ワークスペースのデータディレクトリを保存先として、リポジトリからユースケースまでを組み立てる
+ */
+export class WorkspaceContext {
+  readonly name: string;
+  readonly dataDirectory: string;
+  readonly designStorage: DesignStorage;
+  readonly featureRepository: IFeatureRepository;
+  readonly termRepository: ITermRepository;
+  readonly revisionRepository: FileSystemRevisionRepository;
+  readonly changeSetRepository: IDesignChangeSetRepository;
+  readonly codingRuleRepository: FileSystemCodingRuleRepository;
+  readonly lintConfigRepository: FileSystemLintConfigRepository;
+  readonly revisionRecorder: RevisionRecorder;
+  readonly revisionTracker: RevisionTracker;
+  readonly entityNameResolver: EntityNameResolver;
+  readonly addOrUpdateFeatureUseCase: AddOrUpdateFeatureUseCase;
+  readonly deleteFeatureUseCase: DeleteFeatureUseCase;
+  readonly addOrUpdateTermUseCase: AddOrUpdateTermUseCase;
+  readonly deleteTermUseCase: DeleteTermUseCase;
+  readonly getDetailsUseCase: GetDetailsUseCase;
+  readonly getRevisionHistoryUseCase: GetRevisionHistoryUseCase;
+  readonly restoreRevisionUseCase: RestoreRevisionUseCase;
+  readonly diffDesignUseCase: DiffDesignUseCase;
+  readonly searchDesignUseCase: SearchDesignUseCase;
+  readonly listTermsUseCase: ListTermsUseCase;
+  readonly patchFeatureUseCase: PatchFeatureUseCase;
+  readonly patchTermUseCase: PatchTermUseCase;
+  readonly renameFeatureUseCase: RenameFeatureUseCase;
+  readonly renameTermUseCase: RenameTermUseCase;
+  readonly getImplementationContextUseCase: GetImplementationContextUseCase;
+  readonly validateFeaturesUseCase: ValidateFeaturesUseCase;
+  readonly lintDesignUseCase: LintDesignUseCase;
+  readonly getFeatureReadinessUseCase: GetFeatureReadinessUseCase;
+  readonly getStatisticsUseCase: GetStatisticsUseCase;
+  readonly analyzeVocabularyUseCase: AnalyzeVocabularyUseCase;
+
+  constructor(workspace: WorkspaceDefinition) {
+    this.name = workspace.name;
+    this.dataDirectory = workspace.dataDirectory;
+
+    // インフラストラクチャ層（リポジトリ実装）
+    // 各リポジトリで同一の保存先を共有し、設計書への書き込みを直列化する
+    this.designStorage = DesignStorage.openIn(workspace.dataDirectory);
+    this.featureRepository = this.designStorage.featureRepository;
+    this.termRepository = this.designStorage.termRepository;
+    this.revisionRepository = FileSystemRevisionRepository.forDesignDocument(this.designStorage.path);
+    this.changeSetRepository = this.designStorage.changeSetRepository;
+    this.codingRuleRepository = FileSystemCodingRuleRepository.forDataDirectory(workspace.dataDirectory);
+    this.lintConfigRepository = new FileSystemLintConfigRepository(
+      path.join(workspace.dataDirectory, CONFIG.PATHS.LINT_CONFIG_FILE)
+    );
+
+    // アプリケーション層（サービス）
+    this.revisionRecorder = new RevisionRecorder(this.revisionRepository);
+    this.revisionTracker = new RevisionTracker(this.revisionRepository);
+    this.entityNameResolver = new EntityNameResolver(this.termRepository);
+
+    // アプリケーション層（ユースケース）
+    this.addOrUpdateFeatureUseCase = new AddOrUpdateFeatureUseCase(
+      this.featureRepository,
+      this.revisionRecorder,
+      this.revisionTracker
+    );
+    this.deleteFeatureUseCase = new DeleteFeatureUseCase(
+      this.featureRepository,
+      this.termRepository,
+      this.changeSetRepository,
+      this.revisionRecorder,
+      this.revisionTracker
+    );
+    this.addOrUpdateTermUseCase = new AddOrUpdateTermUseCase(
+      this.termRepository,
+      this.featureRepository,
+      this.revisionRecorder,
+      this.revisionTracker
+    );
+    this.deleteTermUseCase = new DeleteTermUseCase(
+      this.termRepository,
+      this.changeSetRepository,
+      this.revisionRecorder,
+      this.revisionTracker
+    );
+    this.getDetailsUseCase = new GetDetailsUseCase(
+      this.featureRepository,
+      this.termRepository,
+      this.revisionTracker
+    );
+    this.getRevisionHistoryUseCase = new GetRevisionHistoryUseCase(
+      this.revisionRepository,
+      this.entityNameResolver
+    );
+    this.restoreRevisionUseCase = new RestoreRevisionUseCase(
+      this.revisionRepository,
+      this.revisionTracker,
+      this.entityNameResolver,
+      this.addOrUpdateFeatureUseCase,
+      this.addOrUpdateTermUseCase,
+      this.deleteFeatureUseCase,
+      this.deleteTermUseCase
+    );
+    this.diffDesignUseCase = new DiffDesignUseCase(
+      this.featureRepository,
+      this.termRepository
+    );
+    this.searchDesignUseCase = new SearchDesignUseCase(
+      this.featureRepository,
+      this.termRepository
+    );
+    this.listTermsUseCase = new ListTermsUseCase(
+      this.termRepository
+    );
+    this.patchFeatureUseCase = new PatchFeatureUseCase(
+      this.featureRepository,
+      this.addOrUpdateFeatureUseCase
+    );
+    this.patchTermUseCase = new PatchTermUseCase(
+      this.termRepository,
+      this.addOrUpdateTermUseCase
+    );
+    this.renameFeatureUseCase = new RenameFeatureUseCase(
+      this.featureRepository,
+      this.termRepository,
+      this.changeSetRepository,
+      this.revisionRecorder,
+      this.revisionTracker
+    );
+    this.renameTermUseCase = new RenameTermUseCase(
+      this.featureRepository,
+      this.termRepository,
+      this.changeSetRepository,
+      this.revisionRecorder,
+      this.revisionTracker
+    );
+    this.getImplementationContextUseCase = new GetImplementationContextUseCase(
+      this.featureRepository,
+      this.termRepository,
+      this.codingRuleRepository
+    );
+    this.validateFeaturesUseCase = new ValidateFeaturesUseCase(
+      this.featureRepository
+    );
+    this.lintDesignUseCase = new LintDesignUseCase(
+      this.featureRepository,
+      this.termRepository,
+      this.lintConfigRepository
+    );
+    this.getFeatureReadinessUseCase = new GetFeatureReadinessUseCase(
+      this.featureRepository,
+      this.termRepository
+    );
+    this.getStatisticsUseCase = new GetStatisticsUseCase(
+      this.featureRepository,
+      this.termRepository,
+      this.revisionRepository
+    );
+    this.analyzeVocabularyUseCase = new AnalyzeVocabularyUseCase(
+      this.featureRepository,
+      this.termRepository
+    );
+  }
+}
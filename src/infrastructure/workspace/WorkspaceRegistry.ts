@@ -0,0 +1,50 @@
+import { WorkspaceNotFoundError } from '../../domain/errors/WorkspaceNotFoundError.js';
+import { Result } from '../../shared/types/functional.js';
+import { WorkspaceConfiguration, WorkspaceDefinition } from './WorkspaceConfiguration.js';
+import { WorkspaceContext } from './WorkspaceContext.js';
+
+/**
+ * ワークスペースの一覧
+ * 初めて使用する時にワークスペースの依存関係を組み立て、以降は同じものを再利用する
+ */
+export class WorkspaceRegistry {
+  private readonly contexts = new Map<string, WorkspaceContext>();
+
+  constructor(
+    private readonly configuration: WorkspaceConfiguration
+  ) {}
+
+  /**
+   * 既定で使用するワークスペース名を取得する
+   */
+  get selectedWorkspace(): string {
+    return this.configuration.selectedWorkspace;
+  }
+
+  /**
+   * 設定されている全てのワークスペースを取得する
+   */
+  list(): readonly WorkspaceDefinition[] {
+    return this.configuration.workspaces;
+  }
+
+  /**
+   * 指定した名前のワークスペースを開く
+   * @param name ワークスペース名（省略時は既定で使用するワークスペース）
+   */
+  open(name: string = this.selectedWorkspace): Result<WorkspaceContext, Error> {
+    const cached = this.contexts.get(name);
+    if (cached) {
+      return Result.success(cached);
+    }
+
+    const workspace = this.configuration.find(name);
+    if (!workspace.isSome) {
+      return Result.failure(new WorkspaceNotFoundError(name, this.configuration.names));
+    }
+
+    const context = new WorkspaceContext(workspace.value);
+    this.contexts.set(name, context);
+    return Result.success(context);
+  }
+}
@@ -0,0 +1,83 @@
+#!/usr/bin/env node
+
+/**
+ * 設計書の保存先の移行コマンド
+ *
+ * 使い方: npm run migrate -- --from <json|sqlite|directory> --to <json|sqlite|directory> [--force]
+ *         [--data-dir <ディレクトリ>] [--workspace <ワークスペース名>] [--config <設定ファイル>]
+ * - --from: 移行元の保存先
+ * - --to: 移行先の保存先
+ * - --force: 移行先に既にデータがある場合も上書きする
+ * - --data-dir・--workspace・--config: 移行するワークスペース（サーバーの起動時と同じ指定方法）
+ */
+
+import { parseArgs } from 'util';
+import { DesignStorage } from './infrastructure/persistence/DesignStorage.js';
+import { DesignStorageMigrator } from './infrastructure/persistence/DesignStorageMigrator.js';
+import { WorkspaceConfiguration } from './infrastructure/workspace/WorkspaceConfiguration.js';
+import { MESSAGES } from './shared/constants/messages.js';
+
+async function main() {
+  let values: {
+    from?: string;
+    to?: string;
+    force?: boolean;
+    'data-dir'?: string;
+    workspace?: string;
+    config?: string;
+  };
+  try {
+    ({ values } = parseArgs({
+      options: {
+        from: { type: 'string' },
+        to: { type: 'string' },
+        force: { type: 'boolean', default: false },
+        'data-dir': { type: 'string' },
+        workspace: { type: 'string' },
+        config: { type: 'string' },
+      },
+    }));
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    console.error(MESSAGES.INFO.MIGRATION_USAGE());
+    process.exit(1);
+  }
+
+  const { from, to, force } = values;
+  if (from === undefined || to === undefined) {
+    console.error(MESSAGES.INFO.MIGRATION_USAGE());
+    process.exit(1);
+  }
+
+  if (!DesignStorage.isValidKind(from) || !DesignStorage.isValidKind(to)) {
+    console.error(MESSAGES.ERROR.INVALID_STORAGE_KIND(DesignStorage.isValidKind(from) ? to : from));
+    process.exit(1);
+  }
+
+  const configurationResult = await WorkspaceConfiguration.load({
+    dataDirectory: values['data-dir'],
+    workspace: values.workspace,
+    configFile: values.config,
+  });
+  if (!configurationResult.success) {
+    console.error(configurationResult.error.message);
+    process.exit(1);
+  }
+  const { dataDirectory } = configurationResult.value.selected;
+
+  const migrator = new DesignStorageMigrator();
+  const result = await migrator.migrate(
+    DesignStorage.openIn(dataDirectory, from),
+    DesignStorage.openIn(dataDirectory, to),
+    { force }
+  );
+  if (!result.success) {
+    console.error(MESSAGES.ERROR.MIGRATION_FAILED(result.error.message));
+    process.exit(1);
+  }
+
+  const { sourcePath, targetPath, featureCount, termCount } = result.value;
+  console.log(MESSAGES.INFO.MIGRATION_COMPLETED(sourcePath, targetPath, featureCount, termCount));
+}
+
+main();
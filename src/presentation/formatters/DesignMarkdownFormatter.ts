@@ -0,0 +1,131 @@
+import { FeatureData, TermData } from '../../domain/types.js';
+
+/**
+ * 機能定義・ユビキタス言語情報を読みやすいMarkdownに整形するフォーマッター
+ * MCPクライアントにコンテキストとして添付するリソースの表示に使用
+ */
+export class DesignMarkdownFormatter {
+  /**
+   * 機能定義をMarkdownに整形する
+   */
+  formatFeature(data: FeatureData): string {
+    const sections = [
+      `# 機能定義: ${data.feature.name}`,
+      `## 目的\n\n${data.feature.purpose}`,
+      this.section('ユーザーストーリー', this.bulletList(data.feature.userStories)),
+      this.section('入力', this.bulletList(data.inputs.map(input =>
+        `**${input.name}**（${input.dataTypeDescription}）: ${input.purpose}${this.formatConstraints(input.constraints)}`
+      ))),
+      this.section('出力', this.bulletList(data.outputs.map(output =>
+        `**${output.condition}**: ${output.dataDescription}${this.formatStructure(output.structureHint)}`
+      ))),
+      this.section('処理手順', data.coreLogicSteps
+        .slice()
+        .sort((a, b) => a.stepNumber - b.stepNumber)
+        .map(step => {
+          const io = [
+            step.inputs.length > 0 ? `入力: ${step.inputs.join(', ')}` : '',
+            step.output ? `出力: ${step.output}` : '',
+          ].filter(Boolean).join(' / ');
+          return `${step.stepNumber}. ${step.description}${io ? `（${io}）` : ''}`;
+        })
+        .join('\n')),
+      this.section('エラーハンドリング', this.bulletList(data.errorHandling.map(error =>
+        `**${error.errorCondition}**（検出箇所: ${error.detectionPoint}）: ${error.handlingStrategyDescription} → ${error.resultingOutputCondition}`
+      ))),
+      this.section('非機能要件', this.bulletList(data.nonFunctionalRequirements.map(requirement =>
+        `**${requirement.requirement}**: ${requirement.considerationsForLogic}`
+      ))),
+      this.section('補足', this.bulletList(data.documentationNotes)),
+    ];
+
+    return `${sections.filter(Boolean).join('\n\n')}\n`;
+  }
+
+  /**
+   * ユビキタス言語情報をMarkdownに整形する
+   */
+  formatTerm(data: TermData): string {
+    const sections = [
+      `# ユビキタス言語: ${data.term.name}`,
+      `## 定義\n\n${data.term.definition}`,
+      this.bulletList([
+        data.term.aliases.length > 0 ? `別名: ${data.term.aliases.join(', ')}` : '',
+        `境界づけられたコンテキスト: ${data.term.context.boundedContext}`,
+        `適用範囲: ${data.term.context.scope}`,
+        `カテゴリ: ${data.details.category}`,
+      ].filter(Boolean)),
+      this.section('用例', this.bulletList(data.details.examples.map(example =>
+        `**${example.scenario}**: ${example.description}`
+      ))),
+      this.section('曖昧さと境界', this.bulletList(data.details.ambiguitiesAndBoundaries)),
+      this.section('関連用語', this.bulletList(data.relationships.relatedTerms.map(related =>
+        `${related.termName}（${related.relationshipType}）`
+      ))),
+      this.section('関連機能', this.bulletList(data.relationships.associatedFunctions)),
+      this.section('実装', [
+        data.implementation.codeMapping ? `コード上の対応: \`${data.implementation.codeMapping}\`` : '',
+        this.bulletList(data.implementation.constraints.map(constraint => `制約: ${constraint}`)),
+        this.formatStructure(data.implementation.dataStructureHint).trim(),
+      ].filter(Boolean).join('\n\n')),
+    ];
+
+    return `${sections.filter(Boolean).join('\n\n')}\n`;
+  }
+
+  /**
+   * 機能定義の一覧を1つのMarkdown文書に整形する
+   */
+  formatFeatures(features: readonly FeatureData[]): string {
+    return this.formatCollection(`機能定義一覧（${features.length}件）`, features.map(feature => this.formatFeature(feature)));
+  }
+
+  /**
+   * ユビキタス言語情報の一覧を1つのMarkdown文書に整形する
+   */
+  formatTerms(terms: readonly TermData[]): string {
+    return this.formatCollection(`ユビキタス言語一覧（${terms.length}件）`, terms.map(term => this.formatTerm(term)));
+  }
+
+  /**
+   * 項目ごとのMarkdownを、見出しを1段下げて一覧の文書にまとめる
+   */
+  private formatCollection(title: string, documents: readonly string[]): string {
+    const body = documents
+      .map(document => document.trimEnd().replace(/^(#+) /gm, '#$1 '))
+      .join('\n\n---\n\n');
+
+    return `# ${title}\n${body ? `\n${body}\n` : ''}`;
+  }
+
+  /**
+   * 見出し付きのセクションを作成する
+   * 本文が空の場合は空文字列を返す
+   */
+  private section(title: string, body: string): string {
+    return body ? `## ${title}\n\n${body}` : '';
+  }
+
+  /**
+   * 箇条書きを作成する
+   */
+  private bulletList(items: readonly string[]): string {
+    return items.map(item => `- ${item}`).join('\n');
+  }
+
+  /**
+   * 制約を括弧書きの補足に整形する
+   */
+  private formatConstraints(constraints: readonly string[]): string {
+    return constraints.length > 0 ? `（制約: ${constraints.join(', ')}）` : '';
+  }
+
+  /**
+   * 構造のヒントをJSONのコードブロックに整形する
+   */
+  private formatStructure(structure: Readonly<Record<string, any>>): string {
+    return Object.keys(structure).length > 0
+      ? `\n\n\`\`\`json\n${JSON.stringify(structure, null, 2)}\n\`\`\``
+      : '';
+  }
+}
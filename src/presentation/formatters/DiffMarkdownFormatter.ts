@@ -0,0 +1,94 @@
+import { DesignDiffData, DiffChangeData, DiffOperation, EntityDiffStatus } from '../../domain/types.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+
+/**
+ * 差分の操作の表示名
+ */
+const OPERATION_LABELS: Readonly<Record<DiffOperation, string>> = {
+  add: '追加',
+  remove: '削除',
+  replace: '変更',
+  move: '移動',
+};
+
+/**
+ * 項目の差分の状態の表示名
+ */
+const STATUS_LABELS: Readonly<Record<EntityDiffStatus, string>> = {
+  added: '新規追加',
+  removed: '削除',
+  modified: '変更',
+  unchanged: '変更なし',
+};
+
+/**
+ * 値の表示を省略するまでの文字数
+ */
+const MAX_VALUE_LENGTH = 80;
+
+/**
+ * 設計差分をレビュー用のMarkdownに整形するフォーマッター
+ * MCPツールとREST APIで同じ要約を返すために使用
+ */
+export class DiffMarkdownFormatter {
+  /**
+   * 差分をMarkdownに整形する
+   */
+  format(diff: DesignDiffData): string {
+    let markdown = MESSAGES.INFO.DIFF_TITLE();
+    markdown += MESSAGES.INFO.DIFF_SUMMARY(
+      diff.summary.added,
+      diff.summary.removed,
+      diff.summary.modified,
+      diff.summary.unchanged
+    );
+
+    diff.entities.forEach(entity => {
+      markdown += MESSAGES.INFO.DIFF_ENTITY_SECTION(entity.entityType, entity.name, STATUS_LABELS[entity.status]);
+
+      // 項目全体の追加・削除は個々のフィールドを列挙しない
+      if (entity.status !== 'modified') {
+        return;
+      }
+
+      entity.changes.forEach(change => {
+        markdown += `${this.formatChange(change)}\n`;
+      });
+    });
+
+    return markdown;
+  }
+
+  /**
+   * 1件の変更を箇条書きの1行に整形する
+   */
+  private formatChange(change: DiffChangeData): string {
+    const heading = `- **${OPERATION_LABELS[change.op]}** \`${change.label}\``;
+
+    switch (change.op) {
+      case 'replace':
+        return `${heading}: ${this.formatValue(change.oldValue)} → ${this.formatValue(change.newValue)}`;
+
+      case 'move':
+        return `${heading}: ステップ${String(change.oldValue)} → ステップ${String(change.newValue)}`;
+
+      case 'add':
+        return `${heading}: ${this.formatValue(change.newValue)}`;
+
+      case 'remove':
+        return `${heading}: ${this.formatValue(change.oldValue)}`;
+    }
+  }
+
+  /**
+   * 値を1行の表示用文字列に整形する
+   */
+  private formatValue(value: unknown): string {
+    const text = typeof value === 'string' ? `「${value}」` : JSON.stringify(value) ?? 'undefined';
+    const singleLine = text.replace(/\s*\n\s*/g, ' ');
+
+    return singleLine.length > MAX_VALUE_LENGTH
+      ? `${singleLine.slice(0, MAX_VALUE_LENGTH)}…`
+      : singleLine;
+  }
+}
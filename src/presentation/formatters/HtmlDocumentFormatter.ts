@@ -0,0 +1,117 @@
+/**
+ * HTMLの特殊文字のエスケープ対応表
+ */
+const HTML_ESCAPES: Readonly<Record<string, string>> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * ブロック要素の種類ごとの行の判定パターン
+ */
+const HEADING_PATTERN = /^(#{1,6}) (.*)$/;
+const BULLET_ITEM_PATTERN = /^- (.*)$/;
+const ORDERED_ITEM_PATTERN = /^\d+\. (.*)$/;
+const HORIZONTAL_RULE_PATTERN = /^---+$/;
+const CODE_FENCE_PATTERN = /^```/;
+
+/**
+ * 設計書のMarkdownをブラウザで閲覧できるHTML文書に変換するフォーマッター
+ * DesignMarkdownFormatterが出力する記法（見出し・箇条書き・番号付きリスト・強調・コード）のみを扱う
+ */
+export class HtmlDocumentFormatter {
+  /**
+   * MarkdownをHTML文書に変換する
+   * @param title 文書のタイトル
+   * @param markdown 本文のMarkdown
+   */
+  format(title: string, markdown: string): string {
+    return [
+      '<!DOCTYPE html>',
+      '<html lang="ja">',
+      '<head>',
+      '<meta charset="utf-8">',
+      `<title>${this.escape(title)}</title>`,
+      '</head>',
+      '<body>',
+      this.renderBlocks(markdown.split('\n')),
+      '</body>',
+      '</html>',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Markdownの行をブロック要素ごとにHTMLへ変換する
+   */
+  private renderBlocks(lines: readonly string[]): string {
+    const blocks: string[] = [];
+    let index = 0;
+
+    while (index < lines.length) {
+      const line = lines[index];
+
+      if (!line.trim()) {
+        index++;
+      } else if (CODE_FENCE_PATTERN.test(line)) {
+        const end = lines.findIndex((candidate, position) => position > index && CODE_FENCE_PATTERN.test(candidate));
+        const closing = end === -1 ? lines.length : end;
+        blocks.push(`<pre><code>${this.escape(lines.slice(index + 1, closing).join('\n'))}</code></pre>`);
+        index = closing + 1;
+      } else if (HEADING_PATTERN.test(line)) {
+        const [, hashes, text] = line.match(HEADING_PATTERN) as RegExpMatchArray;
+        blocks.push(`<h${hashes.length}>${this.renderInline(text)}</h${hashes.length}>`);
+        index++;
+      } else if (HORIZONTAL_RULE_PATTERN.test(line)) {
+        blocks.push('<hr>');
+        index++;
+      } else if (BULLET_ITEM_PATTERN.test(line) || ORDERED_ITEM_PATTERN.test(line)) {
+        const pattern = BULLET_ITEM_PATTERN.test(line) ? BULLET_ITEM_PATTERN : ORDERED_ITEM_PATTERN;
+        const tag = pattern === BULLET_ITEM_PATTERN ? 'ul' : 'ol';
+        const items: string[] = [];
+        while (index < lines.length && pattern.test(lines[index])) {
+          items.push(`<li>${this.renderInline((lines[index].match(pattern) as RegExpMatchArray)[1])}</li>`);
+          index++;
+        }
+        blocks.push(`<${tag}>\n${items.join('\n')}\n</${tag}>`);
+      } else {
+        const paragraph: string[] = [];
+        while (index < lines.length && lines[index].trim() && !this.startsBlock(lines[index])) {
+          paragraph.push(this.renderInline(lines[index]));
+          index++;
+        }
+        blocks.push(`<p>${paragraph.join('<br>\n')}</p>`);
+      }
+    }
+
+    return blocks.join('\n');
+  }
+
+  /**
+   * 段落以外のブロック要素の開始行かを判定する
+   */
+  private startsBlock(line: string): boolean {
+    return [HEADING_PATTERN, BULLET_ITEM_PATTERN, ORDERED_ITEM_PATTERN, HORIZONTAL_RULE_PATTERN, CODE_FENCE_PATTERN]
+      .some(pattern => pattern.test(line));
+  }
+
+  /**
+   * 行内の強調とコードをHTMLへ変換する
+   * 記号はエスケープの対象外のため、エスケープ後のテキストに対して置き換える
+   */
+  private renderInline(text: string): string {
+    return this.escape(text)
+      .replace(/`([^`]+)`/g, '<code>$1</code>')
+      .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>');
+  }
+
+  /**
+   * HTMLの特殊文字をエスケープする
+   */
+  private escape(text: string): string {
+    return text.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+  }
+}
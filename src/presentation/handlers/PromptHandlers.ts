@@ -0,0 +1,202 @@
+import {
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ErrorCode,
+  McpError,
+  PromptMessage,
+} from '@modelcontextprotocol/sdk/types.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { GetImplementationContextUseCase } from '../../application/usecases/GetImplementationContextUseCase.js';
+import { ImplementationContextData } from '../../domain/types.js';
+import { CONFIG } from '../../shared/constants/config.js';
+import { MESSAGES } from '../../shared/constants/messages.js';
+import { DesignMarkdownFormatter } from '../formatters/DesignMarkdownFormatter.js';
+
+/**
+ * 機能名を受け取るプロンプト引数の定義
+ */
+const FEATURE_NAME_ARGUMENT = {
+  name: 'featureName',
+  description: '対象の機能名',
+  required: true,
+} as const;
+
+/**
+ * 提供するプロンプトの定義
+ */
+const PROMPTS = [
+  {
+    name: CONFIG.PROMPT_NAMES.IMPLEMENT_FEATURE,
+    description: '機能定義・関連するユビキタス言語・コーディング原則をもとに、設計に忠実な実装を依頼する',
+    arguments: [FEATURE_NAME_ARGUMENT],
+  },
+  {
+    name: CONFIG.PROMPT_NAMES.REVIEW_IMPLEMENTATION,
+    description: '機能定義に照らして、実装が設計どおりかのレビューを依頼する',
+    arguments: [
+      FEATURE_NAME_ARGUMENT,
+      {
+        name: 'implementation',
+        description: 'レビュー対象のコードまたはファイルパス（省略時はワークスペースの実装）',
+        required: false,
+      },
+    ],
+  },
+  {
+    name: CONFIG.PROMPT_NAMES.WRITE_TESTS,
+    description: '機能定義の出力条件・エラー条件・入力の制約を網羅するテストの作成を依頼する',
+    arguments: [
+      FEATURE_NAME_ARGUMENT,
+      {
+        name: 'testFramework',
+        description: '使用するテストフレームワーク（省略可能）',
+        required: false,
+      },
+    ],
+  },
+] as const;
+
+/**
+ * MCPプロンプトハンドラーのプレゼンテーション層実装
+ * 機能定義から、実装・レビュー・テスト作成を依頼するメッセージ列を組み立てる
+ */
+export class PromptHandlers {
+  private readonly designMarkdownFormatter = new DesignMarkdownFormatter();
+
+  constructor(
+    private readonly server: Server,
+    private readonly getImplementationContextUseCase: GetImplementationContextUseCase
+  ) {}
+
+  /**
+   * プロンプトハンドラーを設定する
+   */
+  setup(): void {
+    this.setupListPromptsHandler();
+    this.setupGetPromptHandler();
+  }
+
+  /**
+   * 利用可能なプロンプト一覧を提供するハンドラー
+   */
+  private setupListPromptsHandler(): void {
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: PROMPTS.map(prompt => ({
+        name: prompt.name,
+        description: prompt.description,
+        arguments: [...prompt.arguments],
+      })),
+    }));
+  }
+
+  /**
+   * プロンプトのメッセージ列を提供するハンドラー
+   */
+  private setupGetPromptHandler(): void {
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args = {} } = request.params;
+
+      const prompt = PROMPTS.find(definition => definition.name === name);
+      if (!prompt) {
+        throw new McpError(ErrorCode.InvalidParams, MESSAGES.ERROR.UNKNOWN_PROMPT(name));
+      }
+
+      const validationResult = this.getImplementationContextUseCase.validateInput(args.featureName);
+      if (!validationResult.success) {
+        throw new McpError(ErrorCode.InvalidParams, validationResult.error.message);
+      }
+
+      const contextResult = await this.getImplementationContextUseCase.execute(args.featureName);
+      if (!contextResult.success) {
+        throw new McpError(ErrorCode.InvalidParams, contextResult.error.message);
+      }
+
+      return {
+        description: prompt.description,
+        messages: [
+          ...this.createContextMessages(contextResult.value),
+          this.createTextMessage(this.createInstruction(name, contextResult.value, args)),
+        ],
+      };
+    });
+  }
+
+  /**
+   * コーディング原則・機能定義・ユビキタス言語情報をメッセージ列にする
+   * 機能定義と用語は個別リソースと同じURIの埋め込みリソースとして添付する
+   */
+  private createContextMessages(context: ImplementationContextData): PromptMessage[] {
+    const messages: PromptMessage[] = [];
+
+    if (context.codingRules.trim()) {
+      messages.push(this.createTextMessage(MESSAGES.PROMPT.CODING_RULES(context.codingRules)));
+    }
+
+    messages.push(this.createResourceMessage(
+      CONFIG.RESOURCE_URI_TEMPLATES.FEATURE_MARKDOWN,
+      context.feature.feature.name,
+      this.designMarkdownFormatter.formatFeature(context.feature)
+    ));
+
+    if (context.terms.length > 0) {
+      messages.push(this.createTextMessage(MESSAGES.PROMPT.TERMS_INTRODUCTION(context.terms.length)));
+      context.terms.forEach(term => {
+        messages.push(this.createResourceMessage(
+          CONFIG.RESOURCE_URI_TEMPLATES.TERM_MARKDOWN,
+          term.term.name,
+          this.designMarkdownFormatter.formatTerm(term)
+        ));
+      });
+    }
+
+    return messages;
+  }
+
+  /**
+   * プロンプトの種類に応じた指示文を作成する
+   */
+  private createInstruction(
+    promptName: string,
+    context: ImplementationContextData,
+    args: Record<string, string>
+  ): string {
+    const featureName = context.feature.feature.name;
+
+    switch (promptName) {
+      case CONFIG.PROMPT_NAMES.REVIEW_IMPLEMENTATION:
+        return MESSAGES.PROMPT.REVIEW_IMPLEMENTATION(featureName, args.implementation?.trim() || undefined);
+
+      case CONFIG.PROMPT_NAMES.WRITE_TESTS:
+        return MESSAGES.PROMPT.WRITE_TESTS(featureName, args.testFramework?.trim() || undefined);
+
+      case CONFIG.PROMPT_NAMES.IMPLEMENT_FEATURE:
+      default:
+        return MESSAGES.PROMPT.IMPLEMENT_FEATURE(featureName);
+    }
+  }
+
+  /**
+   * テキストのユーザーメッセージを作成する
+   */
+  private createTextMessage(text: string): PromptMessage {
+    return { role: 'user', content: { type: 'text', text } };
+  }
+
+  /**
+   * Markdownの埋め込みリソースのユーザーメッセージを作成する
+   */
+  private createResourceMessage(uriTemplate: string, name: string, text: string): PromptMessage {
+    return {
+      role: 'user',
+      content: {
+        type: 'resource',
+        resource: {
+          uri: new UriTemplate(uriTemplate).expand({ name }),
+          mimeType: CONFIG.MIME_TYPES.MARKDOWN,
+          text,
+        },
+      },
+    };
+  }
+}
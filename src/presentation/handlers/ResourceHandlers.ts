@@ -1,24 +1,67 @@
 import {
+  CompleteRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   ErrorCode,
   McpError,
 } from '@modelcontextprotocol/sdk/types.js';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { ListTermsUseCase } from '../../application/usecases/ListTermsUseCase.js';
+import { GetFeatureReadinessUseCase } from '../../application/usecases/GetFeatureReadinessUseCase.js';
+import { GetStatisticsUseCase } from '../../application/usecases/GetStatisticsUseCase.js';
 import { IFeatureRepository } from '../../domain/repositories/IFeatureRepository.js';
 import { ITermRepository } from '../../domain/repositories/ITermRepository.js';
+import { FeatureName } from '../../domain/valueObjects/FeatureName.js';
+import {
+  DesignChangeData,
+  FeatureData,
+  FeatureListItemData,
+  RevisionEntityType,
+  TermData,
+  TermFilterData,
+  TermListItemData,
+} from '../../domain/types.js';
 import { CONFIG } from '../../shared/constants/config.js';
 import { MESSAGES } from '../../shared/constants/messages.js';
+import { TextMatching } from '../../shared/utils/textMatching.js';
+import { DesignMarkdownFormatter } from '../formatters/DesignMarkdownFormatter.js';
+
+/**
+ * 個別の項目を表すリソースURIの照合結果の型
+ */
+interface EntityResourceTarget {
+  readonly entityType: RevisionEntityType;
+  readonly name: string;
+  readonly markdown: boolean;
+}
+
+/**
+ * 個別の項目を表すリソースの内容の型
+ */
+interface EntityResourceContent {
+  readonly mimeType: string;
+  readonly text: string;
+}
 
 /**
  * MCPリソースハンドラーのプレゼンテーション層実装
  * クリーンアーキテクチャに基づき、リポジトリを通じてデータを取得
  */
 export class ResourceHandlers {
+  private readonly designMarkdownFormatter = new DesignMarkdownFormatter();
+  private readonly subscriptions = new Set<string>();
+
   constructor(
     private readonly server: Server,
     private readonly featureRepository: IFeatureRepository,
-    private readonly termRepository: ITermRepository
+    private readonly termRepository: ITermRepository,
+    private readonly listTermsUseCase: ListTermsUseCase,
+    private readonly getFeatureReadinessUseCase: GetFeatureReadinessUseCase,
+    private readonly getStatisticsUseCase: GetStatisticsUseCase
   ) {}
 
   /**
@@ -26,7 +69,32 @@ export class ResourceHandlers {
    */
   setup(): void {
     this.setupListResourcesHandler();
+    this.setupListResourceTemplatesHandler();
     this.setupReadResourceHandler();
+    this.setupCompleteHandler();
+    this.setupSubscriptionHandlers();
+  }
+
+  /**
+   * 設計書の変更をクライアントに通知する
+   * 項目の追加・削除ではリソース一覧の変更を、購読中のリソースの内容が変わった場合はその更新を通知する
+   */
+  async notifyDesignChanged(change: DesignChangeData): Promise<void> {
+    try {
+      if (change.entities.some(entity => entity.change !== 'updated')) {
+        await this.server.sendResourceListChanged();
+      }
+
+      for (const uri of this.subscriptions) {
+        if (this.isAffectedBy(uri, change)) {
+          await this.server.sendResourceUpdated({ uri });
+        }
+      }
+    } catch (error) {
+      console.error(MESSAGES.ERROR.RESOURCE_NOTIFICATION_FAILED(
+        error instanceof Error ? error.message : String(error)
+      ));
+    }
   }
 
   /**
@@ -51,7 +119,65 @@ export class ResourceHandlers {
           uri: CONFIG.RESOURCE_URIS.STATISTICS,
           name: '設計書統計情報',
           mimeType: CONFIG.MIME_TYPES.JSON,
-          description: '機能定義数、ユビキタス言語数などの統計情報',
+          description: '機能定義数・ユビキタス言語数とその内訳、用語集の健全性の指標、更新日時と項目数の推移、機能定義の実装準備度の集計などの統計情報',
+        },
+      ],
+    }));
+  }
+
+  /**
+   * 利用可能なリソーステンプレート一覧を提供するハンドラー
+   */
+  private setupListResourceTemplatesHandler(): void {
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: [
+        {
+          uriTemplate: CONFIG.RESOURCE_URI_TEMPLATES.TERMS_BY_CONTEXT,
+          name: '境界づけられたコンテキスト別ユビキタス言語',
+          mimeType: CONFIG.MIME_TYPES.JSON,
+          description: '指定した境界づけられたコンテキストのユビキタス言語情報（詳細を含む）',
+        },
+        {
+          uriTemplate: CONFIG.RESOURCE_URI_TEMPLATES.TERMS_BY_CATEGORY,
+          name: 'カテゴリ別ユビキタス言語',
+          mimeType: CONFIG.MIME_TYPES.JSON,
+          description: '指定したカテゴリのユビキタス言語情報（詳細を含む）',
+        },
+        {
+          uriTemplate: CONFIG.RESOURCE_URI_TEMPLATES.TERMS_BY_FEATURE,
+          name: '機能別ユビキタス言語',
+          mimeType: CONFIG.MIME_TYPES.JSON,
+          description: '指定した機能に関連するユビキタス言語情報（詳細を含む）',
+        },
+        {
+          uriTemplate: CONFIG.RESOURCE_URI_TEMPLATES.FEATURE,
+          name: '機能定義',
+          mimeType: CONFIG.MIME_TYPES.JSON,
+          description: '指定した機能定義の全内容',
+        },
+        {
+          uriTemplate: CONFIG.RESOURCE_URI_TEMPLATES.FEATURE_MARKDOWN,
+          name: '機能定義（Markdown）',
+          mimeType: CONFIG.MIME_TYPES.MARKDOWN,
+          description: '指定した機能定義の全内容をMarkdownで整形したもの',
+        },
+        {
+          uriTemplate: CONFIG.RESOURCE_URI_TEMPLATES.FEATURE_READINESS,
+          name: '機能定義の実装準備度',
+          mimeType: CONFIG.MIME_TYPES.JSON,
+          description: '指定した機能定義の実装準備度（0〜100点）と確認項目の結果',
+        },
+        {
+          uriTemplate: CONFIG.RESOURCE_URI_TEMPLATES.TERM,
+          name: 'ユビキタス言語',
+          mimeType: CONFIG.MIME_TYPES.JSON,
+          description: '指定したユビキタス言語情報の全内容（別名でも指定可能）',
+        },
+        {
+          uriTemplate: CONFIG.RESOURCE_URI_TEMPLATES.TERM_MARKDOWN,
+          name: 'ユビキタス言語（Markdown）',
+          mimeType: CONFIG.MIME_TYPES.MARKDOWN,
+          description: '指定したユビキタス言語情報の全内容をMarkdownで整形したもの（別名でも指定可能）',
         },
       ],
     }));
@@ -84,11 +210,31 @@ export class ResourceHandlers {
             description = '設計書の統計情報';
             break;
 
-          default:
-            throw new McpError(
-              ErrorCode.InvalidRequest,
-              MESSAGES.ERROR.UNKNOWN_RESOURCE(uri)
-            );
+          default: {
+            // 絞り込みテンプレートを個別の項目のテンプレートより先に照合する
+            const filter = this.matchTermFilterTemplate(uri);
+            if (filter) {
+              content = await this.getFilteredTerms(filter);
+              description = '条件に一致するユビキタス言語情報';
+              break;
+            }
+
+            const readinessTarget = this.matchReadinessTemplate(uri);
+            if (readinessTarget) {
+              content = await this.getFeatureReadiness(readinessTarget);
+              description = `機能定義「${readinessTarget}」の実装準備度`;
+              break;
+            }
+
+            const entity = await this.readEntityTemplate(uri);
+            if (!entity) {
+              throw new McpError(
+                ErrorCode.InvalidRequest,
+                MESSAGES.ERROR.UNKNOWN_RESOURCE(uri)
+              );
+            }
+            return { contents: [{ uri, ...entity }] };
+          }
         }
 
         return {
@@ -138,30 +284,263 @@ export class ResourceHandlers {
   }
 
   /**
-   * 統計情報を取得する
+   * ユビキタス言語の絞り込みテンプレートに一致するURIから絞り込み条件を取り出す
+   * 一致しない場合はnullを返す
    */
-  private async getStatistics(): Promise<any> {
-    try {
-      // 機能定義数を取得
-      const featureCountResult = await this.featureRepository.count();
-      if (!featureCountResult.success) {
-        throw featureCountResult.error;
+  private matchTermFilterTemplate(uri: string): TermFilterData | null {
+    const templates: ReadonlyArray<readonly [string, keyof TermFilterData]> = [
+      [CONFIG.RESOURCE_URI_TEMPLATES.TERMS_BY_CONTEXT, 'boundedContext'],
+      [CONFIG.RESOURCE_URI_TEMPLATES.TERMS_BY_CATEGORY, 'category'],
+      [CONFIG.RESOURCE_URI_TEMPLATES.TERMS_BY_FEATURE, 'feature'],
+    ];
+
+    for (const [template, key] of templates) {
+      const variables = new UriTemplate(template).match(uri);
+      const value = variables && Object.values(variables)[0];
+      if (typeof value === 'string' && value) {
+        return { [key]: decodeURIComponent(value) };
       }
+    }
+
+    return null;
+  }
 
-      // ユビキタス言語情報数を取得
-      const termCountResult = await this.termRepository.count();
-      if (!termCountResult.success) {
-        throw termCountResult.error;
+  /**
+   * 実装準備度のテンプレートに一致するURIから機能名を取り出す
+   * 一致しない場合はnullを返す
+   */
+  private matchReadinessTemplate(uri: string): string | null {
+    const name = new UriTemplate(CONFIG.RESOURCE_URI_TEMPLATES.FEATURE_READINESS).match(uri)?.name;
+    return typeof name === 'string' && name ? decodeURIComponent(name) : null;
+  }
+
+  /**
+   * 指定した機能定義の実装準備度を取得する
+   */
+  private async getFeatureReadiness(featureName: string): Promise<any> {
+    const result = await this.getFeatureReadinessUseCase.execute(featureName);
+    if (!result.success) {
+      throw result.error;
+    }
+    return result.value;
+  }
+
+  /**
+   * 個別の機能定義・ユビキタス言語情報のテンプレートに一致するURIの内容を取得する
+   * 一致しない場合はnullを返す
+   */
+  private async readEntityTemplate(uri: string): Promise<EntityResourceContent | null> {
+    const target = this.matchEntityTemplate(uri);
+    if (!target) {
+      return null;
+    }
+
+    if (target.entityType === 'feature') {
+      const data = await this.getFeature(target.name);
+      return target.markdown
+        ? { mimeType: CONFIG.MIME_TYPES.MARKDOWN, text: this.designMarkdownFormatter.formatFeature(data) }
+        : this.toJsonContent(`機能定義「${data.feature.name}」`, data);
+    }
+
+    const data = await this.getTerm(target.name);
+    return target.markdown
+      ? { mimeType: CONFIG.MIME_TYPES.MARKDOWN, text: this.designMarkdownFormatter.formatTerm(data) }
+      : this.toJsonContent(`ユビキタス言語「${data.term.name}」`, data);
+  }
+
+  /**
+   * 個別の機能定義・ユビキタス言語情報のテンプレートに一致するURIから対象を取り出す
+   * 一致しない場合はnullを返す
+   */
+  private matchEntityTemplate(uri: string): EntityResourceTarget | null {
+    const templates = [
+      [CONFIG.RESOURCE_URI_TEMPLATES.FEATURE, 'feature', false],
+      [CONFIG.RESOURCE_URI_TEMPLATES.FEATURE_MARKDOWN, 'feature', true],
+      [CONFIG.RESOURCE_URI_TEMPLATES.TERM, 'term', false],
+      [CONFIG.RESOURCE_URI_TEMPLATES.TERM_MARKDOWN, 'term', true],
+    ] as const;
+
+    for (const [template, entityType, markdown] of templates) {
+      const name = new UriTemplate(template).match(uri)?.name;
+      if (typeof name === 'string' && name) {
+        return { entityType, name: decodeURIComponent(name), markdown };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 指定した機能定義を取得する
+   */
+  private async getFeature(name: string): Promise<FeatureData> {
+    const nameResult = FeatureName.create(name);
+    if (!nameResult.success) {
+      throw nameResult.error;
+    }
+
+    const result = await this.featureRepository.findByName(nameResult.value);
+    if (!result.success) {
+      throw result.error;
+    }
+    if (result.value.isNone) {
+      throw new Error(MESSAGES.ERROR.FEATURE_NOT_FOUND(name));
+    }
+    return result.value.value.data;
+  }
+
+  /**
+   * 指定したユビキタス言語情報を取得する
+   * 用語名に加えて別名でも解決する
+   */
+  private async getTerm(name: string): Promise<TermData> {
+    const result = await this.termRepository.findByNameOrAlias(name);
+    if (!result.success) {
+      throw result.error;
+    }
+    if (result.value.isNone) {
+      throw new Error(MESSAGES.ERROR.TERM_NOT_FOUND(name));
+    }
+    return result.value.value.term.data;
+  }
+
+  /**
+   * 他のリソースと同じ形式のJSONの内容を作成する
+   */
+  private toJsonContent(description: string, data: FeatureData | TermData): EntityResourceContent {
+    return {
+      mimeType: CONFIG.MIME_TYPES.JSON,
+      text: JSON.stringify({
+        description,
+        data,
+        timestamp: new Date().toISOString(),
+      }, null, 2),
+    };
+  }
+
+  /**
+   * 条件に一致するユビキタス言語情報を取得する
+   */
+  private async getFilteredTerms(filter: TermFilterData): Promise<any> {
+    const result = await this.listTermsUseCase.execute(filter);
+    if (!result.success) {
+      throw result.error;
+    }
+    return result.value;
+  }
+
+  /**
+   * リソーステンプレートの引数の補完候補を提供するハンドラー
+   * 入力値で前方一致する名前を先に、部分一致する名前を後に並べる
+   */
+  private setupCompleteHandler(): void {
+    this.server.setRequestHandler(CompleteRequestSchema, async (request) => {
+      const { ref, argument } = request.params;
+      const empty = { completion: { values: [], total: 0, hasMore: false } };
+
+      if (ref.type !== 'ref/resource' || argument.name !== 'name') {
+        return empty;
+      }
+
+      let names: readonly string[];
+      switch (ref.uri) {
+        case CONFIG.RESOURCE_URI_TEMPLATES.FEATURE:
+        case CONFIG.RESOURCE_URI_TEMPLATES.FEATURE_MARKDOWN:
+        case CONFIG.RESOURCE_URI_TEMPLATES.FEATURE_READINESS:
+          names = (await this.getFeaturesList()).map((item: FeatureListItemData) => item.name);
+          break;
+
+        case CONFIG.RESOURCE_URI_TEMPLATES.TERM:
+        case CONFIG.RESOURCE_URI_TEMPLATES.TERM_MARKDOWN:
+          names = (await this.getTermsList()).map((item: TermListItemData) => item.name);
+          break;
+
+        default:
+          return empty;
       }
 
+      const value = TextMatching.fold(argument.value);
+      const candidates = names
+        .map(name => ({ name, index: TextMatching.fold(name).indexOf(value) }))
+        .filter(candidate => candidate.index !== -1)
+        .sort((a, b) => Number(a.index !== 0) - Number(b.index !== 0))
+        .map(candidate => candidate.name);
+
       return {
-        featureCount: featureCountResult.value,
-        termCount: termCountResult.value,
+        completion: {
+          values: candidates.slice(0, CONFIG.COMPLETION.MAX_VALUES),
+          total: candidates.length,
+          hasMore: candidates.length > CONFIG.COMPLETION.MAX_VALUES,
+        },
       };
-    } catch (error) {
-      throw error instanceof Error 
-        ? error 
-        : new Error(`統計情報の取得中にエラーが発生しました: ${String(error)}`);
+    });
+  }
+
+  /**
+   * リソースの購読・購読解除を受け付けるハンドラー
+   */
+  private setupSubscriptionHandlers(): void {
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      this.subscriptions.add(request.params.uri);
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.delete(request.params.uri);
+      return {};
+    });
+  }
+
+  /**
+   * 購読中のリソースの内容が設計書の変更で変わるかを判定する
+   */
+  private isAffectedBy(uri: string, change: DesignChangeData): boolean {
+    switch (uri) {
+      case CONFIG.RESOURCE_URIS.FEATURES_LIST:
+        return change.entities.some(entity => entity.entityType === 'feature');
+
+      case CONFIG.RESOURCE_URIS.TERMS_LIST:
+        return change.entities.some(entity => entity.entityType === 'term');
+
+      case CONFIG.RESOURCE_URIS.STATISTICS:
+        // 実装準備度の集計は項目の内容の変更でも変わる
+        return change.entities.length > 0;
+    }
+
+    if (this.matchTermFilterTemplate(uri)) {
+      return change.entities.some(entity => entity.entityType === 'term');
+    }
+
+    // 実装準備度は参照するユビキタス言語の有無にも依存するため、用語の変更でも更新する
+    const readinessTarget = this.matchReadinessTemplate(uri);
+    if (readinessTarget) {
+      const featureName = TextMatching.fold(readinessTarget);
+      return change.entities.some(entity =>
+        entity.entityType === 'term' || TextMatching.fold(entity.name) === featureName
+      );
+    }
+
+    const target = this.matchEntityTemplate(uri);
+    if (!target) {
+      return false;
     }
+
+    // ユビキタス言語は別名で購読されている場合もあるため、変更前後の別名とも照合する
+    const targetName = TextMatching.fold(target.name);
+    return change.entities.some(entity =>
+      entity.entityType === target.entityType &&
+      [entity.name, ...entity.aliases].some(value => TextMatching.fold(value) === targetName)
+    );
+  }
+
+  /**
+   * 統計情報を取得する
+   */
+  private async getStatistics(): Promise<any> {
+    const result = await this.getStatisticsUseCase.execute();
+    if (!result.success) {
+      throw result.error;
+    }
+    return result.value;
   }
 }
@@ -4,8 +4,47 @@ import { DeleteFeatureUseCase } from '../../application/usecases/DeleteFeatureUs
 import { AddOrUpdateTermUseCase } from '../../application/usecases/AddOrUpdateTermUseCase.js';
 import { DeleteTermUseCase } from '../../application/usecases/DeleteTermUseCase.js';
 import { GetDetailsUseCase } from '../../application/usecases/GetDetailsUseCase.js';
+import { GetRevisionHistoryUseCase } from '../../application/usecases/GetRevisionHistoryUseCase.js';
+import { RestoreRevisionUseCase } from '../../application/usecases/RestoreRevisionUseCase.js';
+import { DiffDesignUseCase } from '../../application/usecases/DiffDesignUseCase.js';
+import { SearchDesignUseCase } from '../../application/usecases/SearchDesignUseCase.js';
+import { ListTermsUseCase } from '../../application/usecases/ListTermsUseCase.js';
+import { PatchFeatureUseCase } from '../../application/usecases/PatchFeatureUseCase.js';
+import { PatchTermUseCase } from '../../application/usecases/PatchTermUseCase.js';
+import { RenameFeatureUseCase } from '../../application/usecases/RenameFeatureUseCase.js';
+import { RenameTermUseCase } from '../../application/usecases/RenameTermUseCase.js';
+import { ValidateFeaturesUseCase } from '../../application/usecases/ValidateFeaturesUseCase.js';
+import { LintDesignUseCase } from '../../application/usecases/LintDesignUseCase.js';
+import { GetFeatureReadinessUseCase } from '../../application/usecases/GetFeatureReadinessUseCase.js';
+import { GetStatisticsUseCase } from '../../application/usecases/GetStatisticsUseCase.js';
+import { AnalyzeVocabularyUseCase } from '../../application/usecases/AnalyzeVocabularyUseCase.js';
+import { RevisionTracker } from '../../application/services/RevisionTracker.js';
 import { IFeatureRepository } from '../../domain/repositories/IFeatureRepository.js';
 import { ITermRepository } from '../../domain/repositories/ITermRepository.js';
+import { ReferentialIntegrityError } from '../../domain/errors/ReferentialIntegrityError.js';
+import { DependencyConflictError } from '../../domain/errors/DependencyConflictError.js';
+import { AliasConflictError } from '../../domain/errors/AliasConflictError.js';
+import { EntityNotFoundError } from '../../domain/errors/EntityNotFoundError.js';
+import { PatchApplicationError } from '../../domain/errors/PatchApplicationError.js';
+import { NameConflictError } from '../../domain/errors/NameConflictError.js';
+import { RevisionNotFoundError } from '../../domain/errors/RevisionNotFoundError.js';
+import { ConcurrentModificationError } from '../../domain/errors/ConcurrentModificationError.js';
+import { RevisionConflictError } from '../../domain/errors/RevisionConflictError.js';
+import { SemanticValidationError } from '../../domain/errors/SemanticValidationError.js';
+import {
+  DeletionMode,
+  ExpectedRevision,
+  ReferenceStrictness,
+  RevisionEntityType,
+  SemanticStrictness,
+  TermFilterData,
+} from '../../domain/types.js';
+import { DiffMarkdownFormatter } from '../formatters/DiffMarkdownFormatter.js';
+import { DesignMarkdownFormatter } from '../formatters/DesignMarkdownFormatter.js';
+import { HtmlDocumentFormatter } from '../formatters/HtmlDocumentFormatter.js';
+import { FeatureName } from '../../domain/valueObjects/FeatureName.js';
+import { Result, Option } from '../../shared/types/functional.js';
+import { CONFIG } from '../../shared/constants/config.js';
 import { MESSAGES } from '../../shared/constants/messages.js';
 
 /**
@@ -14,6 +53,10 @@ import { MESSAGES } from '../../shared/constants/messages.js';
  * クリーンアーキテクチャに基づき、ユースケースを呼び出してビジネスロジックを実行
  */
 export class RestHandlers {
+  private readonly diffMarkdownFormatter = new DiffMarkdownFormatter();
+  private readonly designMarkdownFormatter = new DesignMarkdownFormatter();
+  private readonly htmlDocumentFormatter = new HtmlDocumentFormatter();
+
   constructor(
     private readonly addOrUpdateFeatureUseCase: AddOrUpdateFeatureUseCase,
     private readonly deleteFeatureUseCase: DeleteFeatureUseCase,
@@ -21,7 +64,22 @@ export class RestHandlers {
     private readonly deleteTermUseCase: DeleteTermUseCase,
     private readonly getDetailsUseCase: GetDetailsUseCase,
     private readonly featureRepository: IFeatureRepository,
-    private readonly termRepository: ITermRepository
+    private readonly termRepository: ITermRepository,
+    private readonly getRevisionHistoryUseCase: GetRevisionHistoryUseCase,
+    private readonly restoreRevisionUseCase: RestoreRevisionUseCase,
+    private readonly diffDesignUseCase: DiffDesignUseCase,
+    private readonly searchDesignUseCase: SearchDesignUseCase,
+    private readonly listTermsUseCase: ListTermsUseCase,
+    private readonly patchFeatureUseCase: PatchFeatureUseCase,
+    private readonly patchTermUseCase: PatchTermUseCase,
+    private readonly renameFeatureUseCase: RenameFeatureUseCase,
+    private readonly renameTermUseCase: RenameTermUseCase,
+    private readonly validateFeaturesUseCase: ValidateFeaturesUseCase,
+    private readonly lintDesignUseCase: LintDesignUseCase,
+    private readonly getFeatureReadinessUseCase: GetFeatureReadinessUseCase,
+    private readonly getStatisticsUseCase: GetStatisticsUseCase,
+    private readonly analyzeVocabularyUseCase: AnalyzeVocabularyUseCase,
+    private readonly revisionTracker: RevisionTracker
   ) {}
 
   /**
@@ -29,10 +87,10 @@ export class RestHandlers {
    */
   async addOrUpdateFeature(req: Request, res: Response): Promise<void> {
     try {
-      const { feature } = req.body;
+      const { feature, semanticStrictness } = req.body;
 
       // 入力検証
-      const validationResult = this.addOrUpdateFeatureUseCase.validateInput(feature);
+      const validationResult = this.addOrUpdateFeatureUseCase.validateInput(feature, semanticStrictness);
       if (!validationResult.success) {
         res.status(400).json({
           error: 'Validation Error',
@@ -42,9 +100,42 @@ export class RestHandlers {
         return;
       }
 
+      const ifMatchOption = this.readIfMatch(req, res);
+      if (ifMatchOption.isNone) {
+        return;
+      }
+      const expectedRevision = ifMatchOption.value;
+
       // ユースケースの実行
-      const result = await this.addOrUpdateFeatureUseCase.execute(feature);
+      const result = await this.addOrUpdateFeatureUseCase.execute(feature, {
+        strictness: semanticStrictness,
+        actor: this.resolveActor(req),
+        expectedRevision,
+      });
       if (!result.success) {
+        if (this.sendPreconditionFailed(res, result.error, expectedRevision)) {
+          return;
+        }
+
+        if (result.error instanceof SemanticValidationError) {
+          res.status(422).json({
+            error: 'Semantic Validation Error',
+            message: result.error.message,
+            semanticIssues: result.error.issues,
+            timestamp: new Date().toISOString(),
+          });
+          return;
+        }
+
+        if (result.error instanceof NameConflictError) {
+          res.status(409).json({
+            error: 'Name Conflict',
+            message: result.error.message,
+            timestamp: new Date().toISOString(),
+          });
+          return;
+        }
+
         res.status(500).json({
           error: 'Execution Error',
           message: result.error.message,
@@ -59,12 +150,15 @@ export class RestHandlers {
         ? MESSAGES.SUCCESS.FEATURE_UPDATED(featureName)
         : MESSAGES.SUCCESS.FEATURE_ADDED(featureName);
 
+      this.setETag(res, result.value.revision);
       res.status(result.value.isUpdate ? 200 : 201).json({
         success: true,
         message,
         data: {
           featureName,
           isUpdate: result.value.isUpdate,
+          semanticIssues: result.value.semanticIssues,
+          revision: result.value.revision,
         },
         timestamp: new Date().toISOString(),
       });
@@ -85,9 +179,10 @@ export class RestHandlers {
   async deleteFeature(req: Request, res: Response): Promise<void> {
     try {
       const { name } = req.params;
+      const mode = req.query.mode;
 
       // 入力検証
-      const validationResult = this.deleteFeatureUseCase.validateInput(name);
+      const validationResult = this.deleteFeatureUseCase.validateInput(name, mode);
       if (!validationResult.success) {
         res.status(400).json({
           error: 'Validation Error',
@@ -97,9 +192,33 @@ export class RestHandlers {
         return;
       }
 
+      const ifMatchOption = this.readIfMatch(req, res);
+      if (ifMatchOption.isNone) {
+        return;
+      }
+      const expectedRevision = ifMatchOption.value;
+
       // ユースケースの実行
-      const result = await this.deleteFeatureUseCase.execute(name);
+      const result = await this.deleteFeatureUseCase.execute(name, {
+        mode: mode as DeletionMode | undefined,
+        actor: this.resolveActor(req),
+        expectedRevision,
+      });
       if (!result.success) {
+        if (this.sendPreconditionFailed(res, result.error, expectedRevision)) {
+          return;
+        }
+
+        if (result.error instanceof DependencyConflictError) {
+          res.status(409).json({
+            error: 'Dependency Conflict',
+            message: result.error.message,
+            inboundReferences: result.error.inboundReferences,
+            timestamp: new Date().toISOString(),
+          });
+          return;
+        }
+
         res.status(500).json({
           error: 'Execution Error',
           message: result.error.message,
@@ -124,6 +243,9 @@ export class RestHandlers {
         data: {
           featureName: name,
           deleted: true,
+          mode: result.value.mode,
+          inboundReferences: result.value.inboundReferences,
+          updatedTermNames: result.value.updatedTermNames,
         },
         timestamp: new Date().toISOString(),
       });
@@ -143,10 +265,10 @@ export class RestHandlers {
    */
   async addOrUpdateTerm(req: Request, res: Response): Promise<void> {
     try {
-      const { term } = req.body;
+      const { term, referenceStrictness } = req.body;
 
       // 入力検証
-      const validationResult = this.addOrUpdateTermUseCase.validateInput(term);
+      const validationResult = this.addOrUpdateTermUseCase.validateInput(term, referenceStrictness);
       if (!validationResult.success) {
         res.status(400).json({
           error: 'Validation Error',
@@ -156,9 +278,43 @@ export class RestHandlers {
         return;
       }
 
+      const ifMatchOption = this.readIfMatch(req, res);
+      if (ifMatchOption.isNone) {
+        return;
+      }
+      const expectedRevision = ifMatchOption.value;
+
       // ユースケースの実行
-      const result = await this.addOrUpdateTermUseCase.execute(term);
+      const result = await this.addOrUpdateTermUseCase.execute(term, {
+        strictness: referenceStrictness,
+        actor: this.resolveActor(req),
+        expectedRevision,
+      });
       if (!result.success) {
+        if (this.sendPreconditionFailed(res, result.error, expectedRevision)) {
+          return;
+        }
+
+        if (result.error instanceof ReferentialIntegrityError) {
+          res.status(422).json({
+            error: 'Referential Integrity Error',
+            message: result.error.message,
+            brokenReferences: result.error.brokenReferences,
+            timestamp: new Date().toISOString(),
+          });
+          return;
+        }
+
+        if (result.error instanceof AliasConflictError) {
+          res.status(409).json({
+            error: 'Alias Conflict',
+            message: result.error.message,
+            aliasConflicts: result.error.conflicts,
+            timestamp: new Date().toISOString(),
+          });
+          return;
+        }
+
         res.status(500).json({
           error: 'Execution Error',
           message: result.error.message,
@@ -173,12 +329,15 @@ export class RestHandlers {
         ? MESSAGES.SUCCESS.TERM_UPDATED(termName)
         : MESSAGES.SUCCESS.TERM_ADDED(termName);
 
+      this.setETag(res, result.value.revision);
       res.status(result.value.isUpdate ? 200 : 201).json({
         success: true,
         message,
         data: {
           termName,
           isUpdate: result.value.isUpdate,
+          brokenReferences: result.value.brokenReferences,
+          revision: result.value.revision,
         },
         timestamp: new Date().toISOString(),
       });
@@ -199,9 +358,10 @@ export class RestHandlers {
   async deleteTerm(req: Request, res: Response): Promise<void> {
     try {
       const { name } = req.params;
+      const mode = req.query.mode;
 
       // 入力検証
-      const validationResult = this.deleteTermUseCase.validateInput(name);
+      const validationResult = this.deleteTermUseCase.validateInput(name, mode);
       if (!validationResult.success) {
         res.status(400).json({
           error: 'Validation Error',
@@ -211,9 +371,33 @@ export class RestHandlers {
         return;
       }
 
+      const ifMatchOption = this.readIfMatch(req, res);
+      if (ifMatchOption.isNone) {
+        return;
+      }
+      const expectedRevision = ifMatchOption.value;
+
       // ユースケースの実行
-      const result = await this.deleteTermUseCase.execute(name);
+      const result = await this.deleteTermUseCase.execute(name, {
+        mode: mode as DeletionMode | undefined,
+        actor: this.resolveActor(req),
+        expectedRevision,
+      });
       if (!result.success) {
+        if (this.sendPreconditionFailed(res, result.error, expectedRevision)) {
+          return;
+        }
+
+        if (result.error instanceof DependencyConflictError) {
+          res.status(409).json({
+            error: 'Dependency Conflict',
+            message: result.error.message,
+            inboundReferences: result.error.inboundReferences,
+            timestamp: new Date().toISOString(),
+          });
+          return;
+        }
+
         res.status(500).json({
           error: 'Execution Error',
           message: result.error.message,
@@ -234,10 +418,13 @@ export class RestHandlers {
 
       res.status(200).json({
         success: true,
-        message: MESSAGES.SUCCESS.TERM_DELETED(name),
+        message: MESSAGES.SUCCESS.TERM_DELETED(result.value.termName),
         data: {
-          termName: name,
+          termName: result.value.termName,
           deleted: true,
+          mode: result.value.mode,
+          inboundReferences: result.value.inboundReferences,
+          updatedTermNames: result.value.updatedTermNames,
         },
         timestamp: new Date().toISOString(),
       });
@@ -252,6 +439,239 @@ export class RestHandlers {
     }
   }
 
+  /**
+   * 機能定義の検証処理
+   * 機能名はnamesクエリにカンマ区切りで指定する（省略時は全件）
+   */
+  async validateFeatures(req: Request, res: Response): Promise<void> {
+    try {
+      const { names } = req.query;
+      const featureNames = typeof names === 'string'
+        ? names.split(',').map(name => name.trim()).filter(name => name.length > 0)
+        : names;
+
+      // 入力検証
+      const validationResult = this.validateFeaturesUseCase.validateInput(featureNames);
+      if (!validationResult.success) {
+        res.status(400).json({
+          error: 'Validation Error',
+          message: validationResult.error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // ユースケースの実行
+      const result = await this.validateFeaturesUseCase.execute(featureNames as string[] | undefined);
+      if (!result.success) {
+        if (result.error instanceof EntityNotFoundError) {
+          res.status(404).json({
+            error: 'Not Found',
+            message: result.error.message,
+            timestamp: new Date().toISOString(),
+          });
+          return;
+        }
+
+        res.status(500).json({
+          error: 'Execution Error',
+          message: result.error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const issueCount = result.value.reduce((count, validation) => count + validation.issues.length, 0);
+      res.status(200).json({
+        success: true,
+        message: MESSAGES.SUCCESS.FEATURES_VALIDATED(result.value.length, issueCount),
+        data: result.value,
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (error) {
+      console.error('機能定義検証エラー:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * 語彙分析処理
+   */
+  async analyzeVocabulary(req: Request, res: Response): Promise<void> {
+    try {
+      const { names } = req.query;
+      const featureNames = typeof names === 'string'
+        ? names.split(',').map(name => name.trim()).filter(name => name.length > 0)
+        : names;
+      const minOccurrences = req.query.minOccurrences === undefined ? undefined : Number(req.query.minOccurrences);
+
+      // 入力検証
+      const validationResult = this.analyzeVocabularyUseCase.validateInput(featureNames, minOccurrences);
+      if (!validationResult.success) {
+        res.status(400).json({
+          error: 'Validation Error',
+          message: validationResult.error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // ユースケースの実行
+      const result = await this.analyzeVocabularyUseCase.execute(featureNames as string[] | undefined, minOccurrences);
+      if (!result.success) {
+        if (result.error instanceof EntityNotFoundError) {
+          res.status(404).json({
+            error: 'Not Found',
+            message: result.error.message,
+            timestamp: new Date().toISOString(),
+          });
+          return;
+        }
+
+        res.status(500).json({
+          error: 'Execution Error',
+          message: result.error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: MESSAGES.SUCCESS.VOCABULARY_ANALYZED(result.value.analyzedFeatureCount, result.value.candidates.length),
+        data: result.value,
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (error) {
+      console.error('語彙分析エラー:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * 機能定義の実装準備度の取得処理
+   */
+  async getFeatureReadiness(req: Request, res: Response): Promise<void> {
+    try {
+      const { name } = req.params;
+
+      // 入力検証
+      const validationResult = this.getFeatureReadinessUseCase.validateInput(name);
+      if (!validationResult.success) {
+        res.status(400).json({
+          error: 'Validation Error',
+          message: validationResult.error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // ユースケースの実行
+      const result = await this.getFeatureReadinessUseCase.execute(name);
+      if (!result.success) {
+        if (result.error instanceof EntityNotFoundError) {
+          res.status(404).json({
+            error: 'Not Found',
+            message: result.error.message,
+            timestamp: new Date().toISOString(),
+          });
+          return;
+        }
+
+        res.status(500).json({
+          error: 'Execution Error',
+          message: result.error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: MESSAGES.SUCCESS.FEATURE_READINESS_EVALUATED(result.value.featureName, result.value.score),
+        data: result.value,
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (error) {
+      console.error('実装準備度取得エラー:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * 設計書のlint処理
+   */
+  async lint(req: Request, res: Response): Promise<void> {
+    try {
+      const { entityType, name } = req.query;
+
+      // 入力検証
+      const validationResult = this.lintDesignUseCase.validateInput(entityType, name);
+      if (!validationResult.success) {
+        res.status(400).json({
+          error: 'Validation Error',
+          message: validationResult.error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // ユースケースの実行
+      const result = await this.lintDesignUseCase.execute({
+        entityType: entityType as RevisionEntityType | undefined,
+        name: name as string | undefined,
+      });
+      if (!result.success) {
+        if (result.error instanceof EntityNotFoundError) {
+          res.status(404).json({
+            error: 'Not Found',
+            message: result.error.message,
+            timestamp: new Date().toISOString(),
+          });
+          return;
+        }
+
+        res.status(500).json({
+          error: 'Execution Error',
+          message: result.error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const { entities, summary } = result.value;
+      res.status(200).json({
+        success: true,
+        message: MESSAGES.SUCCESS.DESIGN_LINTED(entities.length, summary.error, summary.warning, summary.info),
+        data: result.value,
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (error) {
+      console.error('設計書lintエラー:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
   /**
    * 詳細情報の取得処理
    */
@@ -363,46 +783,96 @@ export class RestHandlers {
   }
 
   /**
-   * 統計情報の取得処理
+   * 機能定義の一覧取得処理（内容全体を含む）
    */
-  async getStatistics(req: Request, res: Response): Promise<void> {
+  async listFeatures(req: Request, res: Response): Promise<void> {
     try {
-      // 機能定義数を取得
-      const featureCountResult = await this.featureRepository.count();
-      if (!featureCountResult.success) {
+      const result = await this.featureRepository.findAll();
+      if (!result.success) {
         res.status(500).json({
           error: 'Repository Error',
-          message: featureCountResult.error.message,
+          message: result.error.message,
           timestamp: new Date().toISOString(),
         });
         return;
       }
 
-      // ユビキタス言語情報数を取得
-      const termCountResult = await this.termRepository.count();
-      if (!termCountResult.success) {
+      const features = result.value.map(feature => feature.data);
+      this.sendNegotiated(res, {
+        message: '機能定義を取得しました',
+        data: features,
+        title: '機能定義一覧',
+        markdown: () => this.designMarkdownFormatter.formatFeatures(features),
+      });
+
+    } catch (error) {
+      console.error('機能定義取得エラー:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * 機能定義の個別取得処理
+   */
+  async getFeature(req: Request, res: Response): Promise<void> {
+    try {
+      const { name } = req.params;
+
+      // 入力検証
+      const nameResult = FeatureName.create(name);
+      if (!nameResult.success) {
+        res.status(400).json({
+          error: 'Validation Error',
+          message: nameResult.error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const result = await this.featureRepository.findByName(nameResult.value);
+      if (!result.success) {
         res.status(500).json({
           error: 'Repository Error',
-          message: termCountResult.error.message,
+          message: result.error.message,
           timestamp: new Date().toISOString(),
         });
         return;
       }
 
-      const statistics = {
-        featureCount: featureCountResult.value,
-        termCount: termCountResult.value,
-      };
+      if (result.value.isNone) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: MESSAGES.ERROR.FEATURE_NOT_FOUND(name),
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
 
-      res.status(200).json({
-        success: true,
-        message: '統計情報を取得しました',
-        data: statistics,
-        timestamp: new Date().toISOString(),
+      const feature = result.value.value.data;
+      const revisionResult = await this.revisionTracker.currentRevision('feature', feature.feature.name);
+      if (!revisionResult.success) {
+        res.status(500).json({
+          error: 'Repository Error',
+          message: revisionResult.error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      this.sendNegotiated(res, {
+        revision: revisionResult.value,
+        message: '機能定義を取得しました',
+        data: feature,
+        title: `機能定義: ${feature.feature.name}`,
+        markdown: () => this.designMarkdownFormatter.formatFeature(feature),
       });
 
     } catch (error) {
-      console.error('統計情報取得エラー:', error);
+      console.error('機能定義取得エラー:', error);
       res.status(500).json({
         error: 'Internal Server Error',
         message: error instanceof Error ? error.message : String(error),
@@ -412,23 +882,438 @@ export class RestHandlers {
   }
 
   /**
-   * ヘルスチェック処理
+   * ユビキタス言語情報の個別取得処理（別名でも指定可能）
    */
-  async healthCheck(req: Request, res: Response): Promise<void> {
+  async getTerm(req: Request, res: Response): Promise<void> {
     try {
-      // リポジトリの接続確認
-      const featureCountResult = await this.featureRepository.count();
-      const termCountResult = await this.termRepository.count();
-
-      const featureRepoHealthy = featureCountResult.success;
-      const termRepoHealthy = termCountResult.success;
-
-      const isHealthy = featureRepoHealthy && termRepoHealthy;
-      const status = isHealthy ? 'healthy' : 'unhealthy';
+      const { name } = req.params;
 
-      const healthData = {
-        status,
-        timestamp: new Date().toISOString(),
+      const result = await this.termRepository.findByNameOrAlias(name);
+      if (!result.success) {
+        res.status(500).json({
+          error: 'Repository Error',
+          message: result.error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (result.value.isNone) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: MESSAGES.ERROR.TERM_NOT_FOUND(name),
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const term = result.value.value.term.data;
+      const revisionResult = await this.revisionTracker.currentRevision('term', term.term.name);
+      if (!revisionResult.success) {
+        res.status(500).json({
+          error: 'Repository Error',
+          message: revisionResult.error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      this.sendNegotiated(res, {
+        revision: revisionResult.value,
+        message: 'ユビキタス言語情報を取得しました',
+        data: term,
+        title: `ユビキタス言語: ${term.term.name}`,
+        markdown: () => this.designMarkdownFormatter.formatTerm(term),
+      });
+
+    } catch (error) {
+      console.error('ユビキタス言語取得エラー:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Acceptヘッダーに応じて、JSON・Markdown・HTMLのいずれかで応答する
+   * Acceptヘッダーがない場合や全ての形式を受け付ける場合はJSONで応答し、いずれも受け付けない場合は406を返す
+   * リビジョンを指定した場合は、応答する形式ごとに異なるETagを設定する
+   */
+  private sendNegotiated(res: Response, representation: {
+    readonly revision?: number;
+    readonly message: string;
+    readonly data: unknown;
+    readonly title: string;
+    readonly markdown: () => string;
+  }): void {
+    res.format({
+      [CONFIG.MIME_TYPES.JSON]: () => {
+        this.setRepresentationETag(res, representation.revision);
+        res.status(200).json({
+          success: true,
+          message: representation.message,
+          data: representation.data,
+          timestamp: new Date().toISOString(),
+        });
+      },
+      [CONFIG.MIME_TYPES.MARKDOWN]: () => {
+        this.setRepresentationETag(res, representation.revision, CONFIG.REST_API.ETAG_SUFFIXES.MARKDOWN);
+        res.status(200).type(CONFIG.MIME_TYPES.MARKDOWN).send(representation.markdown());
+      },
+      [CONFIG.MIME_TYPES.HTML]: () => {
+        this.setRepresentationETag(res, representation.revision, CONFIG.REST_API.ETAG_SUFFIXES.HTML);
+        res.status(200).type(CONFIG.MIME_TYPES.HTML).send(
+          this.htmlDocumentFormatter.format(representation.title, representation.markdown())
+        );
+      },
+      default: () => {
+        res.status(406).json({
+          error: 'Not Acceptable',
+          message: MESSAGES.ERROR.NOT_ACCEPTABLE([
+            CONFIG.MIME_TYPES.JSON,
+            CONFIG.MIME_TYPES.MARKDOWN,
+            CONFIG.MIME_TYPES.HTML,
+          ]),
+          timestamp: new Date().toISOString(),
+        });
+      },
+    });
+  }
+
+  /**
+   * ユビキタス言語情報の絞り込み処理
+   */
+  async listTerms(req: Request, res: Response): Promise<void> {
+    try {
+      const { category, boundedContext, feature } = req.query;
+      const filter = { category, boundedContext, feature };
+
+      // 入力検証
+      const validationResult = this.listTermsUseCase.validateInput(filter);
+      if (!validationResult.success) {
+        res.status(400).json({
+          error: 'Validation Error',
+          message: validationResult.error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // ユースケースの実行
+      const result = await this.listTermsUseCase.execute(filter as TermFilterData);
+      if (!result.success) {
+        res.status(500).json({
+          error: 'Execution Error',
+          message: result.error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      this.sendNegotiated(res, {
+        message: 'ユビキタス言語情報を取得しました',
+        data: result.value,
+        title: 'ユビキタス言語一覧',
+        markdown: () => this.designMarkdownFormatter.formatTerms(result.value),
+      });
+
+    } catch (error) {
+      console.error('ユビキタス言語絞り込みエラー:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * 統計情報の取得処理
+   */
+  async getStatistics(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await this.getStatisticsUseCase.execute();
+      if (!result.success) {
+        res.status(500).json({
+          error: 'Repository Error',
+          message: result.error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: '統計情報を取得しました',
+        data: result.value,
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (error) {
+      console.error('統計情報取得エラー:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * 変更履歴一覧の取得処理
+   */
+  async listRevisions(entityType: RevisionEntityType, req: Request, res: Response): Promise<void> {
+    try {
+      const { name } = req.params;
+
+      // 入力検証
+      const validationResult = this.getRevisionHistoryUseCase.validateInput(entityType, name);
+      if (!validationResult.success) {
+        res.status(400).json({
+          error: 'Validation Error',
+          message: validationResult.error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // ユースケースの実行
+      const result = await this.getRevisionHistoryUseCase.execute(entityType, name);
+      if (!result.success) {
+        res.status(500).json({
+          error: 'Execution Error',
+          message: result.error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: MESSAGES.SUCCESS.REVISIONS_RETRIEVED(name, result.value.length),
+        data: result.value,
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (error) {
+      console.error('変更履歴取得エラー:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * リビジョンの取得処理
+   */
+  async getRevision(entityType: RevisionEntityType, req: Request, res: Response): Promise<void> {
+    try {
+      const { name } = req.params;
+      const revisionNumber = Number(req.params.revision);
+
+      // 入力検証
+      const validationResult = this.getRevisionHistoryUseCase.validateInput(entityType, name, revisionNumber);
+      if (!validationResult.success) {
+        res.status(400).json({
+          error: 'Validation Error',
+          message: validationResult.error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // ユースケースの実行
+      const result = await this.getRevisionHistoryUseCase.getRevision(entityType, name, revisionNumber);
+      if (!result.success) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: result.error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: MESSAGES.SUCCESS.REVISION_RETRIEVED(result.value.entityName, revisionNumber),
+        data: result.value,
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (error) {
+      console.error('リビジョン取得エラー:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * リビジョンの復元処理
+   */
+  async restoreRevision(entityType: RevisionEntityType, req: Request, res: Response): Promise<void> {
+    try {
+      const { name } = req.params;
+      const revisionNumber = Number(req.params.revision);
+
+      // 入力検証
+      const validationResult = this.restoreRevisionUseCase.validateInput(entityType, name, revisionNumber);
+      if (!validationResult.success) {
+        res.status(400).json({
+          error: 'Validation Error',
+          message: validationResult.error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // ユースケースの実行
+      const result = await this.restoreRevisionUseCase.execute(entityType, name, revisionNumber, {
+        actor: this.resolveActor(req),
+      });
+      if (!result.success) {
+        this.sendRestoreError(res, result.error);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: MESSAGES.SUCCESS.REVISION_RESTORED(result.value.entityName, revisionNumber),
+        data: result.value,
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (error) {
+      console.error('リビジョン復元エラー:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * 設計差分の計算処理
+   */
+  async diff(req: Request, res: Response): Promise<void> {
+    try {
+      // 入力検証
+      const validationResult = this.diffDesignUseCase.validateInput(req.body);
+      if (!validationResult.success) {
+        res.status(400).json({
+          error: 'Validation Error',
+          message: validationResult.error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // ユースケースの実行
+      const result = await this.diffDesignUseCase.execute(req.body);
+      if (!result.success) {
+        res.status(500).json({
+          error: 'Execution Error',
+          message: result.error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: MESSAGES.SUCCESS.DIFF_COMPUTED(result.value.entities.length),
+        data: {
+          ...result.value,
+          markdown: this.diffMarkdownFormatter.format(result.value),
+        },
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (error) {
+      console.error('差分計算エラー:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * 設計の検索処理
+   */
+  async search(req: Request, res: Response): Promise<void> {
+    try {
+      const { q, entityType } = req.query;
+      const limit = req.query.limit === undefined ? undefined : Number(req.query.limit);
+
+      // 入力検証
+      const validationResult = this.searchDesignUseCase.validateInput(q, entityType, limit);
+      if (!validationResult.success) {
+        res.status(400).json({
+          error: 'Validation Error',
+          message: validationResult.error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // ユースケースの実行
+      const result = await this.searchDesignUseCase.execute(
+        q as string,
+        entityType as RevisionEntityType | undefined,
+        limit
+      );
+      if (!result.success) {
+        res.status(500).json({
+          error: 'Execution Error',
+          message: result.error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: result.value,
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (error) {
+      console.error('検索エラー:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * ヘルスチェック処理
+   */
+  async healthCheck(req: Request, res: Response): Promise<void> {
+    try {
+      // リポジトリの接続確認
+      const featureCountResult = await this.featureRepository.count();
+      const termCountResult = await this.termRepository.count();
+
+      const featureRepoHealthy = featureCountResult.success;
+      const termRepoHealthy = termCountResult.success;
+
+      const isHealthy = featureRepoHealthy && termRepoHealthy;
+      const status = isHealthy ? 'healthy' : 'unhealthy';
+
+      const healthData = {
+        status,
+        timestamp: new Date().toISOString(),
         details: {
           featureRepository: featureRepoHealthy,
           termRepository: termRepoHealthy,
@@ -437,19 +1322,529 @@ export class RestHandlers {
         uptime: process.uptime(),
       };
 
-      res.status(isHealthy ? 200 : 503).json(healthData);
+      res.status(isHealthy ? 200 : 503).json(healthData);
+
+    } catch (error) {
+      console.error('ヘルスチェックエラー:', error);
+      res.status(503).json({
+        status: 'unhealthy',
+        timestamp: new Date().toISOString(),
+        details: {
+          featureRepository: false,
+          termRepository: false,
+        },
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * 機能定義の部分更新処理
+   */
+  async patchFeature(req: Request, res: Response): Promise<void> {
+    try {
+      const { name } = req.params;
+      const semanticStrictness = req.query.semanticStrictness;
+      const patch = this.resolvePatchDocument(req);
+
+      // 入力検証
+      const validationResult = this.patchFeatureUseCase.validateInput(name, patch, semanticStrictness);
+      if (!validationResult.success) {
+        res.status(400).json({
+          error: 'Validation Error',
+          message: validationResult.error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const ifMatchOption = this.readIfMatch(req, res);
+      if (ifMatchOption.isNone) {
+        return;
+      }
+      const expectedRevision = ifMatchOption.value;
+
+      // ユースケースの実行
+      const result = await this.patchFeatureUseCase.execute(name, patch, {
+        strictness: semanticStrictness as SemanticStrictness | undefined,
+        actor: this.resolveActor(req),
+        expectedRevision,
+      });
+      if (!result.success) {
+        this.sendPatchError(res, result.error, expectedRevision);
+        return;
+      }
+
+      this.setETag(res, result.value.revision);
+      res.status(200).json({
+        success: true,
+        message: MESSAGES.SUCCESS.FEATURE_PATCHED(name),
+        data: result.value.feature,
+        semanticIssues: result.value.semanticIssues,
+        timestamp: new Date().toISOString(),
+      });
 
     } catch (error) {
-      console.error('ヘルスチェックエラー:', error);
-      res.status(503).json({
-        status: 'unhealthy',
+      console.error('機能定義部分更新エラー:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : String(error),
         timestamp: new Date().toISOString(),
-        details: {
-          featureRepository: false,
-          termRepository: false,
+      });
+    }
+  }
+
+  /**
+   * ユビキタス言語情報の部分更新処理
+   */
+  async patchTerm(req: Request, res: Response): Promise<void> {
+    try {
+      const { name } = req.params;
+      const referenceStrictness = req.query.referenceStrictness;
+      const patch = this.resolvePatchDocument(req);
+
+      // 入力検証
+      const validationResult = this.patchTermUseCase.validateInput(name, patch, referenceStrictness);
+      if (!validationResult.success) {
+        res.status(400).json({
+          error: 'Validation Error',
+          message: validationResult.error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const ifMatchOption = this.readIfMatch(req, res);
+      if (ifMatchOption.isNone) {
+        return;
+      }
+      const expectedRevision = ifMatchOption.value;
+
+      // ユースケースの実行
+      const result = await this.patchTermUseCase.execute(name, patch, {
+        strictness: referenceStrictness as ReferenceStrictness | undefined,
+        actor: this.resolveActor(req),
+        expectedRevision,
+      });
+      if (!result.success) {
+        this.sendPatchError(res, result.error, expectedRevision);
+        return;
+      }
+
+      this.setETag(res, result.value.revision);
+      res.status(200).json({
+        success: true,
+        message: MESSAGES.SUCCESS.TERM_PATCHED(result.value.term.term.name),
+        data: {
+          term: result.value.term,
+          brokenReferences: result.value.brokenReferences,
         },
-        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (error) {
+      console.error('ユビキタス言語部分更新エラー:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * リクエストの本文からパッチ文書を取り出す
+   * Content-Typeでパッチの形式が指定されている場合は、本文の形式と一致しなければundefinedを返す
+   */
+  private resolvePatchDocument(req: Request): any {
+    const isArray = Array.isArray(req.body);
+
+    if (req.is(CONFIG.MIME_TYPES.JSON_PATCH)) {
+      return isArray ? req.body : undefined;
+    }
+
+    if (req.is(CONFIG.MIME_TYPES.MERGE_PATCH)) {
+      return isArray ? undefined : req.body;
+    }
+
+    return req.body;
+  }
+
+  /**
+   * 部分更新の失敗をエラーの種類に応じたステータスで返す
+   */
+  private sendPatchError(res: Response, error: Error, expectedRevision?: ExpectedRevision): void {
+    if (this.sendPreconditionFailed(res, error, expectedRevision)) {
+      return;
+    }
+
+    if (error instanceof EntityNotFoundError) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: error.message,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (error instanceof PatchApplicationError) {
+      res.status(422).json({
+        error: 'Patch Application Error',
+        message: error.message,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (error instanceof ReferentialIntegrityError) {
+      res.status(422).json({
+        error: 'Referential Integrity Error',
+        message: error.message,
+        brokenReferences: error.brokenReferences,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (error instanceof SemanticValidationError) {
+      res.status(422).json({
+        error: 'Semantic Validation Error',
+        message: error.message,
+        semanticIssues: error.issues,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (error instanceof AliasConflictError) {
+      res.status(409).json({
+        error: 'Alias Conflict',
+        message: error.message,
+        aliasConflicts: error.conflicts,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    // If-Matchなしで、読み込みから保存までの間に他の操作で変更された場合
+    if (error instanceof ConcurrentModificationError) {
+      res.status(409).json({
+        error: 'Concurrent Modification',
+        message: error.message,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Execution Error',
+      message: error.message,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * 機能定義の名前変更処理
+   */
+  async renameFeature(req: Request, res: Response): Promise<void> {
+    try {
+      const { name } = req.params;
+      const { newName } = req.body ?? {};
+
+      // 入力検証
+      const validationResult = this.renameFeatureUseCase.validateInput(name, newName);
+      if (!validationResult.success) {
+        res.status(400).json({
+          error: 'Validation Error',
+          message: validationResult.error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const ifMatchOption = this.readIfMatch(req, res);
+      if (ifMatchOption.isNone) {
+        return;
+      }
+      const expectedRevision = ifMatchOption.value;
+
+      // ユースケースの実行
+      const result = await this.renameFeatureUseCase.execute(name, newName, {
+        actor: this.resolveActor(req),
+        expectedRevision,
+      });
+      if (!result.success) {
+        this.sendRenameError(res, result.error, expectedRevision);
+        return;
+      }
+
+      this.setETag(res, result.value.revision);
+      res.status(200).json({
+        success: true,
+        message: MESSAGES.SUCCESS.FEATURE_RENAMED(result.value.previousName, result.value.newName),
+        data: result.value,
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (error) {
+      console.error('機能定義名前変更エラー:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * ユビキタス言語情報の名前変更処理
+   */
+  async renameTerm(req: Request, res: Response): Promise<void> {
+    try {
+      const { name } = req.params;
+      const { newName, keepOldNameAsAlias } = req.body ?? {};
+
+      // 入力検証
+      const validationResult = this.renameTermUseCase.validateInput(name, newName, keepOldNameAsAlias);
+      if (!validationResult.success) {
+        res.status(400).json({
+          error: 'Validation Error',
+          message: validationResult.error.message,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const ifMatchOption = this.readIfMatch(req, res);
+      if (ifMatchOption.isNone) {
+        return;
+      }
+      const expectedRevision = ifMatchOption.value;
+
+      // ユースケースの実行
+      const result = await this.renameTermUseCase.execute(name, newName, {
+        keepOldNameAsAlias,
+        actor: this.resolveActor(req),
+        expectedRevision,
+      });
+      if (!result.success) {
+        this.sendRenameError(res, result.error, expectedRevision);
+        return;
+      }
+
+      this.setETag(res, result.value.revision);
+      res.status(200).json({
+        success: true,
+        message: MESSAGES.SUCCESS.TERM_RENAMED(result.value.previousName, result.value.newName),
+        data: result.value,
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (error) {
+      console.error('ユビキタス言語名前変更エラー:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * 名前変更の失敗をエラーの種類に応じたステータスで返す
+   */
+  private sendRenameError(res: Response, error: Error, expectedRevision?: ExpectedRevision): void {
+    if (this.sendPreconditionFailed(res, error, expectedRevision)) {
+      return;
+    }
+
+    if (error instanceof EntityNotFoundError) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: error.message,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (error instanceof AliasConflictError) {
+      res.status(409).json({
+        error: 'Alias Conflict',
+        message: error.message,
+        aliasConflicts: error.conflicts,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (error instanceof NameConflictError || error instanceof ConcurrentModificationError) {
+      res.status(409).json({
+        error: error instanceof NameConflictError ? 'Name Conflict' : 'Concurrent Modification',
+        message: error.message,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Execution Error',
+      message: error.message,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * リビジョンの復元の失敗をエラーの種類に応じたステータスで返す
+   * 復元は追加・更新・削除と同じ検証を経るため、それぞれの検証エラーを同じステータスで返す
+   */
+  private sendRestoreError(res: Response, error: Error): void {
+    if (error instanceof RevisionNotFoundError) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: error.message,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (error instanceof SemanticValidationError) {
+      res.status(422).json({
+        error: 'Semantic Validation Error',
+        message: error.message,
+        semanticIssues: error.issues,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (error instanceof ReferentialIntegrityError) {
+      res.status(422).json({
+        error: 'Referential Integrity Error',
+        message: error.message,
+        brokenReferences: error.brokenReferences,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (error instanceof DependencyConflictError) {
+      res.status(409).json({
+        error: 'Dependency Conflict',
+        message: error.message,
+        inboundReferences: error.inboundReferences,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    // 復元前に確認したリビジョンから他の操作で変更された場合
+    if (error instanceof RevisionConflictError) {
+      res.status(409).json({
+        error: 'Concurrent Modification',
+        message: error.message,
+        currentRevision: error.currentRevision,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    // 別名・名前の重複は名前変更と同じステータスで返す
+    this.sendRenameError(res, error);
+  }
+
+  /**
+   * If-Matchヘッダーから期待するリビジョンを取り出す
+   * 受け付けるのは1つの強いETag（例: "3"）または * のみで、ヘッダーがない場合はundefinedを返す
+   */
+  private parseIfMatch(req: Request): Result<ExpectedRevision | undefined, Error> {
+    const ifMatch = req.get('If-Match')?.trim();
+    if (ifMatch === undefined) {
+      return Result.success(undefined);
+    }
+
+    if (ifMatch === '*') {
+      return Result.success('*');
+    }
+
+    // どの形式で取得したETagでも、同じリビジョンとして扱う
+    const suffixes = Object.values(CONFIG.REST_API.ETAG_SUFFIXES).join('|');
+    const match = ifMatch.match(new RegExp(`^"(\\d+)(?:-(?:${suffixes}))?"$`));
+    if (!match) {
+      return Result.failure(new Error(MESSAGES.ERROR.INVALID_IF_MATCH()));
+    }
+
+    return Result.success(Number(match[1]));
+  }
+
+  /**
+   * If-Matchヘッダーから期待するリビジョンを取り出す
+   * 形式が不正な場合は400を返してNoneとする
+   */
+  private readIfMatch(req: Request, res: Response): Option<ExpectedRevision | undefined> {
+    const ifMatchResult = this.parseIfMatch(req);
+    if (!ifMatchResult.success) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: ifMatchResult.error.message,
+        timestamp: new Date().toISOString(),
+      });
+      return Option.none();
+    }
+
+    return Option.some(ifMatchResult.value);
+  }
+
+  /**
+   * 項目のリビジョンをETagヘッダーに設定する
+   * @param suffix 応答の形式を表す接尾辞（JSONの場合は省略）
+   */
+  private setETag(res: Response, revision: number, suffix?: string): void {
+    res.set('ETag', suffix ? `"${revision}-${suffix}"` : `"${revision}"`);
+  }
+
+  /**
+   * 形式を選択して応答する場合に、リビジョンが指定されていればETagヘッダーを設定する
+   */
+  private setRepresentationETag(res: Response, revision: number | undefined, suffix?: string): void {
+    if (revision !== undefined) {
+      this.setETag(res, revision, suffix);
+    }
+  }
+
+  /**
+   * 期待したリビジョンと一致しなかった場合に412を返す
+   * If-Matchの指定がある更新で、照合後に他の操作で変更された場合も412とする
+   * @returns 412を返した場合true
+   */
+  private sendPreconditionFailed(res: Response, error: Error, expectedRevision?: ExpectedRevision): boolean {
+    if (error instanceof RevisionConflictError) {
+      this.setETag(res, error.currentRevision);
+      res.status(412).json({
+        error: 'Precondition Failed',
+        message: error.message,
+        currentRevision: error.currentRevision,
+        timestamp: new Date().toISOString(),
+      });
+      return true;
+    }
+
+    if (error instanceof ConcurrentModificationError && expectedRevision !== undefined) {
+      res.status(412).json({
+        error: 'Precondition Failed',
+        message: error.message,
+        timestamp: new Date().toISOString(),
       });
+      return true;
     }
+
+    return false;
+  }
+
+  /**
+   * 変更履歴に記録する変更者をリクエストヘッダーから決定する
+   */
+  private resolveActor(req: Request): string {
+    const actor = req.get(CONFIG.HISTORY.ACTOR_HEADER);
+    return actor?.trim() ? actor.trim() : CONFIG.HISTORY.REST_ACTOR;
   }
 }
@@ -10,6 +10,33 @@ import { DeleteFeatureUseCase } from '../../application/usecases/DeleteFeatureUs
 import { AddOrUpdateTermUseCase } from '../../application/usecases/AddOrUpdateTermUseCase.js';
 import { DeleteTermUseCase } from '../../application/usecases/DeleteTermUseCase.js';
 import { GetDetailsUseCase } from '../../application/usecases/GetDetailsUseCase.js';
+import { GetRevisionHistoryUseCase } from '../../application/usecases/GetRevisionHistoryUseCase.js';
+import { RestoreRevisionUseCase } from '../../application/usecases/RestoreRevisionUseCase.js';
+import { DiffDesignUseCase } from '../../application/usecases/DiffDesignUseCase.js';
+import { SearchDesignUseCase } from '../../application/usecases/SearchDesignUseCase.js';
+import { ListTermsUseCase } from '../../application/usecases/ListTermsUseCase.js';
+import { PatchFeatureUseCase } from '../../application/usecases/PatchFeatureUseCase.js';
+import { PatchTermUseCase } from '../../application/usecases/PatchTermUseCase.js';
+import { RenameFeatureUseCase } from '../../application/usecases/RenameFeatureUseCase.js';
+import { RenameTermUseCase } from '../../application/usecases/RenameTermUseCase.js';
+import { ValidateFeaturesUseCase } from '../../application/usecases/ValidateFeaturesUseCase.js';
+import { LintDesignUseCase } from '../../application/usecases/LintDesignUseCase.js';
+import { AnalyzeVocabularyUseCase } from '../../application/usecases/AnalyzeVocabularyUseCase.js';
+import { ReferentialIntegrityError } from '../../domain/errors/ReferentialIntegrityError.js';
+import { DependencyConflictError } from '../../domain/errors/DependencyConflictError.js';
+import { AliasConflictError } from '../../domain/errors/AliasConflictError.js';
+import { RevisionConflictError } from '../../domain/errors/RevisionConflictError.js';
+import { SemanticValidationError } from '../../domain/errors/SemanticValidationError.js';
+import {
+  AliasConflictData,
+  BrokenReferenceData,
+  DependencyAwareDeletionResultData,
+  InboundReferenceData,
+  RenameResultData,
+  SearchResultData,
+  SemanticIssueData,
+} from '../../domain/types.js';
+import { DiffMarkdownFormatter } from '../formatters/DiffMarkdownFormatter.js';
 import { MESSAGES } from '../../shared/constants/messages.js';
 import { CONFIG } from '../../shared/constants/config.js';
 import {
@@ -18,6 +45,19 @@ import {
   deleteFeatureSchema,
   deleteTermSchema,
   getDetailsSchema,
+  listRevisionsSchema,
+  getRevisionSchema,
+  restoreRevisionSchema,
+  diffSchema,
+  searchDesignSchema,
+  listTermsSchema,
+  patchFeatureSchema,
+  patchTermSchema,
+  renameFeatureSchema,
+  renameTermSchema,
+  validateFeaturesSchema,
+  lintDesignSchema,
+  analyzeVocabularySchema,
 } from '../../schemas/toolSchemas.js';
 
 /**
@@ -25,13 +65,27 @@ import {
  * クリーンアーキテクチャに基づき、ユースケースを呼び出してビジネスロジックを実行
  */
 export class ToolHandlers {
+  private readonly diffMarkdownFormatter = new DiffMarkdownFormatter();
+
   constructor(
     private readonly server: Server,
     private readonly addOrUpdateFeatureUseCase: AddOrUpdateFeatureUseCase,
     private readonly deleteFeatureUseCase: DeleteFeatureUseCase,
     private readonly addOrUpdateTermUseCase: AddOrUpdateTermUseCase,
     private readonly deleteTermUseCase: DeleteTermUseCase,
-    private readonly getDetailsUseCase: GetDetailsUseCase
+    private readonly getDetailsUseCase: GetDetailsUseCase,
+    private readonly getRevisionHistoryUseCase: GetRevisionHistoryUseCase,
+    private readonly restoreRevisionUseCase: RestoreRevisionUseCase,
+    private readonly diffDesignUseCase: DiffDesignUseCase,
+    private readonly searchDesignUseCase: SearchDesignUseCase,
+    private readonly listTermsUseCase: ListTermsUseCase,
+    private readonly patchFeatureUseCase: PatchFeatureUseCase,
+    private readonly patchTermUseCase: PatchTermUseCase,
+    private readonly renameFeatureUseCase: RenameFeatureUseCase,
+    private readonly renameTermUseCase: RenameTermUseCase,
+    private readonly validateFeaturesUseCase: ValidateFeaturesUseCase,
+    private readonly lintDesignUseCase: LintDesignUseCase,
+    private readonly analyzeVocabularyUseCase: AnalyzeVocabularyUseCase
   ) {}
 
   /**
@@ -73,6 +127,71 @@ export class ToolHandlers {
           description: '指定された機能定義とユビキタス言語情報の詳細を一括で取得します。',
           inputSchema: getDetailsSchema,
         },
+        {
+          name: CONFIG.TOOL_NAMES.LIST_REVISIONS,
+          description: '機能定義またはユビキタス言語情報の変更履歴（リビジョン一覧）を取得します。削除済みの項目の履歴も取得できます。',
+          inputSchema: listRevisionsSchema,
+        },
+        {
+          name: CONFIG.TOOL_NAMES.GET_REVISION,
+          description: '指定したリビジョンの内容（変更前と変更後の値）を取得します。',
+          inputSchema: getRevisionSchema,
+        },
+        {
+          name: CONFIG.TOOL_NAMES.RESTORE_REVISION,
+          description: '機能定義またはユビキタス言語情報を指定したリビジョンの状態に復元します。復元操作も新しいリビジョンとして記録されます。',
+          inputSchema: restoreRevisionSchema,
+        },
+        {
+          name: CONFIG.TOOL_NAMES.DIFF,
+          description: '機能定義・ユビキタス言語情報の変更案と保存済みの内容、または2つの設計書を比較し、フィールド単位の差分とMarkdownの要約を返します。',
+          inputSchema: diffSchema,
+        },
+        {
+          name: CONFIG.TOOL_NAMES.SEARCH_DESIGN,
+          description: '機能定義とユビキタス言語情報を横断して検索します。名前・目的・ユーザーストーリー・ステップ・別名・定義・用例が対象で、表記ゆれや軽微な誤字も許容します。',
+          inputSchema: searchDesignSchema,
+        },
+        {
+          name: CONFIG.TOOL_NAMES.LIST_TERMS,
+          description: 'カテゴリ・境界づけられたコンテキスト・関連機能でユビキタス言語情報を絞り込み、詳細を取得します。複数の条件を指定した場合は全てを満たすものを返します。',
+          inputSchema: listTermsSchema,
+        },
+        {
+          name: CONFIG.TOOL_NAMES.PATCH_FEATURE,
+          description: '保存済みの機能定義を部分更新します。JSON Patchの操作の配列（ステップの追加、特定のエラーハンドリングの編集など）またはJSON Merge Patchのオブジェクトを指定し、適用後の機能定義を返します。',
+          inputSchema: patchFeatureSchema,
+        },
+        {
+          name: CONFIG.TOOL_NAMES.PATCH_TERM,
+          description: '保存済みのユビキタス言語情報を部分更新します。JSON Patchの操作の配列またはJSON Merge Patchのオブジェクトを指定し、適用後のユビキタス言語情報を返します。',
+          inputSchema: patchTermSchema,
+        },
+        {
+          name: CONFIG.TOOL_NAMES.RENAME_FEATURE,
+          description: '機能名を変更します。ユビキタス言語のassociatedFunctionsの参照も新しい名前に書き換えて一括で保存し、書き換えなかった自由記述中の旧名称の言及を報告します。',
+          inputSchema: renameFeatureSchema,
+        },
+        {
+          name: CONFIG.TOOL_NAMES.RENAME_TERM,
+          description: 'ユビキタス言語の用語名を変更します。他の用語のrelatedTermsの参照も新しい名前に書き換えて一括で保存し、書き換えなかった自由記述中の旧名称の言及を報告します。旧名称を別名として残すこともできます。',
+          inputSchema: renameTermSchema,
+        },
+        {
+          name: CONFIG.TOOL_NAMES.VALIDATE_FEATURES,
+          description: '保存済みの機能定義内の参照を検証します。ステップの入力が入力パラメータ・前のステップの出力を指しているか、エラーハンドリングの検出箇所・結果の出力条件が存在するステップ・出力データを指しているか、ステップ番号の欠番、使われていない入力、到達しない出力を、問題の位置（JSONパス）とともに返します。',
+          inputSchema: validateFeaturesSchema,
+        },
+        {
+          name: CONFIG.TOOL_NAMES.LINT_DESIGN,
+          description: '設計書の品質のルール（ユーザーストーリー・エラーハンドリング・使用例の有無、目的の文数、コードマッピングの形式など）を検査し、項目ごとの指摘を重要度とともに返します。ルールごとの重要度はデータディレクトリのdesign-lint.jsonで設定します。',
+          inputSchema: lintDesignSchema,
+        },
+        {
+          name: CONFIG.TOOL_NAMES.ANALYZE_VOCABULARY,
+          description: '機能定義の目的・ユーザーストーリー・ステップの説明を単語に分割して定義済みの用語名・別名と照合し、繰り返し使われているがユビキタス言語に定義されていない語句を用語の候補として返します。',
+          inputSchema: analyzeVocabularySchema,
+        },
       ],
     }));
   }
@@ -101,6 +220,45 @@ export class ToolHandlers {
           case CONFIG.TOOL_NAMES.GET_DETAILS:
             return await this.handleGetDetails(args);
 
+          case CONFIG.TOOL_NAMES.LIST_REVISIONS:
+            return await this.handleListRevisions(args);
+
+          case CONFIG.TOOL_NAMES.GET_REVISION:
+            return await this.handleGetRevision(args);
+
+          case CONFIG.TOOL_NAMES.RESTORE_REVISION:
+            return await this.handleRestoreRevision(args);
+
+          case CONFIG.TOOL_NAMES.DIFF:
+            return await this.handleDiff(args);
+
+          case CONFIG.TOOL_NAMES.SEARCH_DESIGN:
+            return await this.handleSearchDesign(args);
+
+          case CONFIG.TOOL_NAMES.LIST_TERMS:
+            return await this.handleListTerms(args);
+
+          case CONFIG.TOOL_NAMES.PATCH_FEATURE:
+            return await this.handlePatchFeature(args);
+
+          case CONFIG.TOOL_NAMES.PATCH_TERM:
+            return await this.handlePatchTerm(args);
+
+          case CONFIG.TOOL_NAMES.RENAME_FEATURE:
+            return await this.handleRenameFeature(args);
+
+          case CONFIG.TOOL_NAMES.RENAME_TERM:
+            return await this.handleRenameTerm(args);
+
+          case CONFIG.TOOL_NAMES.VALIDATE_FEATURES:
+            return await this.handleValidateFeatures(args);
+
+          case CONFIG.TOOL_NAMES.LINT_DESIGN:
+            return await this.handleLintDesign(args);
+
+          case CONFIG.TOOL_NAMES.ANALYZE_VOCABULARY:
+            return await this.handleAnalyzeVocabulary(args);
+
           default:
             throw new McpError(
               ErrorCode.MethodNotFound,
@@ -132,7 +290,11 @@ export class ToolHandlers {
    */
   private async handleAddOrUpdateFeature(args: any) {
     // 入力検証
-    const validationResult = this.addOrUpdateFeatureUseCase.validateInput(args?.feature);
+    const validationResult = this.addOrUpdateFeatureUseCase.validateInput(
+      args?.feature,
+      args?.semanticStrictness,
+      args?.expectedRevision
+    );
     if (!validationResult.success) {
       return {
         content: [
@@ -146,24 +308,25 @@ export class ToolHandlers {
     }
 
     // ユースケースの実行
-    const result = await this.addOrUpdateFeatureUseCase.execute(args.feature);
+    const result = await this.addOrUpdateFeatureUseCase.execute(args.feature, {
+      strictness: args.semanticStrictness,
+      actor: this.resolveActor(args.actor),
+      expectedRevision: args.expectedRevision,
+    });
     if (!result.success) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: result.error.message,
-          },
-        ],
-        isError: true,
-      };
+      return this.createFeatureSaveErrorResponse(result.error);
     }
 
     // 成功レスポンスの生成
     const featureName = args.feature.feature.name;
-    const message = result.value.isUpdate 
+    let message = result.value.isUpdate 
       ? MESSAGES.SUCCESS.FEATURE_UPDATED(featureName)
       : MESSAGES.SUCCESS.FEATURE_ADDED(featureName);
+    message += `\n${MESSAGES.INFO.CURRENT_REVISION(result.value.revision)}`;
+
+    if (result.value.semanticIssues.length > 0) {
+      message += `\n\n${this.formatSemanticIssues(result.value.semanticIssues)}`;
+    }
 
     return {
       content: [
@@ -180,7 +343,11 @@ export class ToolHandlers {
    */
   private async handleDeleteFeature(args: any) {
     // 入力検証
-    const validationResult = this.deleteFeatureUseCase.validateInput(args?.featureName);
+    const validationResult = this.deleteFeatureUseCase.validateInput(
+      args?.featureName,
+      args?.mode,
+      args?.expectedRevision
+    );
     if (!validationResult.success) {
       throw new McpError(
         ErrorCode.InvalidParams,
@@ -189,17 +356,25 @@ export class ToolHandlers {
     }
 
     // ユースケースの実行
-    const result = await this.deleteFeatureUseCase.execute(args.featureName);
+    const result = await this.deleteFeatureUseCase.execute(args.featureName, {
+      mode: args.mode,
+      actor: this.resolveActor(args.actor),
+      expectedRevision: args.expectedRevision,
+    });
     if (!result.success) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: result.error.message,
-          },
-        ],
-        isError: true,
-      };
+      if (result.error instanceof DependencyConflictError) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `${result.error.message}\n\n${this.formatInboundReferences(result.error.inboundReferences)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      return this.createExecutionErrorResponse(result.error);
     }
 
     // 結果に応じたレスポンス生成
@@ -219,7 +394,7 @@ export class ToolHandlers {
       content: [
         {
           type: 'text',
-          text: MESSAGES.SUCCESS.FEATURE_DELETED(args.featureName),
+          text: MESSAGES.SUCCESS.FEATURE_DELETED(args.featureName) + this.formatDeletionDetails(result.value),
         },
       ],
     };
@@ -230,7 +405,11 @@ export class ToolHandlers {
    */
   private async handleDeleteTerm(args: any) {
     // 入力検証
-    const validationResult = this.deleteTermUseCase.validateInput(args?.termName);
+    const validationResult = this.deleteTermUseCase.validateInput(
+      args?.termName,
+      args?.mode,
+      args?.expectedRevision
+    );
     if (!validationResult.success) {
       throw new McpError(
         ErrorCode.InvalidParams,
@@ -239,17 +418,25 @@ export class ToolHandlers {
     }
 
     // ユースケースの実行
-    const result = await this.deleteTermUseCase.execute(args.termName);
+    const result = await this.deleteTermUseCase.execute(args.termName, {
+      mode: args.mode,
+      actor: this.resolveActor(args.actor),
+      expectedRevision: args.expectedRevision,
+    });
     if (!result.success) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: result.error.message,
-          },
-        ],
-        isError: true,
-      };
+      if (result.error instanceof DependencyConflictError) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `${result.error.message}\n\n${this.formatInboundReferences(result.error.inboundReferences)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      return this.createExecutionErrorResponse(result.error);
     }
 
     // 結果に応じたレスポンス生成
@@ -269,7 +456,7 @@ export class ToolHandlers {
       content: [
         {
           type: 'text',
-          text: MESSAGES.SUCCESS.TERM_DELETED(args.termName),
+          text: MESSAGES.SUCCESS.TERM_DELETED(result.value.termName) + this.formatDeletionDetails(result.value),
         },
       ],
     };
@@ -280,7 +467,11 @@ export class ToolHandlers {
    */
   private async handleAddOrUpdateTerm(args: any) {
     // 入力検証
-    const validationResult = this.addOrUpdateTermUseCase.validateInput(args?.term);
+    const validationResult = this.addOrUpdateTermUseCase.validateInput(
+      args?.term,
+      args?.referenceStrictness,
+      args?.expectedRevision
+    );
     if (!validationResult.success) {
       return {
         content: [
@@ -294,35 +485,205 @@ export class ToolHandlers {
     }
 
     // ユースケースの実行
-    const result = await this.addOrUpdateTermUseCase.execute(args.term);
+    const result = await this.addOrUpdateTermUseCase.execute(args.term, {
+      strictness: args.referenceStrictness,
+      actor: this.resolveActor(args.actor),
+      expectedRevision: args.expectedRevision,
+    });
     if (!result.success) {
+      return this.createTermSaveErrorResponse(result.error);
+    }
+
+    // 成功レスポンスの生成
+    const termName = args.term.term.name;
+    let message = result.value.isUpdate 
+      ? MESSAGES.SUCCESS.TERM_UPDATED(termName)
+      : MESSAGES.SUCCESS.TERM_ADDED(termName);
+    message += `\n${MESSAGES.INFO.CURRENT_REVISION(result.value.revision)}`;
+
+    if (result.value.brokenReferences.length > 0) {
+      message += `\n\n${this.formatBrokenReferences(result.value.brokenReferences)}`;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: message,
+        },
+      ],
+    };
+  }
+
+  /**
+   * 機能定義の保存に失敗した場合のレスポンスを作成する
+   * 機能定義内の参照の問題は一覧を添えて返す
+   */
+  private createFeatureSaveErrorResponse(error: Error) {
+    if (error instanceof SemanticValidationError) {
       return {
         content: [
           {
             type: 'text',
-            text: result.error.message,
+            text: `${error.message}\n\n${this.formatSemanticIssues(error.issues)}`,
+          },
+          {
+            type: 'text',
+            text: JSON.stringify({ semanticIssues: error.issues }, null, 2),
           },
         ],
         isError: true,
       };
     }
 
-    // 成功レスポンスの生成
-    const termName = args.term.term.name;
-    const message = result.value.isUpdate 
-      ? MESSAGES.SUCCESS.TERM_UPDATED(termName)
-      : MESSAGES.SUCCESS.TERM_ADDED(termName);
+    return this.createExecutionErrorResponse(error);
+  }
+
+  /**
+   * ユビキタス言語情報の保存に失敗した場合のレスポンスを作成する
+   * 参照切れ・別名の重複は一覧を添えて返す
+   */
+  private createTermSaveErrorResponse(error: Error) {
+    if (error instanceof ReferentialIntegrityError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${error.message}\n\n${this.formatBrokenReferences(error.brokenReferences)}`,
+          },
+          {
+            type: 'text',
+            text: JSON.stringify({ brokenReferences: error.brokenReferences }, null, 2),
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof AliasConflictError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${error.message}\n\n${this.formatAliasConflicts(error.conflicts)}`,
+          },
+          {
+            type: 'text',
+            text: JSON.stringify({ aliasConflicts: error.conflicts }, null, 2),
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return this.createExecutionErrorResponse(error);
+  }
+
+  /**
+   * ユースケースの実行に失敗した場合のレスポンスを作成する
+   * リビジョンの競合は期待したリビジョンと現在のリビジョンをJSONで添えて返す
+   */
+  private createExecutionErrorResponse(error: Error) {
+    if (error instanceof RevisionConflictError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: error.message,
+          },
+          {
+            type: 'text',
+            text: JSON.stringify({
+              revisionConflict: {
+                entityType: error.entityType,
+                entityName: error.entityName,
+                expectedRevision: error.expectedRevision,
+                currentRevision: error.currentRevision,
+              },
+            }, null, 2),
+          },
+        ],
+        isError: true,
+      };
+    }
 
     return {
       content: [
         {
           type: 'text',
-          text: message,
+          text: error.message,
         },
       ],
+      isError: true,
     };
   }
 
+  /**
+   * 被参照一覧をテキストに整形する
+   */
+  private formatInboundReferences(inboundReferences: readonly InboundReferenceData[]): string {
+    let text = MESSAGES.INFO.INBOUND_REFERENCES_SECTION(inboundReferences.length);
+    inboundReferences.forEach(reference => {
+      text += `${MESSAGES.INFO.INBOUND_REFERENCE_ITEM(reference.sourceTermName, reference.path)}\n`;
+    });
+    return text;
+  }
+
+  /**
+   * 削除時に影響を受けた参照の詳細をテキストに整形する
+   */
+  private formatDeletionDetails(deletion: DependencyAwareDeletionResultData): string {
+    if (deletion.inboundReferences.length === 0) {
+      return '';
+    }
+
+    let text = `\n\n${this.formatInboundReferences(deletion.inboundReferences)}`;
+    if (deletion.mode === 'cascade') {
+      text += MESSAGES.INFO.REFERENCES_CASCADED(deletion.updatedTermNames);
+    } else {
+      text += MESSAGES.INFO.REFERENCES_ORPHANED(deletion.inboundReferences.length);
+    }
+    return text;
+  }
+
+  /**
+   * 用語名・別名の重複一覧をテキストに整形する
+   */
+  private formatAliasConflicts(conflicts: readonly AliasConflictData[]): string {
+    let text = MESSAGES.INFO.ALIAS_CONFLICTS_SECTION(conflicts.length);
+    conflicts.forEach(conflict => {
+      text += `${MESSAGES.INFO.ALIAS_CONFLICT_ITEM(
+        conflict.value,
+        conflict.path,
+        conflict.conflictingTermName,
+        conflict.conflictingPath
+      )}\n`;
+    });
+    return text;
+  }
+
+  /**
+   * 参照切れ一覧をテキストに整形する
+   */
+  private formatBrokenReferences(brokenReferences: readonly BrokenReferenceData[]): string {
+    let text = MESSAGES.INFO.BROKEN_REFERENCES_SECTION(brokenReferences.length);
+    brokenReferences.forEach(reference => {
+      text += `${MESSAGES.INFO.BROKEN_REFERENCE_ITEM(reference.kind, reference.path, reference.referencedName, reference.canonicalName)}\n`;
+    });
+    return text;
+  }
+
+  /**
+   * 機能定義内の参照の問題一覧をテキストに整形する
+   */
+  private formatSemanticIssues(issues: readonly SemanticIssueData[]): string {
+    let text = MESSAGES.INFO.SEMANTIC_ISSUES_SECTION(issues.length);
+    issues.forEach(issue => {
+      text += `${MESSAGES.INFO.SEMANTIC_ISSUE_ITEM(issue.kind, issue.path, issue.value)}\n`;
+    });
+    return text;
+  }
+
   /**
    * 詳細情報の取得処理
    */
@@ -380,6 +741,14 @@ export class ToolHandlers {
       message += '\n';
     }
 
+    if (result.value.resolvedAliases.length > 0) {
+      message += MESSAGES.INFO.RESOLVED_ALIASES_SECTION();
+      result.value.resolvedAliases.forEach(resolution => {
+        message += MESSAGES.INFO.RESOLVED_ALIAS_ITEM(resolution.requestedName, resolution.termName);
+      });
+      message += '\n';
+    }
+
     if (result.value.notFound.featureNames.length > 0 || result.value.notFound.termNames.length > 0) {
       message += MESSAGES.INFO.NOT_FOUND_SECTION();
       if (result.value.notFound.featureNames.length > 0) {
@@ -403,4 +772,624 @@ export class ToolHandlers {
       ],
     };
   }
+
+  /**
+   * 変更履歴一覧の取得処理
+   */
+  private async handleListRevisions(args: any) {
+    // 入力検証
+    const validationResult = this.getRevisionHistoryUseCase.validateInput(args?.entityType, args?.name);
+    if (!validationResult.success) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        validationResult.error.message
+      );
+    }
+
+    // ユースケースの実行
+    const result = await this.getRevisionHistoryUseCase.execute(args.entityType, args.name);
+    if (!result.success) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: result.error.message,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: MESSAGES.SUCCESS.REVISIONS_RETRIEVED(args.name, result.value.length),
+        },
+        {
+          type: 'text',
+          text: JSON.stringify(result.value, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * リビジョンの取得処理
+   */
+  private async handleGetRevision(args: any) {
+    // 入力検証
+    const validationResult = this.getRevisionHistoryUseCase.validateInput(
+      args?.entityType,
+      args?.name,
+      args?.revision
+    );
+    if (!validationResult.success) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        validationResult.error.message
+      );
+    }
+
+    // ユースケースの実行
+    const result = await this.getRevisionHistoryUseCase.getRevision(args.entityType, args.name, args.revision);
+    if (!result.success) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: result.error.message,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: MESSAGES.SUCCESS.REVISION_RETRIEVED(result.value.entityName, args.revision),
+        },
+        {
+          type: 'text',
+          text: JSON.stringify(result.value, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * リビジョンの復元処理
+   */
+  private async handleRestoreRevision(args: any) {
+    // 入力検証
+    const validationResult = this.restoreRevisionUseCase.validateInput(
+      args?.entityType,
+      args?.name,
+      args?.revision
+    );
+    if (!validationResult.success) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        validationResult.error.message
+      );
+    }
+
+    // ユースケースの実行
+    const result = await this.restoreRevisionUseCase.execute(args.entityType, args.name, args.revision, {
+      actor: this.resolveActor(args.actor),
+    });
+    if (!result.success) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: result.error.message,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: MESSAGES.SUCCESS.REVISION_RESTORED(result.value.entityName, args.revision),
+        },
+        {
+          type: 'text',
+          text: JSON.stringify(result.value, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * 設計差分の計算処理
+   */
+  private async handleDiff(args: any) {
+    // 入力検証
+    const validationResult = this.diffDesignUseCase.validateInput(args);
+    if (!validationResult.success) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        validationResult.error.message
+      );
+    }
+
+    // ユースケースの実行
+    const result = await this.diffDesignUseCase.execute(args);
+    if (!result.success) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: result.error.message,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: this.diffMarkdownFormatter.format(result.value),
+        },
+        {
+          type: 'text',
+          text: JSON.stringify(result.value, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * 設計の検索処理
+   */
+  private async handleSearchDesign(args: any) {
+    // 入力検証
+    const validationResult = this.searchDesignUseCase.validateInput(args?.query, args?.entityType, args?.limit);
+    if (!validationResult.success) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        validationResult.error.message
+      );
+    }
+
+    // ユースケースの実行
+    const result = await this.searchDesignUseCase.execute(args.query, args.entityType, args.limit);
+    if (!result.success) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: result.error.message,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: this.formatSearchResults(result.value),
+        },
+        {
+          type: 'text',
+          text: JSON.stringify(result.value, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * 検索結果をテキストに整形する
+   */
+  private formatSearchResults(searchResult: SearchResultData): string {
+    let text = MESSAGES.SUCCESS.SEARCH_COMPLETED(searchResult.query, searchResult.total);
+    searchResult.results.forEach(item => {
+      text += MESSAGES.INFO.SEARCH_RESULT_ITEM(item.entityType, item.name, item.score);
+      item.matches.forEach(match => {
+        text += MESSAGES.INFO.SEARCH_MATCH_ITEM(match.path, match.snippet);
+      });
+    });
+    return text;
+  }
+
+  /**
+   * ユビキタス言語情報の絞り込み処理
+   */
+  private async handleListTerms(args: any) {
+    // 入力検証
+    const validationResult = this.listTermsUseCase.validateInput(args);
+    if (!validationResult.success) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        validationResult.error.message
+      );
+    }
+
+    // ユースケースの実行
+    const result = await this.listTermsUseCase.execute({
+      category: args?.category,
+      boundedContext: args?.boundedContext,
+      feature: args?.feature,
+    });
+    if (!result.success) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: result.error.message,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    let message = MESSAGES.SUCCESS.TERMS_FILTERED(result.value.length);
+    result.value.forEach(term => {
+      message += `- ${term.term.name}: ${term.term.definition}\n`;
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: message,
+        },
+        {
+          type: 'text',
+          text: JSON.stringify(result.value, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * 機能定義の部分更新処理
+   */
+  private async handlePatchFeature(args: any) {
+    // 入力検証
+    const validationResult = this.patchFeatureUseCase.validateInput(
+      args?.featureName,
+      args?.patch,
+      args?.semanticStrictness,
+      args?.expectedRevision
+    );
+    if (!validationResult.success) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        validationResult.error.message
+      );
+    }
+
+    // ユースケースの実行
+    const result = await this.patchFeatureUseCase.execute(args.featureName, args.patch, {
+      strictness: args.semanticStrictness,
+      actor: this.resolveActor(args.actor),
+      expectedRevision: args.expectedRevision,
+    });
+    if (!result.success) {
+      return this.createFeatureSaveErrorResponse(result.error);
+    }
+
+    let message = `${MESSAGES.SUCCESS.FEATURE_PATCHED(result.value.feature.feature.name)}\n` +
+      MESSAGES.INFO.CURRENT_REVISION(result.value.revision);
+    if (result.value.semanticIssues.length > 0) {
+      message += `\n\n${this.formatSemanticIssues(result.value.semanticIssues)}`;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: message,
+        },
+        {
+          type: 'text',
+          text: JSON.stringify(result.value.feature, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * ユビキタス言語情報の部分更新処理
+   */
+  private async handlePatchTerm(args: any) {
+    // 入力検証
+    const validationResult = this.patchTermUseCase.validateInput(
+      args?.termName,
+      args?.patch,
+      args?.referenceStrictness,
+      args?.expectedRevision
+    );
+    if (!validationResult.success) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        validationResult.error.message
+      );
+    }
+
+    // ユースケースの実行
+    const result = await this.patchTermUseCase.execute(args.termName, args.patch, {
+      strictness: args.referenceStrictness,
+      actor: this.resolveActor(args.actor),
+      expectedRevision: args.expectedRevision,
+    });
+    if (!result.success) {
+      return this.createTermSaveErrorResponse(result.error);
+    }
+
+    let message = `${MESSAGES.SUCCESS.TERM_PATCHED(result.value.term.term.name)}\n` +
+      MESSAGES.INFO.CURRENT_REVISION(result.value.revision);
+    if (result.value.brokenReferences.length > 0) {
+      message += `\n\n${this.formatBrokenReferences(result.value.brokenReferences)}`;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: message,
+        },
+        {
+          type: 'text',
+          text: JSON.stringify(result.value.term, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * 機能定義の名前変更処理
+   */
+  private async handleRenameFeature(args: any) {
+    // 入力検証
+    const validationResult = this.renameFeatureUseCase.validateInput(
+      args?.featureName,
+      args?.newName,
+      args?.expectedRevision
+    );
+    if (!validationResult.success) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        validationResult.error.message
+      );
+    }
+
+    // ユースケースの実行
+    const result = await this.renameFeatureUseCase.execute(args.featureName, args.newName, {
+      actor: this.resolveActor(args.actor),
+      expectedRevision: args.expectedRevision,
+    });
+    if (!result.success) {
+      return this.createExecutionErrorResponse(result.error);
+    }
+
+    return this.createRenameResponse(
+      MESSAGES.SUCCESS.FEATURE_RENAMED(result.value.previousName, result.value.newName),
+      result.value
+    );
+  }
+
+  /**
+   * ユビキタス言語情報の名前変更処理
+   */
+  private async handleRenameTerm(args: any) {
+    // 入力検証
+    const validationResult = this.renameTermUseCase.validateInput(
+      args?.termName,
+      args?.newName,
+      args?.keepOldNameAsAlias,
+      args?.expectedRevision
+    );
+    if (!validationResult.success) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        validationResult.error.message
+      );
+    }
+
+    // ユースケースの実行
+    const result = await this.renameTermUseCase.execute(args.termName, args.newName, {
+      keepOldNameAsAlias: args.keepOldNameAsAlias,
+      actor: this.resolveActor(args.actor),
+      expectedRevision: args.expectedRevision,
+    });
+    if (!result.success) {
+      return this.createTermSaveErrorResponse(result.error);
+    }
+
+    return this.createRenameResponse(
+      MESSAGES.SUCCESS.TERM_RENAMED(result.value.previousName, result.value.newName),
+      result.value
+    );
+  }
+
+  /**
+   * 名前変更の成功レスポンスを作成する
+   * 書き換えた参照と書き換えなかった言及をテキストで示し、結果全体をJSONで添付する
+   */
+  private createRenameResponse(message: string, rename: RenameResultData) {
+    let text = `${message}\n${MESSAGES.INFO.CURRENT_REVISION(rename.revision)}`;
+    if (rename.keptAsAlias) {
+      text += `\n${MESSAGES.INFO.OLD_NAME_KEPT_AS_ALIAS(rename.previousName)}`;
+    }
+    if (rename.updatedReferences.length > 0) {
+      text += `\n\n${MESSAGES.INFO.RENAMED_REFERENCES_SECTION(rename.updatedReferences.length)}`;
+      rename.updatedReferences.forEach(reference => {
+        text += `${MESSAGES.INFO.INBOUND_REFERENCE_ITEM(reference.sourceTermName, reference.path)}\n`;
+      });
+    }
+    if (rename.unchangedMentions.length > 0) {
+      text += `\n\n${MESSAGES.INFO.UNCHANGED_MENTIONS_SECTION(rename.unchangedMentions.length)}`;
+      rename.unchangedMentions.forEach(mention => {
+        text += `${MESSAGES.INFO.UNCHANGED_MENTION_ITEM(
+          mention.entityType,
+          mention.entityName,
+          mention.path,
+          mention.snippet
+        )}\n`;
+      });
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text,
+        },
+        {
+          type: 'text',
+          text: JSON.stringify(rename, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * 機能定義の検証処理
+   */
+  private async handleValidateFeatures(args: any) {
+    // 入力検証
+    const validationResult = this.validateFeaturesUseCase.validateInput(args?.featureNames);
+    if (!validationResult.success) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        validationResult.error.message
+      );
+    }
+
+    // ユースケースの実行
+    const result = await this.validateFeaturesUseCase.execute(args?.featureNames);
+    if (!result.success) {
+      return this.createExecutionErrorResponse(result.error);
+    }
+
+    const issueCount = result.value.reduce((count, validation) => count + validation.issues.length, 0);
+    let text = `${MESSAGES.SUCCESS.FEATURES_VALIDATED(result.value.length, issueCount)}\n`;
+    result.value.forEach(validation => {
+      text += `\n${MESSAGES.INFO.FEATURE_VALIDATION_ITEM(validation.featureName, validation.issues.length)}`;
+      validation.issues.forEach(issue => {
+        text += `${MESSAGES.INFO.SEMANTIC_ISSUE_ITEM(issue.kind, issue.path, issue.value)}\n`;
+      });
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text,
+        },
+        {
+          type: 'text',
+          text: JSON.stringify(result.value, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * 設計書のlint処理
+   * 指摘のある項目のみをテキストで示し、結果全体をJSONで添付する
+   */
+  private async handleLintDesign(args: any) {
+    // 入力検証
+    const validationResult = this.lintDesignUseCase.validateInput(args?.entityType, args?.name);
+    if (!validationResult.success) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        validationResult.error.message
+      );
+    }
+
+    // ユースケースの実行
+    const result = await this.lintDesignUseCase.execute({ entityType: args?.entityType, name: args?.name });
+    if (!result.success) {
+      return this.createExecutionErrorResponse(result.error);
+    }
+
+    const { entities, summary } = result.value;
+    let text = `${MESSAGES.SUCCESS.DESIGN_LINTED(entities.length, summary.error, summary.warning, summary.info)}\n`;
+    entities
+      .filter(entity => entity.findings.length > 0)
+      .forEach(entity => {
+        text += `\n${MESSAGES.INFO.LINT_ENTITY_SECTION(entity.entityType, entity.entityName, entity.findings.length)}`;
+        entity.findings.forEach(finding => {
+          text += `${MESSAGES.INFO.LINT_FINDING_ITEM(finding.severity, finding.ruleId, finding.path, finding.message)}\n`;
+        });
+      });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text,
+        },
+        {
+          type: 'text',
+          text: JSON.stringify(result.value, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * 語彙分析処理
+   * 用語の候補をテキストで示し、結果全体をJSONで添付する
+   */
+  private async handleAnalyzeVocabulary(args: any) {
+    // 入力検証
+    const validationResult = this.analyzeVocabularyUseCase.validateInput(args?.featureNames, args?.minOccurrences);
+    if (!validationResult.success) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        validationResult.error.message
+      );
+    }
+
+    // ユースケースの実行
+    const result = await this.analyzeVocabularyUseCase.execute(args?.featureNames, args?.minOccurrences);
+    if (!result.success) {
+      return this.createExecutionErrorResponse(result.error);
+    }
+
+    const { analyzedFeatureCount, candidates } = result.value;
+    let text = `${MESSAGES.SUCCESS.VOCABULARY_ANALYZED(analyzedFeatureCount, candidates.length)}\n`;
+    if (candidates.length > 0) {
+      text += '\n';
+      candidates.forEach(candidate => {
+        const featureNames = [...new Set(candidate.locations.map(location => location.featureName))];
+        text += `${MESSAGES.INFO.VOCABULARY_CANDIDATE_ITEM(candidate.phrase, candidate.occurrences, featureNames)}\n`;
+      });
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text,
+        },
+        {
+          type: 'text',
+          text: JSON.stringify(result.value, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * 変更履歴に記録する変更者を決定する
+   */
+  private resolveActor(actor: unknown): string {
+    return typeof actor === 'string' && actor.trim() ? actor.trim() : CONFIG.HISTORY.MCP_ACTOR;
+  }
 }
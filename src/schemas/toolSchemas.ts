@@ -2,6 +2,27 @@
  * MCPツールのJSON Schema定義
  */
 
+/**
+ * 期待するリビジョンのスキーマ
+ * 現在のリビジョンと一致しない場合は更新せずにリビジョンの競合として失敗する
+ */
+const expectedRevisionSchema = {
+  oneOf: [
+    { type: 'integer', minimum: 0 },
+    { type: 'string', enum: ['*'] },
+  ],
+  description: '更新対象に期待する現在のリビジョン（変更履歴のない項目は0）。* は項目が存在することのみを確認する（省略時は確認しない）'
+} as const;
+
+/**
+ * 機能定義の意味検証の厳格度のスキーマ
+ */
+const semanticStrictnessSchema = {
+  type: 'string',
+  enum: ['strict', 'warn'],
+  description: '機能定義内の参照（ステップの入力、エラーハンドリングの検出箇所・結果の出力条件など）の検証の厳格度。strictは問題があれば保存を拒否、warnは警告のみで保存（省略時はサーバー設定）'
+} as const;
+
 /**
  * 機能定義追加・更新ツールのスキーマ
  */
@@ -174,6 +195,12 @@ export const addOrUpdateFeatureSchema = {
       required: ['feature', 'inputs', 'outputs', 'coreLogicSteps', 'errorHandling', 'nonFunctionalRequirements', 'documentationNotes'],
       additionalProperties: false,
       description: '機能設計書の完全な定義'
+    },
+    semanticStrictness: semanticStrictnessSchema,
+    expectedRevision: expectedRevisionSchema,
+    actor: {
+      type: 'string',
+      description: '変更履歴に記録する変更者（省略時は mcp）'
     }
   },
   required: ['feature'],
@@ -322,6 +349,16 @@ export const addOrUpdateTermSchema = {
       required: ['term', 'details', 'relationships', 'implementation'],
       additionalProperties: false,
       description: 'ユビキタス言語情報の完全な定義'
+    },
+    referenceStrictness: {
+      type: 'string',
+      enum: ['strict', 'warn'],
+      description: '参照整合性チェックの厳格度。strictは参照切れがあれば保存を拒否、warnは警告のみで保存（省略時はサーバー設定）'
+    },
+    expectedRevision: expectedRevisionSchema,
+    actor: {
+      type: 'string',
+      description: '変更履歴に記録する変更者（省略時は mcp）'
     }
   },
   required: ['term'],
@@ -338,6 +375,16 @@ export const deleteFeatureSchema = {
       type: 'string',
       minLength: 1,
       description: '削除する機能の名前'
+    },
+    mode: {
+      type: 'string',
+      enum: ['block', 'cascade', 'orphan'],
+      description: '他のユビキタス言語から参照されている場合の動作。block: 削除を拒否、cascade: 参照も除去して削除、orphan: 参照を残したまま削除（省略時はサーバー設定）'
+    },
+    expectedRevision: expectedRevisionSchema,
+    actor: {
+      type: 'string',
+      description: '変更履歴に記録する変更者（省略時は mcp）'
     }
   },
   required: ['featureName'],
@@ -353,7 +400,17 @@ export const deleteTermSchema = {
     termName: {
       type: 'string',
       minLength: 1,
-      description: '削除する用語の名前'
+      description: '削除する用語の名前（別名でも指定可能）'
+    },
+    mode: {
+      type: 'string',
+      enum: ['block', 'cascade', 'orphan'],
+      description: '他のユビキタス言語から参照されている場合の動作。block: 削除を拒否、cascade: 参照も除去して削除、orphan: 参照を残したまま削除（省略時はサーバー設定）'
+    },
+    expectedRevision: expectedRevisionSchema,
+    actor: {
+      type: 'string',
+      description: '変更履歴に記録する変更者（省略時は mcp）'
     }
   },
   required: ['termName'],
@@ -381,9 +438,396 @@ export const getDetailsSchema = {
         type: 'string',
         minLength: 1
       },
-      description: '取得したいユビキタス言語情報の名前のリスト（省略可能）',
+      description: '取得したいユビキタス言語情報の名前または別名のリスト（省略可能）',
       uniqueItems: true
     }
   },
   additionalProperties: false
 } as const;
+
+/**
+ * 変更履歴一覧取得ツールのスキーマ
+ */
+export const listRevisionsSchema = {
+  type: 'object',
+  properties: {
+    entityType: {
+      type: 'string',
+      enum: ['feature', 'term'],
+      description: '履歴を取得する項目の種類（feature: 機能定義、term: ユビキタス言語）'
+    },
+    name: {
+      type: 'string',
+      minLength: 1,
+      description: '履歴を取得する機能名または用語名（削除済みの項目も指定可能。用語は別名でも指定可能）'
+    }
+  },
+  required: ['entityType', 'name'],
+  additionalProperties: false
+} as const;
+
+/**
+ * リビジョン取得ツールのスキーマ
+ */
+export const getRevisionSchema = {
+  type: 'object',
+  properties: {
+    entityType: {
+      type: 'string',
+      enum: ['feature', 'term'],
+      description: '項目の種類（feature: 機能定義、term: ユビキタス言語）'
+    },
+    name: {
+      type: 'string',
+      minLength: 1,
+      description: '機能名または用語名（用語は別名でも指定可能）'
+    },
+    revision: {
+      type: 'integer',
+      minimum: 1,
+      description: '取得するリビジョン番号'
+    }
+  },
+  required: ['entityType', 'name', 'revision'],
+  additionalProperties: false
+} as const;
+
+/**
+ * リビジョン復元ツールのスキーマ
+ */
+export const restoreRevisionSchema = {
+  type: 'object',
+  properties: {
+    entityType: {
+      type: 'string',
+      enum: ['feature', 'term'],
+      description: '項目の種類（feature: 機能定義、term: ユビキタス言語）'
+    },
+    name: {
+      type: 'string',
+      minLength: 1,
+      description: '機能名または用語名（用語は別名でも指定可能）'
+    },
+    revision: {
+      type: 'integer',
+      minimum: 1,
+      description: '復元するリビジョン番号。削除を記録したリビジョンを指定すると削除された状態に戻す'
+    },
+    actor: {
+      type: 'string',
+      description: '変更履歴に記録する変更者（省略時は mcp）'
+    }
+  },
+  required: ['entityType', 'name', 'revision'],
+  additionalProperties: false
+} as const;
+
+/**
+ * 比較対象の設計書のスキーマ
+ */
+const designDocumentSchema = {
+  type: 'object',
+  properties: {
+    features: {
+      type: 'array',
+      items: {
+        type: 'object'
+      },
+      description: '機能定義の配列'
+    },
+    terms: {
+      type: 'array',
+      items: {
+        type: 'object'
+      },
+      description: 'ユビキタス言語情報の配列'
+    }
+  }
+} as const;
+
+/**
+ * 設計差分ツールのスキーマ
+ */
+export const diffSchema = {
+  type: 'object',
+  properties: {
+    feature: {
+      ...addOrUpdateFeatureSchema.properties.feature,
+      description: '保存済みの内容と比較する機能定義の変更案'
+    },
+    term: {
+      ...addOrUpdateTermSchema.properties.term,
+      description: '保存済みの内容と比較するユビキタス言語情報の変更案'
+    },
+    baseDocument: {
+      ...designDocumentSchema,
+      description: '比較元の設計書（design.jsonの内容）。targetDocumentと組で指定'
+    },
+    targetDocument: {
+      ...designDocumentSchema,
+      description: '比較先の設計書（design.jsonの内容）。baseDocumentと組で指定'
+    }
+  },
+  additionalProperties: false
+} as const;
+
+/**
+ * 設計検索ツールのスキーマ
+ */
+export const searchDesignSchema = {
+  type: 'object',
+  properties: {
+    query: {
+      type: 'string',
+      minLength: 1,
+      maxLength: 200,
+      description: '検索語。日本語・英語の混在や軽微な誤字も許容します'
+    },
+    entityType: {
+      type: 'string',
+      enum: ['feature', 'term'],
+      description: '検索対象の種類（feature: 機能定義、term: ユビキタス言語。省略時は両方）'
+    },
+    limit: {
+      type: 'integer',
+      minimum: 1,
+      maximum: 50,
+      description: '返す件数の上限（省略時は10件）'
+    }
+  },
+  required: ['query'],
+  additionalProperties: false
+} as const;
+
+/**
+ * ユビキタス言語絞り込みツールのスキーマ
+ */
+export const listTermsSchema = {
+  type: 'object',
+  properties: {
+    category: {
+      type: 'string',
+      minLength: 1,
+      description: '用語の分類（例: エンティティ、値オブジェクト）'
+    },
+    boundedContext: {
+      type: 'string',
+      minLength: 1,
+      description: '境界づけられたコンテキスト'
+    },
+    feature: {
+      type: 'string',
+      minLength: 1,
+      description: 'associatedFunctionsに含まれる機能名'
+    }
+  },
+  additionalProperties: false
+} as const;
+
+/**
+ * パッチ文書のスキーマ
+ * 配列はJSON Patch（RFC 6902）、オブジェクトはJSON Merge Patch（RFC 7396）として扱う
+ */
+const patchDocumentSchema = {
+  oneOf: [
+    {
+      type: 'array',
+      minItems: 1,
+      description: 'JSON Patchの操作の配列（例: [{"op": "add", "path": "/coreLogicSteps/-", "value": {...}}]）',
+      items: {
+        type: 'object',
+        properties: {
+          op: {
+            type: 'string',
+            enum: ['add', 'remove', 'replace', 'move', 'copy', 'test']
+          },
+          path: {
+            type: 'string',
+            description: '対象のJSON Pointer（例: /errorHandling/0/handlingStrategyDescription）'
+          },
+          from: {
+            type: 'string',
+            description: 'move・copyの移動元・複製元のJSON Pointer'
+          },
+          value: {
+            description: 'add・replace・testで使用する値'
+          }
+        },
+        required: ['op', 'path']
+      }
+    },
+    {
+      type: 'object',
+      description: 'JSON Merge Patchのオブジェクト。nullを指定したプロパティは削除され、配列は全体が置き換わります'
+    }
+  ]
+} as const;
+
+/**
+ * 機能部分更新ツールのスキーマ
+ */
+export const patchFeatureSchema = {
+  type: 'object',
+  properties: {
+    featureName: {
+      type: 'string',
+      minLength: 1,
+      description: '部分更新する機能の名前'
+    },
+    patch: patchDocumentSchema,
+    semanticStrictness: semanticStrictnessSchema,
+    expectedRevision: expectedRevisionSchema,
+    actor: {
+      type: 'string',
+      description: '変更履歴に記録する変更者（省略時は mcp）'
+    }
+  },
+  required: ['featureName', 'patch'],
+  additionalProperties: false
+} as const;
+
+/**
+ * 用語部分更新ツールのスキーマ
+ */
+export const patchTermSchema = {
+  type: 'object',
+  properties: {
+    termName: {
+      type: 'string',
+      minLength: 1,
+      description: '部分更新する用語の名前（別名でも指定可能）'
+    },
+    patch: patchDocumentSchema,
+    referenceStrictness: {
+      type: 'string',
+      enum: ['strict', 'warn'],
+      description: '参照整合性チェックの厳格度。strictは参照切れがあれば保存を拒否、warnは警告のみで保存（省略時はサーバー設定）'
+    },
+    expectedRevision: expectedRevisionSchema,
+    actor: {
+      type: 'string',
+      description: '変更履歴に記録する変更者（省略時は mcp）'
+    }
+  },
+  required: ['termName', 'patch'],
+  additionalProperties: false
+} as const;
+
+/**
+ * 機能名前変更ツールのスキーマ
+ */
+export const renameFeatureSchema = {
+  type: 'object',
+  properties: {
+    featureName: {
+      type: 'string',
+      minLength: 1,
+      description: '名前を変更する機能の現在の名前'
+    },
+    newName: {
+      type: 'string',
+      minLength: 1,
+      description: '変更後の機能名'
+    },
+    expectedRevision: expectedRevisionSchema,
+    actor: {
+      type: 'string',
+      description: '変更履歴に記録する変更者（省略時は mcp）'
+    }
+  },
+  required: ['featureName', 'newName'],
+  additionalProperties: false
+} as const;
+
+/**
+ * 用語名前変更ツールのスキーマ
+ */
+export const renameTermSchema = {
+  type: 'object',
+  properties: {
+    termName: {
+      type: 'string',
+      minLength: 1,
+      description: '名前を変更する用語の現在の名前（別名でも指定可能）'
+    },
+    newName: {
+      type: 'string',
+      minLength: 1,
+      description: '変更後の用語名'
+    },
+    keepOldNameAsAlias: {
+      type: 'boolean',
+      description: '旧名称を別名として残すか（省略時は false）'
+    },
+    expectedRevision: expectedRevisionSchema,
+    actor: {
+      type: 'string',
+      description: '変更履歴に記録する変更者（省略時は mcp）'
+    }
+  },
+  required: ['termName', 'newName'],
+  additionalProperties: false
+} as const;
+
+/**
+ * 機能定義検証ツールのスキーマ
+ */
+export const validateFeaturesSchema = {
+  type: 'object',
+  properties: {
+    featureNames: {
+      type: 'array',
+      items: {
+        type: 'string',
+        minLength: 1
+      },
+      description: '検証する機能定義の名前のリスト（省略時は全件）',
+      uniqueItems: true
+    }
+  },
+  additionalProperties: false
+} as const;
+
+/**
+ * 設計書lintツールのスキーマ
+ */
+export const lintDesignSchema = {
+  type: 'object',
+  properties: {
+    entityType: {
+      type: 'string',
+      enum: ['feature', 'term'],
+      description: 'lintする項目の種類（feature: 機能定義、term: ユビキタス言語。省略時は両方）'
+    },
+    name: {
+      type: 'string',
+      minLength: 1,
+      description: 'lintする項目の名前（指定する場合はentityTypeも指定。省略時は全件）'
+    }
+  },
+  additionalProperties: false
+} as const;
+
+/**
+ * 語彙分析ツールのスキーマ
+ */
+export const analyzeVocabularySchema = {
+  type: 'object',
+  properties: {
+    featureNames: {
+      type: 'array',
+      items: {
+        type: 'string',
+        minLength: 1
+      },
+      description: '分析する機能定義の名前のリスト（省略時は全件）',
+      uniqueItems: true
+    },
+    minOccurrences: {
+      type: 'integer',
+      minimum: 1,
+      description: '用語の候補とする語句の最小出現回数（デフォルト: 2）'
+    }
+  },
+  additionalProperties: false
+} as const;
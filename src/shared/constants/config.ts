@@ -14,16 +14,83 @@ export const CONFIG = {
     HOST: process.env.HOST || 'localhost',
     CORS: {
       ORIGIN: process.env.CORS_ORIGIN || '*',
-      METHODS: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-      ALLOWED_HEADERS: ['Content-Type', 'Authorization'],
+      METHODS: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+      ALLOWED_HEADERS: ['Content-Type', 'Authorization', 'X-Actor', 'If-Match', 'X-Workspace'],
+      EXPOSED_HEADERS: ['ETag', 'X-Workspace'],
     },
     BASE_PATH: '/api',
+    /** Markdown・HTMLで応答する場合にETagのリビジョンへ付ける接尾辞（JSONはリビジョンのみ） */
+    ETAG_SUFFIXES: {
+      MARKDOWN: 'md',
+      HTML: 'html',
+    },
   },
 
   /** ファイルパス設定 */
   PATHS: {
     DATA_DIRECTORY: 'data',
     DESIGN_DOCUMENT_FILE: 'design.json',
+    DESIGN_DATABASE_FILE: 'design.sqlite',
+    DESIGN_DIRECTORY: 'design',
+    FEATURES_DIRECTORY: 'features',
+    TERMS_DIRECTORY: 'terms',
+    /** directoryの保存先でスキーマのバージョンを保持するファイル */
+    SCHEMA_FILE: 'schema.json',
+    HISTORY_FILE: 'history.jsonl',
+    RULES_DIRECTORY: 'files',
+    CODING_RULES_FILE: 'rule.md',
+    /** データディレクトリから読み込むlintの設定ファイル */
+    LINT_CONFIG_FILE: 'design-lint.json',
+    /** 作業ディレクトリから読み込むワークスペースの設定ファイル */
+    WORKSPACE_CONFIG_FILE: 'cline-support.config.json',
+  },
+
+  /** ワークスペース設定 */
+  WORKSPACE: {
+    /** データディレクトリ（設計書・変更履歴の保存先）。未指定の場合は設定ファイル、インストール先のdataディレクトリの順に使用する */
+    DATA_DIRECTORY: process.env.DESIGN_DATA_DIR || undefined,
+    /** ワークスペースの設定ファイルのパス */
+    CONFIG_FILE: process.env.CLINE_SUPPORT_CONFIG || undefined,
+    /** 使用するワークスペース名（MCPサーバーの接続で使用し、REST APIではリクエストごとの既定値になる） */
+    SELECTED: process.env.DESIGN_WORKSPACE || undefined,
+    /** データディレクトリに対応するワークスペース名 */
+    DEFAULT_NAME: 'default',
+    /** ワークスペース名に使用できる文字 */
+    NAME_PATTERN: /^[A-Za-z0-9][A-Za-z0-9_.-]*$/,
+    /** REST APIでワークスペースを指定するヘッダー */
+    HEADER: 'X-Workspace',
+  },
+
+  /** 変更履歴設定 */
+  HISTORY: {
+    /** 変更者を指定しなかった場合の既定値 */
+    DEFAULT_ACTOR: 'system',
+    MCP_ACTOR: 'mcp',
+    REST_ACTOR: 'rest',
+    /** REST APIで変更者を指定するヘッダー */
+    ACTOR_HEADER: 'X-Actor',
+    ENTITY_TYPES: ['feature', 'term'],
+  },
+
+  /** 永続化設定 */
+  PERSISTENCE: {
+    LOCK_FILE_SUFFIX: '.lock',
+    TEMPORARY_FILE_SUFFIX: '.tmp',
+    /** ロック取得を再試行する間隔（ミリ秒） */
+    LOCK_RETRY_INTERVAL_MS: 50,
+    /** ロック取得を諦めるまでの時間（ミリ秒） */
+    LOCK_TIMEOUT_MS: 10000,
+    /** 放置されたロックとみなすまでの時間（ミリ秒） */
+    LOCK_STALE_MS: 30000,
+    /** 設計書の保存先（json: 単一のJSONファイル / sqlite: 組み込みSQLiteデータベース / directory: 1項目1ファイルのディレクトリ） */
+    STORAGE: (['sqlite', 'directory'].includes(process.env.DESIGN_STORAGE ?? '')
+      ? process.env.DESIGN_STORAGE
+      : 'json') as 'json' | 'sqlite' | 'directory',
+    STORAGE_KINDS: ['json', 'sqlite', 'directory'],
+    /** directoryの保存先で新しい項目を書き込む形式（既存の項目は元のファイルの形式のまま） */
+    ENTITY_FILE_FORMAT: (['yaml', 'markdown'].includes(process.env.DESIGN_FILE_FORMAT ?? '')
+      ? process.env.DESIGN_FILE_FORMAT
+      : 'json') as 'json' | 'yaml' | 'markdown',
   },
 
   /** リソースURI */
@@ -33,6 +100,30 @@ export const CONFIG = {
     STATISTICS: 'design://statistics',
   },
 
+  /** リソースURIテンプレート */
+  RESOURCE_URI_TEMPLATES: {
+    TERMS_BY_CONTEXT: 'design://terms/by-context/{context}',
+    TERMS_BY_CATEGORY: 'design://terms/by-category/{category}',
+    TERMS_BY_FEATURE: 'design://terms/by-feature/{feature}',
+    FEATURE: 'design://features/{name}',
+    FEATURE_MARKDOWN: 'design://features/{name}/markdown',
+    FEATURE_READINESS: 'design://features/{name}/readiness',
+    TERM: 'design://terms/{name}',
+    TERM_MARKDOWN: 'design://terms/{name}/markdown',
+  },
+
+  /** 設計書の変更監視設定 */
+  WATCH: {
+    /** 連続した変更をまとめて扱うまでの待機時間（ミリ秒） */
+    DEBOUNCE_MS: 100,
+  },
+
+  /** リソース引数の補完設定 */
+  COMPLETION: {
+    /** 一度に返す候補の上限（MCPの仕様上の上限） */
+    MAX_VALUES: 100,
+  },
+
   /** ツール名 */
   TOOL_NAMES: {
     ADD_OR_UPDATE_FEATURE: 'add_or_update_feature',
@@ -40,17 +131,125 @@ export const CONFIG = {
     ADD_OR_UPDATE_TERM: 'add_or_update_term',
     DELETE_TERM: 'delete_term',
     GET_DETAILS: 'get_details',
+    LIST_REVISIONS: 'list_revisions',
+    GET_REVISION: 'get_revision',
+    RESTORE_REVISION: 'restore_revision',
+    DIFF: 'diff',
+    SEARCH_DESIGN: 'search_design',
+    LIST_TERMS: 'list_terms',
+    PATCH_FEATURE: 'patch_feature',
+    PATCH_TERM: 'patch_term',
+    RENAME_FEATURE: 'rename_feature',
+    RENAME_TERM: 'rename_term',
+    VALIDATE_FEATURES: 'validate_features',
+    LINT_DESIGN: 'lint_design',
+    ANALYZE_VOCABULARY: 'analyze_vocabulary',
+  },
+
+  /** プロンプト名 */
+  PROMPT_NAMES: {
+    IMPLEMENT_FEATURE: 'implement_feature',
+    REVIEW_IMPLEMENTATION: 'review_implementation',
+    WRITE_TESTS: 'write_tests',
   },
 
   /** MIME タイプ */
   MIME_TYPES: {
     JSON: 'application/json',
+    MARKDOWN: 'text/markdown',
+    HTML: 'text/html',
+    JSON_PATCH: 'application/json-patch+json',
+    MERGE_PATCH: 'application/merge-patch+json',
   },
 
   /** バリデーション設定 */
   VALIDATION: {
     MIN_STRING_LENGTH: 1,
     MIN_STEP_NUMBER: 1,
+    /** 参照整合性チェックの厳格度（strict: 保存を拒否 / warn: 警告のみ） */
+    REFERENCE_STRICTNESS: (process.env.REFERENCE_STRICTNESS === 'warn' ? 'warn' : 'strict') as 'strict' | 'warn',
+    REFERENCE_STRICTNESS_VALUES: ['strict', 'warn'],
+    /** 機能定義の意味検証の厳格度（strict: 保存を拒否 / warn: 警告のみ） */
+    SEMANTIC_STRICTNESS: (process.env.SEMANTIC_STRICTNESS === 'strict' ? 'strict' : 'warn') as 'strict' | 'warn',
+    SEMANTIC_STRICTNESS_VALUES: ['strict', 'warn'],
+    /** ステップの参照とみなす記述（例: 2、ステップ2、Step 2、#2） */
+    STEP_REFERENCE_PATTERN: /(?:ステップ|step|#)\s*(\d+)/gi,
+    STEP_NUMBER_PATTERN: /^\s*(?:(?:ステップ|step|#)\s*)?(\d+)\s*$/i,
+  },
+
+  /** lint設定 */
+  LINT: {
+    SEVERITIES: ['error', 'warning', 'info'],
+    RULE_SETTINGS: ['error', 'warning', 'info', 'off'],
+    /** 機能の目的の最大文数 */
+    MAX_PURPOSE_SENTENCES: 2,
+    /** 文の区切りとみなす記述（句点・感嘆符・疑問符、空白か末尾が続くピリオド） */
+    SENTENCE_DELIMITER: /[。．！？!?]+|\.(?=\s|$)/,
+    /** 識別子とみなすコードマッピング（例: User、domain.User、User#name、App::User） */
+    IDENTIFIER_PATTERN: /^[A-Za-z_$][\w$]*(?:(?:\.|::|#)[A-Za-z_$][\w$]*)*$/,
+  },
+
+  /** 実装準備度の評価設定 */
+  READINESS: {
+    /** 確認項目ごとの配点（合計100点） */
+    CHECK_WEIGHTS: {
+      inputsCoveredBySteps: 25,
+      stepsHaveErrorHandling: 25,
+      nonFunctionalRequirementsHaveLogic: 25,
+      referencedTermsDefined: 25,
+    },
+    /** 実装に着手できるとみなす最低点 */
+    READY_SCORE: 80,
+  },
+
+  /** 統計情報の設定 */
+  STATISTICS: {
+    /** 項目数の推移を集計する期間（ISO 8601形式の日時の先頭の文字数。7: 月ごと） */
+    GROWTH_PERIOD_LENGTH: 7,
+  },
+
+  /** 未定義の語彙の分析設定 */
+  VOCABULARY: {
+    /** 用語の候補とする語句の既定の最小出現回数 */
+    DEFAULT_MIN_OCCURRENCES: 2,
+    /** 用語の候補とする語句の最大語数 */
+    MAX_PHRASE_WORDS: 3,
+    /** 用語の候補とする語句の最小文字数 */
+    MIN_PHRASE_LENGTH: 2,
+    /** 返す用語の候補の最大件数 */
+    MAX_CANDIDATES: 50,
+    /** 語句の区切りとみなす語（正規化後の表記）。ひらがなを含む語と数字のみの語も区切りとみなす */
+    STOP_WORDS: [
+      'a', 'an', 'the', 'of', 'to', 'in', 'on', 'for', 'and', 'or', 'is', 'are', 'be', 'with', 'by',
+      'as', 'at', 'from', 'it', 'this', 'that', 'i', 'want', 'so', 'can', 'should', 'must', 'will',
+      '場合', '時', '際', '前', '後', '中', '上', '下', '以上', '以下', '各', '他', '等',
+    ],
+  },
+
+  /** 用語検索設定 */
+  TERM_LOOKUP: {
+    /** 用語名・別名の照合方法（exact: 完全一致 / normalized: 全角・半角や大文字・小文字を無視） */
+    MATCHING: (process.env.TERM_NAME_MATCHING === 'exact' ? 'exact' : 'normalized') as 'exact' | 'normalized',
+  },
+
+  /** 削除設定 */
+  DELETION: {
+    /** 被参照を持つ項目の削除モード（block / cascade / orphan） */
+    DEFAULT_MODE: (['cascade', 'orphan'].includes(process.env.DELETION_MODE ?? '')
+      ? process.env.DELETION_MODE
+      : 'block') as 'block' | 'cascade' | 'orphan',
+    MODES: ['block', 'cascade', 'orphan'],
+  },
+
+  /** 検索設定 */
+  SEARCH: {
+    DEFAULT_LIMIT: 10,
+    MAX_LIMIT: 50,
+    MAX_QUERY_LENGTH: 200,
+    /** 1件の検索結果に含める一致フィールドの最大数 */
+    MAX_MATCHES_PER_RESULT: 3,
+    /** スニペットとして一致箇所の前後に含める文字数 */
+    SNIPPET_RADIUS: 30,
   },
 
   /** エンコーディング設定 */
@@ -11,6 +11,28 @@ export const MESSAGES = {
     TERM_UPDATED: (name: string) => `ユビキタス言語情報「${name}」を更新しました。`,
     TERM_DELETED: (name: string) => `ユビキタス言語情報「${name}」を削除しました。`,
     DETAILS_RETRIEVED: () => '詳細情報を取得しました。\n\n',
+    REVISIONS_RETRIEVED: (name: string, count: number) => `「${name}」の変更履歴（${count}件）を取得しました。`,
+    REVISION_RETRIEVED: (name: string, revisionNumber: number) => `「${name}」のリビジョン${revisionNumber}を取得しました。`,
+    REVISION_RESTORED: (name: string, revisionNumber: number) =>
+      `「${name}」をリビジョン${revisionNumber}の状態に復元しました。`,
+    TERMS_FILTERED: (count: number) => `条件に一致するユビキタス言語（${count}件）:\n`,
+    SEARCH_COMPLETED: (query: string, count: number) => `「${query}」の検索結果（${count}件）:\n`,
+    FEATURE_PATCHED: (name: string) => `機能定義「${name}」に部分更新を適用しました。`,
+    TERM_PATCHED: (name: string) => `ユビキタス言語情報「${name}」に部分更新を適用しました。`,
+    FEATURE_RENAMED: (previousName: string, newName: string) =>
+      `機能定義「${previousName}」の名前を「${newName}」に変更しました。`,
+    TERM_RENAMED: (previousName: string, newName: string) =>
+      `ユビキタス言語情報「${previousName}」の用語名を「${newName}」に変更しました。`,
+    DESIGN_LINTED: (entityCount: number, errors: number, warnings: number, infos: number) =>
+      `${entityCount}件の項目をlintしました。エラー ${errors}件 / 警告 ${warnings}件 / 情報 ${infos}件`,
+    FEATURE_READINESS_EVALUATED: (featureName: string, score: number) =>
+      `機能定義「${featureName}」の実装準備度を評価しました（${score}点）`,
+    VOCABULARY_ANALYZED: (featureCount: number, candidateCount: number) =>
+      `${featureCount}件の機能定義の語彙を分析しました。用語の候補: ${candidateCount}件`,
+    FEATURES_VALIDATED: (featureCount: number, issueCount: number) =>
+      `機能定義${featureCount}件を検証しました。参照の問題は${issueCount}件です。`,
+    DIFF_COMPUTED: (count: number) =>
+      count > 0 ? `${count}件の項目に差分があります。` : '差分はありません。',
   },
 
   /** エラーメッセージ */
@@ -24,10 +46,120 @@ export const MESSAGES = {
     INVALID_PARAMS: () => '無効なパラメータです',
     UNKNOWN_TOOL: (name: string) => `不明なツール: ${name}`,
     UNKNOWN_RESOURCE: (uri: string) => `不明なリソースURI: ${uri}`,
+    NOT_ACCEPTABLE: (mediaTypes: readonly string[]) =>
+      `対応していない形式が要求されました。Acceptヘッダーには ${mediaTypes.join('、')} のいずれかを指定してください`,
     DESIGN_SAVE_FAILED: (error: string) => `設計書の保存に失敗しました: ${error}`,
     DESIGN_LOAD_FAILED: (error: string) => `設計書ファイルの読み込みに失敗しました: ${error}`,
+    INVALID_DESIGN_ROOT: () => '設計書の最上位はオブジェクトである必要があります',
+    DESIGN_DATABASE_FAILED: (error: string) => `設計書データベースの操作に失敗しました: ${error}`,
+    INVALID_STORAGE_KIND: (value: string) => `保存先の種類「${value}」は指定できません。json、sqlite、directory のいずれかを指定してください`,
+    FRONTMATTER_NOT_FOUND: () => 'Markdownファイルの先頭に --- で囲まれたフロントマターがありません',
+    DUPLICATE_ENTITY_FILES: (fileName: string, otherFileName: string) =>
+      `同じ項目のファイルが複数あります（${fileName}、${otherFileName}）。どちらか一方を削除してください`,
+    MIGRATION_SAME_STORAGE: () => '移行元と移行先に同じ保存先は指定できません',
+    MIGRATION_TARGET_NOT_EMPTY: (path: string) => `移行先「${path}」には既にデータがあります。上書きする場合は --force を指定してください`,
+    MIGRATION_VERIFICATION_FAILED: (expected: string, actual: string) => `移行結果の確認に失敗しました（移行元: ${expected} / 移行先: ${actual}）`,
+    MIGRATION_FAILED: (error: string) => `設計書の移行に失敗しました: ${error}`,
+    UNSUPPORTED_SCHEMA_VERSION: (schemaVersion: number, currentVersion: number) =>
+      `設計書のスキーマのバージョン（${schemaVersion}）には対応していません。対応しているバージョンは${currentVersion}以下です。サーバーを更新してください`,
+    SCHEMA_MIGRATION_FAILED: (from: number, to: number, error: string) =>
+      `設計書のスキーマをバージョン${from}から${to}に移行できませんでした: ${error}`,
+    SCHEMA_BACKUP_FAILED: (error: string) => `スキーマ移行前の設計書のバックアップに失敗しました: ${error}`,
+    WORKSPACE_NOT_FOUND: (name: string, available: readonly string[]) =>
+      `ワークスペース「${name}」は見つかりませんでした。利用可能なワークスペース: ${available.join('、')}`,
+    INVALID_WORKSPACE_NAME: (name: string) =>
+      `ワークスペース名「${name}」は使用できません。英数字で始まり、英数字・「_」・「.」・「-」のみを含む名前を指定してください`,
+    RESERVED_WORKSPACE_NAME: (name: string) =>
+      `ワークスペース名「${name}」はデータディレクトリに予約されています。dataDirectoryで指定してください`,
+    WORKSPACE_CONFIG_LOAD_FAILED: (path: string, error: string) =>
+      `ワークスペースの設定ファイル「${path}」の読み込みに失敗しました: ${error}`,
+    WORKSPACE_CONFIG_INVALID_FIELD: (path: string, field: string, expected: string) =>
+      `ワークスペースの設定ファイル「${path}」の${field}には${expected}を指定してください`,
+    DESIGN_WATCH_FAILED: (error: string) => `設計書の変更監視中にエラーが発生しました: ${error}`,
+    RESOURCE_NOTIFICATION_FAILED: (error: string) => `リソースの変更通知に失敗しました: ${error}`,
+    CODING_RULES_LOAD_FAILED: (error: string) => `コーディング原則の読み込みに失敗しました: ${error}`,
+    LINT_CONFIG_LOAD_FAILED: (path: string, error: string) => `lintの設定ファイル ${path} の読み込みに失敗しました: ${error}`,
+    LINT_CONFIG_INVALID: (path: string, field: string, expected: string) =>
+      `lintの設定ファイル ${path} の ${field} が不正です（${expected}を指定してください）`,
+    UNKNOWN_LINT_RULE: (ruleId: string, available: readonly string[]) =>
+      `lintのルール「${ruleId}」は存在しません。利用可能なルール: ${available.join(', ')}`,
+    DUPLICATE_LINT_RULE: (ruleId: string) => `lintのルール「${ruleId}」は既に登録されています`,
+    LINT_NAME_REQUIRES_ENTITY_TYPE: () => 'nameを指定する場合はentityTypeも指定してください',
+    UNKNOWN_PROMPT: (name: string) => `不明なプロンプト: ${name}`,
+    INVALID_PATCH_DOCUMENT: () =>
+      'パッチはJSON Patchの操作の配列、またはJSON Merge Patchのオブジェクトで指定してください',
+    INVALID_JSON_PATCH: () => 'JSON Patchには1件以上の操作を指定してください',
+    INVALID_PATCH_OPERATION: (index: number, field: string) => `パッチの操作${index}の${field}が不正です`,
+    INVALID_JSON_POINTER: (pointer: string) => `JSON Pointer「${pointer}」は「/」で始めてください`,
+    PATCH_PATH_NOT_FOUND: (pointer: string) => `パス「${pointer}」が存在しません`,
+    PATCH_CANNOT_REMOVE_ROOT: () => '文書全体は削除できません',
+    PATCH_FORBIDDEN_KEY: (pointer: string) => `パス「${pointer}」のキーは使用できません`,
+    PATCH_MOVE_INTO_ITSELF: (from: string, path: string) => `「${from}」を自身の子孫「${path}」には移動できません`,
+    PATCH_TEST_FAILED: (path: string) => `パス「${path}」の値が期待した値と一致しません`,
+    PATCH_OPERATION_FAILED: (index: number, op: string, reason: string) =>
+      `パッチの操作${index}（${op}）を適用できませんでした: ${reason}`,
+    PATCH_CANNOT_RENAME: (name: string) =>
+      `部分更新では名前を変更できません（対象: 「${name}」）`,
+    PATCHED_ENTITY_INVALID: (reason: string) => `部分更新を適用した結果が不正な形式です: ${reason}`,
+    NEW_NAME_REQUIRED: () => '変更後の名前が指定されていません',
+    INVALID_NEW_NAME: (reason: string) => `変更後の名前が不正です: ${reason}`,
+    RENAME_TO_SAME_NAME: (name: string) => `変更後の名前が現在の名前「${name}」と同じです`,
+    INVALID_KEEP_OLD_NAME_AS_ALIAS: () => 'keepOldNameAsAliasには真偽値を指定してください',
+    NAME_ALREADY_EXISTS: (entityType: string, name: string) =>
+      entityType === 'feature'
+        ? `機能定義「${name}」は既に存在します。別の名前を指定してください。`
+        : `「${name}」は既に他のユビキタス言語の用語名または別名として使われています。別の名前を指定してください。`,
+    CONCURRENT_MODIFICATION: (entityType: string, name: string) =>
+      `${entityType === 'feature' ? '機能定義' : 'ユビキタス言語情報'}「${name}」が処理中に他の操作で変更されました。` +
+      '最新の内容を確認してから再実行してください。',
+    REVISION_CONFLICT: (entityType: string, name: string, expectedRevision: string, currentRevision: number) =>
+      expectedRevision === '*'
+        ? `${entityType === 'feature' ? '機能定義' : 'ユビキタス言語情報'}「${name}」は存在しないため、存在を前提とした変更は行いませんでした。`
+        : `${entityType === 'feature' ? '機能定義' : 'ユビキタス言語情報'}「${name}」の現在のリビジョンは${currentRevision}で、` +
+          `期待したリビジョン${expectedRevision}と一致しません。最新の内容を取得してから再実行してください。`,
+    INVALID_EXPECTED_REVISION: () => 'expectedRevisionには0以上の整数、または * を指定してください',
+    INVALID_IF_MATCH: () => 'If-Matchヘッダーには1つのETag（例: "3"）、または * を指定してください',
+    FILE_LOCK_FAILED: (error: string) => `データファイルのロック取得に失敗しました: ${error}`,
+    FILE_LOCK_TIMEOUT: (lockPath: string) =>
+      `データファイルが他の処理によってロックされています。しばらく待ってから再実行してください（ロックファイル: ${lockPath}）`,
     RESOURCE_FETCH_FAILED: (error: string) => `リソースの取得中にエラーが発生しました: ${error}`,
     TOOL_EXECUTION_FAILED: (error: string) => `ツール実行エラー: ${error}`,
+    BROKEN_REFERENCES: (count: number) => 
+      `存在しない機能定義またはユビキタス言語への参照が${count}件あります。` +
+      '参照先を先に登録するか、参照を修正してください。',
+    ALIAS_CONFLICT: (count: number) =>
+      `用語名または別名が${count}件重複しています。` +
+      '別名を変更・削除するか、重複している用語と統合してください。',
+    INVALID_REFERENCE_STRICTNESS: () => 'referenceStrictnessには strict または warn を指定してください',
+    SEMANTIC_ISSUES: (count: number) =>
+      `機能定義内の参照に${count}件の問題があります。` +
+      'ステップの入力・エラーハンドリングの検出箇所と結果の出力条件を、定義済みの入力・ステップ・出力に揃えてください。',
+    INVALID_SEMANTIC_STRICTNESS: () => 'semanticStrictnessには strict または warn を指定してください',
+    INVALID_FEATURE_NAMES: () => 'featureNamesには機能名の配列を指定してください',
+    DELETION_BLOCKED: (name: string, count: number) =>
+      `「${name}」は他のユビキタス言語から${count}件参照されているため削除できません。` +
+      '参照も除去する場合は mode に cascade、参照を残したまま削除する場合は orphan を指定してください。',
+    HISTORY_SAVE_FAILED: (error: string) => `変更履歴の記録に失敗しました: ${error}`,
+    HISTORY_LOAD_FAILED: (error: string) => `変更履歴の読み込みに失敗しました: ${error}`,
+    MALFORMED_HISTORY_LINE: (historyPath: string, lineNumber: number, error: string) =>
+      `変更履歴の${lineNumber}行目を読み込めないため読み飛ばしました（${historyPath}）: ${error}`,
+    INVALID_REVISION_RECORD: () => 'リビジョンの形式が不正です',
+    REVISION_RECORDING_FAILED: (name: string, error: string) =>
+      `「${name}」の変更は保存しましたが、変更履歴の記録に失敗しました: ${error}`,
+    INVALID_ENTITY_TYPE: () => 'entityTypeには feature または term を指定してください',
+    INVALID_REVISION_NUMBER: () => 'リビジョン番号は1以上の整数で指定してください',
+    REVISION_NOT_FOUND: (name: string, revisionNumber: number) =>
+      `「${name}」のリビジョン${revisionNumber}は見つかりませんでした。` +
+      '利用可能なリビジョンは list_revisions ツールまたは GET /api/{features|terms}/:name/revisions で確認してください。',
+    DIFF_TARGET_REQUIRED: () =>
+      '比較対象として feature、term、または baseDocument と targetDocument の組のいずれか1つを指定してください',
+    INVALID_DIFF_DOCUMENT: (label: string) =>
+      `${label}の形式が不正です。features・termsの各要素には名前が必要です`,
+    INVALID_TERM_FILTER: (key: string) => `${key}には空でない文字列を指定してください`,
+    SEARCH_QUERY_REQUIRED: (maxLength: number) => `検索語を${maxLength}文字以内で指定してください`,
+    INVALID_SEARCH_LIMIT: (maxLimit: number) => `limitには1以上${maxLimit}以下の整数を指定してください`,
+    INVALID_MIN_OCCURRENCES: () => 'minOccurrencesには1以上の整数を指定してください',
+    INVALID_DELETION_MODE: () => 'modeには block、cascade、orphan のいずれかを指定してください',
     EMPTY_DETAILS_PARAMS: () => 
       'featureNamesまたはtermNamesのいずれかを指定してください。\n' +
       '利用可能な項目を確認するには、以下のリソースをご利用ください:\n' +
@@ -40,9 +172,151 @@ export const MESSAGES = {
     DESIGN_LOADED: (featureCount: number, termCount: number) => 
       `設計書を読み込みました: 機能定義 ${featureCount}件, 用語 ${termCount}件`,
     SERVER_RUNNING: () => 'Cline Support MCP Server running on stdio',
+    MIGRATION_COMPLETED: (from: string, to: string, featureCount: number, termCount: number) =>
+      `設計書を ${from} から ${to} に移行しました: 機能定義 ${featureCount}件, 用語 ${termCount}件`,
+    MIGRATION_USAGE: () =>
+      '使い方: npm run migrate -- --from <json|sqlite|directory> --to <json|sqlite|directory> [--force] [--data-dir <ディレクトリ>] [--workspace <ワークスペース名>] [--config <設定ファイル>]',
+    SCHEMA_UPGRADE_USAGE: () =>
+      '使い方: npm run upgrade-schema -- [--dry-run] [--storage <json|sqlite|directory>] [--data-dir <ディレクトリ>] [--workspace <ワークスペース名>] [--config <設定ファイル>]',
+    SCHEMA_UP_TO_DATE: (path: string, schemaVersion: number) =>
+      `${path} は最新のスキーマ（バージョン${schemaVersion}）です`,
+    SCHEMA_UPGRADE_PLAN: (path: string, from: number, to: number) =>
+      `${path} のスキーマをバージョン${from}から${to}に移行します:`,
+    SCHEMA_MIGRATION_STEP: (from: number, description: string) => `- バージョン${from} → ${from + 1}: ${description}`,
+    SCHEMA_FIELD_CHANGES_SECTION: (count: number) => `\n移行で変わるフィールド（${count}件）:`,
+    SCHEMA_FIELD_CHANGE_ITEM: (field: string, before: string, after: string) => `- ${field}: ${before} → ${after}`,
+    SCHEMA_FIELD_ABSENT: () => '（なし）',
+    SCHEMA_DRY_RUN: () => '（--dry-run のため、設計書は変更していません）',
+    SCHEMA_UPGRADED: (from: number, to: number, backupPath: string) =>
+      `設計書のスキーマをバージョン${from}から${to}に移行しました（移行前のバックアップ: ${backupPath}）`,
+    SERVER_USAGE: () => '使い方: node build/index.js [--data-dir <ディレクトリ>] [--workspace <ワークスペース名>] [--config <設定ファイル>]',
+    WORKSPACE_SELECTED: (name: string, dataDirectory: string) => `ワークスペース「${name}」を使用します: ${dataDirectory}`,
     MCP_ERROR: () => '[MCP Error]',
     FEATURES_SECTION: (count: number) => `機能定義（${count}件）:\n`,
     TERMS_SECTION: (count: number) => `ユビキタス言語（${count}件）:\n`,
     NOT_FOUND_SECTION: () => '見つからなかった項目:\n',
-  }
+    INBOUND_REFERENCES_SECTION: (count: number) => `被参照（${count}件）:\n`,
+    INBOUND_REFERENCE_ITEM: (sourceTermName: string, path: string) =>
+      `- ユビキタス言語「${sourceTermName}」の ${path}`,
+    REFERENCES_CASCADED: (termNames: readonly string[]) =>
+      `参照を除去したユビキタス言語: ${termNames.join(', ')}\n`,
+    REFERENCES_ORPHANED: (count: number) =>
+      `${count}件の参照は参照切れのまま残っています。\n`,
+    BROKEN_REFERENCES_SECTION: (count: number) => `参照切れ（${count}件）:\n`,
+    BROKEN_REFERENCE_ITEM: (kind: string, path: string, name: string, canonicalName?: string) =>
+      kind === 'associatedFunction'
+        ? `- ${path}: 機能定義「${name}」は存在しません`
+        : canonicalName
+          ? `- ${path}: 「${name}」は用語「${canonicalName}」の別名です。関連用語には正規の用語名「${canonicalName}」を指定してください`
+          : `- ${path}: ユビキタス言語「${name}」は存在しません`,
+    SEMANTIC_ISSUES_SECTION: (count: number) => `機能定義内の参照の問題（${count}件）:\n`,
+    SEMANTIC_ISSUE_ITEM: (kind: string, path: string, value: string) => {
+      switch (kind) {
+        case 'undefinedStepInput':
+          return `- ${path}: 「${value}」は入力パラメータ・前のステップの出力・ステップ番号のいずれでもありません`;
+        case 'forwardStepReference':
+          return `- ${path}: 「${value}」は同じステップか後のステップを参照しています`;
+        case 'nonContiguousStepNumber':
+          return `- ${path}: ステップ番号${value}の前のステップ番号が欠けています`;
+        case 'undefinedDetectionPoint':
+          return `- ${path}: 「${value}」は存在するステップを指していません`;
+        case 'undefinedOutputCondition':
+          return `- ${path}: 「${value}」はどの出力データの条件とも一致しません`;
+        case 'unusedInput':
+          return `- ${path}: 入力パラメータ「${value}」はどのステップでも使われていません`;
+        default:
+          return `- ${path}: 出力データ「${value}」に至るステップ・エラーハンドリングがありません`;
+      }
+    },
+    FEATURE_VALIDATION_ITEM: (name: string, count: number) =>
+      count > 0 ? `### ${name}（${count}件）\n` : `### ${name}: 問題はありません\n`,
+    LINT_ENTITY_SECTION: (entityType: string, name: string, count: number) =>
+      `### ${entityType === 'feature' ? '機能定義' : 'ユビキタス言語'}「${name}」（${count}件）\n`,
+    LINT_FINDING_ITEM: (severity: string, ruleId: string, path: string, message: string) =>
+      `- [${severity}] ${path}: ${message}（${ruleId}）`,
+    VOCABULARY_CANDIDATE_ITEM: (phrase: string, occurrences: number, featureNames: readonly string[]) =>
+      `- ${phrase}: ${occurrences}回（${featureNames.join(', ')}）`,
+    ALIAS_CONFLICTS_SECTION: (count: number) => `重複（${count}件）:\n`,
+    ALIAS_CONFLICT_ITEM: (value: string, path: string, termName: string, conflictingPath: string) =>
+      `- ${path}「${value}」: ユビキタス言語「${termName}」の ${conflictingPath} と重複しています`,
+    RENAMED_REFERENCES_SECTION: (count: number) => `書き換えた参照（${count}件）:\n`,
+    UNCHANGED_MENTIONS_SECTION: (count: number) =>
+      `自由記述中の旧名称の言及（${count}件、書き換えていません）:\n`,
+    UNCHANGED_MENTION_ITEM: (entityType: string, name: string, path: string, snippet: string) =>
+      `- [${entityType === 'feature' ? '機能定義' : 'ユビキタス言語'}] ${name} の ${path}: ${snippet}`,
+    OLD_NAME_KEPT_AS_ALIAS: (name: string) => `旧名称「${name}」は別名として残しました。`,
+    CURRENT_REVISION: (revision: number) => `現在のリビジョン: ${revision}`,
+    RESOLVED_ALIASES_SECTION: () => '別名から解決した用語:\n',
+    RESOLVED_ALIAS_ITEM: (requestedName: string, termName: string) => `- 「${requestedName}」→「${termName}」\n`,
+    SEARCH_RESULT_ITEM: (entityType: string, name: string, score: number) =>
+      `- [${entityType === 'feature' ? '機能定義' : 'ユビキタス言語'}] ${name}（スコア: ${score}）\n`,
+    SEARCH_MATCH_ITEM: (path: string, snippet: string) => `  - ${path}: ${snippet}\n`,
+    DIFF_TITLE: () => '## 設計差分\n\n',
+    DIFF_SUMMARY: (added: number, removed: number, modified: number, unchanged: number) =>
+      `追加 ${added}件 / 削除 ${removed}件 / 変更 ${modified}件 / 変更なし ${unchanged}件\n`,
+    DIFF_ENTITY_SECTION: (entityType: string, name: string, status: string) =>
+      `\n### ${entityType === 'feature' ? '機能定義' : 'ユビキタス言語'}「${name}」（${status}）\n\n`,
+  },
+
+  /** 設計書のlintの指摘 */
+  LINT: {
+    USER_STORY_REQUIRED: () => 'ユーザーストーリーを1件以上記述してください',
+    ERROR_HANDLING_REQUIRED: () => 'エラーハンドリングを1件以上記述してください',
+    OUTPUT_REQUIRED: () => '出力データを1件以上記述してください',
+    STEP_REQUIRED: () => 'コアロジックステップを1件以上記述してください',
+    PURPOSE_SENTENCES: (count: number, max: number) =>
+      `機能の目的は1〜${max}文で記述してください（現在${count}文）`,
+    EXAMPLE_REQUIRED: () => '使用例を1件以上記述してください',
+    CODE_MAPPING_IDENTIFIER: (codeMapping: string) =>
+      `コードマッピング「${codeMapping}」は識別子（例: User、domain.User）の形式ではありません`,
+    ASSOCIATED_FUNCTION_RECOMMENDED: () => '関連する機能定義を指定すると、機能との対応を追跡できます',
+    RULE_FAILED: (ruleId: string, error: string) => `ルール「${ruleId}」の実行に失敗しました: ${error}`,
+  },
+
+  /** 実装準備度の確認項目 */
+  READINESS: {
+    INPUTS_COVERED_BY_STEPS: () => '全ての入力パラメータがいずれかのステップの入力に使われている',
+    STEPS_HAVE_ERROR_HANDLING: () => '全てのステップがいずれかのエラーハンドリングの検出箇所になっている',
+    NON_FUNCTIONAL_REQUIREMENTS_HAVE_LOGIC: () => '非機能要件が1件以上あり、全てにロジック上の考慮事項が記述されている',
+    REFERENCED_TERMS_DEFINED: () => '機能の本文で繰り返し使われている語句がユビキタス言語として定義されている',
+  },
+
+  /** プロンプトの指示文 */
+  PROMPT: {
+    CODING_RULES: (rules: string) =>
+      `このプロジェクトでは、次のコーディング原則に従ってください。\n\n${rules}`,
+    TERMS_INTRODUCTION: (count: number) =>
+      `次の${count}件のユビキタス言語情報を参照し、用語名・定義・制約に従ってください。`,
+    IMPLEMENT_FEATURE: (featureName: string) => [
+      `上記の機能定義「${featureName}」を実装してください。`,
+      '',
+      '- coreLogicSteps の順序と意図に沿って、ステップごとに関数を分割してください',
+      '- inputs の制約を検証し、outputs の各条件に対応する結果を返してください',
+      '- errorHandling の全てのエラー条件を、記載された検出箇所と処理方針のとおりに処理してください',
+      '- nonFunctionalRequirements の考慮事項をロジックに反映してください',
+      '- 命名にはユビキタス言語の用語を使い、用語の制約に違反しないでください',
+      '- 設計書に記載のない振る舞いが必要な場合は、実装する前に確認してください',
+    ].join('\n'),
+    REVIEW_IMPLEMENTATION: (featureName: string, implementation?: string) => [
+      `上記の機能定義「${featureName}」に照らして、${implementation ? '次の実装' : '現在のワークスペースにある実装'}をレビューしてください。`,
+      '',
+      ...(implementation ? [implementation, ''] : []),
+      '- coreLogicSteps の各ステップが、設計書の順序と意図どおりに実装されているか',
+      '- inputs の制約の検証、outputs の各条件、errorHandling の各条件が設計書どおりか',
+      '- 命名と振る舞いがユビキタス言語の定義・制約と一貫しているか',
+      '- コーディング原則に違反している箇所がないか',
+      '',
+      '指摘には設計書の該当箇所（ステップ番号やエラー条件など）を添え、重要度の高い順に挙げてください。',
+    ].join('\n'),
+    WRITE_TESTS: (featureName: string, testFramework?: string) => [
+      `上記の機能定義「${featureName}」のテストを作成してください${testFramework ? `（テストフレームワーク: ${testFramework}）` : ''}。`,
+      '',
+      '- outputs の各条件について、その条件を満たす入力と期待する出力を検証してください',
+      '- errorHandling の各条件について、エラーが検出され resultingOutputCondition の結果になることを検証してください',
+      '- inputs の constraints の境界値を検証してください',
+      '- ユビキタス言語の用例（examples）をテストケースに反映してください',
+      '',
+      'テスト名には、対応する設計書の条件がわかる名前を付けてください。',
+    ].join('\n'),
+  },
 } as const;
@@ -0,0 +1,41 @@
+/**
+ * キーの順序を固定したJSONを扱うユーティリティ
+ */
+
+/**
+ * オブジェクトのキーを再帰的に辞書順に並べ替えた値を作成する
+ * 配列の要素の順序はそのまま保つ
+ */
+const sortKeys = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map(key => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+
+  return value;
+};
+
+export const CanonicalJson = {
+  /**
+   * オブジェクトのキーを再帰的に辞書順に並べ替えた値を作成する
+   */
+  sortKeys: (value: unknown): unknown => sortKeys(value),
+
+  /**
+   * キーを辞書順に並べたJSON文字列に変換する
+   * 同じ内容であれば入力時のキーの順序にかかわらず同じ文字列になる
+   */
+  stringify: (value: unknown, indent?: number): string => JSON.stringify(sortKeys(value), null, indent),
+
+  /**
+   * キーの順序を無視して2つの値が同じ内容かを判定する
+   */
+  equals: (a: unknown, b: unknown): boolean => CanonicalJson.stringify(a) === CanonicalJson.stringify(b),
+};
@@ -0,0 +1,326 @@
+/**
+ * JSON Patch（RFC 6902）とJSON Merge Patch（RFC 7396）を適用するユーティリティ
+ */
+import { Result } from '../types/functional.js';
+import { MESSAGES } from '../constants/messages.js';
+
+/**
+ * JSON Patchの操作の種類
+ */
+export const JSON_PATCH_OPERATIONS = ['add', 'remove', 'replace', 'move', 'copy', 'test'] as const;
+
+/**
+ * JSON Patchの操作の種類の型
+ */
+export type JsonPatchOperationType = typeof JSON_PATCH_OPERATIONS[number];
+
+/**
+ * JSON Patchの1件の操作の型
+ */
+export interface JsonPatchOperation {
+  readonly op: JsonPatchOperationType;
+  readonly path: string;
+  readonly value?: unknown;
+  readonly from?: string;
+}
+
+/**
+ * パッチ文書の型
+ * 配列の場合はJSON Patch、オブジェクトの場合はJSON Merge Patchとして扱う
+ */
+export type PatchDocument = readonly JsonPatchOperation[] | Readonly<Record<string, unknown>>;
+
+/**
+ * 配列の添字として有効なJSON Pointerのトークン
+ */
+const ARRAY_INDEX_PATTERN = /^(0|[1-9][0-9]*)$/;
+
+/**
+ * 配列の末尾を表すJSON Pointerのトークン
+ */
+const ARRAY_END_TOKEN = '-';
+
+/**
+ * オブジェクトのプロトタイプを書き換えてしまうため、追加を禁止するキー
+ */
+const FORBIDDEN_KEYS: readonly string[] = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * 値がプレーンなオブジェクトかを判定する
+ */
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * JSON Pointerをトークンの配列に分解する
+ */
+const parsePointer = (pointer: string): string[] => {
+  if (pointer === '') {
+    return [];
+  }
+  if (!pointer.startsWith('/')) {
+    throw new Error(MESSAGES.ERROR.INVALID_JSON_POINTER(pointer));
+  }
+  return pointer
+    .slice(1)
+    .split('/')
+    .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+};
+
+/**
+ * コンテナ内の既存の子要素の位置を解決する
+ * 存在しない場合はエラーとする
+ */
+const resolveExistingKey = (container: unknown, token: string, pointer: string): string | number => {
+  if (Array.isArray(container)) {
+    if (!ARRAY_INDEX_PATTERN.test(token) || Number(token) >= container.length) {
+      throw new Error(MESSAGES.ERROR.PATCH_PATH_NOT_FOUND(pointer));
+    }
+    return Number(token);
+  }
+  if (isPlainObject(container) && Object.prototype.hasOwnProperty.call(container, token)) {
+    return token;
+  }
+  throw new Error(MESSAGES.ERROR.PATCH_PATH_NOT_FOUND(pointer));
+};
+
+/**
+ * トークンの配列をJSON Pointerに変換する
+ */
+const toPointer = (tokens: readonly string[]): string =>
+  tokens.map(token => `/${token.replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+
+/**
+ * JSON Pointerが指す値を取得する
+ */
+const getValue = (root: unknown, pointer: string): unknown =>
+  parsePointer(pointer).reduce<unknown>(
+    (current, token) => (current as Record<string | number, unknown>)[resolveExistingKey(current, token, pointer)],
+    root
+  );
+
+/**
+ * JSON Pointerの親要素と最後のトークンを取得する
+ */
+const getParent = (root: unknown, pointer: string): { parent: unknown; token: string } => {
+  const tokens = parsePointer(pointer);
+  const token = tokens.pop() as string;
+  const parent = tokens.reduce<unknown>(
+    (current, parentToken) => (current as Record<string | number, unknown>)[resolveExistingKey(current, parentToken, pointer)],
+    root
+  );
+  return { parent, token };
+};
+
+/**
+ * 値を追加する（配列の場合は挿入、オブジェクトの場合は追加または置換）
+ */
+const addValue = (root: unknown, pointer: string, value: unknown): unknown => {
+  if (pointer === '') {
+    return value;
+  }
+
+  const { parent, token } = getParent(root, pointer);
+  if (Array.isArray(parent)) {
+    if (token === ARRAY_END_TOKEN) {
+      parent.push(value);
+    } else if (ARRAY_INDEX_PATTERN.test(token) && Number(token) <= parent.length) {
+      parent.splice(Number(token), 0, value);
+    } else {
+      throw new Error(MESSAGES.ERROR.PATCH_PATH_NOT_FOUND(pointer));
+    }
+  } else if (isPlainObject(parent)) {
+    if (FORBIDDEN_KEYS.includes(token)) {
+      throw new Error(MESSAGES.ERROR.PATCH_FORBIDDEN_KEY(pointer));
+    }
+    parent[token] = value;
+  } else {
+    throw new Error(MESSAGES.ERROR.PATCH_PATH_NOT_FOUND(pointer));
+  }
+  return root;
+};
+
+/**
+ * 既存の値を削除する
+ */
+const removeValue = (root: unknown, pointer: string): unknown => {
+  if (pointer === '') {
+    throw new Error(MESSAGES.ERROR.PATCH_CANNOT_REMOVE_ROOT());
+  }
+
+  const { parent, token } = getParent(root, pointer);
+  const key = resolveExistingKey(parent, token, pointer);
+  if (Array.isArray(parent)) {
+    parent.splice(key as number, 1);
+  } else {
+    delete (parent as Record<string, unknown>)[key];
+  }
+  return root;
+};
+
+/**
+ * 既存の値を置き換える
+ */
+const replaceValue = (root: unknown, pointer: string, value: unknown): unknown => {
+  if (pointer === '') {
+    return value;
+  }
+
+  const { parent, token } = getParent(root, pointer);
+  const key = resolveExistingKey(parent, token, pointer);
+  (parent as Record<string | number, unknown>)[key] = value;
+  return root;
+};
+
+/**
+ * 2つのJSON値が等しいかを判定する（オブジェクトのキーの順序は問わない）
+ */
+const deepEqual = (a: unknown, b: unknown): boolean => {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length
+      && keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key]));
+  }
+  return a === b;
+};
+
+/**
+ * 1件の操作を適用する
+ * 渡された値を直接変更し、ルートが置き換わった場合に備えて適用後のルートを返す
+ */
+const applyOperation = (root: unknown, operation: JsonPatchOperation): unknown => {
+  switch (operation.op) {
+    case 'add':
+      return addValue(root, operation.path, structuredClone(operation.value));
+
+    case 'remove':
+      return removeValue(root, operation.path);
+
+    case 'replace':
+      return replaceValue(root, operation.path, structuredClone(operation.value));
+
+    case 'move': {
+      const from = operation.from as string;
+      if (operation.path.startsWith(`${from}/`)) {
+        throw new Error(MESSAGES.ERROR.PATCH_MOVE_INTO_ITSELF(from, operation.path));
+      }
+      const value = getValue(root, from);
+      return addValue(removeValue(root, from), operation.path, value);
+    }
+
+    case 'copy':
+      return addValue(root, operation.path, structuredClone(getValue(root, operation.from as string)));
+
+    case 'test':
+      if (!deepEqual(getValue(root, operation.path), operation.value)) {
+        throw new Error(MESSAGES.ERROR.PATCH_TEST_FAILED(operation.path));
+      }
+      return root;
+  }
+};
+
+export const JsonPatch = {
+  /**
+   * パッチ文書の形式を検証する
+   */
+  validateDocument: (patch: unknown): Result<void, Error> => {
+    if (Array.isArray(patch)) {
+      return JsonPatch.validate(patch);
+    }
+    if (!isPlainObject(patch)) {
+      return Result.failure(new Error(MESSAGES.ERROR.INVALID_PATCH_DOCUMENT()));
+    }
+    return Result.success(undefined);
+  },
+
+  /**
+   * パッチ文書の形式に応じて、JSON PatchまたはJSON Merge Patchを適用した新しい値を返す
+   */
+  patch: <T>(document: T, patch: PatchDocument): Result<T, Error> =>
+    Array.isArray(patch)
+      ? JsonPatch.apply(document, patch as readonly JsonPatchOperation[])
+      : JsonPatch.merge(document, patch),
+
+  /**
+   * JSON Patchの形式を検証する
+   */
+  validate: (operations: unknown): Result<void, Error> => {
+    if (!Array.isArray(operations) || operations.length === 0) {
+      return Result.failure(new Error(MESSAGES.ERROR.INVALID_JSON_PATCH()));
+    }
+
+    for (const [index, operation] of operations.entries()) {
+      if (!isPlainObject(operation) || !JSON_PATCH_OPERATIONS.includes(operation.op as JsonPatchOperationType)) {
+        return Result.failure(new Error(MESSAGES.ERROR.INVALID_PATCH_OPERATION(index, '`op`')));
+      }
+      if (typeof operation.path !== 'string') {
+        return Result.failure(new Error(MESSAGES.ERROR.INVALID_PATCH_OPERATION(index, '`path`')));
+      }
+      if ((operation.op === 'move' || operation.op === 'copy') && typeof operation.from !== 'string') {
+        return Result.failure(new Error(MESSAGES.ERROR.INVALID_PATCH_OPERATION(index, '`from`')));
+      }
+      if ((operation.op === 'add' || operation.op === 'replace' || operation.op === 'test') && !('value' in operation)) {
+        return Result.failure(new Error(MESSAGES.ERROR.INVALID_PATCH_OPERATION(index, '`value`')));
+      }
+    }
+
+    return Result.success(undefined);
+  },
+
+  /**
+   * JSON Patchを適用した新しい値を返す
+   * 操作は先頭から順に適用し、いずれかが失敗した場合は全体を失敗とする（元の値は変更しない）
+   */
+  apply: <T>(document: T, operations: readonly JsonPatchOperation[]): Result<T, Error> => {
+    let root: unknown = structuredClone(document);
+
+    for (const [index, operation] of operations.entries()) {
+      try {
+        root = applyOperation(root, operation);
+      } catch (error) {
+        return Result.failure(new Error(MESSAGES.ERROR.PATCH_OPERATION_FAILED(
+          index,
+          operation.op,
+          error instanceof Error ? error.message : String(error)
+        )));
+      }
+    }
+
+    return Result.success(root as T);
+  },
+
+  /**
+   * JSON Merge Patchを適用した新しい値を返す
+   * nullを指定したプロパティは削除し、配列は要素ごとではなく全体を置き換える
+   * プロトタイプを書き換えるキーを含む場合は、どの階層であっても全体を失敗とする
+   */
+  merge: <T>(target: T, patch: unknown): Result<T, Error> => {
+    const mergeValue = (current: unknown, change: unknown, tokens: readonly string[]): unknown => {
+      if (!isPlainObject(change)) {
+        return structuredClone(change);
+      }
+
+      const result: Record<string, unknown> = isPlainObject(current) ? { ...current } : {};
+      Object.entries(change).forEach(([key, value]) => {
+        if (FORBIDDEN_KEYS.includes(key)) {
+          throw new Error(MESSAGES.ERROR.PATCH_FORBIDDEN_KEY(toPointer([...tokens, key])));
+        }
+        if (value === null) {
+          delete result[key];
+        } else {
+          result[key] = mergeValue(result[key], value, [...tokens, key]);
+        }
+      });
+      return result;
+    };
+
+    try {
+      return Result.success(mergeValue(target, patch, []) as T);
+    } catch (error) {
+      return Result.failure(error instanceof Error ? error : new Error(String(error)));
+    }
+  },
+};
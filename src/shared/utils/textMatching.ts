@@ -0,0 +1,96 @@
+/**
+ * 日本語・英語混在のテキストを照合するためのユーティリティ
+ */
+
+/**
+ * 単語分割器（日本語の分かち書きにも対応）
+ */
+const wordSegmenter = new Intl.Segmenter('ja', { granularity: 'word' });
+
+/**
+ * 助詞・助動詞とみなして単語から除外するひらがなのみの語の最大長
+ */
+const MAX_FUNCTION_WORD_LENGTH = 2;
+
+export const TextMatching = {
+  /**
+   * 名前の照合用にテキストを畳み込む
+   * 全角・半角の統一（NFKC）、小文字化、空白の圧縮を行う
+   */
+  fold: (text: string): string =>
+    text
+      .normalize('NFKC')
+      .toLowerCase()
+      .replace(/\s+/g, ' ')
+      .trim(),
+
+  /**
+   * 検索用にテキストを正規化する
+   * 名前の照合用の畳み込みに加えて、ひらがなをカタカナに統一する
+   */
+  normalize: (text: string): string =>
+    TextMatching.fold(text)
+      .replace(/[ぁ-ゖ]/g, char => String.fromCharCode(char.charCodeAt(0) + 0x60)),
+
+  /**
+   * テキストを単語と区切り（記号・空白）の並びに分割する
+   * CamelCase・snake_caseの識別子は空白で区切った構成語に分割する。単語は正規化前の表記のまま返す
+   */
+  segment: (text: string): { readonly text: string; readonly isWord: boolean }[] => {
+    const separated = text
+      .normalize('NFKC')
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .replace(/[_\-]+/g, ' ');
+
+    return [...wordSegmenter.segment(separated)]
+      .map(segment => ({ text: segment.segment, isWord: segment.isWordLike ?? false }));
+  },
+
+  /**
+   * テキストを正規化済みの単語に分割する
+   * CamelCase・snake_caseの識別子は構成語に分割し、短いひらがなのみの語（助詞など）は除外する
+   */
+  tokenize: (text: string): string[] =>
+    TextMatching.segment(text)
+      .filter(segment => segment.isWord)
+      .map(segment => segment.text)
+      .filter(word => !(/^[ぁ-ゖー]+$/.test(word) && word.length <= MAX_FUNCTION_WORD_LENGTH))
+      .map(word => TextMatching.normalize(word))
+      .filter(word => word.length > 0),
+
+  /**
+   * 2つの文字列の編集距離（レーベンシュタイン距離）を求める
+   */
+  editDistance: (a: string, b: string): number => {
+    const source = [...a];
+    const target = [...b];
+    let previous = Array.from({ length: target.length + 1 }, (_, index) => index);
+
+    source.forEach((sourceChar, sourceIndex) => {
+      const current = [sourceIndex + 1];
+      target.forEach((targetChar, targetIndex) => {
+        current.push(Math.min(
+          previous[targetIndex + 1] + 1,
+          current[targetIndex] + 1,
+          previous[targetIndex] + (sourceChar === targetChar ? 0 : 1)
+        ));
+      });
+      previous = current;
+    });
+
+    return previous[target.length];
+  },
+
+  /**
+   * 単語の長さに応じて許容する誤字の数を求める
+   * 短い語は誤字を許容すると無関係な語に一致しやすいため、完全一致のみとする
+   */
+  allowedTypos: (word: string): number => {
+    const length = [...word].length;
+    if (length <= 3) {
+      return 0;
+    }
+    return length <= 6 ? 1 : 2;
+  },
+};
@@ -0,0 +1,140 @@
+#!/usr/bin/env node
+
+/**
+ * 設計書のスキーマの移行コマンド
+ *
+ * 使い方: npm run upgrade-schema -- [--dry-run] [--storage <json|sqlite|directory>]
+ *         [--data-dir <ディレクトリ>] [--workspace <ワークスペース名>] [--config <設定ファイル>]
+ * - --dry-run: 移行手順と、移行で変わるフィールド（スキーマのバージョンを含む）・機能定義と用語の差分を表示し、設計書は変更しない
+ * - --storage: 移行する保存先（省略時は DESIGN_STORAGE の設定値）
+ * - --data-dir・--workspace・--config: 移行するワークスペース（サーバーの起動時と同じ指定方法）
+ */
+
+import { parseArgs } from 'util';
+import { DesignStorage } from './infrastructure/persistence/DesignStorage.js';
+import { DesignSchema } from './infrastructure/persistence/DesignSchema.js';
+import { WorkspaceConfiguration } from './infrastructure/workspace/WorkspaceConfiguration.js';
+import { DiffDesignUseCase } from './application/usecases/DiffDesignUseCase.js';
+import { DiffMarkdownFormatter } from './presentation/formatters/DiffMarkdownFormatter.js';
+import { CONFIG } from './shared/constants/config.js';
+import { MESSAGES } from './shared/constants/messages.js';
+
+/**
+ * フィールドの値を表示用の文字列にする
+ */
+function describeValue(value: unknown): string {
+  return value === undefined ? MESSAGES.INFO.SCHEMA_FIELD_ABSENT() : JSON.stringify(value);
+}
+
+async function main() {
+  let values: {
+    'dry-run'?: boolean;
+    storage?: string;
+    'data-dir'?: string;
+    workspace?: string;
+    config?: string;
+  };
+  try {
+    ({ values } = parseArgs({
+      options: {
+        'dry-run': { type: 'boolean', default: false },
+        storage: { type: 'string' },
+        'data-dir': { type: 'string' },
+        workspace: { type: 'string' },
+        config: { type: 'string' },
+      },
+    }));
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    console.error(MESSAGES.INFO.SCHEMA_UPGRADE_USAGE());
+    process.exit(1);
+  }
+
+  const kind = values.storage ?? CONFIG.PERSISTENCE.STORAGE;
+  if (!DesignStorage.isValidKind(kind)) {
+    console.error(MESSAGES.ERROR.INVALID_STORAGE_KIND(kind));
+    process.exit(1);
+  }
+
+  const configurationResult = await WorkspaceConfiguration.load({
+    dataDirectory: values['data-dir'],
+    workspace: values.workspace,
+    configFile: values.config,
+  });
+  if (!configurationResult.success) {
+    console.error(configurationResult.error.message);
+    process.exit(1);
+  }
+
+  const storage = DesignStorage.openIn(configurationResult.value.selected.dataDirectory, kind);
+  const storedResult = await storage.backend.inspect();
+  if (!storedResult.success) {
+    console.error(storedResult.error.message);
+    process.exit(1);
+  }
+  const stored = storedResult.value;
+
+  const migrationsResult = DesignSchema.migrationsFrom(stored.schemaVersion);
+  if (!migrationsResult.success) {
+    console.error(migrationsResult.error.message);
+    process.exit(1);
+  }
+
+  const migrations = migrationsResult.value;
+  if (migrations.length === 0) {
+    console.log(MESSAGES.INFO.SCHEMA_UP_TO_DATE(storage.path, stored.schemaVersion));
+    return;
+  }
+
+  console.log(MESSAGES.INFO.SCHEMA_UPGRADE_PLAN(storage.path, stored.schemaVersion, DesignSchema.CURRENT_VERSION));
+  migrations.forEach(migration => console.log(MESSAGES.INFO.SCHEMA_MIGRATION_STEP(migration.from, migration.description)));
+
+  if (values['dry-run']) {
+    const migratedResult = DesignSchema.migrate(stored);
+    if (!migratedResult.success) {
+      console.error(migratedResult.error.message);
+      process.exit(1);
+    }
+
+    // 保存されている内容と移行後に保存される内容を比較し、変わるフィールドを表示する
+    const fieldChanges = DesignSchema.changedFields(stored.document, migratedResult.value);
+    if (fieldChanges.length > 0) {
+      console.log(MESSAGES.INFO.SCHEMA_FIELD_CHANGES_SECTION(fieldChanges.length));
+      fieldChanges.forEach(change => console.log(MESSAGES.INFO.SCHEMA_FIELD_CHANGE_ITEM(
+        change.field,
+        describeValue(change.before),
+        describeValue(change.after)
+      )));
+    }
+
+    // 移行前後の機能定義・用語の構造的な差分を表示する
+    const diffDesignUseCase = new DiffDesignUseCase(storage.featureRepository, storage.termRepository);
+    const diffResult = await diffDesignUseCase.execute({
+      baseDocument: DesignSchema.toDocument(stored.document),
+      targetDocument: DesignSchema.toDocument(migratedResult.value),
+    });
+    if (!diffResult.success) {
+      console.error(diffResult.error.message);
+      process.exit(1);
+    }
+
+    console.log(`\n${new DiffMarkdownFormatter().format(diffResult.value)}`);
+    console.log(MESSAGES.INFO.SCHEMA_DRY_RUN());
+    return;
+  }
+
+  const upgradeResult = await storage.backend.upgrade();
+  if (!upgradeResult.success) {
+    console.error(upgradeResult.error.message);
+    process.exit(1);
+  }
+
+  const { fromVersion, toVersion, backupPath } = upgradeResult.value;
+  if (backupPath !== null) {
+    console.log(MESSAGES.INFO.SCHEMA_UPGRADED(fromVersion, toVersion, backupPath));
+  } else {
+    console.log(MESSAGES.INFO.SCHEMA_UP_TO_DATE(storage.path, toVersion));
+  }
+}
+
+main();